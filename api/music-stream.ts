@@ -1,15 +1,23 @@
 /**
  * Vercel serverless function for music streaming via SSE
- * Uses Google Lyria RealTime to stream continuous AI-generated music
+ * Streams continuous music from the provider selected by MUSIC_PROVIDER (Lyria RealTime by
+ * default, or the offline synthesizer), shared with the Express server
  *
  * Key design for Vercel:
  * - Proactively closes at ~55s (before Vercel's 60s limit) with a `done` event
  * - Client-side MusicLayer auto-reconnects after `done`, creating a new invocation
- * - Each invocation is stateless — creates a fresh Lyria session
+ * - Each invocation is stateless — creates a fresh provider session
+ * - Each stream is a session with its own id (sent as the first event), bounded by the shared
+ *   music session limits; counts are per warm instance, as instances share no state
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
+import {
+  createMusicSessionRegistry,
+  getMusicSessionLimitsFromEnv,
+  type MusicSessionEndReason,
+} from '../src/utils/musicSessions.js';
+import { getMusicProvider, type MusicProvider, type MusicStream } from '../server/musicProviders.js';
 
 // Close 5s before Vercel timeout to ensure clean shutdown
 const MAX_STREAM_DURATION_MS = 55000;
@@ -18,6 +26,21 @@ const MAX_STREAM_DURATION_MS = 55000;
 const MIN_PROMPT_LENGTH = 2;
 const MAX_PROMPT_LENGTH = 1000; // Conservative limit for URL query parameter safety
 
+// End a stream that has delivered no audio for this long, so the client reconnects
+const IDLE_TIMEOUT_MS = 20000;
+
+// Each session holds the function that ends its stream
+const sessions = createMusicSessionRegistry<(reason: MusicSessionEndReason) => void>(
+  { ...getMusicSessionLimitsFromEnv(process.env), idleTimeoutMs: IDLE_TIMEOUT_MS, maxDurationMs: MAX_STREAM_DURATION_MS },
+  (record, reason) => record.data(reason)
+);
+
+function getClientId(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Handle CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -54,8 +77,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 
-  const apiKey = process.env.GOOGLE_AI_API_KEY;
-  if (!apiKey) {
+  let provider: MusicProvider;
+  try {
+    provider = getMusicProvider();
+  } catch (error) {
+    return res.status(500).json({
+      error: 'Server configuration error',
+      message: error instanceof Error ? error.message : 'Music provider is not configured',
+    });
+  }
+
+  if (provider.name === 'lyria' && !process.env.GOOGLE_AI_API_KEY) {
     console.error('GOOGLE_AI_API_KEY is not set');
     return res.status(500).json({
       error: 'Server configuration error',
@@ -63,6 +95,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   }
 
+  const clientId = getClientId(req);
+  const limitError = sessions.checkOpen(clientId);
+  if (limitError) {
+    return res.status(429).json({ error: limitError });
+  }
+
   // Set up SSE headers — including anti-buffering for proxies
   // Note: Access-Control-Allow-Origin is already set via setHeader above;
   // do NOT duplicate it here or browsers will reject the response.
@@ -76,111 +114,82 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Send an initial comment to confirm SSE connection is alive
   res.write(': connected\n\n');
 
-  console.log(`Music stream started: "${prompt.substring(0, 80)}"${vocalization ? ' [vocalization]' : ''}`);
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let session: any = null;
+  let session: MusicStream | null = null;
   let closed = false;
   let chunkCount = 0;
 
   const cleanup = () => {
     if (closed) return;
     closed = true;
-    if (session) {
-      try { session.close(); } catch { /* ignore */ }
-      session = null;
-    }
+    sessions.remove(sessionId);
+    session?.close();
+    session = null;
   };
 
-  // Proactive timeout: close cleanly before Vercel kills the function
-  const streamTimeout = setTimeout(() => {
+  // Proactive timeout (close cleanly before Vercel kills the function) or idle timeout
+  const { id: sessionId } = sessions.open(clientId, (reason) => {
     if (closed || res.writableEnded) return;
-    console.log(`Music stream: Proactive timeout at ${MAX_STREAM_DURATION_MS}ms (${chunkCount} chunks sent)`);
-    res.write(`data: ${JSON.stringify({ done: true, reason: 'timeout' })}\n\n`);
+    console.log(`Music stream: ${reason === 'max_duration' ? `Proactive timeout at ${MAX_STREAM_DURATION_MS}ms` : 'Idle timeout'} (${chunkCount} chunks sent)`);
+    res.write(`data: ${JSON.stringify({ done: true, reason: reason === 'max_duration' ? 'timeout' : reason })}\n\n`);
     res.end();
     cleanup();
-  }, MAX_STREAM_DURATION_MS);
+  });
+
+  res.write(`data: ${JSON.stringify({ sessionId, idleTimeoutMs: IDLE_TIMEOUT_MS, maxDurationMs: MAX_STREAM_DURATION_MS })}\n\n`);
+  console.log(`Music stream ${sessionId} started: "${prompt.substring(0, 80)}"${vocalization ? ' [vocalization]' : ''}`);
 
   // Clean up when client disconnects
   req.on('close', () => {
-    console.log(`Music stream: client disconnected (${chunkCount} chunks sent)`);
-    clearTimeout(streamTimeout);
+    if (!closed) console.log(`Music stream: client disconnected (${chunkCount} chunks sent)`);
     cleanup();
   });
 
   try {
-    const genai = new GoogleGenAI({
-      apiKey,
-      httpOptions: { apiVersion: 'v1alpha' },
-    });
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const client = genai as any;
+    const stream = await provider.connect({
+      onChunk: (base64Pcm) => {
+        if (closed || res.writableEnded) return;
+        sessions.touch(sessionId);
+        chunkCount++;
+        res.write(`data: ${JSON.stringify({ audio: base64Pcm })}\n\n`);
+      },
+      onError: (error) => {
+        console.error('Music stream error:', error);
+        if (!closed && !res.writableEnded) {
+          res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+          res.end();
+        }
+        cleanup();
+      },
+      onClose: () => {
+        console.log(`Music stream: ${provider.name} session closed (${chunkCount} chunks sent)`);
+        if (!closed && !res.writableEnded) {
+          res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
+          res.end();
+        }
+        cleanup();
+      },
+    }, { paced: true });
 
-    if (!client.live?.music?.connect) {
-      if (!res.writableEnded) {
-        res.write(`data: ${JSON.stringify({ error: 'Lyria RealTime API not available' })}\n\n`);
-        res.end();
-      }
-      clearTimeout(streamTimeout);
+    // The client may have gone while connecting
+    if (closed) {
+      stream.close();
       return;
     }
+    session = stream;
 
-    session = await client.live.music.connect({
-      model: 'models/lyria-realtime-exp',
-      callbacks: {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        onmessage: (message: any) => {
-          if (closed || res.writableEnded) return;
-          if (message.serverContent?.audioChunks) {
-            for (const chunk of message.serverContent.audioChunks) {
-              if (!closed && !res.writableEnded) {
-                chunkCount++;
-                res.write(`data: ${JSON.stringify({ audio: chunk.data })}\n\n`);
-              }
-            }
-          }
-        },
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        onerror: (error: any) => {
-          console.error('Music stream error:', error);
-          clearTimeout(streamTimeout);
-          if (!closed && !res.writableEnded) {
-            const msg = error instanceof Error ? error.message : String(error);
-            res.write(`data: ${JSON.stringify({ error: msg })}\n\n`);
-            res.end();
-          }
-          cleanup();
-        },
-        onclose: () => {
-          console.log(`Music stream: Lyria session closed (${chunkCount} chunks sent)`);
-          clearTimeout(streamTimeout);
-          if (!closed && !res.writableEnded) {
-            res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-            res.end();
-          }
-          cleanup();
-        },
-      },
-    });
-
-    await session.setWeightedPrompts({
-      weightedPrompts: [{ text: prompt, weight: 1.0 }],
-    });
+    await stream.setPrompt(prompt);
 
     if (vocalization) {
-      await session.setMusicGenerationConfig({
-        musicGenerationConfig: { musicGenerationMode: 'VOCALIZATION' },
-      });
+      await stream.setVocalization(true);
       console.log('Music stream: Vocalization mode enabled');
     }
 
-    await session.play();
+    await stream.play();
     console.log('Music stream: Streaming audio...');
 
     // CRITICAL: Keep the function alive while the SSE stream is open.
     // Without this, the Vercel serverless function returns after play(),
-    // and the execution context gets frozen — killing the onmessage callbacks.
+    // and the execution context gets frozen — killing the provider callbacks.
     // We block here until the stream is closed (by timeout, error, or client disconnect).
     await new Promise<void>((resolve) => {
       const checkInterval = setInterval(() => {
@@ -198,7 +207,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
   } catch (error) {
     console.error('Music stream: Failed to start:', error);
-    clearTimeout(streamTimeout);
     if (!res.writableEnded) {
       const msg = error instanceof Error ? error.message : 'Failed to start music stream';
       res.write(`data: ${JSON.stringify({ error: msg })}\n\n`);
@@ -7,9 +7,13 @@
  * EventSource and reconnecting with the new prompt, so this endpoint simply
  * returns success. When running against the Express dev server (via Vite proxy),
  * the Express route handles real in-memory session updates instead.
+ * The session id from the stream is still required, so clients use one contract for both.
+ * Nothing here touches a session, so one client cannot change another's stream through it;
+ * the Express route checks that the session belongs to the calling client.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isMusicSessionId } from '../../src/utils/musicSessions.js';
 
 export default function handler(req: VercelRequest, res: VercelResponse) {
   // Handle CORS
@@ -25,7 +29,10 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { prompt: rawPrompt } = req.body || {};
+  const { sessionId, prompt: rawPrompt } = req.body || {};
+  if (!isMusicSessionId(sessionId)) {
+    return res.status(400).json({ error: 'sessionId is required' });
+  }
   if (!rawPrompt || typeof rawPrompt !== 'string') {
     return res.status(400).json({ error: 'prompt is required' });
   }
@@ -39,7 +46,7 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   console.log(
-    `Music stream prompt update requested (serverless mode -- client will reconnect): "${prompt.substring(0, 80)}"`
+    `Music stream prompt update requested for ${sessionId} (serverless mode -- client will reconnect): "${prompt.substring(0, 80)}"`
   );
 
   return res.json({
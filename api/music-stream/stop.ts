@@ -5,10 +5,13 @@
  * in-memory Lyria session to close here. The client closing its EventSource
  * connection triggers the `req.on('close')` handler in the SSE function,
  * which cleans up the Lyria session. This endpoint returns success so the
- * client does not see errors.
+ * client does not see errors. The session id from the stream is still required,
+ * matching the Express route. Nothing here touches a session, so one client cannot
+ * stop another's stream through it; the Express route checks the session's owner.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isMusicSessionId } from '../../src/utils/musicSessions.js';
 
 export default function handler(req: VercelRequest, res: VercelResponse) {
   // Handle CORS
@@ -24,7 +27,12 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  console.log('Music stream stop requested (serverless mode -- client disconnect handles cleanup)');
+  const { sessionId } = req.body || {};
+  if (!isMusicSessionId(sessionId)) {
+    return res.status(400).json({ error: 'sessionId is required' });
+  }
+
+  console.log(`Music stream stop requested for ${sessionId} (serverless mode -- client disconnect handles cleanup)`);
 
   return res.json({ success: true });
 }
@@ -0,0 +1,124 @@
+/**
+ * Artifact Store - Processed audio files served from /output for a limited time
+ * Every artifact expires a fixed time after it is written; a periodic sweep deletes expired files,
+ * including ones left behind by a previous run of the server.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface Artifact {
+  fileName: string;
+  url: string;
+  size: number;
+  expiresAt: number;
+}
+
+export interface ArtifactStoreOptions {
+  dir: string;
+  urlPrefix: string;    // Public path the directory is served under
+  ttlMs: number;
+}
+
+export const DEFAULT_ARTIFACT_TTL_MS = 60 * 60 * 1000;
+
+export class ArtifactStore {
+  private dir: string;
+  private urlPrefix: string;
+  private ttlMs: number;
+  private artifacts = new Map<string, Artifact>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: ArtifactStoreOptions) {
+    this.dir = options.dir;
+    this.urlPrefix = options.urlPrefix.replace(/\/$/, '');
+    this.ttlMs = options.ttlMs;
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  getTtl(): number {
+    return this.ttlMs;
+  }
+
+  /**
+   * Write an artifact under a unique name (prefix-uuid.extension)
+   */
+  async save(prefix: string, extension: string, data: Buffer, now: number = Date.now()): Promise<Artifact> {
+    const fileName = `${prefix}-${crypto.randomUUID()}.${extension}`;
+    await fs.promises.writeFile(path.join(this.dir, fileName), data);
+
+    const artifact: Artifact = {
+      fileName,
+      url: `${this.urlPrefix}/${fileName}`,
+      size: data.length,
+      expiresAt: now + this.ttlMs,
+    };
+    this.artifacts.set(fileName, artifact);
+    return artifact;
+  }
+
+  /**
+   * A stored artifact, or null if it is unknown or has expired
+   */
+  get(fileName: string, now: number = Date.now()): Artifact | null {
+    const artifact = this.artifacts.get(fileName);
+    return artifact && artifact.expiresAt > now ? artifact : null;
+  }
+
+  async remove(fileName: string): Promise<void> {
+    this.artifacts.delete(fileName);
+    await fs.promises.rm(path.join(this.dir, fileName), { force: true });
+  }
+
+  /**
+   * Delete expired artifacts, and untracked files older than the TTL; returns how many were deleted
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    let removed = 0;
+
+    for (const artifact of [...this.artifacts.values()]) {
+      if (artifact.expiresAt <= now) {
+        await this.remove(artifact.fileName);
+        removed++;
+      }
+    }
+
+    const entries = await fs.promises.readdir(this.dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isFile() || this.artifacts.has(entry.name)) continue;
+      const filePath = path.join(this.dir, entry.name);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      if (stats && stats.mtimeMs + this.ttlMs <= now) {
+        await fs.promises.rm(filePath, { force: true });
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Sweep now and then at an interval (does not keep the process alive)
+   */
+  start(intervalMs: number = 60_000): void {
+    this.stop();
+    const sweep = () => {
+      this.sweep().catch((error) => console.error('Artifact sweep failed:', error));
+    };
+    sweep();
+    this.sweepTimer = setInterval(sweep, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+export function createArtifactStore(options: ArtifactStoreOptions): ArtifactStore {
+  return new ArtifactStore(options);
+}
@@ -6,7 +6,6 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs';
-import path from 'path';
 
 const execAsync = promisify(exec);
 
@@ -48,36 +47,51 @@ const DEFAULT_CONFIG: ProcessingConfig = {
   dryWetMix: 0.5,
 };
 
+/**
+ * Let other work (such as a cancel request) run between stages, then stop if aborted
+ * The analysis and generation stages are synchronous, so a signal can only take effect between them.
+ */
+async function nextStage(signal?: AbortSignal): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+  signal?.throwIfAborted();
+}
+
 /**
  * Process an audio file and generate bass track
  */
 export async function processAudioFile(
   filePath: string,
   config: Partial<ProcessingConfig> = {},
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<ProcessingResult> {
   const cfg = { ...DEFAULT_CONFIG, ...config };
+  signal?.throwIfAborted();
   
   onProgress?.({ stage: 'decode', progress: 0, message: 'Decoding audio file...' });
   
   // Read and decode audio file to raw PCM
-  const audioData = await decodeAudioFile(filePath);
+  const audioData = await decodeAudioFile(filePath, signal);
+  await nextStage(signal);
   
   onProgress?.({ stage: 'decode', progress: 100, message: 'Audio decoded' });
   onProgress?.({ stage: 'analyze', progress: 0, message: 'Analyzing audio...' });
   
   // Analyze audio for beats
   const analysis = analyzeAudio(audioData, onProgress);
+  await nextStage(signal);
   
   onProgress?.({ stage: 'generate', progress: 0, message: 'Generating bass track...' });
   
   // Generate bass track
   const bassData = generateBassTrack(audioData, analysis, cfg, onProgress);
+  await nextStage(signal);
   
   onProgress?.({ stage: 'mix', progress: 0, message: 'Mixing audio...' });
   
   // Mix bass with original
   const mixedData = mixAudio(audioData, bassData, cfg.dryWetMix!, cfg.intensity!);
+  await nextStage(signal);
   
   onProgress?.({ stage: 'encode', progress: 0, message: 'Encoding output...' });
   
@@ -121,14 +135,15 @@ interface AudioAnalysis {
 /**
  * Decode audio file to raw PCM using ffmpeg
  */
-async function decodeAudioFile(filePath: string): Promise<AudioData> {
+async function decodeAudioFile(filePath: string, signal?: AbortSignal): Promise<AudioData> {
   const tempRawFile = filePath + '.raw';
   const sampleRate = 44100;
   
   try {
     // Use ffmpeg to convert to raw PCM
     await execAsync(
-      `ffmpeg -i "${filePath}" -f f32le -acodec pcm_f32le -ar ${sampleRate} -ac 2 -y "${tempRawFile}" 2>/dev/null`
+      `ffmpeg -i "${filePath}" -f f32le -acodec pcm_f32le -ar ${sampleRate} -ac 2 -y "${tempRawFile}" 2>/dev/null`,
+      { signal }
     );
     
     // Read raw PCM data
@@ -159,6 +174,7 @@ async function decodeAudioFile(filePath: string): Promise<AudioData> {
     if (fs.existsSync(tempRawFile)) {
       fs.unlinkSync(tempRawFile);
     }
+    signal?.throwIfAborted();
     throw new Error(`Failed to decode audio: ${error}`);
   }
 }
@@ -318,7 +334,7 @@ function generateBassTrack(
   const numSamples = audioData.samples[0].length;
   const output = new Float32Array(numSamples);
   
-  const { baseFrequency, intensity, frequencyMin, frequencyMax } = config;
+  const { intensity, frequencyMin, frequencyMax } = config;
   const attackTime = 0.01;
   const decayTime = 0.15;
   const beatInterval = 60 / analysis.bpm;
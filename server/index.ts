@@ -9,10 +9,23 @@ dotenv.config({ path: '.env.local' });
 import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
-import { processAudioFile } from './audioProcessor.js';
-import { generateJourney } from './journeyGenerator.js';
+import { createArtifactStore, DEFAULT_ARTIFACT_TTL_MS } from './artifactStore.js';
+import { createProcessingQueue, isTerminalStatus, type JobEvent } from './processingJobs.js';
+import { generateJourney, refineJourney } from './journeyGenerator.js';
 import { generateMusic } from './musicGenerator.js';
-import { startMusicSession, updateMusicPrompt, stopMusicSession } from './musicStreamer.js';
+import {
+  checkMusicSessionLimit,
+  createMusicSession,
+  getMusicSessionClient,
+  getMusicSessionLimits,
+  hasActiveSession,
+  startMusicSession,
+  stopMusicSession,
+  updateMusicPrompt,
+} from './musicStreamer.js';
+import { isMusicSessionId } from '../src/utils/musicSessions.js';
+import { parseJourney } from '../src/utils/journeySchema.js';
+import type { JourneyConfig } from '../src/types/journey.js';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
@@ -79,8 +92,12 @@ app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Generate journey endpoint
+// Generate journey endpoint (or refine one, when the current journey and an instruction are sent)
 app.post('/api/generate-journey', async (req: express.Request, res: express.Response) => {
+  if (req.body.journey !== undefined || req.body.instruction !== undefined) {
+    return handleRefineJourney(req, res);
+  }
+
   const { prompt: rawPrompt, duration } = req.body;
 
   if (!rawPrompt || typeof rawPrompt !== 'string') {
@@ -119,6 +136,52 @@ app.post('/api/generate-journey', async (req: express.Request, res: express.Resp
   }
 });
 
+async function handleRefineJourney(req: express.Request, res: express.Response) {
+  const { journey: rawJourney, instruction: rawInstruction } = req.body;
+
+  if (!rawInstruction || typeof rawInstruction !== 'string') {
+    return res.status(400).json({ error: 'Instruction is required' });
+  }
+
+  const instruction = rawInstruction.trim();
+  if (instruction.length < 2) {
+    return res.status(400).json({ error: 'Instruction too short — minimum 2 characters' });
+  }
+  if (instruction.length > 2000) {
+    return res.status(400).json({ error: `Instruction too long — maximum 2000 characters (received ${instruction.length})` });
+  }
+
+  let journey: JourneyConfig;
+  try {
+    journey = parseJourney(rawJourney);
+  } catch (error) {
+    return res.status(400).json({
+      error: 'Invalid journey',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  console.log(`Refining journey "${journey.name}": "${instruction}"`);
+
+  try {
+    const result = await refineJourney({ journey, instruction });
+
+    console.log(`Journey refined: ${result.changes.length} phase change(s)`);
+
+    res.json({
+      success: true,
+      journey: result.journey,
+      changes: result.changes,
+    });
+  } catch (error) {
+    console.error('Journey refinement error:', error);
+    res.status(500).json({
+      error: 'Journey refinement failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 // Generate music endpoint (Lyria 2)
 app.post('/api/generate-music', async (req: express.Request, res: express.Response) => {
   const { prompt: rawPrompt, negativePrompt } = req.body;
@@ -162,7 +225,13 @@ app.post('/api/generate-music', async (req: express.Request, res: express.Respon
 const MIN_PROMPT_LENGTH = 2;
 const MAX_PROMPT_LENGTH = 1000;
 
+// Music sessions belong to the client (IP address) that opened them
+function getClientId(req: express.Request): string {
+  return req.ip || 'unknown';
+}
+
 // Music streaming endpoint (SSE) - continuous real-time music via Lyria RealTime
+// Each request opens its own session; the first event carries the session id for /prompt and /stop
 app.get('/api/music-stream', async (req: express.Request, res: express.Response) => {
   const prompt = (req.query.prompt as string || '').trim();
   const vocalization = req.query.vocalization === 'true';
@@ -185,6 +254,12 @@ app.get('/api/music-stream', async (req: express.Request, res: express.Response)
     });
   }
 
+  const clientId = getClientId(req);
+  const limitError = checkMusicSessionLimit(clientId);
+  if (limitError) {
+    return res.status(429).json({ error: limitError });
+  }
+
   // Set up SSE headers
   // Note: Access-Control-Allow-Origin is already set by the cors() middleware;
   // do NOT duplicate it here or browsers will reject the response.
@@ -194,50 +269,60 @@ app.get('/api/music-stream', async (req: express.Request, res: express.Response)
     'Connection': 'keep-alive',
   });
 
-  console.log(`Music stream started: "${prompt.substring(0, 80)}"${vocalization ? ' [vocalization]' : ''}`);
+  const sessionId = createMusicSession(clientId, {
+    // Forward audio data as SSE event
+    onChunk: (base64Pcm) => {
+      if (!res.writableEnded) {
+        res.write(`data: ${JSON.stringify({ audio: base64Pcm })}\n\n`);
+      }
+    },
+    onError: (error) => {
+      if (!res.writableEnded) {
+        res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+        res.end();
+      }
+    },
+    onClose: (reason) => {
+      if (!res.writableEnded) {
+        res.write(`data: ${JSON.stringify({ done: true, reason })}\n\n`);
+        res.end();
+      }
+    },
+  });
+
+  const { idleTimeoutMs, maxDurationMs } = getMusicSessionLimits();
+  res.write(`data: ${JSON.stringify({ sessionId, idleTimeoutMs, maxDurationMs })}\n\n`);
+  console.log(`Music stream ${sessionId} started: "${prompt.substring(0, 80)}"${vocalization ? ' [vocalization]' : ''}`);
+
+  // Clean up when client disconnects
+  req.on('close', () => {
+    stopMusicSession(sessionId, 'disconnected').then((stopped) => {
+      if (stopped) console.log(`Music stream ${sessionId}: client disconnected`);
+    });
+  });
 
   try {
-    await startMusicSession(
-      prompt,
-      // onChunk: forward audio data as SSE event
-      (base64Pcm) => {
-        if (!res.writableEnded) {
-          res.write(`data: ${JSON.stringify({ audio: base64Pcm })}\n\n`);
-        }
-      },
-      // onError
-      (error) => {
-        if (!res.writableEnded) {
-          res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-          res.end();
-        }
-      },
-      // onClose
-      () => {
-        if (!res.writableEnded) {
-          res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-          res.end();
-        }
-      },
-      vocalization,
-    );
+    await startMusicSession(sessionId, prompt, vocalization);
   } catch (error) {
     if (!res.writableEnded) {
       res.write(`data: ${JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to start music stream' })}\n\n`);
       res.end();
     }
   }
-
-  // Clean up when client disconnects
-  req.on('close', () => {
-    console.log('Music stream: client disconnected');
-    stopMusicSession();
-  });
 });
 
 // Update music stream prompt (for phase transitions)
 app.post('/api/music-stream/prompt', async (req: express.Request, res: express.Response) => {
-  const { prompt: rawPrompt, vocalization } = req.body;
+  const { sessionId, prompt: rawPrompt, vocalization } = req.body;
+  if (!isMusicSessionId(sessionId)) {
+    return res.status(400).json({ error: 'sessionId is required' });
+  }
+  if (!hasActiveSession(sessionId)) {
+    return res.status(404).json({ error: 'Music session not found' });
+  }
+  if (getMusicSessionClient(sessionId) !== getClientId(req)) {
+    return res.status(403).json({ error: 'Music session belongs to another client' });
+  }
   if (!rawPrompt || typeof rawPrompt !== 'string') {
     return res.status(400).json({ error: 'prompt is required' });
   }
@@ -251,7 +336,10 @@ app.post('/api/music-stream/prompt', async (req: express.Request, res: express.R
   }
 
   try {
-    await updateMusicPrompt(prompt, vocalization);
+    const updated = await updateMusicPrompt(sessionId, prompt, vocalization);
+    if (!updated) {
+      return res.status(429).json({ error: 'Too many prompt updates, try again shortly' });
+    }
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({
@@ -262,114 +350,129 @@ app.post('/api/music-stream/prompt', async (req: express.Request, res: express.R
 });
 
 // Stop music stream
-app.post('/api/music-stream/stop', async (_req: express.Request, res: express.Response) => {
-  await stopMusicSession();
-  res.json({ success: true });
+app.post('/api/music-stream/stop', async (req: express.Request, res: express.Response) => {
+  const { sessionId } = req.body ?? {};
+  if (!isMusicSessionId(sessionId)) {
+    return res.status(400).json({ error: 'sessionId is required' });
+  }
+  const owner = getMusicSessionClient(sessionId);
+  if (owner !== null && owner !== getClientId(req)) {
+    return res.status(403).json({ error: 'Music session belongs to another client' });
+  }
+  const stopped = await stopMusicSession(sessionId);
+  res.json({ success: true, stopped });
 });
 
-// Serve output files
+// Serve output files: processed audio stays available until it expires
 const outputDir = path.join(__dirname, '../output');
-if (!fs.existsSync(outputDir)) {
-  fs.mkdirSync(outputDir, { recursive: true });
-}
+const artifactStore = createArtifactStore({
+  dir: outputDir,
+  urlPrefix: '/output',
+  ttlMs: Number(process.env.ARTIFACT_TTL_MINUTES) > 0
+    ? Number(process.env.ARTIFACT_TTL_MINUTES) * 60 * 1000
+    : DEFAULT_ARTIFACT_TTL_MS,
+});
+artifactStore.start();
 app.use('/output', express.static(outputDir));
 
-// Process audio endpoint
+const processingQueue = createProcessingQueue({
+  store: artifactStore,
+  concurrency: Number(process.env.PROCESS_CONCURRENCY) || 1,
+});
+
+// Submit an audio file for processing; returns a job to poll or follow
 app.post('/api/process', handleUpload, async (req: express.Request, res: express.Response) => {
-  const startTime = Date.now();
-  
   if (!req.file) {
     return res.status(400).json({ error: 'No audio file provided' });
   }
 
+  let config = {};
+  try {
+    config = req.body.config ? JSON.parse(req.body.config) : {};
+  } catch {
+    fs.unlink(req.file.path, () => {});
+    return res.status(400).json({ error: 'config must be valid JSON' });
+  }
+
+  if (processingQueue.isFull()) {
+    fs.unlink(req.file.path, () => {});
+    return res.status(503).json({ error: 'Processing queue is full, try again later' });
+  }
+
   const fileSizeMB = req.file.size / 1024 / 1024;
-  console.log(`Processing file: ${req.file.originalname} (${fileSizeMB.toFixed(2)} MB)`);
+  const job = processingQueue.submit(req.file.path, req.file.originalname, config);
+  console.log(`Processing job ${job.id}: ${req.file.originalname} (${fileSizeMB.toFixed(2)} MB)`);
+
+  res.status(202).json({
+    jobId: job.id,
+    status: job.status,
+    queuePosition: job.queuePosition,
+    statusUrl: `/api/process/${job.id}`,
+    eventsUrl: `/api/process/${job.id}/events`,
+  });
+});
 
-  try {
-    // Parse config from request body
-    const config = req.body.config ? JSON.parse(req.body.config) : {};
-    
-    // Process the audio file
-    const result = await processAudioFile(req.file.path, config, (progress) => {
-      console.log(`Progress: ${progress.stage} - ${progress.progress.toFixed(1)}%`);
-    });
+// Job status, with result URLs once complete
+app.get('/api/process/:id', (req: express.Request, res: express.Response) => {
+  const job = processingQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  res.json(job);
+});
 
-    // Clean up uploaded file
-    fs.unlink(req.file.path, (err) => {
-      if (err) console.error('Error deleting temp file:', err);
-    });
+// Job progress as SSE: the current status, then progress and status events until the job ends
+app.get('/api/process/:id/events', (req: express.Request, res: express.Response) => {
+  const job = processingQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
 
-    const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
-    console.log(`Processing complete in ${processingTime}s`);
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
 
-    // For large files (>50MB output), save to disk and return URLs
-    const outputSizeMB = result.bassBuffer.length / 1024 / 1024;
-    
-    if (outputSizeMB > 50) {
-      // Save files to output directory
-      const timestamp = Date.now();
-      const bassFileName = `bass-${timestamp}.wav`;
-      const mixedFileName = `mixed-${timestamp}.wav`;
-      
-      fs.writeFileSync(path.join(outputDir, bassFileName), result.bassBuffer);
-      fs.writeFileSync(path.join(outputDir, mixedFileName), result.mixedBuffer);
-      
-      // Clean up old files (keep only last 10)
-      const files = fs.readdirSync(outputDir)
-        .filter(f => f.endsWith('.wav'))
-        .map(f => ({ name: f, time: fs.statSync(path.join(outputDir, f)).mtime.getTime() }))
-        .sort((a, b) => b.time - a.time);
-      
-      if (files.length > 10) {
-        files.slice(10).forEach(f => {
-          fs.unlinkSync(path.join(outputDir, f.name));
-        });
-      }
-      
-      console.log(`Large file - saved to disk: ${bassFileName}, ${mixedFileName}`);
-      
-      res.json({
-        success: true,
-        processingTime: parseFloat(processingTime),
-        analysis: result.analysis,
-        // Return URLs instead of base64 for large files
-        bassAudioUrl: `/output/${bassFileName}`,
-        mixedAudioUrl: `/output/${mixedFileName}`,
-        format: 'wav',
-        streamMode: true,
-      });
-    } else {
-      // Small files - return as base64
-      res.json({
-        success: true,
-        processingTime: parseFloat(processingTime),
-        analysis: result.analysis,
-        bassAudio: result.bassBuffer.toString('base64'),
-        mixedAudio: result.mixedBuffer.toString('base64'),
-        format: 'wav',
-        streamMode: false,
-      });
+  const send = (event: JobEvent) => {
+    if (!res.writableEnded) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
     }
+  };
 
-  } catch (error) {
-    console.error('Processing error:', error);
-    
-    // Clean up on error
-    if (req.file?.path) {
-      fs.unlink(req.file.path, () => {});
+  send({ type: 'status', job });
+  if (isTerminalStatus(job.status)) {
+    return res.end();
+  }
+
+  const unsubscribe = processingQueue.subscribe(job.id, (event) => {
+    send(event);
+    if (event.type === 'status' && isTerminalStatus(event.job.status)) {
+      res.end();
     }
-    
-    res.status(500).json({ 
-      error: 'Audio processing failed', 
-      message: error instanceof Error ? error.message : 'Unknown error' 
-    });
+  });
+
+  // Clean up when client disconnects
+  req.on('close', () => {
+    unsubscribe?.();
+  });
+});
+
+// Cancel a queued or running job
+app.post('/api/process/:id/cancel', (req: express.Request, res: express.Response) => {
+  const job = processingQueue.cancel(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
   }
+  res.json(job);
 });
 
 // Start server
 app.listen(PORT, () => {
   console.log(`🎵 Sonic Journey Server running on http://localhost:${PORT}`);
-  console.log(`   POST /api/process - Upload and process audio`);
-  console.log(`   POST /api/generate-journey - Generate journey from prompt`);
+  console.log(`   POST /api/process - Upload audio and queue a processing job`);
+  console.log(`   GET /api/process/:id - Processing job status (/events for SSE progress)`);
+  console.log(`   POST /api/generate-journey - Generate journey from prompt, or refine one with an instruction`);
   console.log(`   GET /api/health - Health check`);
+  console.log(`   Providers: journeys=${process.env.JOURNEY_PROVIDER || 'openai'}, music=${process.env.MUSIC_PROVIDER || 'lyria'}`);
 });
@@ -1,28 +1,37 @@
 /**
- * AI Journey Generator - Uses OpenAI GPT to generate vibroacoustic journeys
- * from natural language prompts
+ * AI Journey Generator - Uses the journey provider (OpenAI GPT, or rule-based offline) to generate
+ * vibroacoustic journeys from natural language prompts
  */
 
-import OpenAI from 'openai';
-import type { JourneyConfig, PhaseConfig, RhythmMode, NovaPattern } from '../src/types/journey';
-import { DEFAULT_LAYERS, DEFAULT_SAFETY } from '../src/types/journey';
-
-let openai: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openai;
-}
+import {
+  DEFAULT_LAYERS,
+  type EntrainmentMode,
+  type JourneyConfig,
+  type LayerConfig,
+  type NovaPattern,
+  type PhaseConfig,
+  type RhythmMode,
+} from '../src/types/journey.js';
+import { JOURNEY_SCHEMA_VERSION, migrateJourney, parseJourney, validateJourney, formatJourneyErrors } from '../src/utils/journeySchema.js';
+import { makeNovaPatternSafe } from '../src/audio/NovaSafety.js';
+import { alignPhases, diffJourneyPhases, diffPhaseFields, type PhaseChange } from '../src/utils/journeyDiff.js';
+import { getJourneyProvider } from './journeyProviders.js';
 
 export interface GenerationRequest {
   prompt: string;
   duration: number; // in minutes
 }
 
+export interface RefinementRequest {
+  journey: JourneyConfig;   // Current journey (migrated and validated again before refining)
+  instruction: string;      // Follow-up such as "make the middle deeper"
+}
+
+export interface RefinementResult {
+  journey: JourneyConfig;   // Refined journey; only what the refinement changed is normalized
+  changes: PhaseChange[];   // Phases that differ from the current journey
+}
+
 /**
  * Generate a journey configuration from a user prompt
  */
@@ -34,35 +43,53 @@ export async function generateJourney(
   const systemPrompt = createSystemPrompt();
   const userPrompt = createUserPrompt(prompt, duration);
 
-  try {
-    const completion = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o', // Using GPT-4o (latest available)
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.7,
-      response_format: { type: 'json_object' },
-      max_tokens: 2000,
-    });
-
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error('No response from OpenAI');
-    }
+  const provider = getJourneyProvider();
 
-    const parsed = JSON.parse(responseContent);
+  try {
+    const parsed = await provider.generate({ prompt, duration, systemPrompt, userPrompt });
     const journey = validateAndNormalizeJourney(parsed, duration);
 
     return journey;
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error(`Journey provider (${provider.name}) error:`, error);
     throw new Error(
       `Failed to generate journey: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   }
 }
 
+/**
+ * Refine an existing journey from a follow-up instruction
+ * The provider sees the journey exactly as the user has it, and the diff is taken against it.
+ */
+export async function refineJourney(
+  request: RefinementRequest
+): Promise<RefinementResult> {
+  const { instruction } = request;
+  const current = parseJourney(request.journey);
+  const duration = current.duration_minutes;
+
+  const provider = getJourneyProvider();
+
+  try {
+    const parsed = await provider.generate({
+      prompt: instruction,
+      duration,
+      journey: current,
+      systemPrompt: createRefineSystemPrompt(),
+      userPrompt: createRefineUserPrompt(current, instruction),
+    });
+    const journey = normalizeRefinedJourney(current, parsed);
+
+    return { journey, changes: diffJourneyPhases(current, journey) };
+  } catch (error) {
+    console.error(`Journey provider (${provider.name}) refinement error:`, error);
+    throw new Error(
+      `Failed to refine journey: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 /**
  * Create the system prompt with instructions and examples
  */
@@ -119,7 +146,15 @@ Nova pattern guidelines:
 - Use "wave" for meditative states (theta, delta)
 - Use "burst" for activation/focus phases (beta)
 - Use "steady" for simple entrainment
-- Base frequency should match entrainment: delta=3Hz, theta=6Hz, alpha=10Hz, beta=15Hz
+- Base frequency should match entrainment: delta=3Hz, theta=6Hz, alpha=10Hz, beta=14Hz
+- Never flicker between 15 and 25 Hz (photosensitive seizure risk) - keep beta patterns at or below 14 Hz, and do not sweep through that range
+
+ISOCHRONIC TONES:
+Isochronic tones pulse a single tone on and off, so they entrain through speakers without headphones:
+- Enable them (and disable binaural beats) when the listener mentions speakers, no headphones, a room or a group
+- "isochronic_pulse_rate" should match the entrainment: delta=3Hz, theta=6Hz, alpha=10Hz, beta=15Hz, gamma=40Hz
+- "isochronic_pulse_shape": "sine" (gentlest, for sleep and delta), "soft" (default), "square" (crisp, for focus)
+- Duty cycle 0.3-0.6, carrier 150-400 Hz, volume 0.2-0.4
 
 OUTPUT FORMAT:
 Return a JSON object with this exact structure:
@@ -156,7 +191,13 @@ Return a JSON object with this exact structure:
         "burstGap": <ms gap for burst>
       },
       "binaural_enabled": true,
-      "binaural_beat_frequency": <Hz matching entrainment>
+      "binaural_beat_frequency": <Hz matching entrainment>,
+      "isochronic_enabled": <true for speaker listening>,
+      "isochronic_pulse_rate": <Hz matching entrainment>,
+      "isochronic_duty_cycle": <0.3-0.6>,
+      "isochronic_carrier_frequency": <150-400 Hz>,
+      "isochronic_volume": <0.2-0.4>,
+      "isochronic_pulse_shape": "sine" | "soft" | "square"
     }
   ]
 }
@@ -169,7 +210,8 @@ IMPORTANT:
 - Create smooth transitions between phases
 - Include nova_pattern for each phase to create dynamic light experiences
 - Match nova_pattern type to phase purpose (sweep for transitions, wave for meditation, burst for activation)
-- Include binaural_enabled and binaural_beat_frequency matching the entrainment for enhanced neural synchronization`;
+- Include binaural_enabled and binaural_beat_frequency matching the entrainment for enhanced neural synchronization
+- For speaker listening, use isochronic tones instead of binaural beats`;
 }
 
 /**
@@ -190,6 +232,37 @@ Requirements:
 Return the journey configuration as JSON.`;
 }
 
+/**
+ * Create the system prompt for refinements: the generation guidelines plus editing rules
+ */
+function createRefineSystemPrompt(): string {
+  return `${createSystemPrompt()}
+
+REFINING AN EXISTING JOURNEY:
+You will be given a journey as JSON and an instruction for changing it.
+- Return the complete journey in the same format, with the instruction applied
+- Change only what the instruction asks for; copy every other phase and field exactly as given
+- Keep phase names unless the instruction renames, adds or removes phases
+- "Deeper" means lower frequencies and slower entrainment; "lighter" or "brighter" means the opposite
+- "The middle" means the phases between the first and the last; "the end" means the last phase
+- Keep the total duration unchanged unless told otherwise`;
+}
+
+/**
+ * Create the user prompt for a refinement from the current journey and the instruction
+ */
+function createRefineUserPrompt(journey: JourneyConfig, instruction: string): string {
+  return `Here is the current journey:
+
+${JSON.stringify(journey, null, 2)}
+
+Apply this change:
+
+"${instruction}"
+
+Return the refined journey configuration as JSON.`;
+}
+
 /**
  * Generate a Nova pattern based on rhythm mode if not provided
  */
@@ -330,10 +403,59 @@ function getBinauralFrequency(rhythmMode: RhythmMode, entrainmentRate?: number):
   }
 }
 
+/**
+ * Normalize the optional isochronic tone settings of a generated phase
+ * Without a pulse rate the tones follow the phase's entrainment target at render time.
+ */
+function normalizeIsochronic(phase: Partial<PhaseConfig>): Partial<PhaseConfig> {
+  if (phase.isochronic_enabled !== true) return {};
+
+  const shape = phase.isochronic_pulse_shape;
+  return {
+    isochronic_enabled: true,
+    isochronic_pulse_rate: phase.isochronic_pulse_rate ?
+      Math.max(1, Math.min(50, phase.isochronic_pulse_rate)) : undefined,
+    isochronic_duty_cycle: Math.max(0.2, Math.min(0.8, phase.isochronic_duty_cycle || 0.5)),
+    isochronic_carrier_frequency: Math.max(100, Math.min(1000, phase.isochronic_carrier_frequency || 200)),
+    isochronic_volume: Math.max(0.1, Math.min(0.8, phase.isochronic_volume ?? 0.3)),
+    isochronic_pulse_shape: shape && ['sine', 'soft', 'square'].includes(shape) ? shape : 'soft',
+  };
+}
+
+// Phase fields validateAndNormalizeJourney sets; a changed one takes the normalized value (or is dropped)
+const NORMALIZED_PHASE_FIELDS = new Set<keyof PhaseConfig>([
+  'name', 'duration', 'frequency', 'amplitude', 'breath_cycle_sec', 'fm_depth', 'rhythm_mode',
+  'entrainment_mode', 'entrainment_rate', 'nova_enabled', 'nova_pattern', 'binaural_enabled',
+  'binaural_beat_frequency', 'binaural_carrier_frequency', 'isochronic_enabled', 'isochronic_pulse_rate',
+  'isochronic_duty_cycle', 'isochronic_carrier_frequency', 'isochronic_volume', 'isochronic_pulse_shape',
+]);
+
+/**
+ * Entrainment target of a generated phase: the one it asks for, else the one its rhythm implies
+ * ('still' has no pulse to entrain to)
+ */
+function normalizeEntrainmentMode(requested: unknown, rhythmMode: RhythmMode): EntrainmentMode {
+  const validModes: EntrainmentMode[] = ['none', 'breathing', 'heartbeat', 'delta', 'theta', 'alpha', 'beta', 'gamma'];
+  if (validModes.includes(requested as EntrainmentMode)) return requested as EntrainmentMode;
+  return rhythmMode === 'still' ? 'none' : rhythmMode;
+}
+
+/**
+ * Keep only the known layer switches, falling back to the defaults for missing or invalid ones
+ */
+function normalizeLayers(layers: unknown): LayerConfig {
+  const source = layers && typeof layers === 'object' ? layers as Record<string, unknown> : {};
+  const normalized = { ...DEFAULT_LAYERS };
+  for (const key of Object.keys(DEFAULT_LAYERS) as (keyof LayerConfig)[]) {
+    if (typeof source[key] === 'boolean') normalized[key] = source[key] as boolean;
+  }
+  return normalized;
+}
+
 /**
  * Validate and normalize the generated journey config
  */
-function validateAndNormalizeJourney(
+export function validateAndNormalizeJourney(
   parsed: any,
   requestedDuration: number
 ): JourneyConfig {
@@ -342,15 +464,14 @@ function validateAndNormalizeJourney(
     throw new Error('Invalid journey structure from AI');
   }
 
+  // Bring legacy fields (start_min/end_min, partial safety) up to the current schema
+  parsed = migrateJourney(parsed);
+
   const totalPhases = parsed.phases.length;
 
   // Normalize phases
   const phases: PhaseConfig[] = parsed.phases.map((phase: any, index: number) => {
-    // Calculate duration from start/end or use duration field
     let duration = phase.duration;
-    if (phase.start_min !== undefined && phase.end_min !== undefined) {
-      duration = phase.end_min - phase.start_min;
-    }
     if (!duration || duration <= 0) {
       duration = 15; // Default
     }
@@ -416,13 +537,14 @@ function validateAndNormalizeJourney(
       breath_cycle_sec: Math.max(8, Math.min(24, phase.breath_cycle_sec || 12)),
       fm_depth: Math.max(0, Math.min(0.2, phase.fm_depth || 0.1)),
       rhythm_mode: rhythmMode,
-      entrainment_mode: phase.entrainment_mode || rhythmMode || 'breathing',
+      entrainment_mode: normalizeEntrainmentMode(phase.entrainment_mode, rhythmMode),
       entrainment_rate: entrainmentRate,
       nova_enabled: phase.nova_enabled !== false,
       nova_pattern: novaPattern,
       binaural_enabled: phase.binaural_enabled !== false,
       binaural_beat_frequency: binauralFreq,
-      binaural_carrier_frequency: phase.binaural_carrier_frequency || 200,
+      binaural_carrier_frequency: Math.max(20, Math.min(2000, phase.binaural_carrier_frequency || 200)),
+      ...normalizeIsochronic(phase),
     };
   });
 
@@ -454,14 +576,106 @@ function validateAndNormalizeJourney(
     throw new Error(`Phase durations don't match requested duration: ${finalTotal} vs ${requestedDuration}`);
   }
 
-  return {
+  // Photosensitive safety: clamp Nova patterns to the default policy and keep them out of the
+  // risk band, since generated journeys carry no user consent (checked once durations are final)
+  phases.forEach((phase, index) => {
+    if (!phase.nova_pattern) return;
+    const durationMs = phase.duration * 60000;
+    const safe = makeNovaPatternSafe(phase.nova_pattern, durationMs)
+      ?? makeNovaPatternSafe(generateNovaPattern(phase.rhythm_mode ?? 'breathing', undefined, index, totalPhases), durationMs);
+    if (safe) {
+      phase.nova_pattern = safe;
+    } else {
+      delete phase.nova_pattern;
+    }
+  });
+
+  const journey: JourneyConfig = {
+    schema_version: JOURNEY_SCHEMA_VERSION,
     name: parsed.name || 'Generated Journey',
     description: parsed.description || `A ${requestedDuration}-minute therapeutic journey`,
     duration_minutes: requestedDuration,
-    sample_rate: parsed.sample_rate || 48000,
-    layers: parsed.layers || DEFAULT_LAYERS,
-    safety: parsed.safety || DEFAULT_SAFETY,
+    sample_rate: parsed.sample_rate,
+    layers: normalizeLayers(parsed.layers),
+    safety: parsed.safety,
     nova_enabled: parsed.nova_enabled !== false, // Enable Nova by default
     phases,
   };
+
+  const errors = validateJourney(journey);
+  if (errors.length > 0) {
+    throw new Error(`Generated journey failed validation: ${formatJourneyErrors(errors)}`);
+  }
+
+  return journey;
+}
+
+/**
+ * Normalize a refined journey from the provider against the journey it refines
+ * Phases are matched the way the diff matches them. Fields the model echoed unchanged or left out keep
+ * the user's values, including ones the normalization would clamp or drop (melody, automation, monaural
+ * settings...); only fields it changed, and phases it added, take normalized values. Journey-level
+ * settings stay as they are and the duration follows the phases.
+ */
+export function normalizeRefinedJourney(current: JourneyConfig, parsed: unknown): JourneyConfig {
+  const candidate = parsed as Partial<JourneyConfig> | null;
+  if (!candidate?.name || !Array.isArray(candidate.phases)) {
+    throw new Error('Invalid journey structure from AI');
+  }
+
+  const raw = migrateJourney(parsed) as JourneyConfig;
+  // Normalize at the model's own total so changed durations are only clamped, never rescaled
+  const rawTotal = raw.phases.reduce((sum, phase) => sum + (Number(phase?.duration) || 0), 0);
+  const normalized = validateAndNormalizeJourney(parsed, rawTotal > 0 ? rawTotal : current.duration_minutes);
+
+  const phases: PhaseConfig[] = [];
+  const origins: (number | undefined)[] = [];
+  for (const { original, refined } of alignPhases(current.phases, raw.phases)) {
+    if (refined === undefined) continue;
+    const proposed = normalized.phases[refined];
+    origins.push(original);
+    if (original === undefined) {
+      phases.push(proposed);
+      continue;
+    }
+
+    const phase = { ...current.phases[original] } as Record<string, unknown>;
+    for (const { field, after } of diffPhaseFields(current.phases[original], raw.phases[refined])) {
+      if (after === undefined) continue;
+      const value = NORMALIZED_PHASE_FIELDS.has(field) ? proposed[field] : after;
+      if (value === undefined) {
+        delete phase[field];
+      } else {
+        phase[field] = value;
+      }
+    }
+    phases.push(phase as unknown as PhaseConfig);
+  }
+
+  const journey: JourneyConfig = {
+    ...current,
+    phases,
+    duration_minutes: phases.reduce((sum, phase) => sum + phase.duration, 0),
+  };
+
+  // Other changed fields come straight from the model; the ones the schema rejects keep the user's value
+  for (const error of validateJourney(journey)) {
+    const match = /^phases\[(\d+)\]\.(\w+)/.exec(error.path);
+    const index = match ? Number(match[1]) : -1;
+    const origin = origins[index];
+    if (origin === undefined) continue;
+    const field = match![2] as keyof PhaseConfig;
+    const phase = phases[index] as unknown as Record<string, unknown>;
+    if (current.phases[origin][field] === undefined) {
+      delete phase[field];
+    } else {
+      phase[field] = current.phases[origin][field];
+    }
+  }
+
+  const errors = validateJourney(journey);
+  if (errors.length > 0) {
+    throw new Error(`Refined journey failed validation: ${formatJourneyErrors(errors)}`);
+  }
+  return journey;
 }
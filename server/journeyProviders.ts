@@ -0,0 +1,85 @@
+/**
+ * Journey Providers - Pluggable source of raw journeys for the journey generator
+ * OpenAI by default; JOURNEY_PROVIDER=local selects the rule-based offline builder. Providers return
+ * unvalidated journey JSON, which journeyGenerator normalizes and validates the same way for both.
+ */
+
+import OpenAI from 'openai';
+import type { JourneyConfig } from '../src/types/journey.js';
+import { buildOfflineJourney, refineOfflineJourney } from '../src/utils/offlineJourney.js';
+
+export type JourneyProviderName = 'openai' | 'local';
+
+export interface JourneyProviderRequest {
+  prompt: string;         // Description, or the instruction when refining
+  duration: number;       // Minutes
+  journey?: JourneyConfig; // Journey to refine
+  systemPrompt: string;   // Instructions for language-model providers
+  userPrompt: string;
+}
+
+export interface JourneyProvider {
+  name: JourneyProviderName;
+  generate(request: JourneyProviderRequest): Promise<unknown>;
+}
+
+export class OpenAIJourneyProvider implements JourneyProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  async generate(request: JourneyProviderRequest): Promise<unknown> {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    }
+
+    const completion = await this.client.chat.completions.create({
+      model: 'gpt-4o', // Using GPT-4o (latest available)
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      // Refinements echo the whole journey back and should leave untouched phases as they were
+      temperature: request.journey ? 0.3 : 0.7,
+      response_format: { type: 'json_object' },
+      max_tokens: request.journey ? 4000 : 2000,
+    });
+
+    const responseContent = completion.choices[0]?.message?.content;
+    if (!responseContent) {
+      throw new Error('No response from OpenAI');
+    }
+    return JSON.parse(responseContent);
+  }
+}
+
+export class LocalJourneyProvider implements JourneyProvider {
+  readonly name = 'local' as const;
+
+  async generate(request: JourneyProviderRequest): Promise<unknown> {
+    if (request.journey) {
+      return refineOfflineJourney(request.journey, request.prompt);
+    }
+    return buildOfflineJourney(request.prompt, request.duration);
+  }
+}
+
+const providers = new Map<JourneyProviderName, JourneyProvider>();
+
+/**
+ * The journey provider selected by JOURNEY_PROVIDER (openai or local; default openai)
+ */
+export function getJourneyProvider(): JourneyProvider {
+  const configured = (process.env.JOURNEY_PROVIDER || 'openai').toLowerCase();
+  if (configured !== 'openai' && configured !== 'local') {
+    throw new Error(`Unknown JOURNEY_PROVIDER "${configured}" (expected openai or local)`);
+  }
+
+  let provider = providers.get(configured);
+  if (!provider) {
+    provider = configured === 'local' ? new LocalJourneyProvider() : new OpenAIJourneyProvider();
+    providers.set(configured, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,210 @@
+/**
+ * Local Music - Offline stand-in for Lyria: a deterministic pad/drone synthesizer
+ * The prompt picks a chord (low and minor for sleep or grief, brighter for focus or energy), and
+ * prompt changes glide to the new chord. Output matches Lyria's framing: base64 16-bit LE stereo PCM.
+ */
+
+import type { MusicConnectOptions, MusicProvider, MusicStream, MusicStreamCallbacks } from './musicProviders.js';
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const CHUNK_SECONDS = 0.5;
+const LEAD_CHUNKS = 4;          // Sent at once when a paced stream starts, so playback has a buffer
+const GLIDE_SECONDS = 2;        // Time constant of chord changes
+const MASTER_GAIN = 0.22;
+
+const ROOTS: { keywords: string[]; hz: number }[] = [
+  { keywords: ['sleep', 'deep', 'delta', 'ground', 'night', 'insomnia'], hz: 55 },     // A1
+  { keywords: ['calm', 'relax', 'anxi', 'stress', 'theta', 'meditat', 'grief'], hz: 65.41 }, // C2
+  { keywords: ['focus', 'study', 'clarity', 'alpha', 'flow', 'creativ'], hz: 73.42 }, // D2
+  { keywords: ['energ', 'uplift', 'morning', 'wake', 'beta', 'gamma', 'motivat'], hz: 82.41 }, // E2
+];
+
+const MINOR_KEYWORDS = ['sleep', 'night', 'dark', 'grief', 'sad', 'melanchol', 'rain'];
+
+interface Voice {
+  frequency: number;
+  target: number;
+  phase: number;
+  gain: number;
+  pan: number;          // -1 (left) to 1 (right)
+  lfoRate: number;      // Hz of the slow swell
+  lfoOffset: number;
+}
+
+function hashPrompt(prompt: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Chord frequencies for a prompt: root, fifth, octave and third above the octave
+ */
+export function chordForPrompt(prompt: string): number[] {
+  const text = prompt.toLowerCase();
+  const match = ROOTS.find((root) => root.keywords.some((keyword) => text.includes(keyword)));
+  const root = match ? match.hz : ROOTS[hashPrompt(text) % ROOTS.length].hz;
+  const third = MINOR_KEYWORDS.some((keyword) => text.includes(keyword)) ? 6 / 5 : 5 / 4;
+  return [root, root * 1.5, root * 2, root * 2 * third];
+}
+
+export class LocalMusicSynth {
+  private voices: Voice[];
+  private vocal: Voice;
+  private vocalLevel = 0;
+  private vocalization = false;
+  private frame = 0;
+  private glide = 1 - Math.exp(-1 / (GLIDE_SECONDS * SAMPLE_RATE));
+
+  constructor(prompt: string) {
+    const chord = chordForPrompt(prompt);
+    this.voices = chord.map((hz, i) => ({
+      frequency: hz,
+      target: hz,
+      phase: 0,
+      gain: [0.5, 0.3, 0.25, 0.18][i],
+      pan: [0, -0.5, 0.5, 0.2][i],
+      lfoRate: [0.05, 0.07, 0.06, 0.09][i],
+      lfoOffset: i * 1.3,
+    }));
+    this.vocal = { frequency: chord[2] * 2, target: chord[2] * 2, phase: 0, gain: 0.12, pan: -0.2, lfoRate: 0.11, lfoOffset: 0 };
+  }
+
+  setPrompt(prompt: string): void {
+    chordForPrompt(prompt).forEach((hz, i) => {
+      this.voices[i].target = hz;
+    });
+    this.vocal.target = this.voices[2].target * 2;
+  }
+
+  setVocalization(enabled: boolean): void {
+    this.vocalization = enabled;
+  }
+
+  /**
+   * Render frames as interleaved 16-bit little-endian stereo PCM
+   */
+  render(frames: number): Buffer {
+    const output = Buffer.alloc(frames * CHANNELS * 2);
+    const vocalStep = 1 / (0.5 * SAMPLE_RATE);
+
+    for (let i = 0; i < frames; i++) {
+      const time = this.frame / SAMPLE_RATE;
+      let left = 0;
+      let right = 0;
+
+      for (const voice of this.voices) {
+        const value = this.advance(voice, 1) * voice.gain * (0.7 + 0.3 * Math.sin(2 * Math.PI * voice.lfoRate * time + voice.lfoOffset));
+        left += value * (1 - voice.pan) * 0.5;
+        right += value * (1 + voice.pan) * 0.5;
+      }
+
+      // Wordless "ooh" an octave above the chord, faded in and out over half a second
+      this.vocalLevel = this.vocalization ? Math.min(1, this.vocalLevel + vocalStep) : Math.max(0, this.vocalLevel - vocalStep);
+      if (this.vocalLevel > 0) {
+        const vibrato = 1 + 0.006 * Math.sin(2 * Math.PI * 5 * time);
+        const value = this.advance(this.vocal, vibrato) * this.vocal.gain * this.vocalLevel;
+        left += value * (1 - this.vocal.pan) * 0.5;
+        right += value * (1 + this.vocal.pan) * 0.5;
+      }
+
+      const offset = i * CHANNELS * 2;
+      output.writeInt16LE(Math.round(Math.tanh(left * MASTER_GAIN * 2) * 32767), offset);
+      output.writeInt16LE(Math.round(Math.tanh(right * MASTER_GAIN * 2) * 32767), offset + 2);
+      this.frame++;
+    }
+    return output;
+  }
+
+  renderChunk(): string {
+    return this.render(Math.round(CHUNK_SECONDS * SAMPLE_RATE)).toString('base64');
+  }
+
+  // Step a voice one sample: glide towards its target, return a soft tone (fundamental plus a little second harmonic)
+  private advance(voice: Voice, vibrato: number): number {
+    voice.frequency += (voice.target - voice.frequency) * this.glide;
+    voice.phase += (2 * Math.PI * voice.frequency * vibrato) / SAMPLE_RATE;
+    if (voice.phase > 2 * Math.PI) voice.phase -= 2 * Math.PI;
+    return Math.sin(voice.phase) + 0.25 * Math.sin(2 * voice.phase);
+  }
+}
+
+class LocalMusicStream implements MusicStream {
+  private callbacks: MusicStreamCallbacks;
+  private paced: boolean;
+  private synth: LocalMusicSynth | null = null;
+  private vocalization = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(callbacks: MusicStreamCallbacks, options: MusicConnectOptions) {
+    this.callbacks = callbacks;
+    this.paced = options.paced !== false;
+  }
+
+  async setPrompt(prompt: string): Promise<void> {
+    if (this.synth) {
+      this.synth.setPrompt(prompt);
+    } else {
+      this.synth = new LocalMusicSynth(prompt);
+      this.synth.setVocalization(this.vocalization);
+    }
+  }
+
+  async setVocalization(enabled: boolean): Promise<void> {
+    this.vocalization = enabled;
+    this.synth?.setVocalization(enabled);
+  }
+
+  async play(): Promise<void> {
+    if (!this.synth) {
+      throw new Error('Set a prompt before playing');
+    }
+    if (this.timer || this.closed) return;
+
+    const send = () => {
+      if (!this.closed && this.synth) this.callbacks.onChunk(this.synth.renderChunk());
+    };
+
+    if (this.paced) {
+      this.timer = setTimeout(() => {
+        for (let i = 0; i < LEAD_CHUNKS; i++) send();
+        this.timer = setInterval(send, CHUNK_SECONDS * 1000);
+      }, 0);
+    } else {
+      // As fast as possible, yielding between chunks so the listener can close the stream
+      const loop = () => {
+        send();
+        if (!this.closed) this.timer = setTimeout(loop, 0);
+      };
+      this.timer = setTimeout(loop, 0);
+    }
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.callbacks.onClose();
+  }
+}
+
+export class LocalMusicProvider implements MusicProvider {
+  readonly name = 'local' as const;
+
+  async connect(callbacks: MusicStreamCallbacks, options: MusicConnectOptions = {}): Promise<MusicStream> {
+    return new LocalMusicStream(callbacks, options);
+  }
+}
+
+export function createLocalMusicProvider(): LocalMusicProvider {
+  return new LocalMusicProvider();
+}
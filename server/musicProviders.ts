@@ -0,0 +1,131 @@
+/**
+ * Music Providers - Pluggable source of streamed music for the streamer and the clip generator
+ * Lyria RealTime by default; MUSIC_PROVIDER=local selects the offline synthesizer in localMusic.
+ * Every provider delivers base64 16-bit little-endian stereo PCM at 48 kHz, the framing MusicLayer plays.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { createLocalMusicProvider } from './localMusic.js';
+
+export const MUSIC_SAMPLE_RATE = 48000;
+export const MUSIC_CHANNELS = 2;
+
+export type MusicProviderName = 'lyria' | 'local';
+
+export interface MusicStreamCallbacks {
+  onChunk: (base64Pcm: string) => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+}
+
+export interface MusicConnectOptions {
+  // Deliver audio at playback speed (streams) or as fast as possible (clips);
+  // providers that can only stream in real time ignore it
+  paced?: boolean;
+}
+
+export interface MusicStream {
+  setPrompt(prompt: string): Promise<void>;
+  setVocalization(enabled: boolean): Promise<void>;
+  play(): Promise<void>;
+  close(): void;
+}
+
+export interface MusicProvider {
+  name: MusicProviderName;
+  connect(callbacks: MusicStreamCallbacks, options?: MusicConnectOptions): Promise<MusicStream>;
+}
+
+let genai: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+  if (!genai) {
+    // Read env var lazily (not at module level) to avoid ES module hoisting issues
+    const apiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        'GOOGLE_AI_API_KEY environment variable is not set. ' +
+        'Get a free API key from https://ai.google.dev/ or set MUSIC_PROVIDER=local to work offline'
+      );
+    }
+    genai = new GoogleGenAI({
+      apiKey,
+      httpOptions: { apiVersion: 'v1alpha' },
+    });
+  }
+  return genai;
+}
+
+/**
+ * Google Lyria RealTime over the Gemini live music API
+ */
+export class LyriaMusicProvider implements MusicProvider {
+  readonly name = 'lyria' as const;
+
+  async connect(callbacks: MusicStreamCallbacks): Promise<MusicStream> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const c = getClient() as any;
+    if (!c.live?.music?.connect) {
+      throw new Error('Lyria RealTime API not available — @google/genai version may be too old');
+    }
+
+    const session = await c.live.music.connect({
+      model: 'models/lyria-realtime-exp',
+      callbacks: {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        onmessage: (message: any) => {
+          if (message.serverContent?.audioChunks) {
+            for (const chunk of message.serverContent.audioChunks) {
+              callbacks.onChunk(chunk.data);
+            }
+          }
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        onerror: (error: any) => {
+          callbacks.onError(error instanceof Error ? error : new Error(String(error)));
+        },
+        onclose: () => callbacks.onClose(),
+      },
+    });
+
+    return {
+      setPrompt: async (prompt) => {
+        await session.setWeightedPrompts({
+          weightedPrompts: [{ text: prompt, weight: 1.0 }],
+        });
+      },
+      setVocalization: async (enabled) => {
+        await session.setMusicGenerationConfig({
+          musicGenerationConfig: { musicGenerationMode: enabled ? 'VOCALIZATION' : 'QUALITY' },
+        });
+      },
+      play: async () => {
+        await session.play();
+      },
+      close: () => {
+        try {
+          session.close();
+        } catch { /* ignore */ }
+      },
+    };
+  }
+}
+
+const providers = new Map<MusicProviderName, MusicProvider>();
+
+/**
+ * The music provider selected by MUSIC_PROVIDER (lyria or local; default lyria)
+ */
+export function getMusicProvider(): MusicProvider {
+  const configured = (process.env.MUSIC_PROVIDER || 'lyria').toLowerCase();
+  if (configured !== 'lyria' && configured !== 'local') {
+    throw new Error(`Unknown MUSIC_PROVIDER "${configured}" (expected lyria or local)`);
+  }
+
+  let provider = providers.get(configured);
+  if (!provider) {
+    provider = configured === 'local' ? createLocalMusicProvider() : new LyriaMusicProvider();
+    providers.set(configured, provider);
+  }
+  return provider;
+}
@@ -1,170 +1,176 @@
 /**
- * Music Streamer - Manages Lyria RealTime sessions for continuous music streaming
- * Maintains a single active session that streams audio via SSE
+ * Music Streamer - Manages music provider sessions (Lyria RealTime or local) for continuous streaming
+ * One session per listener, each streaming audio via its own SSE response; sessions are identified
+ * by the id sent at the start of the stream and bounded by the limits in musicSessions.
  */
 
-import { GoogleGenAI } from '@google/genai';
+import {
+  createMusicSessionRegistry,
+  getMusicSessionLimitsFromEnv,
+  type MusicSessionEndReason,
+  type MusicSessionLimits,
+} from '../src/utils/musicSessions.js';
+import { getMusicProvider, type MusicStream } from './musicProviders.js';
+
+export interface MusicSessionHandlers {
+  onChunk: (base64Pcm: string) => void;
+  onError: (error: Error) => void;
+  onClose: (reason: MusicSessionEndReason) => void;
+}
 
-let genai: GoogleGenAI | null = null;
+export interface MusicSession {
+  session: MusicStream | null;
+  handlers: MusicSessionHandlers;
+  active: boolean;
+}
 
-function getClient(): GoogleGenAI {
-  if (!genai) {
-    const apiKey = process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        'GOOGLE_AI_API_KEY environment variable is not set. ' +
-        'Get a free API key from https://ai.google.dev/'
-      );
-    }
-    genai = new GoogleGenAI({
-      apiKey,
-      httpOptions: { apiVersion: 'v1alpha' },
-    });
+const sessions = createMusicSessionRegistry<MusicSession>(
+  getMusicSessionLimitsFromEnv(process.env),
+  (record, reason) => {
+    console.log(`MusicStreamer: Session ${record.id} ended (${reason})`);
+    endSession(record.data, reason);
+  }
+);
+
+/**
+ * Close a session's provider stream and tell its listener why it ended
+ */
+function endSession(sessionObj: MusicSession, reason: MusicSessionEndReason): void {
+  if (!sessionObj.active) return;
+  sessionObj.active = false;
+  if (sessionObj.session) {
+    sessionObj.session.close();
   }
-  return genai;
+  sessionObj.handlers.onClose(reason);
 }
 
-export interface MusicSession {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  session: any;
-  onChunk: ((base64Pcm: string) => void) | null;
-  onError: ((error: Error) => void) | null;
-  onClose: (() => void) | null;
-  active: boolean;
+export function getMusicSessionLimits(): MusicSessionLimits {
+  return sessions.getLimits();
 }
 
-let activeSession: MusicSession | null = null;
+/**
+ * Why a client cannot open another session, or null if it can
+ */
+export function checkMusicSessionLimit(clientId: string): string | null {
+  return sessions.checkOpen(clientId);
+}
+
+/**
+ * Open a session for a client; returns its id. Audio flows once startMusicSession connects it.
+ */
+export function createMusicSession(clientId: string, handlers: MusicSessionHandlers): string {
+  return sessions.open(clientId, { session: null, handlers, active: true }).id;
+}
 
 /**
- * Start a new music streaming session
+ * Connect a session to the music provider and start streaming
  */
 export async function startMusicSession(
+  sessionId: string,
   prompt: string,
-  onChunk: (base64Pcm: string) => void,
-  onError: (error: Error) => void,
-  onClose: () => void,
   vocalization: boolean = false,
 ): Promise<void> {
-  // Close any existing session
-  await stopMusicSession();
-
-  const client = getClient();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const c = client as any;
-
-  if (!c.live?.music?.connect) {
-    throw new Error('Lyria RealTime API not available');
+  const record = sessions.get(sessionId);
+  if (!record) {
+    throw new Error('No active music session');
   }
-
-  console.log('MusicStreamer: Starting session...');
-  console.log(`MusicStreamer: Prompt: "${prompt.substring(0, 100)}" (vocalization: ${vocalization})`);
-
-  const sessionObj: MusicSession = {
-    session: null,
-    onChunk,
-    onError,
-    onClose,
-    active: true,
-  };
-
-  activeSession = sessionObj;
+  const sessionObj = record.data;
 
   try {
-    const session = await c.live.music.connect({
-      model: 'models/lyria-realtime-exp',
-      callbacks: {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        onmessage: (message: any) => {
-          if (!sessionObj.active) return;
-          if (message.serverContent?.audioChunks) {
-            for (const chunk of message.serverContent.audioChunks) {
-              sessionObj.onChunk?.(chunk.data);
-            }
-          }
-        },
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        onerror: (error: any) => {
-          console.error('MusicStreamer: Stream error:', error);
-          if (sessionObj.active) {
-            sessionObj.active = false;
-            sessionObj.onError?.(error instanceof Error ? error : new Error(String(error)));
-          }
-        },
-        onclose: () => {
-          console.log('MusicStreamer: Stream closed');
-          if (sessionObj.active) {
-            sessionObj.active = false;
-            sessionObj.onClose?.();
-          }
-        },
+    const provider = getMusicProvider();
+    console.log(`MusicStreamer: Starting ${provider.name} session ${sessionId} (${sessions.size} open)...`);
+    console.log(`MusicStreamer: Prompt: "${prompt.substring(0, 100)}" (vocalization: ${vocalization})`);
+
+    const session = await provider.connect({
+      onChunk: (base64Pcm) => {
+        if (!sessionObj.active) return;
+        sessions.touch(sessionId);
+        sessionObj.handlers.onChunk(base64Pcm);
+      },
+      onError: (error) => {
+        console.error(`MusicStreamer: Stream error (${sessionId}):`, error);
+        sessions.remove(sessionId);
+        if (sessionObj.active) {
+          sessionObj.active = false;
+          sessionObj.handlers.onError(error);
+        }
+      },
+      onClose: () => {
+        console.log(`MusicStreamer: Stream closed (${sessionId})`);
+        sessions.remove(sessionId);
+        endSession(sessionObj, 'closed');
       },
     });
 
     sessionObj.session = session;
+    if (!sessionObj.active) {
+      // Stopped or expired while connecting
+      session.close();
+      return;
+    }
 
-    await session.setWeightedPrompts({
-      weightedPrompts: [{ text: prompt, weight: 1.0 }],
-    });
+    await session.setPrompt(prompt);
 
     if (vocalization) {
-      await session.setMusicGenerationConfig({
-        musicGenerationConfig: { musicGenerationMode: 'VOCALIZATION' },
-      });
+      await session.setVocalization(true);
       console.log('MusicStreamer: Vocalization mode enabled');
     }
 
     await session.play();
-    console.log('MusicStreamer: Streaming audio...');
+    console.log(`MusicStreamer: Streaming audio (${sessionId})...`);
   } catch (error) {
     console.error('MusicStreamer: Failed to start:', error);
+    sessions.remove(sessionId);
     sessionObj.active = false;
-    activeSession = null;
     throw error;
   }
 }
 
 /**
- * Update the prompt and/or vocalization mode on the active session
+ * Update the prompt and/or vocalization mode on a session
+ * Returns false if the session is over its prompt update rate limit.
  */
-export async function updateMusicPrompt(prompt: string, vocalization?: boolean): Promise<void> {
-  if (!activeSession?.active || !activeSession.session) {
+export async function updateMusicPrompt(sessionId: string, prompt: string, vocalization?: boolean): Promise<boolean> {
+  const sessionObj = sessions.get(sessionId)?.data;
+  if (!sessionObj?.active || !sessionObj.session) {
     throw new Error('No active music session');
   }
+  if (!sessions.allowPromptUpdate(sessionId)) {
+    return false;
+  }
 
-  console.log(`MusicStreamer: Updating prompt: "${prompt.substring(0, 100)}"${vocalization !== undefined ? ` (vocalization: ${vocalization})` : ''}`);
+  console.log(`MusicStreamer: Updating prompt (${sessionId}): "${prompt.substring(0, 100)}"${vocalization !== undefined ? ` (vocalization: ${vocalization})` : ''}`);
 
-  await activeSession.session.setWeightedPrompts({
-    weightedPrompts: [{ text: prompt, weight: 1.0 }],
-  });
+  await sessionObj.session.setPrompt(prompt);
 
   if (vocalization !== undefined) {
-    await activeSession.session.setMusicGenerationConfig({
-      musicGenerationConfig: {
-        musicGenerationMode: vocalization ? 'VOCALIZATION' : 'QUALITY',
-      },
-    });
+    await sessionObj.session.setVocalization(vocalization);
   }
+  return true;
 }
 
 /**
- * Stop the active music session
+ * Stop a music session; returns false if it was not open
  */
-export async function stopMusicSession(): Promise<void> {
-  if (activeSession) {
-    activeSession.active = false;
-    if (activeSession.session) {
-      try {
-        activeSession.session.close();
-      } catch { /* ignore */ }
-    }
-    activeSession = null;
-    console.log('MusicStreamer: Session stopped');
-  }
+export async function stopMusicSession(sessionId: string, reason: MusicSessionEndReason = 'stopped'): Promise<boolean> {
+  const record = sessions.remove(sessionId);
+  if (!record) return false;
+  endSession(record.data, reason);
+  console.log(`MusicStreamer: Session ${sessionId} stopped (${reason})`);
+  return true;
+}
+
+/**
+ * The client that opened a session, or null if it is not open
+ * Prompt and stop requests are only honoured from this client.
+ */
+export function getMusicSessionClient(sessionId: string): string | null {
+  return sessions.get(sessionId)?.clientId ?? null;
 }
 
 /**
- * Check if there's an active session
+ * Check if a session is open and streaming
  */
-export function hasActiveSession(): boolean {
-  return activeSession?.active === true;
+export function hasActiveSession(sessionId: string): boolean {
+  return sessions.get(sessionId)?.data.active === true;
 }
@@ -0,0 +1,256 @@
+/**
+ * Processing Jobs - Queue for bass track processing, run outside the HTTP request
+ * Jobs run a bounded number at a time; progress from processAudioFile is forwarded to subscribers
+ * (the SSE endpoint), and results are written to the artifact store.
+ */
+
+import fs from 'fs';
+import crypto from 'crypto';
+import { processAudioFile } from './audioProcessor.js';
+import type { ProcessingConfig, ProcessingResult, ProgressCallback } from './audioProcessor.js';
+import type { ArtifactStore } from './artifactStore.js';
+
+export type JobStatus = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  stage: string;
+  progress: number;
+  message: string;
+}
+
+export interface JobResult {
+  processingTime: number;   // Seconds
+  analysis: ProcessingResult['analysis'];
+  bassAudioUrl: string;
+  mixedAudioUrl: string;
+  format: 'wav';
+  expiresAt: string;        // When the audio files are deleted
+}
+
+export interface ProcessingJob {
+  id: string;
+  status: JobStatus;
+  fileName: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  queuePosition?: number;   // 1 = next to run (queued jobs only)
+  progress: JobProgress | null;
+  result?: JobResult;
+  error?: string;
+}
+
+export type JobEvent =
+  | ({ type: 'progress' } & JobProgress)
+  | { type: 'status'; job: ProcessingJob };
+
+export type JobListener = (event: JobEvent) => void;
+
+export type JobProcessor = (
+  filePath: string,
+  config: Partial<ProcessingConfig>,
+  onProgress: ProgressCallback,
+  signal: AbortSignal
+) => Promise<ProcessingResult>;
+
+export interface ProcessingQueueOptions {
+  store: ArtifactStore;
+  concurrency?: number;   // Jobs run at once (default 1)
+  maxQueued?: number;     // Waiting jobs before submissions are refused (default 20)
+  jobTtlMs?: number;      // How long finished jobs can be looked up (default: the artifact TTL)
+  process?: JobProcessor;
+}
+
+interface JobEntry {
+  job: ProcessingJob;
+  filePath: string;
+  config: Partial<ProcessingConfig>;
+  controller: AbortController;
+  listeners: Set<JobListener>;
+}
+
+const TERMINAL_STATUSES: JobStatus[] = ['complete', 'failed', 'cancelled'];
+
+export function isTerminalStatus(status: JobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export class ProcessingQueue {
+  private store: ArtifactStore;
+  private concurrency: number;
+  private maxQueued: number;
+  private jobTtlMs: number;
+  private process: JobProcessor;
+  private jobs = new Map<string, JobEntry>();
+  private queue: string[] = [];
+  private running = 0;
+
+  constructor(options: ProcessingQueueOptions) {
+    this.store = options.store;
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.maxQueued = Math.max(0, options.maxQueued ?? 20);
+    this.jobTtlMs = options.jobTtlMs ?? options.store.getTtl();
+    this.process = options.process ?? processAudioFile;
+  }
+
+  isFull(): boolean {
+    return this.queue.length >= this.maxQueued;
+  }
+
+  /**
+   * Queue an uploaded file; the queue owns the file from here and deletes it when the job ends
+   */
+  submit(filePath: string, fileName: string, config: Partial<ProcessingConfig> = {}): ProcessingJob {
+    if (this.isFull()) {
+      throw new Error('Processing queue is full');
+    }
+
+    const job: ProcessingJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      fileName,
+      createdAt: new Date().toISOString(),
+      progress: null,
+    };
+    this.jobs.set(job.id, { job, filePath, config, controller: new AbortController(), listeners: new Set() });
+    this.queue.push(job.id);
+    this.pump();
+    return this.get(job.id)!;
+  }
+
+  /**
+   * Snapshot of a job, or null if it is unknown or has been forgotten
+   */
+  get(id: string): ProcessingJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+
+    const job: ProcessingJob = { ...entry.job, progress: entry.job.progress && { ...entry.job.progress } };
+    if (job.status === 'queued') {
+      job.queuePosition = this.queue.indexOf(id) + 1;
+    }
+    return job;
+  }
+
+  /**
+   * Cancel a job: queued jobs end at once, running jobs stop at their next stage
+   */
+  cancel(id: string): ProcessingJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+
+    if (entry.job.status === 'queued') {
+      this.queue = this.queue.filter((queuedId) => queuedId !== id);
+      fs.promises.rm(entry.filePath, { force: true }).catch(() => {});
+      this.finish(entry, { status: 'cancelled' });
+      this.notifyQueued();
+    } else if (entry.job.status === 'running') {
+      entry.controller.abort();
+    }
+    return this.get(id);
+  }
+
+  /**
+   * Listen for a job's progress and status changes; returns an unsubscribe function,
+   * or null if the job is unknown
+   */
+  subscribe(id: string, listener: JobListener): (() => void) | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    entry.listeners.add(listener);
+    return () => entry.listeners.delete(listener);
+  }
+
+  private pump(): void {
+    let started = false;
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const entry = this.jobs.get(this.queue.shift()!);
+      if (entry) {
+        started = true;
+        this.run(entry);
+      }
+    }
+    if (started) this.notifyQueued();
+  }
+
+  private async run(entry: JobEntry): Promise<void> {
+    const { job, controller } = entry;
+    const startTime = Date.now();
+    this.running++;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.emitStatus(entry);
+
+    let outcome: Partial<ProcessingJob>;
+    try {
+      const result = await this.process(
+        entry.filePath,
+        entry.config,
+        (progress) => {
+          job.progress = { ...progress };
+          this.emit(entry, { type: 'progress', ...progress });
+        },
+        controller.signal
+      );
+      controller.signal.throwIfAborted();
+
+      const bass = await this.store.save('bass', 'wav', result.bassBuffer);
+      const mixed = await this.store.save('mixed', 'wav', result.mixedBuffer);
+      outcome = {
+        status: 'complete',
+        result: {
+          processingTime: parseFloat(((Date.now() - startTime) / 1000).toFixed(2)),
+          analysis: result.analysis,
+          bassAudioUrl: bass.url,
+          mixedAudioUrl: mixed.url,
+          format: 'wav',
+          expiresAt: new Date(Math.min(bass.expiresAt, mixed.expiresAt)).toISOString(),
+        },
+      };
+    } catch (error) {
+      outcome = controller.signal.aborted
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    await fs.promises.rm(entry.filePath, { force: true }).catch(() => {});
+    this.running--;
+    this.finish(entry, outcome);
+    this.pump();
+  }
+
+  private finish(entry: JobEntry, outcome: Partial<ProcessingJob>): void {
+    Object.assign(entry.job, outcome, { finishedAt: new Date().toISOString() });
+    this.emitStatus(entry);
+    entry.listeners.clear();
+
+    const timer = setTimeout(() => this.jobs.delete(entry.job.id), this.jobTtlMs);
+    timer.unref();
+  }
+
+  // Queue positions change whenever a job leaves the queue
+  private notifyQueued(): void {
+    for (const id of this.queue) {
+      const entry = this.jobs.get(id);
+      if (entry) this.emitStatus(entry);
+    }
+  }
+
+  private emitStatus(entry: JobEntry): void {
+    this.emit(entry, { type: 'status', job: this.get(entry.job.id)! });
+  }
+
+  private emit(entry: JobEntry, event: JobEvent): void {
+    for (const listener of entry.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Job listener failed:', error);
+      }
+    }
+  }
+}
+
+export function createProcessingQueue(options: ProcessingQueueOptions): ProcessingQueue {
+  return new ProcessingQueue(options);
+}
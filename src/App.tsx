@@ -8,11 +8,16 @@ import { useJourneyStore } from './stores/journeyStore';
 import { Timeline } from './components/Timeline/Timeline';
 import { PhaseControls } from './components/Controls/PhaseControls';
 import { TransportBar } from './components/Transport/TransportBar';
+import { Visualizer } from './components/Visualizer/Visualizer';
+import { SessionView } from './components/Session/SessionView';
 import { PresetBrowser } from './components/PresetBrowser/PresetBrowser';
 import { ExportDialog } from './components/ExportDialog/ExportDialog';
 import { BassGenerator } from './components/BassGenerator/BassGenerator';
 import { JourneyGenerator } from './components/JourneyGenerator/JourneyGenerator';
 import { BassPad } from './components/BassPad/BassPad';
+import { HistoryControls } from './components/History/HistoryControls';
+import { OUTPUT_PROFILES } from './audio/OutputProfile';
+import type { BeatMode, OutputProfileId } from './types/journey';
 
 type AppMode = 'journey' | 'bass' | 'basspad';
 
@@ -59,6 +64,55 @@ function PhaseSelector() {
   );
 }
 
+const BEAT_MODE_OPTIONS: { value: BeatMode | ''; label: string }[] = [
+  { value: '', label: 'Per phase' },
+  { value: 'binaural', label: 'Binaural (headphones)' },
+  { value: 'monaural', label: 'Monaural (speakers)' },
+  { value: 'isochronic', label: 'Isochronic (speakers)' },
+  { value: 'none', label: 'Off' },
+];
+
+function BeatModeSelector() {
+  const { journey, setBeatMode } = useJourneyStore();
+
+  return (
+    <label className="flex items-center gap-2">
+      <span className="text-sm text-[var(--color-text-muted)]">Beats:</span>
+      <select
+        value={journey.beat_mode || ''}
+        onChange={(e) => setBeatMode((e.target.value || undefined) as BeatMode | undefined)}
+        className="bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-2 py-1.5 text-sm text-[var(--color-text)]"
+        title="Play every phase's beats through one layer, to suit headphones or speakers"
+      >
+        {BEAT_MODE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function OutputProfileSelector() {
+  const { outputProfile, setOutputProfile } = useJourneyStore();
+
+  return (
+    <label className="flex items-center gap-2">
+      <span className="text-sm text-[var(--color-text-muted)]">Output:</span>
+      <select
+        value={outputProfile || ''}
+        onChange={(e) => setOutputProfile((e.target.value || null) as OutputProfileId | null)}
+        className="bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-2 py-1.5 text-sm text-[var(--color-text)]"
+        title={outputProfile ? OUTPUT_PROFILES[outputProfile].description : 'Play the journey as designed'}
+      >
+        <option value="">As designed</option>
+        {Object.values(OUTPUT_PROFILES).map((profile) => (
+          <option key={profile.id} value={profile.id}>{profile.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
 function LayerToggles() {
   const { journey, setLayers } = useJourneyStore();
 
@@ -96,6 +150,15 @@ function LayerToggles() {
         />
         <span className="text-sm text-[var(--color-text)]">Atmosphere</span>
       </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={journey.layers.melody_layer === true}
+          onChange={() => handleToggle('melody_layer')}
+          className="w-4 h-4 rounded accent-[var(--color-primary)]"
+        />
+        <span className="text-sm text-[var(--color-text)]">Melody</span>
+      </label>
     </div>
   );
 }
@@ -103,9 +166,9 @@ function LayerToggles() {
 function Header({ mode, onModeChange }: { mode: AppMode; onModeChange: (mode: AppMode) => void }) {
   const { journey, setShowPresetBrowser, setShowJourneyGenerator, saveCurrentJourney, isDirty, savedJourneyId } = useJourneyStore();
   
-  const handleSave = () => {
+  const handleSave = async () => {
     try {
-      saveCurrentJourney();
+      await saveCurrentJourney();
       alert('Journey saved!');
     } catch (error) {
       alert('Failed to save journey');
@@ -251,19 +314,29 @@ function JourneyCreator() {
     <>
       {/* Timeline */}
       <section>
-        <h2 className="text-lg font-semibold text-[var(--color-text)] mb-3">
-          Journey Timeline
-        </h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-[var(--color-text)]">
+            Journey Timeline
+          </h2>
+          <HistoryControls />
+        </div>
         <Timeline />
       </section>
 
       {/* Transport */}
       <TransportBar />
 
+      {/* Live monitor */}
+      <Visualizer />
+
       {/* Phase selector */}
       <div className="flex items-center justify-between flex-wrap gap-4">
         <PhaseSelector />
-        <LayerToggles />
+        <div className="flex items-center gap-4 flex-wrap">
+          <OutputProfileSelector />
+          <BeatModeSelector />
+          <LayerToggles />
+        </div>
       </div>
 
       {/* Phase controls */}
@@ -294,6 +367,7 @@ function App() {
       <PresetBrowser />
       <ExportDialog />
       <JourneyGenerator />
+      <SessionView />
     </div>
   );
 }
@@ -1,9 +1,12 @@
 /**
- * API client for AI-powered journey generation
+ * API client for AI-powered journey generation, with an on-device fallback when the server is out of reach
  */
 
 import type { JourneyConfig } from '../types/journey';
 import { getApiUrl } from '../utils/apiUrl';
+import { parseJourney } from '../utils/journeySchema';
+import { applyJourneyConstraints, buildOfflineJourney, refineOfflineJourney, type JourneyConstraints } from '../utils/offlineJourney';
+import { diffJourneyPhases, type PhaseChange } from '../utils/journeyDiff';
 
 const API_URL = getApiUrl();
 
@@ -17,6 +20,32 @@ export interface GenerateJourneyRequest {
   duration: number; // in minutes
 }
 
+export interface GenerateJourneyOptions {
+  constraints?: JourneyConstraints;
+  offline?: boolean; // Skip the server and build the journey on this device
+}
+
+export interface GeneratedJourney {
+  journey: JourneyConfig;
+  offline: boolean;  // Built on this device rather than by the AI
+  reason?: string;   // Why the AI was not used, when it was tried
+}
+
+export interface JourneyRefinement {
+  journey: JourneyConfig;   // Refined journey
+  changes: PhaseChange[];   // Phases that differ from the journey sent
+  offline: boolean;         // Refined on this device rather than by the AI
+  reason?: string;          // Why the AI was not used
+}
+
+export interface RefineJourneyResponse {
+  success: boolean;
+  journey: JourneyConfig;
+  changes: PhaseChange[];
+  error?: string;
+  message?: string;
+}
+
 export interface GenerateJourneyResponse {
   success: boolean;
   journey: JourneyConfig;
@@ -46,13 +75,7 @@ export async function generateJourney(
   prompt: string,
   duration: number
 ): Promise<JourneyConfig> {
-  if (!prompt.trim()) {
-    throw new Error('Prompt cannot be empty');
-  }
-
-  if (duration < 5 || duration > 180) {
-    throw new Error('Duration must be between 5 and 180 minutes');
-  }
+  validateRequest(prompt, duration);
 
   // Check if server is available first (skip in production to avoid CORS issues)
   if (!import.meta.env.PROD) {
@@ -111,7 +134,8 @@ export async function generateJourney(
       throw new Error(result.message || 'Failed to generate journey');
     }
 
-    return result.journey;
+    // Older deployments return unversioned journeys; migrate and check before use
+    return parseJourney(result.journey);
   } catch (error) {
     if (error instanceof Error) {
       throw error;
@@ -119,3 +143,106 @@ export async function generateJourney(
     throw new Error('Failed to generate journey');
   }
 }
+
+function validateRequest(prompt: string, duration: number): void {
+  if (!prompt.trim()) {
+    throw new Error('Prompt cannot be empty');
+  }
+
+  if (duration < 5 || duration > 180) {
+    throw new Error('Duration must be between 5 and 180 minutes');
+  }
+}
+
+/**
+ * Generate a journey with the AI, falling back to the rule-based generator when the device is
+ * offline or the server (or its AI provider) fails
+ */
+export async function generateJourneyWithFallback(
+  prompt: string,
+  duration: number,
+  options: GenerateJourneyOptions = {}
+): Promise<GeneratedJourney> {
+  validateRequest(prompt, duration);
+  const constraints = options.constraints ?? {};
+
+  if (options.offline) {
+    return { journey: buildOfflineJourney(prompt, duration, constraints), offline: true };
+  }
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return {
+      journey: buildOfflineJourney(prompt, duration, constraints),
+      offline: true,
+      reason: 'This device is offline',
+    };
+  }
+
+  try {
+    const journey = await generateJourney(prompt, duration);
+    return { journey: applyJourneyConstraints(journey, constraints), offline: false };
+  } catch (error) {
+    return {
+      journey: buildOfflineJourney(prompt, duration, constraints),
+      offline: true,
+      reason: error instanceof Error ? error.message : 'AI generation failed',
+    };
+  }
+}
+
+/**
+ * Refine a journey from a follow-up instruction with the AI, returning the phases it changed
+ * Falls back to rule-based refinement on this device when offline or when the server fails.
+ */
+export async function refineJourney(
+  journey: JourneyConfig,
+  instruction: string
+): Promise<JourneyRefinement> {
+  if (!instruction.trim()) {
+    throw new Error('Instruction cannot be empty');
+  }
+
+  const refineOffline = (reason: string): JourneyRefinement => {
+    try {
+      const refined = refineOfflineJourney(journey, instruction);
+      return { journey: refined, changes: diffJourneyPhases(journey, refined), offline: true, reason };
+    } catch (error) {
+      // The rule-based refiner only knows simple instructions; keep the AI's failure in the message
+      throw new Error(`AI refinement unavailable (${reason}). ${error instanceof Error ? error.message : ''}`.trim());
+    }
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return refineOffline('This device is offline');
+  }
+
+  try {
+    const response = await fetch(`${API_URL}/api/generate-journey`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ journey, instruction: instruction.trim() }),
+    });
+
+    if (!response.ok) {
+      let errorMessage = `Server error: ${response.status}`;
+      try {
+        const error = await response.json();
+        errorMessage = error.message || error.error || errorMessage;
+      } catch {
+        errorMessage = response.statusText || errorMessage;
+      }
+      throw new Error(errorMessage);
+    }
+
+    const result: RefineJourneyResponse = await response.json();
+    if (!result.success || !result.journey || !Array.isArray(result.changes)) {
+      throw new Error(result.message || 'Failed to refine journey');
+    }
+
+    return { journey: parseJourney(result.journey), changes: result.changes, offline: false };
+  } catch (error) {
+    return refineOffline(error instanceof Error ? error.message : 'AI refinement failed');
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * BeatMode - Routes a journey's beats through one layer (binaural, monaural or isochronic)
+ * so the same journey can be played on headphones or speakers without editing its phases.
+ */
+
+import type { AutomatableParam, BeatMode, JourneyConfig, PhaseConfig } from '../types/journey';
+
+type BeatLayer = Exclude<BeatMode, 'none'>;
+
+interface BeatFields {
+  enabled: 'binaural_enabled' | 'monaural_enabled' | 'isochronic_enabled';
+  rate: AutomatableParam & keyof PhaseConfig;
+  carrier: AutomatableParam & keyof PhaseConfig;
+  volume: AutomatableParam & keyof PhaseConfig;
+}
+
+// The equivalent settings of each beat layer
+const BEAT_FIELDS: Record<BeatLayer, BeatFields> = {
+  binaural: {
+    enabled: 'binaural_enabled',
+    rate: 'binaural_beat_frequency',
+    carrier: 'binaural_carrier_frequency',
+    volume: 'binaural_volume',
+  },
+  monaural: {
+    enabled: 'monaural_enabled',
+    rate: 'monaural_beat_frequency',
+    carrier: 'monaural_carrier_frequency',
+    volume: 'monaural_volume',
+  },
+  isochronic: {
+    enabled: 'isochronic_enabled',
+    rate: 'isochronic_pulse_rate',
+    carrier: 'isochronic_carrier_frequency',
+    volume: 'isochronic_volume',
+  },
+};
+
+const BEAT_LAYERS = Object.keys(BEAT_FIELDS) as BeatLayer[];
+
+/**
+ * Apply a beat mode to one phase
+ * A phase with any beat layer plays only the chosen one; settings it lacks are taken from
+ * the layer the phase was designed with. 'none' silences every beat layer.
+ */
+export function applyPhaseBeatMode(phase: PhaseConfig, mode: BeatMode | undefined): PhaseConfig {
+  if (!mode) return phase;
+
+  const sources = BEAT_LAYERS.filter((layer) => phase[BEAT_FIELDS[layer].enabled] === true);
+  const result: PhaseConfig = { ...phase, binaural_enabled: false, monaural_enabled: false, isochronic_enabled: false };
+  if (mode === 'none' || sources.length === 0) return result;
+
+  const target = BEAT_FIELDS[mode];
+  result[target.enabled] = true;
+  if (sources.includes(mode)) return result;
+
+  const source = BEAT_FIELDS[sources[0]];
+  const automation = { ...phase.automation };
+  for (const key of ['rate', 'carrier', 'volume'] as const) {
+    if (result[target[key]] === undefined) result[target[key]] = phase[source[key]];
+    if (!automation[target[key]] && automation[source[key]]) automation[target[key]] = automation[source[key]];
+  }
+  if (phase.automation) result.automation = automation;
+  return result;
+}
+
+/**
+ * Apply a journey's beat_mode to every phase (the journey is returned as-is without one)
+ */
+export function applyBeatMode(config: JourneyConfig): JourneyConfig {
+  if (!config.beat_mode) return config;
+  return { ...config, phases: config.phases.map((phase) => applyPhaseBeatMode(phase, config.beat_mode)) };
+}
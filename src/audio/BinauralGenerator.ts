@@ -0,0 +1,224 @@
+/**
+ * BinauralGenerator - Binaural beat settings and offline stereo rendering
+ * Shares beat-frequency resolution with SynthEngine so exports match live playback
+ */
+
+import type { JourneyConfig, PhaseConfig } from '../types/journey';
+import { automationValueAt, resolvePhaseAt } from './Envelope';
+
+export type BinauralWaveform = NonNullable<PhaseConfig['binaural_waveform']>;
+
+export interface BinauralSettings {
+  enabled: boolean;
+  beatFreq: number;
+  carrierFreq: number;
+  volume: number;
+  waveform: BinauralWaveform;
+}
+
+// Smoothing time constants, matching the setTargetAtTime ramps used live
+export const BINAURAL_RAMP_TIME = 0.5;
+export const BINAURAL_RELEASE_TIME = 0.3;
+
+/**
+ * Determine binaural beat frequency using entrainment science
+ * Priority: binaural_beat_frequency > entrainment_rate > rhythm_mode > frequency range
+ */
+export function getBinauralBeatFrequency(phase: PhaseConfig, progress: number): number {
+  if (phase.binaural_beat_frequency !== undefined && phase.binaural_beat_frequency > 0) {
+    // 1. Explicit binaural beat frequency
+    return phase.binaural_beat_frequency;
+  }
+
+  if (phase.entrainment_rate !== undefined && phase.entrainment_rate > 0) {
+    // 2. Use entrainment_rate (exact Hz from preset) - capped at 30 Hz for binaural
+    return Math.min(30, phase.entrainment_rate);
+  }
+
+  if (phase.rhythm_mode || phase.entrainment_mode) {
+    // 3. Map from rhythm_mode/entrainment_mode
+    const mode = phase.rhythm_mode || phase.entrainment_mode;
+    switch (mode) {
+      case 'delta': return 3;      // Delta: deep sleep, trance
+      case 'theta': return 6;      // Theta: meditation, hypnagogic
+      case 'alpha': return 10;     // Alpha: visuals, flow states
+      case 'beta': return 15;      // Beta: focus, alertness
+      case 'gamma': return 30;     // Gamma: cognitive (capped for binaural)
+      case 'breathing': return 10; // Alpha for calm breathing
+      case 'heartbeat': return 10; // Alpha for grounded rhythm
+      default: return 10;          // Default to alpha
+    }
+  }
+
+  // 4. Map from audio frequency range with progress interpolation
+  const interpolatedFreq = automationValueAt(phase.frequency, progress);
+  if (interpolatedFreq <= 4) return 3;        // Delta
+  if (interpolatedFreq <= 7) return 6;        // Theta
+  if (interpolatedFreq <= 12) return 10;      // Alpha
+  if (interpolatedFreq <= 30) return 15;      // Beta
+  return 10;                                  // Default to Alpha
+}
+
+/**
+ * Resolve all binaural settings for a point in a phase
+ */
+export function getBinauralSettings(timelinePhase: PhaseConfig, progress: number): BinauralSettings {
+  const phase = resolvePhaseAt(timelinePhase, progress);
+  return {
+    enabled: phase.binaural_enabled === true,
+    beatFreq: getBinauralBeatFrequency(phase, progress),
+    carrierFreq: phase.binaural_carrier_frequency || 200, // Optimal range 100-400 Hz
+    volume: phase.binaural_volume ?? 0.3,
+    waveform: phase.binaural_waveform || 'sine',
+  };
+}
+
+/**
+ * Check whether any phase of a journey uses binaural beats
+ */
+export function hasBinauralBeats(config: JourneyConfig): boolean {
+  return config.phases.some((phase) => phase.binaural_enabled === true);
+}
+
+/**
+ * Find the phase playing at a journey time and the progress through it
+ */
+export function getPhaseAtTime(
+  config: JourneyConfig,
+  time: number
+): { phaseIndex: number; phase: PhaseConfig; phaseStart: number; progress: number } {
+  let phaseStart = 0;
+  for (let i = 0; i < config.phases.length; i++) {
+    const phase = config.phases[i];
+    const phaseDuration = phase.duration * 60;
+    if (time < phaseStart + phaseDuration || i === config.phases.length - 1) {
+      const progress = phaseDuration > 0 ? Math.min(1, Math.max(0, (time - phaseStart) / phaseDuration)) : 1;
+      return { phaseIndex: i, phase, phaseStart, progress };
+    }
+    phaseStart += phaseDuration;
+  }
+  throw new Error('Journey has no phases');
+}
+
+/**
+ * Evaluate a waveform at a phase position (radians)
+ */
+function waveformSample(waveform: BinauralWaveform, phase: number): number {
+  switch (waveform) {
+    case 'triangle': {
+      const t = phase / (2 * Math.PI);
+      return 1 - 4 * Math.abs(t - Math.floor(t + 0.5));
+    }
+    case 'sawtooth': {
+      const t = phase / (2 * Math.PI);
+      return 2 * (t - Math.floor(t + 0.5));
+    }
+    case 'square':
+      return Math.sin(phase) >= 0 ? 1 : -1;
+    case 'sine':
+    default:
+      return Math.sin(phase);
+  }
+}
+
+export class BinauralGenerator {
+  private sampleRate: number;
+
+  // Oscillator and smoothing state carried between blocks
+  private leftPhase = 0;
+  private rightPhase = 0;
+  private leftFreq = -1;
+  private rightFreq = -1;
+  private gain = 0;
+
+  constructor(sampleRate: number = 48000) {
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Reset oscillator and smoothing state (start of a new render)
+   */
+  reset(): void {
+    this.leftPhase = 0;
+    this.rightPhase = 0;
+    this.leftFreq = -1;
+    this.rightFreq = -1;
+    this.gain = 0;
+  }
+
+  /**
+   * Render the binaural layer of a whole journey to left/right channels
+   * Frequencies and gains glide between phases with the same time constants as live playback,
+   * and the level follows the phase amplitude just like the live master gain.
+   */
+  renderOffline(
+    config: JourneyConfig,
+    totalSamples: number
+  ): { left: Float32Array; right: Float32Array } {
+    const left = new Float32Array(totalSamples);
+    const right = new Float32Array(totalSamples);
+    if (!hasBinauralBeats(config)) {
+      return { left, right };
+    }
+
+    this.reset();
+    this.renderBlock(config, left, right, 0);
+    return { left, right };
+  }
+
+  /**
+   * Render the next block of the binaural layer into left/right (added to existing content)
+   * Blocks must be rendered in order after reset(); startSample is the journey position of left[0].
+   */
+  renderBlock(
+    config: JourneyConfig,
+    left: Float32Array,
+    right: Float32Array,
+    startSample: number
+  ): void {
+    const twoPiOverSampleRate = (2 * Math.PI) / this.sampleRate;
+    const rampCoeff = 1 - Math.exp(-1 / (BINAURAL_RAMP_TIME * this.sampleRate));
+    const releaseCoeff = 1 - Math.exp(-1 / (BINAURAL_RELEASE_TIME * this.sampleRate));
+    const blockSize = 128;
+    const length = left.length;
+
+    for (let block = 0; block < length; block += blockSize) {
+      const time = (startSample + block) / this.sampleRate;
+      const { phase, progress } = getPhaseAtTime(config, time);
+      const settings = getBinauralSettings(phase, progress);
+      const amp = automationValueAt(phase.amplitude, progress);
+
+      const targetLeft = settings.carrierFreq - settings.beatFreq / 2;
+      const targetRight = settings.carrierFreq + settings.beatFreq / 2;
+      const targetGain = settings.enabled ? settings.volume * amp : 0;
+      const gainCoeff = settings.enabled ? rampCoeff : releaseCoeff;
+
+      // First audible block starts on pitch rather than gliding in
+      if (this.leftFreq < 0 && settings.enabled) {
+        this.leftFreq = targetLeft;
+        this.rightFreq = targetRight;
+      }
+
+      const blockEnd = Math.min(block + blockSize, length);
+      for (let i = block; i < blockEnd; i++) {
+        this.gain += gainCoeff * (targetGain - this.gain);
+        if (this.leftFreq < 0) continue;
+
+        this.leftFreq += rampCoeff * (targetLeft - this.leftFreq);
+        this.rightFreq += rampCoeff * (targetRight - this.rightFreq);
+        this.leftPhase += twoPiOverSampleRate * this.leftFreq;
+        this.rightPhase += twoPiOverSampleRate * this.rightFreq;
+        if (this.leftPhase > 2 * Math.PI) this.leftPhase -= 2 * Math.PI;
+        if (this.rightPhase > 2 * Math.PI) this.rightPhase -= 2 * Math.PI;
+
+        left[i] += waveformSample(settings.waveform, this.leftPhase) * this.gain;
+        right[i] += waveformSample(settings.waveform, this.rightPhase) * this.gain;
+      }
+    }
+  }
+}
+
+// Factory function
+export function createBinauralGenerator(sampleRate?: number): BinauralGenerator {
+  return new BinauralGenerator(sampleRate);
+}
@@ -3,6 +3,186 @@
  * Generates slow amplitude envelopes and breathing patterns
  */
 
+import type {
+  AmplitudeRange,
+  AutomatableParam,
+  AutomationLane,
+  Breakpoint,
+  CurveShape,
+  FrequencyRange,
+  PhaseConfig,
+} from '../types/journey';
+
+type AutomationRange = FrequencyRange | AmplitudeRange;
+
+// Curves are scheduled on AudioParams as linear ramps this far apart
+const CURVE_STEP_SECONDS = 0.5;
+
+/**
+ * Position (0-1) along a ramp of the given shape, shared by the ramps below and live playback
+ */
+export function shapeProgress(
+  t: number,
+  shape: CurveShape,
+  rising: boolean,
+  curve: number = 2.0
+): number {
+  switch (shape) {
+    case 'exponential':
+      // Fade in rises quickly, fade out falls slowly
+      return rising ? Math.pow(t, 1 / curve) : Math.pow(t, curve);
+    case 's_curve':
+      return (1 - Math.cos(t * Math.PI)) / 2;
+    default:
+      return t;
+  }
+}
+
+/**
+ * Whether a range needs more than a straight start-to-end line
+ */
+export function hasAutomationShape(range: AutomationRange): boolean {
+  return (range.breakpoints?.length ?? 0) > 0 || (range.curve !== undefined && range.curve !== 'linear');
+}
+
+/**
+ * Start, breakpoints and end of a range as ordered points
+ * Each point's curve shapes the segment leading into it.
+ */
+export function getAutomationPoints(range: AutomationRange): Breakpoint[] {
+  const breakpoints = (range.breakpoints || [])
+    .filter((point) => point.position > 0 && point.position < 1)
+    .sort((a, b) => a.position - b.position);
+
+  return [
+    { position: 0, value: range.start },
+    ...breakpoints,
+    { position: 1, value: range.end, curve: range.curve },
+  ];
+}
+
+/**
+ * Points of an automation lane spanning the whole phase, holding its first and last values
+ */
+export function getLanePoints(lane: AutomationLane): Breakpoint[] {
+  const points = [...lane].sort((a, b) => a.position - b.position);
+  return [
+    { position: 0, value: points[0].value },
+    ...points,
+    { position: 1, value: points[points.length - 1].value },
+  ];
+}
+
+/**
+ * Value along ordered points at a point (0-1) through the phase
+ */
+function interpolatePoints(points: Breakpoint[], progress: number, defaultCurve: CurveShape): number {
+  const p = Math.min(1, Math.max(0, progress));
+
+  let k = 1;
+  while (k < points.length - 1 && p > points[k].position) k++;
+
+  const from = points[k - 1];
+  const to = points[k];
+  const span = to.position - from.position;
+  const t = span > 0 ? (p - from.position) / span : 1;
+  return from.value + (to.value - from.value) * shapeProgress(t, to.curve || defaultCurve, from.value < to.value);
+}
+
+/**
+ * Value of a frequency or amplitude range at a point (0-1) through its phase
+ * Segments without their own curve use defaultCurve.
+ */
+export function automationValueAt(
+  range: AutomationRange,
+  progress: number,
+  defaultCurve: CurveShape = 'linear'
+): number {
+  return interpolatePoints(getAutomationPoints(range), progress, defaultCurve);
+}
+
+/**
+ * Value of an automation lane at a point (0-1) through its phase
+ */
+export function laneValueAt(lane: AutomationLane, progress: number): number {
+  return interpolatePoints(getLanePoints(lane), progress, 'linear');
+}
+
+/**
+ * Automation lane of a phase parameter, if it has a usable one
+ */
+export function getParamLane(phase: Pick<PhaseConfig, 'automation'>, param: AutomatableParam): AutomationLane | undefined {
+  const lane = phase.automation?.[param];
+  return lane && lane.length > 0 ? lane : undefined;
+}
+
+/**
+ * A phase with every automated parameter replaced by its value at a point (0-1) through the phase
+ * Lets code that reads fixed phase fields follow automation unchanged.
+ */
+export function resolvePhaseAt(phase: PhaseConfig, progress: number): PhaseConfig {
+  if (!phase.automation) return phase;
+
+  const resolved = { ...phase };
+  for (const param of Object.keys(phase.automation) as AutomatableParam[]) {
+    const lane = getParamLane(phase, param);
+    if (lane) resolved[param] = laneValueAt(lane, progress);
+  }
+  return resolved;
+}
+
+/**
+ * Mix processed audio back into its input following an automated amount
+ * The processor ran at the curve's peak, so curve[i] / peak of the processed signal is kept at sample i.
+ */
+export function blendByCurve(
+  input: Float32Array,
+  processed: Float32Array,
+  curve: Float32Array,
+  peak: number
+): Float32Array {
+  const output = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const amount = peak > 0 ? curve[i] / peak : 0;
+    output[i] = input[i] + (processed[i] - input[i]) * amount;
+  }
+  return output;
+}
+
+/**
+ * Largest value of a curve
+ */
+export function curvePeak(curve: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < curve.length; i++) {
+    if (curve[i] > peak) peak = curve[i];
+  }
+  return peak;
+}
+
+/**
+ * Schedule a curve on an AudioParam from fromProgress to the end of its phase
+ * valueAt maps phase progress (0-1) to the parameter value; duration is the time left in the phase.
+ */
+export function scheduleCurve(
+  param: AudioParam,
+  valueAt: (progress: number) => number,
+  startTime: number,
+  duration: number,
+  fromProgress: number = 0
+): void {
+  param.setValueAtTime(valueAt(fromProgress), startTime);
+
+  const steps = Math.max(1, Math.ceil(duration / CURVE_STEP_SECONDS));
+  for (let step = 1; step <= steps; step++) {
+    const fraction = step / steps;
+    param.linearRampToValueAtTime(
+      valueAt(fromProgress + (1 - fromProgress) * fraction),
+      startTime + duration * fraction
+    );
+  }
+}
+
 export class Envelope {
   private sampleRate: number;
 
@@ -22,7 +202,7 @@ export class Envelope {
 
     for (let i = 0; i < durationSamples; i++) {
       const t = i / (durationSamples - 1);
-      output[i] = startLevel + (endLevel - startLevel) * t;
+      output[i] = startLevel + (endLevel - startLevel) * shapeProgress(t, 'linear', startLevel < endLevel);
     }
 
     return output;
@@ -42,17 +222,7 @@ export class Envelope {
 
     for (let i = 0; i < durationSamples; i++) {
       const t = i / (durationSamples - 1);
-      let curvedT: number;
-
-      if (startLevel < endLevel) {
-        // Fade in
-        curvedT = Math.pow(t, 1 / curve);
-      } else {
-        // Fade out
-        curvedT = Math.pow(t, curve);
-      }
-
-      output[i] = startLevel + (endLevel - startLevel) * curvedT;
+      output[i] = startLevel + (endLevel - startLevel) * shapeProgress(t, 'exponential', startLevel < endLevel, curve);
     }
 
     return output;
@@ -70,9 +240,73 @@ export class Envelope {
     const output = new Float32Array(durationSamples);
 
     for (let i = 0; i < durationSamples; i++) {
-      const t = (i / (durationSamples - 1)) * Math.PI;
-      const interp = (1 - Math.cos(t)) / 2;
-      output[i] = startLevel + (endLevel - startLevel) * interp;
+      const t = i / (durationSamples - 1);
+      output[i] = startLevel + (endLevel - startLevel) * shapeProgress(t, 's_curve', startLevel < endLevel);
+    }
+
+    return output;
+  }
+
+  /**
+   * Generate a ramp of the given shape
+   */
+  shapedRamp(
+    durationSamples: number,
+    startLevel: number,
+    endLevel: number,
+    shape: CurveShape
+  ): Float32Array {
+    switch (shape) {
+      case 'exponential':
+        return this.exponentialRamp(durationSamples, startLevel, endLevel);
+      case 's_curve':
+        return this.sCurveRamp(durationSamples, startLevel, endLevel);
+      default:
+        return this.linearRamp(durationSamples, startLevel, endLevel);
+    }
+  }
+
+  /**
+   * Generate a phase's frequency or amplitude curve through its breakpoints
+   * Each segment is one shaped ramp; scale multiplies every value.
+   */
+  automationRamp(
+    durationSamples: number,
+    range: AutomationRange,
+    defaultCurve: CurveShape = 'linear',
+    scale: number = 1.0
+  ): Float32Array {
+    return this.pointsRamp(durationSamples, getAutomationPoints(range), defaultCurve, scale);
+  }
+
+  /**
+   * Generate an automation lane sample by sample across a phase
+   */
+  laneRamp(durationSamples: number, lane: AutomationLane, scale: number = 1.0): Float32Array {
+    return this.pointsRamp(durationSamples, getLanePoints(lane), 'linear', scale);
+  }
+
+  private pointsRamp(
+    durationSamples: number,
+    points: Breakpoint[],
+    defaultCurve: CurveShape,
+    scale: number
+  ): Float32Array {
+    const output = new Float32Array(durationSamples);
+    const last = durationSamples - 1;
+    if (last < 1) return output.fill(points[0].value * scale);
+
+    for (let k = 1; k < points.length; k++) {
+      const from = points[k - 1];
+      const to = points[k];
+      const first = Math.round(from.position * last);
+      const length = Math.round(to.position * last) - first + 1;
+      if (length < 2) continue;
+
+      output.set(
+        this.shapedRamp(length, from.value * scale, to.value * scale, to.curve || defaultCurve),
+        first
+      );
     }
 
     return output;
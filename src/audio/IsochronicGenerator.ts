@@ -0,0 +1,201 @@
+/**
+ * IsochronicGenerator - Isochronic tone settings, pulse shapes and offline rendering
+ * Isochronic tones gate a single carrier on and off, so they entrain through speakers
+ * as well as headphones. Shares settings and pulse shapes with SynthEngine.
+ */
+
+import type { JourneyConfig, PhaseConfig } from '../types/journey';
+import { automationValueAt, resolvePhaseAt } from './Envelope';
+import { getBinauralBeatFrequency, getPhaseAtTime, BINAURAL_RAMP_TIME, BINAURAL_RELEASE_TIME } from './BinauralGenerator';
+
+export type IsochronicPulseShape = NonNullable<PhaseConfig['isochronic_pulse_shape']>;
+
+export interface IsochronicSettings {
+  enabled: boolean;
+  pulseRate: number;
+  carrierFreq: number;
+  dutyCycle: number;
+  volume: number;
+  shape: IsochronicPulseShape;
+}
+
+// Rise/fall time of each pulse as a fraction of its on-time
+const PULSE_EDGES: Record<IsochronicPulseShape, number> = {
+  sine: 0.5,
+  soft: 0.25,
+  square: 0.05, // Just enough to avoid clicks
+};
+
+// Harmonics in the live pulse wave (enough for 40 Hz pulses to keep their edges)
+const PULSE_HARMONICS = 32;
+const PULSE_WAVE_RESOLUTION = 2048;
+
+/**
+ * Determine the isochronic pulse rate
+ * Priority: isochronic_pulse_rate > entrainment_rate > the binaural beat target
+ */
+export function getIsochronicPulseRate(phase: PhaseConfig, progress: number): number {
+  if (phase.isochronic_pulse_rate !== undefined && phase.isochronic_pulse_rate > 0) {
+    return phase.isochronic_pulse_rate;
+  }
+  // Pulses are not limited to the ~30 Hz a binaural beat can carry
+  if (phase.entrainment_rate !== undefined && phase.entrainment_rate > 0) {
+    return phase.entrainment_rate;
+  }
+  return getBinauralBeatFrequency(phase, progress);
+}
+
+/**
+ * Resolve all isochronic settings for a point in a phase
+ */
+export function getIsochronicSettings(timelinePhase: PhaseConfig, progress: number): IsochronicSettings {
+  const phase = resolvePhaseAt(timelinePhase, progress);
+  return {
+    enabled: phase.isochronic_enabled === true,
+    pulseRate: getIsochronicPulseRate(phase, progress),
+    carrierFreq: phase.isochronic_carrier_frequency || 200,
+    dutyCycle: Math.min(0.95, Math.max(0.05, phase.isochronic_duty_cycle ?? 0.5)),
+    volume: phase.isochronic_volume ?? 0.3,
+    shape: phase.isochronic_pulse_shape || 'soft',
+  };
+}
+
+/**
+ * Check whether any phase of a journey uses isochronic tones
+ */
+export function hasIsochronicTones(config: JourneyConfig): boolean {
+  return config.phases.some((phase) => phase.isochronic_enabled === true);
+}
+
+/**
+ * Pulse gain (0-1) at a position (0-1) through one pulse cycle
+ * The tone is on for the first dutyCycle of the cycle, with raised-cosine edges.
+ */
+export function pulseEnvelope(position: number, dutyCycle: number, shape: IsochronicPulseShape): number {
+  if (position >= dutyCycle) return 0;
+
+  const t = position / dutyCycle;
+  const edge = PULSE_EDGES[shape];
+  if (t < edge) return 0.5 * (1 - Math.cos((Math.PI * t) / edge));
+  if (t > 1 - edge) return 0.5 * (1 - Math.cos((Math.PI * (1 - t)) / edge));
+  return 1;
+}
+
+/**
+ * Fourier series of one pulse cycle for a live PeriodicWave
+ * The mean is returned separately because a PeriodicWave drops its DC term.
+ */
+export function getPulseWave(
+  dutyCycle: number,
+  shape: IsochronicPulseShape
+): { mean: number; real: Float32Array; imag: Float32Array } {
+  const real = new Float32Array(PULSE_HARMONICS + 1);
+  const imag = new Float32Array(PULSE_HARMONICS + 1);
+  let mean = 0;
+
+  for (let n = 0; n < PULSE_WAVE_RESOLUTION; n++) {
+    const position = n / PULSE_WAVE_RESOLUTION;
+    const value = pulseEnvelope(position, dutyCycle, shape);
+    mean += value;
+    for (let k = 1; k <= PULSE_HARMONICS; k++) {
+      const angle = 2 * Math.PI * k * position;
+      real[k] += value * Math.cos(angle);
+      imag[k] += value * Math.sin(angle);
+    }
+  }
+
+  for (let k = 1; k <= PULSE_HARMONICS; k++) {
+    real[k] *= 2 / PULSE_WAVE_RESOLUTION;
+    imag[k] *= 2 / PULSE_WAVE_RESOLUTION;
+  }
+  return { mean: mean / PULSE_WAVE_RESOLUTION, real, imag };
+}
+
+export class IsochronicGenerator {
+  private sampleRate: number;
+
+  // Oscillator and smoothing state carried between blocks
+  private carrierPhase = 0;
+  private pulsePosition = 0;
+  private carrierFreq = -1;
+  private pulseRate = -1;
+  private gain = 0;
+
+  constructor(sampleRate: number = 48000) {
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Reset oscillator and smoothing state (start of a new render)
+   */
+  reset(): void {
+    this.carrierPhase = 0;
+    this.pulsePosition = 0;
+    this.carrierFreq = -1;
+    this.pulseRate = -1;
+    this.gain = 0;
+  }
+
+  /**
+   * Render the isochronic layer of a whole journey (mono, identical in both ears)
+   */
+  renderOffline(config: JourneyConfig, totalSamples: number): Float32Array {
+    const output = new Float32Array(totalSamples);
+    if (!hasIsochronicTones(config)) {
+      return output;
+    }
+
+    this.reset();
+    this.renderBlock(config, output, 0);
+    return output;
+  }
+
+  /**
+   * Render the next block of the isochronic layer into output (added to existing content)
+   * Blocks must be rendered in order after reset(); startSample is the journey position of output[0].
+   */
+  renderBlock(config: JourneyConfig, output: Float32Array, startSample: number): void {
+    const twoPiOverSampleRate = (2 * Math.PI) / this.sampleRate;
+    const rampCoeff = 1 - Math.exp(-1 / (BINAURAL_RAMP_TIME * this.sampleRate));
+    const releaseCoeff = 1 - Math.exp(-1 / (BINAURAL_RELEASE_TIME * this.sampleRate));
+    const blockSize = 128;
+    const length = output.length;
+
+    for (let block = 0; block < length; block += blockSize) {
+      const time = (startSample + block) / this.sampleRate;
+      const { phase, progress } = getPhaseAtTime(config, time);
+      const settings = getIsochronicSettings(phase, progress);
+      const amp = automationValueAt(phase.amplitude, progress);
+
+      const targetGain = settings.enabled ? settings.volume * amp : 0;
+      const gainCoeff = settings.enabled ? rampCoeff : releaseCoeff;
+
+      // First audible block starts on pitch and rate rather than gliding in
+      if (this.carrierFreq < 0 && settings.enabled) {
+        this.carrierFreq = settings.carrierFreq;
+        this.pulseRate = settings.pulseRate;
+      }
+
+      const blockEnd = Math.min(block + blockSize, length);
+      for (let i = block; i < blockEnd; i++) {
+        this.gain += gainCoeff * (targetGain - this.gain);
+        if (this.carrierFreq < 0) continue;
+
+        this.carrierFreq += rampCoeff * (settings.carrierFreq - this.carrierFreq);
+        this.pulseRate += rampCoeff * (settings.pulseRate - this.pulseRate);
+        this.carrierPhase += twoPiOverSampleRate * this.carrierFreq;
+        if (this.carrierPhase > 2 * Math.PI) this.carrierPhase -= 2 * Math.PI;
+        this.pulsePosition += this.pulseRate / this.sampleRate;
+        if (this.pulsePosition >= 1) this.pulsePosition -= 1;
+
+        const pulse = pulseEnvelope(this.pulsePosition, settings.dutyCycle, settings.shape);
+        output[i] += Math.sin(this.carrierPhase) * pulse * this.gain;
+      }
+    }
+  }
+}
+
+// Factory function
+export function createIsochronicGenerator(sampleRate?: number): IsochronicGenerator {
+  return new IsochronicGenerator(sampleRate);
+}
@@ -0,0 +1,329 @@
+/**
+ * LoudnessMeter - EBU R128 / ITU-R BS.1770 measurement of rendered exports
+ * Measures block by block as the export streams, so a 90-minute journey never has to sit
+ * in memory. Reports integrated, short-term and momentary loudness, true peak, loudness
+ * range and per-phase RMS, and checks them against delivery targets.
+ */
+
+import type { LoudnessTargetId } from '../types/journey';
+import type { AudioChapter } from './encoders/tags';
+
+export interface LoudnessTarget {
+  id: LoudnessTargetId;
+  label: string;
+  integratedLufs: number;
+  toleranceLu: number;   // Allowed distance from the integrated target
+  truePeakDbtp: number;  // Maximum true peak
+}
+
+export const LOUDNESS_TARGETS: Record<LoudnessTargetId, LoudnessTarget> = {
+  streaming: { id: 'streaming', label: 'Streaming (-14 LUFS)', integratedLufs: -14, toleranceLu: 1, truePeakDbtp: -1 },
+  podcast: { id: 'podcast', label: 'Podcast (-16 LUFS)', integratedLufs: -16, toleranceLu: 1, truePeakDbtp: -1 },
+  ebu_r128: { id: 'ebu_r128', label: 'EBU R128 broadcast (-23 LUFS)', integratedLufs: -23, toleranceLu: 0.5, truePeakDbtp: -1 },
+};
+
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTargetId = 'streaming';
+
+export interface PhaseLoudness {
+  name: string;
+  startSeconds: number;
+  rmsDb: number;
+}
+
+export interface LoudnessMeasurement {
+  integratedLufs: number;
+  momentaryMaxLufs: number;  // 400 ms window
+  shortTermMaxLufs: number;  // 3 s window
+  loudnessRangeLu: number;
+  truePeakDbtp: number;
+  samplePeakDbfs: number;
+  durationSeconds: number;
+  phases: PhaseLoudness[];
+}
+
+export interface LoudnessReport extends LoudnessMeasurement {
+  target: LoudnessTarget;
+  integratedPass: boolean;
+  truePeakPass: boolean;
+  pass: boolean;
+}
+
+// Reported for silence, the BS.1770 absolute gate
+const SILENCE_LUFS = -70;
+
+// Gating blocks advance in 100 ms steps
+const STEP_SECONDS = 0.1;
+const MOMENTARY_STEPS = 4;
+const SHORT_TERM_STEPS = 30;
+
+// True-peak interpolation: 4x oversampling with a 48-tap windowed-sinc filter
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weighting filter stages for a sample rate (BS.1770 pre-filter and RLB high-pass)
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // Stage 1: high shelf, +4 dB above ~1.7 kHz
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let q = 0.7071752369554196;
+  let a0 = 1 + k / q + k * k;
+  const shelf = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  // Stage 2: high-pass at 38 Hz
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Polyphase coefficients for true-peak interpolation
+ */
+function truePeakPhases(): Float64Array[] {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const taps = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    const x = (i - center) / OVERSAMPLING;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (i + 0.5)) / length);
+    taps[i] = sinc * window;
+  }
+  return Array.from({ length: OVERSAMPLING }, (_, phase) => {
+    const coefficients = new Float64Array(TAPS_PER_PHASE);
+    for (let t = 0; t < TAPS_PER_PHASE; t++) coefficients[t] = taps[t * OVERSAMPLING + phase];
+    return coefficients;
+  });
+}
+
+function toDb(power: number): number {
+  return power > 0 ? 10 * Math.log10(power) : -Infinity;
+}
+
+/**
+ * BS.1770 loudness of a mean-square power
+ */
+function toLufs(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+/**
+ * Gated mean loudness of a set of block powers (absolute -70 LUFS gate, then relative gate)
+ */
+function gatedLoudness(powers: number[], relativeGateLu: number): { lufs: number; gated: number[] } {
+  const aboveAbsolute = powers.filter((power) => toLufs(power) > SILENCE_LUFS);
+  if (aboveAbsolute.length === 0) return { lufs: SILENCE_LUFS, gated: [] };
+  const mean = aboveAbsolute.reduce((sum, power) => sum + power, 0) / aboveAbsolute.length;
+  const threshold = toLufs(mean) - relativeGateLu;
+  const gated = aboveAbsolute.filter((power) => toLufs(power) > threshold);
+  if (gated.length === 0) return { lufs: toLufs(mean), gated: [] };
+  return { lufs: toLufs(gated.reduce((sum, power) => sum + power, 0) / gated.length), gated };
+}
+
+/**
+ * Streaming loudness meter
+ * Feed consecutive blocks with process(), then call result().
+ */
+export class LoudnessMeter {
+  private sampleRate: number;
+  private filters: [Biquad, Biquad];
+  private filterState: Float64Array[]; // x1, x2, y1, y2 for both stages, per channel
+  private peakHistory: Float64Array[]; // Ring buffers stored twice over, so reads never wrap
+  private peakPosition = 0;
+  private peakPhases = truePeakPhases();
+  private stepSamples: number;
+
+  private stepEnergy = 0;
+  private stepFill = 0;
+  private steps: number[] = []; // Channel-summed K-weighted mean square of each 100 ms step
+
+  private chapters: AudioChapter[];
+  private phaseEnergy: number[];
+  private phaseSamples: number[];
+  private framesProcessed = 0;
+
+  private truePeak = 0;
+  private samplePeak = 0;
+
+  constructor(sampleRate: number, channels: number, chapters: AudioChapter[] = []) {
+    this.sampleRate = sampleRate;
+    this.filters = kWeightingFilters(sampleRate);
+    this.filterState = Array.from({ length: channels }, () => new Float64Array(8));
+    this.peakHistory = Array.from({ length: channels }, () => new Float64Array(TAPS_PER_PHASE * 2));
+    this.stepSamples = Math.round(STEP_SECONDS * sampleRate);
+    this.chapters = chapters;
+    this.phaseEnergy = chapters.map(() => 0);
+    this.phaseSamples = chapters.map(() => 0);
+  }
+
+  /**
+   * Measure the next block (one Float32Array per channel)
+   */
+  process(channels: Float32Array[]): void {
+    const length = channels[0]?.length ?? 0;
+    const [shelf, highPass] = this.filters;
+    let chapter = this.chapterAt(this.framesProcessed);
+    let nextChapterFrame = this.chapterStartFrame(chapter + 1);
+
+    for (let i = 0; i < length; i++) {
+      const frame = this.framesProcessed + i;
+      if (frame >= nextChapterFrame) {
+        chapter++;
+        nextChapterFrame = this.chapterStartFrame(chapter + 1);
+      }
+
+      let weighted = 0;
+      let raw = 0;
+      this.peakPosition = (this.peakPosition + TAPS_PER_PHASE - 1) % TAPS_PER_PHASE;
+      for (let ch = 0; ch < channels.length; ch++) {
+        const x = channels[ch][i];
+        const s = this.filterState[ch];
+
+        const y1 = shelf.b0 * x + shelf.b1 * s[0] + shelf.b2 * s[1] - shelf.a1 * s[2] - shelf.a2 * s[3];
+        s[1] = s[0]; s[0] = x;
+        s[3] = s[2]; s[2] = y1;
+        const y2 = highPass.b0 * y1 + highPass.b1 * s[4] + highPass.b2 * s[5] - highPass.a1 * s[6] - highPass.a2 * s[7];
+        s[5] = s[4]; s[4] = y1;
+        s[7] = s[6]; s[6] = y2;
+
+        weighted += y2 * y2;
+        raw += x * x;
+        this.measurePeak(ch, x);
+      }
+
+      if (chapter >= 0) {
+        this.phaseEnergy[chapter] += raw / channels.length;
+        this.phaseSamples[chapter]++;
+      }
+
+      this.stepEnergy += weighted;
+      if (++this.stepFill === this.stepSamples) {
+        this.steps.push(this.stepEnergy / this.stepSamples);
+        this.stepEnergy = 0;
+        this.stepFill = 0;
+      }
+    }
+
+    this.framesProcessed += length;
+  }
+
+  /**
+   * Loudness of everything measured so far
+   */
+  result(): LoudnessMeasurement {
+    const momentary = this.windowPowers(MOMENTARY_STEPS);
+    const shortTerm = this.windowPowers(SHORT_TERM_STEPS);
+    const maxLufs = (powers: number[]) => powers.reduce((max, power) => Math.max(max, toLufs(power)), SILENCE_LUFS);
+
+    // Loudness range: 10th to 95th percentile of gated short-term loudness (EBU Tech 3342)
+    const rangeBlocks = gatedLoudness(shortTerm, 20).gated.map(toLufs).sort((a, b) => a - b);
+    const percentile = (p: number) => rangeBlocks[Math.min(rangeBlocks.length - 1, Math.round(p * (rangeBlocks.length - 1)))];
+    const loudnessRangeLu = rangeBlocks.length > 1 ? percentile(0.95) - percentile(0.1) : 0;
+
+    return {
+      integratedLufs: gatedLoudness(momentary, 10).lufs,
+      momentaryMaxLufs: maxLufs(momentary),
+      shortTermMaxLufs: maxLufs(shortTerm),
+      loudnessRangeLu,
+      truePeakDbtp: Math.max(-100, 20 * Math.log10(Math.max(this.truePeak, this.samplePeak) || 1e-5)),
+      samplePeakDbfs: Math.max(-100, 20 * Math.log10(this.samplePeak || 1e-5)),
+      durationSeconds: this.framesProcessed / this.sampleRate,
+      phases: this.chapters.map((chapter, i) => ({
+        name: chapter.title,
+        startSeconds: chapter.startSeconds,
+        rmsDb: this.phaseSamples[i] > 0 ? Math.max(-100, toDb(this.phaseEnergy[i] / this.phaseSamples[i])) : -100,
+      })),
+    };
+  }
+
+  /**
+   * Mean power of every sliding window of the given number of steps
+   */
+  private windowPowers(windowSteps: number): number[] {
+    const powers: number[] = [];
+    let sum = 0;
+    for (let i = 0; i < this.steps.length; i++) {
+      sum += this.steps[i];
+      if (i >= windowSteps) sum -= this.steps[i - windowSteps];
+      if (i >= windowSteps - 1) powers.push(Math.max(0, sum) / windowSteps);
+    }
+    return powers;
+  }
+
+  private measurePeak(channel: number, sample: number): void {
+    const history = this.peakHistory[channel];
+    const position = this.peakPosition;
+    history[position] = sample;
+    history[position + TAPS_PER_PHASE] = sample;
+
+    this.samplePeak = Math.max(this.samplePeak, Math.abs(sample));
+    for (const coefficients of this.peakPhases) {
+      let value = 0;
+      for (let t = 0; t < TAPS_PER_PHASE; t++) value += coefficients[t] * history[position + t];
+      this.truePeak = Math.max(this.truePeak, Math.abs(value));
+    }
+  }
+
+  private chapterAt(frame: number): number {
+    let index = -1;
+    this.chapters.forEach((chapter, i) => {
+      if (Math.round(chapter.startSeconds * this.sampleRate) <= frame) index = i;
+    });
+    return index;
+  }
+
+  private chapterStartFrame(index: number): number {
+    return index < this.chapters.length ? Math.round(this.chapters[index].startSeconds * this.sampleRate) : Infinity;
+  }
+}
+
+/**
+ * Create a loudness meter
+ */
+export function createLoudnessMeter(sampleRate: number, channels: number, chapters?: AudioChapter[]): LoudnessMeter {
+  return new LoudnessMeter(sampleRate, channels, chapters);
+}
+
+/**
+ * Measure a rendered AudioBuffer
+ */
+export function measureAudioBuffer(buffer: AudioBuffer, chapters?: AudioChapter[]): LoudnessMeasurement {
+  const meter = new LoudnessMeter(buffer.sampleRate, buffer.numberOfChannels, chapters);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  meter.process(channels);
+  return meter.result();
+}
+
+/**
+ * Check a measurement against a delivery target
+ */
+export function checkLoudness(measurement: LoudnessMeasurement, target: LoudnessTarget): LoudnessReport {
+  const integratedPass = Math.abs(measurement.integratedLufs - target.integratedLufs) <= target.toleranceLu;
+  const truePeakPass = measurement.truePeakDbtp <= target.truePeakDbtp;
+  return { ...measurement, target, integratedPass, truePeakPass, pass: integratedPass && truePeakPass };
+}
@@ -0,0 +1,383 @@
+/**
+ * MelodyGenerator - Deterministic melodic note sequences rooted on the phase carrier
+ * The same note list drives live scheduling (SynthEngine) and offline rendering (OfflineRenderer)
+ */
+
+import type { PhaseConfig, MelodyStyle, MelodyScale, NoteDensity } from '../types/journey';
+import { automationValueAt, getParamLane, laneValueAt } from './Envelope';
+
+// Scale intervals in semitones from the root
+export const MELODY_SCALES: Record<MelodyScale, number[]> = {
+  pentatonic_major: [0, 2, 4, 7, 9],
+  pentatonic_minor: [0, 3, 5, 7, 10],
+  natural_minor: [0, 2, 3, 5, 7, 8, 10],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  whole_tone: [0, 2, 4, 6, 8, 10],
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+// Notes per minute for each density setting
+const DENSITY_RATE: Record<NoteDensity, number> = {
+  sparse: 4,
+  moderate: 8,
+  dense: 16,
+};
+
+// Melody register - carrier frequencies (28-90 Hz) are transposed up by octaves into this range
+const MELODY_REGISTER_MIN = 110;
+
+// Output gain of the melody bus relative to the foundation layer (0.7)
+export const MELODY_LAYER_GAIN = 0.25;
+
+export interface MelodyNote {
+  start: number;      // Seconds from phase start
+  duration: number;   // Seconds
+  frequency: number;  // Hz
+  velocity: number;   // 0-1
+}
+
+export interface MelodySettings {
+  style: MelodyStyle;
+  scale: MelodyScale;
+  intensity: number;
+  density: NoteDensity;
+}
+
+/**
+ * Resolve the melody settings for a phase, applying defaults
+ */
+export function getMelodySettings(phase: PhaseConfig): MelodySettings {
+  return {
+    style: phase.melody_style || 'evolving',
+    scale: phase.melody_scale || 'pentatonic_minor',
+    intensity: Math.max(0, Math.min(1, phase.melody_intensity ?? 0.5)),
+    density: phase.melody_density || 'moderate',
+  };
+}
+
+/**
+ * Check whether a phase should produce melody notes
+ */
+export function isMelodyActive(phase: PhaseConfig, melodyLayer: boolean | undefined): boolean {
+  return melodyLayer === true && phase.melody_enabled !== false;
+}
+
+/**
+ * Attack/release times for a note, shared by live and offline envelopes
+ */
+export function getNoteEnvelope(note: MelodyNote): { attack: number; release: number } {
+  const attack = Math.min(1.5, note.duration * 0.3);
+  const release = Math.min(3, note.duration * 0.4);
+  return { attack, release };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so every render of a phase yields the same notes
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(str: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export class MelodyGenerator {
+  private sampleRate: number;
+
+  constructor(sampleRate: number = 48000) {
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Generate the note sequence for a phase
+   * @param phase - Phase configuration
+   * @param phaseIndex - Index of the phase in the journey (part of the seed)
+   * @param durationSec - Phase duration in seconds
+   */
+  generateNotes(phase: PhaseConfig, phaseIndex: number, durationSec: number): MelodyNote[] {
+    if (durationSec <= 0) return [];
+
+    const settings = getMelodySettings(phase);
+    const random = createRandom(
+      hashString(`${phaseIndex}:${phase.name}:${settings.style}:${settings.scale}:${settings.density}`)
+    );
+
+    // An intensity lane scales each note by its value when the note starts
+    const intensityLane = getParamLane(phase, 'melody_intensity');
+    if (intensityLane) settings.intensity = 1;
+
+    let notes: MelodyNote[];
+    switch (settings.style) {
+      case 'drone':
+        notes = this.generateDrone(phase, settings, durationSec);
+        break;
+      case 'arpeggio':
+        notes = this.generateArpeggio(phase, settings, durationSec);
+        break;
+      case 'harmonic':
+        notes = this.generateHarmonic(phase, settings, durationSec, random);
+        break;
+      case 'mixed':
+        notes = [
+          ...this.generateDrone(phase, { ...settings, intensity: settings.intensity * 0.6 }, durationSec),
+          ...this.generateEvolving(phase, settings, durationSec, random),
+        ].sort((a, b) => a.start - b.start);
+        break;
+      case 'evolving':
+      default:
+        notes = this.generateEvolving(phase, settings, durationSec, random);
+    }
+
+    if (!intensityLane) return notes;
+    return notes.map((note) => ({
+      ...note,
+      velocity: note.velocity * Math.max(0, Math.min(1, laneValueAt(intensityLane, note.start / durationSec))),
+    }));
+  }
+
+  /**
+   * Render a note list to a mono Float32Array (offline export)
+   * @param notes - Notes to render (times relative to phase start)
+   * @param samples - Number of samples to render
+   * @param startSample - Phase-relative sample at which the output begins (for block rendering)
+   */
+  renderOffline(notes: MelodyNote[], samples: number, startSample: number = 0): Float32Array {
+    const output = new Float32Array(samples);
+    const twoPiOverSampleRate = (2 * Math.PI) / this.sampleRate;
+    const endWindow = startSample + samples;
+
+    for (const note of notes) {
+      const noteStart = Math.floor(note.start * this.sampleRate);
+      const noteEnd = Math.floor((note.start + note.duration) * this.sampleRate);
+      const from = Math.max(noteStart, startSample);
+      const to = Math.min(noteEnd, endWindow);
+      if (to <= from) continue;
+
+      const { attack, release } = getNoteEnvelope(note);
+      const releaseStart = note.duration - release;
+
+      for (let i = from; i < to; i++) {
+        const t = (i - noteStart) / this.sampleRate;
+        let env: number;
+        if (t < attack) {
+          env = t / attack;
+        } else if (t < releaseStart) {
+          env = 1;
+        } else {
+          env = Math.max(0, 1 - (t - releaseStart) / release);
+        }
+        output[i - startSample] += Math.sin(twoPiOverSampleRate * note.frequency * (i - noteStart)) * env * note.velocity;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Schedule a note list on any audio context (live playback or OfflineAudioContext)
+   * @param ctx - Audio context to create nodes on
+   * @param destination - Node the note voices connect to
+   * @param notes - Notes to schedule
+   * @param phaseStartTime - Context time at which the phase begins
+   * @param fromTime - Context time before which notes are not started
+   * @returns Oscillators that were scheduled, so callers can stop them early
+   */
+  scheduleNotes(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    notes: MelodyNote[],
+    phaseStartTime: number,
+    fromTime: number = 0
+  ): OscillatorNode[] {
+    const voices: OscillatorNode[] = [];
+
+    for (const note of notes) {
+      const start = phaseStartTime + note.start;
+      const end = start + note.duration;
+      if (end <= fromTime) continue;
+
+      const { attack, release } = getNoteEnvelope(note);
+      const osc = ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = note.frequency;
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(note.velocity, start + attack);
+      gain.gain.setValueAtTime(note.velocity, end - release);
+      gain.gain.linearRampToValueAtTime(0, end);
+
+      osc.connect(gain);
+      gain.connect(destination);
+      osc.start(Math.max(start, fromTime));
+      osc.stop(end);
+      osc.onended = () => gain.disconnect();
+
+      voices.push(osc);
+    }
+
+    return voices;
+  }
+
+  /**
+   * Root frequency at a point in the phase, following the carrier glide
+   */
+  private getRoot(phase: PhaseConfig, progress: number): number {
+    let root = automationValueAt(phase.frequency, progress);
+    if (root <= 0) root = 40;
+    while (root < MELODY_REGISTER_MIN) root *= 2;
+    return root;
+  }
+
+  /**
+   * Frequency of a scale degree (may exceed the scale length to span octaves)
+   */
+  private degreeToFrequency(root: number, scale: number[], degree: number): number {
+    const octave = Math.floor(degree / scale.length);
+    const index = ((degree % scale.length) + scale.length) % scale.length;
+    return root * Math.pow(2, octave + scale[index] / 12);
+  }
+
+  /**
+   * Drone - long sustained root and fifth, re-struck slowly
+   */
+  private generateDrone(phase: PhaseConfig, settings: MelodySettings, durationSec: number): MelodyNote[] {
+    const notes: MelodyNote[] = [];
+    const noteLength = Math.max(8, 120 / DENSITY_RATE[settings.density]);
+    const overlap = Math.min(3, noteLength * 0.25);
+
+    for (let start = 0; start < durationSec; start += noteLength - overlap) {
+      const duration = Math.min(noteLength, durationSec - start);
+      if (duration < 1) break;
+      const root = this.getRoot(phase, start / durationSec);
+      notes.push({ start, duration, frequency: root, velocity: settings.intensity * 0.8 });
+      notes.push({ start, duration, frequency: root * 1.5, velocity: settings.intensity * 0.4 });
+    }
+
+    return notes;
+  }
+
+  /**
+   * Arpeggio - cycles up and down through the chord tones of the scale
+   */
+  private generateArpeggio(phase: PhaseConfig, settings: MelodySettings, durationSec: number): MelodyNote[] {
+    const notes: MelodyNote[] = [];
+    const scale = MELODY_SCALES[settings.scale];
+    const step = 60 / (DENSITY_RATE[settings.density] * 3);
+    const chordDegrees = [0, 2, 4, scale.length, 4, 2];
+
+    let index = 0;
+    for (let start = 0; start + step <= durationSec; start += step) {
+      const root = this.getRoot(phase, start / durationSec);
+      const degree = chordDegrees[index % chordDegrees.length];
+      notes.push({
+        start,
+        duration: step * 1.5,
+        frequency: this.degreeToFrequency(root, scale, degree),
+        velocity: settings.intensity * (index % chordDegrees.length === 0 ? 0.8 : 0.6),
+      });
+      index++;
+    }
+
+    // Last note may ring past the phase end; trim it
+    for (const note of notes) {
+      note.duration = Math.min(note.duration, durationSec - note.start);
+    }
+
+    return notes;
+  }
+
+  /**
+   * Evolving - slow random walk over the scale with varying note lengths
+   */
+  private generateEvolving(
+    phase: PhaseConfig,
+    settings: MelodySettings,
+    durationSec: number,
+    random: () => number
+  ): MelodyNote[] {
+    const notes: MelodyNote[] = [];
+    const scale = MELODY_SCALES[settings.scale];
+    const meanGap = 60 / DENSITY_RATE[settings.density];
+    const maxDegree = scale.length * 2;
+
+    let degree = 0;
+    let start = random() * meanGap * 0.5;
+    while (start < durationSec) {
+      const duration = Math.min(meanGap * (1 + random() * 1.5), durationSec - start);
+      if (duration < 0.5) break;
+
+      const root = this.getRoot(phase, start / durationSec);
+      notes.push({
+        start,
+        duration,
+        frequency: this.degreeToFrequency(root, scale, degree),
+        velocity: settings.intensity * (0.5 + random() * 0.3),
+      });
+
+      // Step by -2..+2 degrees, staying inside two octaves
+      degree += Math.floor(random() * 5) - 2;
+      degree = Math.max(0, Math.min(maxDegree, degree));
+      start += meanGap * (0.6 + random() * 0.8);
+    }
+
+    return notes;
+  }
+
+  /**
+   * Harmonic - sustained triads built on shifting scale degrees
+   */
+  private generateHarmonic(
+    phase: PhaseConfig,
+    settings: MelodySettings,
+    durationSec: number,
+    random: () => number
+  ): MelodyNote[] {
+    const notes: MelodyNote[] = [];
+    const scale = MELODY_SCALES[settings.scale];
+    const chordLength = Math.max(6, 240 / DENSITY_RATE[settings.density]);
+    const overlap = Math.min(2, chordLength * 0.2);
+    const chordRoots = [0, 3, 4, 0, 5, 3];
+
+    let chord = Math.floor(random() * chordRoots.length);
+    for (let start = 0; start < durationSec; start += chordLength - overlap) {
+      const duration = Math.min(chordLength, durationSec - start);
+      if (duration < 1) break;
+
+      const root = this.getRoot(phase, start / durationSec);
+      const base = chordRoots[chord % chordRoots.length];
+      for (const offset of [0, 2, 4]) {
+        notes.push({
+          start,
+          duration,
+          frequency: this.degreeToFrequency(root, scale, base + offset),
+          velocity: settings.intensity * (offset === 0 ? 0.5 : 0.35),
+        });
+      }
+      chord++;
+    }
+
+    return notes;
+  }
+}
+
+// Factory function
+export function createMelodyGenerator(sampleRate?: number): MelodyGenerator {
+  return new MelodyGenerator(sampleRate);
+}
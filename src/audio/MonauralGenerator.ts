@@ -0,0 +1,132 @@
+/**
+ * MonauralGenerator - Monaural beat settings and offline rendering
+ * Two close carriers are summed before they reach the ears, so the beat is in the signal
+ * itself and works on speakers. Shares settings resolution with SynthEngine.
+ */
+
+import type { JourneyConfig, PhaseConfig } from '../types/journey';
+import { automationValueAt, resolvePhaseAt } from './Envelope';
+import { getBinauralBeatFrequency, getPhaseAtTime, BINAURAL_RAMP_TIME, BINAURAL_RELEASE_TIME } from './BinauralGenerator';
+
+export interface MonauralSettings {
+  enabled: boolean;
+  beatFreq: number;
+  carrierFreq: number;
+  volume: number;
+}
+
+// Each carrier plays at half the volume so the summed peak matches a single binaural ear
+export const MONAURAL_CARRIER_GAIN = 0.5;
+
+/**
+ * Resolve all monaural settings for a point in a phase
+ * The beat frequency follows the same entrainment mapping as binaural beats unless set explicitly.
+ */
+export function getMonauralSettings(timelinePhase: PhaseConfig, progress: number): MonauralSettings {
+  const phase = resolvePhaseAt(timelinePhase, progress);
+  return {
+    enabled: phase.monaural_enabled === true,
+    beatFreq: phase.monaural_beat_frequency !== undefined && phase.monaural_beat_frequency > 0
+      ? phase.monaural_beat_frequency
+      : getBinauralBeatFrequency(phase, progress),
+    carrierFreq: phase.monaural_carrier_frequency || 200,
+    volume: phase.monaural_volume ?? 0.3,
+  };
+}
+
+/**
+ * Check whether any phase of a journey uses monaural beats
+ */
+export function hasMonauralBeats(config: JourneyConfig): boolean {
+  return config.phases.some((phase) => phase.monaural_enabled === true);
+}
+
+export class MonauralGenerator {
+  private sampleRate: number;
+
+  // Oscillator and smoothing state carried between blocks
+  private lowPhase = 0;
+  private highPhase = 0;
+  private lowFreq = -1;
+  private highFreq = -1;
+  private gain = 0;
+
+  constructor(sampleRate: number = 48000) {
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Reset oscillator and smoothing state (start of a new render)
+   */
+  reset(): void {
+    this.lowPhase = 0;
+    this.highPhase = 0;
+    this.lowFreq = -1;
+    this.highFreq = -1;
+    this.gain = 0;
+  }
+
+  /**
+   * Render the monaural layer of a whole journey (mono, identical in both ears)
+   */
+  renderOffline(config: JourneyConfig, totalSamples: number): Float32Array {
+    const output = new Float32Array(totalSamples);
+    if (!hasMonauralBeats(config)) {
+      return output;
+    }
+
+    this.reset();
+    this.renderBlock(config, output, 0);
+    return output;
+  }
+
+  /**
+   * Render the next block of the monaural layer into output (added to existing content)
+   * Blocks must be rendered in order after reset(); startSample is the journey position of output[0].
+   */
+  renderBlock(config: JourneyConfig, output: Float32Array, startSample: number): void {
+    const twoPiOverSampleRate = (2 * Math.PI) / this.sampleRate;
+    const rampCoeff = 1 - Math.exp(-1 / (BINAURAL_RAMP_TIME * this.sampleRate));
+    const releaseCoeff = 1 - Math.exp(-1 / (BINAURAL_RELEASE_TIME * this.sampleRate));
+    const blockSize = 128;
+    const length = output.length;
+
+    for (let block = 0; block < length; block += blockSize) {
+      const time = (startSample + block) / this.sampleRate;
+      const { phase, progress } = getPhaseAtTime(config, time);
+      const settings = getMonauralSettings(phase, progress);
+      const amp = automationValueAt(phase.amplitude, progress);
+
+      const targetLow = settings.carrierFreq - settings.beatFreq / 2;
+      const targetHigh = settings.carrierFreq + settings.beatFreq / 2;
+      const targetGain = settings.enabled ? settings.volume * amp * MONAURAL_CARRIER_GAIN : 0;
+      const gainCoeff = settings.enabled ? rampCoeff : releaseCoeff;
+
+      // First audible block starts on pitch rather than gliding in
+      if (this.lowFreq < 0 && settings.enabled) {
+        this.lowFreq = targetLow;
+        this.highFreq = targetHigh;
+      }
+
+      const blockEnd = Math.min(block + blockSize, length);
+      for (let i = block; i < blockEnd; i++) {
+        this.gain += gainCoeff * (targetGain - this.gain);
+        if (this.lowFreq < 0) continue;
+
+        this.lowFreq += rampCoeff * (targetLow - this.lowFreq);
+        this.highFreq += rampCoeff * (targetHigh - this.highFreq);
+        this.lowPhase += twoPiOverSampleRate * this.lowFreq;
+        this.highPhase += twoPiOverSampleRate * this.highFreq;
+        if (this.lowPhase > 2 * Math.PI) this.lowPhase -= 2 * Math.PI;
+        if (this.highPhase > 2 * Math.PI) this.highPhase -= 2 * Math.PI;
+
+        output[i] += (Math.sin(this.lowPhase) + Math.sin(this.highPhase)) * this.gain;
+      }
+    }
+  }
+}
+
+// Factory function
+export function createMonauralGenerator(sampleRate?: number): MonauralGenerator {
+  return new MonauralGenerator(sampleRate);
+}
@@ -87,6 +87,7 @@ export class MusicLayer {
   private wantStreaming: boolean = false; // true while we intend to keep streaming
   private streamEndHandled: boolean = false; // prevents duplicate reconnects from onerror + onmessage race
   private connectionId: number = 0; // monotonic counter to detect stale reconnects
+  private sessionId: string | null = null; // server session of the current connection
 
   private volume: number = 0.3;
   private enabled: boolean = false;
@@ -155,6 +156,7 @@ export class MusicLayer {
     this.currentPrompt = prompt;
     this.isStreaming = true;
     this.streamEndHandled = false;
+    this.sessionId = null;
     this.scheduledEndTime = this.ctx.currentTime + 0.1;
 
     // Increment connection ID so stale callbacks from old connections are ignored
@@ -175,6 +177,11 @@ export class MusicLayer {
       try {
         const data = JSON.parse(event.data);
 
+        // First event: the session this connection streams from
+        if (data.sessionId) {
+          this.sessionId = data.sessionId;
+        }
+
         if (data.audio) {
           this.scheduleChunk(data.audio);
         }
@@ -185,7 +192,7 @@ export class MusicLayer {
         }
 
         if (data.done) {
-          console.log('MusicLayer: Stream ended, will reconnect...');
+          console.log(`MusicLayer: Stream ended${data.reason ? ` (${data.reason})` : ''}, will reconnect...`);
           this.handleStreamEnd(thisConnectionId);
         }
       } catch (e) {
@@ -333,9 +340,16 @@ export class MusicLayer {
     this.activeNodes = [];
     this.scheduledEndTime = 0;
 
-    // Tell server to close the Lyria session
-    const apiUrl = getApiUrl();
-    fetch(`${apiUrl}/api/music-stream/stop`, { method: 'POST' }).catch(() => {});
+    // Tell server to close this client's Lyria session
+    if (this.sessionId) {
+      const apiUrl = getApiUrl();
+      fetch(`${apiUrl}/api/music-stream/stop`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: this.sessionId }),
+      }).catch(() => {});
+      this.sessionId = null;
+    }
   }
 
   /**
@@ -6,13 +6,18 @@
  * (sweeps, bursts, rhythms, waves) via the NovaPatternEngine
  */
 
-import type { NovaPattern } from '../types/journey';
+import type { NovaPattern, PhaseConfig } from '../types/journey';
 import { NovaPatternEngine } from './NovaPatternEngine';
+import { DEFAULT_NOVA_SAFETY_POLICY, checkNovaPattern, type NovaSafetyPolicy } from './NovaSafety';
+import { automationValueAt, getParamLane, laneValueAt } from './Envelope';
 
 // BLE Service and Characteristic UUIDs
 const CONTROL_SERVICE = '47bbfb1e-670e-4f81-bfb3-78daffc9a783';
 const COMMAND_CHAR = '3e25a3bf-bfe1-4c71-97c5-5bdb73fac89e';
 
+// Where consent to risk-band flicker is kept, so it is asked for once per device
+const CONSENT_STORAGE_KEY = 'sonic-journey-nova-consent';
+
 /**
  * Nova Flicker Frequency Bands - Based on Neural Entrainment Research
  * 
@@ -96,16 +101,23 @@ export function getNovaFrequencyForPhase(phase: {
   rhythm_mode?: string;
   entrainment_mode?: string;
   frequency?: { start: number; end: number };
+  automation?: PhaseConfig['automation'];
 }, progress: number = 0.5): number {
+  // Automation lanes override the fixed values
+  const novaLane = getParamLane(phase, 'nova_frequency');
+  const rateLane = getParamLane(phase, 'entrainment_rate');
+  const novaFrequency = novaLane ? laneValueAt(novaLane, progress) : phase.nova_frequency;
+  const entrainmentRate = rateLane ? laneValueAt(rateLane, progress) : phase.entrainment_rate;
+
   // 1. Explicit nova_frequency override takes priority
-  if (phase.nova_frequency !== undefined && phase.nova_frequency > 0) {
-    return phase.nova_frequency;
+  if (novaFrequency !== undefined && novaFrequency > 0) {
+    return novaFrequency;
   }
   
   // 2. Use entrainment_rate if specified (this is the exact Hz for neural entrainment)
-  if (phase.entrainment_rate !== undefined && phase.entrainment_rate > 0) {
+  if (entrainmentRate !== undefined && entrainmentRate > 0) {
     // Clamp to safe range (1-50 Hz)
-    return Math.min(50, Math.max(1, phase.entrainment_rate));
+    return Math.min(50, Math.max(1, entrainmentRate));
   }
   
   // 3. Map from rhythm_mode or entrainment_mode
@@ -116,7 +128,7 @@ export function getNovaFrequencyForPhase(phase: {
   
   // 4. Interpolate from frequency range based on progress
   if (phase.frequency) {
-    const interpolatedFreq = phase.frequency.start + (phase.frequency.end - phase.frequency.start) * progress;
+    const interpolatedFreq = automationValueAt(phase.frequency, progress);
     return mapFrequencyToNova(interpolatedFreq);
   }
   
@@ -132,6 +144,31 @@ export interface NovaState {
   patternType: string | null; // Current pattern type for display
   device: BluetoothDevice | null;
   commandChar: BluetoothRemoteGATTCharacteristic | null;
+  consentRequired: boolean; // A risk-band pattern was blocked until consent is recorded
+}
+
+// Recorded consent to flicker in a safety policy's risk band
+export interface NovaConsentRecord {
+  grantedAt: string; // ISO timestamp
+  riskBand: { minHz: number; maxHz: number };
+}
+
+function readConsent(): NovaConsentRecord | null {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(CONSENT_STORAGE_KEY) : null;
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeConsent(consent: NovaConsentRecord | null): void {
+  if (typeof localStorage === 'undefined') return;
+  if (consent) {
+    localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(consent));
+  } else {
+    localStorage.removeItem(CONSENT_STORAGE_KEY);
+  }
 }
 
 export class NovaController {
@@ -143,6 +180,7 @@ export class NovaController {
     patternType: null,
     device: null,
     commandChar: null,
+    consentRequired: false,
   };
 
   private flickerInterval: ReturnType<typeof setInterval> | null = null;
@@ -153,6 +191,9 @@ export class NovaController {
   private debugLog: Array<{ timestamp: number; message: string; type: 'info' | 'warn' | 'error' | 'success' }> = [];
   private onDebugLog?: (log: Array<{ timestamp: number; message: string; type: 'info' | 'warn' | 'error' | 'success' }>) => void;
   private maxLogEntries = 50;
+  private flashTimes: number[] = []; // performance.now() of recent 01ff writes, for the visualizer
+  private maxFlashTimes = 64;
+  private safetyPolicy: NovaSafetyPolicy = DEFAULT_NOVA_SAFETY_POLICY;
 
   /**
    * Set callback for state changes
@@ -192,6 +233,82 @@ export class NovaController {
     this.onDebugLog?.(this.getDebugLog());
   }
 
+  /**
+   * Record a sent flash command
+   */
+  private recordFlash() {
+    this.flashTimes.push(performance.now());
+    if (this.flashTimes.length > this.maxFlashTimes) {
+      this.flashTimes.shift();
+    }
+  }
+
+  /**
+   * Get timestamps (performance.now()) of the most recent flash commands
+   */
+  getFlashTimes(): number[] {
+    return [...this.flashTimes];
+  }
+
+  /**
+   * Set the safety policy every pattern is checked against before it plays
+   */
+  setSafetyPolicy(policy: NovaSafetyPolicy) {
+    this.safetyPolicy = policy;
+  }
+
+  getSafetyPolicy(): NovaSafetyPolicy {
+    return this.safetyPolicy;
+  }
+
+  /**
+   * Recorded consent to risk-band flicker, if it covers the current policy's risk band
+   */
+  getConsent(): NovaConsentRecord | null {
+    const consent = readConsent();
+    const { minHz, maxHz } = this.safetyPolicy.riskBand;
+    return consent?.riskBand?.minHz === minHz && consent.riskBand.maxHz === maxHz ? consent : null;
+  }
+
+  /**
+   * Record the user's explicit consent to risk-band flicker
+   */
+  recordConsent(): NovaConsentRecord {
+    const { minHz, maxHz } = this.safetyPolicy.riskBand;
+    const consent: NovaConsentRecord = { grantedAt: new Date().toISOString(), riskBand: { minHz, maxHz } };
+    writeConsent(consent);
+    this.addDebugLog(`Consent to ${minHz}-${maxHz} Hz flicker recorded at ${consent.grantedAt}`, 'warn');
+    this.updateState({ consentRequired: false });
+    return consent;
+  }
+
+  revokeConsent() {
+    writeConsent(null);
+    this.addDebugLog('Risk-band consent revoked', 'info');
+  }
+
+  /**
+   * Check a pattern against the safety policy
+   * Returns the clamped pattern, or null when it reaches the risk band without recorded consent.
+   */
+  private applySafetyPolicy(pattern: NovaPattern, phaseDurationMs?: number): NovaPattern | null {
+    const result = checkNovaPattern(pattern, phaseDurationMs, this.safetyPolicy);
+    for (const issue of result.issues) {
+      if (issue.code !== 'risk_band') this.addDebugLog(`Safety: ${issue.message}`, 'warn');
+    }
+
+    if (result.requiresConsent) {
+      const { minHz, maxHz } = this.safetyPolicy.riskBand;
+      if (!this.getConsent()) {
+        this.addDebugLog(`Pattern blocked: it flashes within ${minHz}-${maxHz} Hz and needs consent`, 'error');
+        this.updateState({ consentRequired: true });
+        return null;
+      }
+      this.addDebugLog(`Pattern flashes within ${minHz}-${maxHz} Hz (consented)`, 'warn');
+    }
+    return result.pattern;
+  }
+
   /**
    * Clear debug log
    */
@@ -371,6 +488,10 @@ export class NovaController {
       return false;
     }
 
+    const safePattern = this.applySafetyPolicy(NovaPatternEngine.createSteadyPattern(frequencyHz));
+    if (!safePattern) return false;
+    frequencyHz = safePattern.baseFrequency;
+
     this.isStartingFlicker = true;
     this.addDebugLog(`Starting flicker at ${frequencyHz} Hz`, 'info');
 
@@ -406,6 +527,7 @@ export class NovaController {
       
       // Use await to ensure the initial command completes before starting interval
       await this.state.commandChar.writeValue(trigger);
+      this.recordFlash();
       this.addDebugLog('Initial 01ff command sent successfully', 'success');
       
       // Match ble-web.html behavior: start interval immediately after initial command
@@ -436,6 +558,7 @@ export class NovaController {
       }
       try {
         await this.state.commandChar.writeValue(trigger);
+        this.recordFlash();
       } catch (error) {
         // Silent fail - just like ble-web.html
         // The device disconnect event will handle cleanup
@@ -483,7 +606,7 @@ export class NovaController {
 
   /**
    * Start a complex pattern-based flicker sequence
-   * Uses NovaPatternEngine for dynamic timing calculations
+   * Uses NovaPatternEngine for dynamic timing calculations, after the safety policy check
    */
   async startPattern(pattern: NovaPattern, phaseDurationMs: number): Promise<boolean> {
     this.addDebugLog(`startPattern called: ${pattern.type} @ ${pattern.baseFrequency} Hz`, 'info');
@@ -512,6 +635,11 @@ export class NovaController {
       return false;
     }
 
+    // Clamp to the safety policy; risk-band patterns need recorded consent
+    const safePattern = this.applySafetyPolicy(pattern, phaseDurationMs);
+    if (!safePattern) return false;
+    pattern = safePattern;
+
     this.isStartingFlicker = true;
 
     // Stop any existing flicker
@@ -533,6 +661,7 @@ export class NovaController {
     try {
       this.addDebugLog('Sending initial pattern command...', 'info');
       await this.state.commandChar.writeValue(trigger);
+      this.recordFlash();
       this.addDebugLog('Initial pattern command sent', 'success');
     } catch (error) {
       this.addDebugLog(`Initial pattern command error: ${error}`, 'error');
@@ -581,6 +710,7 @@ export class NovaController {
       if (shouldFlash) {
         try {
           await this.state.commandChar.writeValue(new Uint8Array([0x01, 0xff]));
+          this.recordFlash();
         } catch (error) {
           // Silent fail - device disconnect event will handle cleanup
         }
@@ -0,0 +1,203 @@
+/**
+ * NovaSafety - Photosensitive-epilepsy safeguards for Nova flicker patterns
+ * A policy bounds flash frequency, burst density, sweep speed and timing jitter. Patterns are clamped
+ * to it, and any pattern that reaches the risk band (15-25 Hz, where photoparoxysmal responses peak)
+ * needs recorded user consent before it plays. Shared by the app and the journey generator.
+ */
+
+import type { NovaPattern } from '../types/journey';
+
+export interface NovaSafetyPolicy {
+  minFrequencyHz: number;
+  maxFrequencyHz: number;
+  riskBand: { minHz: number; maxHz: number }; // Flash rates that need consent
+  maxBurstDensity: number;                    // Mean flashes per second over a burst and its gap
+  maxSweepRate: number;                       // Hz per second a sweep may change frequency
+  maxRandomVariation: number;                 // Timing jitter (ms)
+}
+
+export const DEFAULT_NOVA_SAFETY_POLICY: NovaSafetyPolicy = {
+  minFrequencyHz: 1,
+  maxFrequencyHz: 50,
+  riskBand: { minHz: 15, maxHz: 25 },
+  maxBurstDensity: 8,
+  maxSweepRate: 0.5,
+  maxRandomVariation: 50,
+};
+
+// How far below the risk band frequencies are moved when a pattern must avoid it
+const RISK_BAND_MARGIN_HZ = 1;
+
+// NovaPatternEngine never waits less than this between steps
+const MIN_ENGINE_INTERVAL_MS = 20;
+
+export type NovaSafetyIssueCode = 'frequency' | 'risk_band' | 'burst_density' | 'sweep_rate' | 'jitter';
+
+export interface NovaSafetyIssue {
+  code: NovaSafetyIssueCode;
+  message: string;
+}
+
+export interface NovaSafetyResult {
+  pattern: NovaPattern;       // The pattern clamped to the policy limits
+  issues: NovaSafetyIssue[];  // What was clamped, and the risk band if it is reached
+  requiresConsent: boolean;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Lowest and highest flash rate a pattern can produce, including waves and timing jitter
+ */
+export function getPatternFrequencyRange(pattern: NovaPattern): { minHz: number; maxHz: number } {
+  const frequencies = [pattern.baseFrequency];
+  if (pattern.type === 'sweep' && pattern.targetFrequency !== undefined) {
+    frequencies.push(pattern.targetFrequency);
+  }
+  if (pattern.type === 'wave') {
+    const amplitude = pattern.waveAmplitude ?? 2;
+    frequencies.push(pattern.baseFrequency - amplitude, pattern.baseFrequency + amplitude);
+  }
+
+  let maxHz = Math.max(...frequencies);
+  const jitter = pattern.type === 'random' ? (pattern.randomVariation ?? 50) : (pattern.randomVariation ?? 0);
+  if (jitter > 0) {
+    maxHz = 1000 / Math.max(MIN_ENGINE_INTERVAL_MS, 1000 / maxHz - jitter);
+  }
+  return { minHz: Math.max(0, Math.min(...frequencies)), maxHz };
+}
+
+function reachesRiskBand(pattern: NovaPattern, policy: NovaSafetyPolicy): boolean {
+  const { minHz, maxHz } = getPatternFrequencyRange(pattern);
+  return maxHz >= policy.riskBand.minHz && minHz <= policy.riskBand.maxHz;
+}
+
+/**
+ * Clamp a pattern to a safety policy and report whether it needs consent
+ * durationMs is the phase length, needed to limit sweep speed (sweeps are left alone without it).
+ */
+export function checkNovaPattern(
+  pattern: NovaPattern,
+  durationMs?: number,
+  policy: NovaSafetyPolicy = DEFAULT_NOVA_SAFETY_POLICY
+): NovaSafetyResult {
+  const issues: NovaSafetyIssue[] = [];
+  const safe: NovaPattern = { ...pattern };
+  const { minFrequencyHz, maxFrequencyHz } = policy;
+
+  // Frequency limits
+  const limitFrequency = (value: number, label: string) => {
+    const limited = clamp(value, minFrequencyHz, maxFrequencyHz);
+    if (limited !== value) {
+      issues.push({ code: 'frequency', message: `${label} ${round(value)} Hz clamped to ${limited} Hz` });
+    }
+    return limited;
+  };
+  safe.baseFrequency = limitFrequency(safe.baseFrequency, 'Base frequency');
+  if (safe.targetFrequency !== undefined) {
+    safe.targetFrequency = limitFrequency(safe.targetFrequency, 'Target frequency');
+  }
+  if (safe.type === 'wave') {
+    const amplitude = safe.waveAmplitude ?? 2;
+    const limited = Math.min(amplitude, safe.baseFrequency - minFrequencyHz, maxFrequencyHz - safe.baseFrequency);
+    if (limited < amplitude) {
+      safe.waveAmplitude = round(limited);
+      issues.push({ code: 'frequency', message: `Wave amplitude reduced to ${safe.waveAmplitude} Hz to stay within ${minFrequencyHz}-${maxFrequencyHz} Hz` });
+    }
+  }
+
+  // Sweep speed
+  if (safe.type === 'sweep' && safe.targetFrequency !== undefined && durationMs && durationMs > 0) {
+    const maxChange = policy.maxSweepRate * (durationMs / 1000);
+    const change = safe.targetFrequency - safe.baseFrequency;
+    if (Math.abs(change) > maxChange) {
+      safe.targetFrequency = round(safe.baseFrequency + Math.sign(change) * maxChange);
+      issues.push({
+        code: 'sweep_rate',
+        message: `Sweep limited to ${policy.maxSweepRate} Hz/s: ends at ${safe.targetFrequency} Hz instead of ${round(pattern.targetFrequency!)} Hz`,
+      });
+    }
+  }
+
+  // Burst density: lengthen the gap until the mean flash rate is within the limit
+  if (safe.type === 'burst') {
+    const count = safe.burstCount ?? 5;
+    const gap = safe.burstGap ?? 500;
+    const burstMs = (count * 1000) / safe.baseFrequency;
+    const density = (count * 1000) / (burstMs + gap);
+    if (density > policy.maxBurstDensity) {
+      safe.burstGap = Math.ceil((count * 1000) / policy.maxBurstDensity - burstMs);
+      issues.push({
+        code: 'burst_density',
+        message: `Burst gap lengthened from ${gap} ms to ${safe.burstGap} ms (${round(density)} flashes/s exceeds ${policy.maxBurstDensity})`,
+      });
+    }
+  }
+
+  // Jitter: bounded, and never pushing the fastest flash past the frequency limit
+  const jitter = safe.type === 'random' ? (safe.randomVariation ?? 50) : (safe.randomVariation ?? 0);
+  const fastest = getPatternFrequencyRange({ ...safe, randomVariation: 0, type: safe.type === 'random' ? 'steady' : safe.type }).maxHz;
+  const maxJitter = Math.max(0, Math.min(policy.maxRandomVariation, Math.floor(1000 / fastest - 1000 / maxFrequencyHz)));
+  if (jitter > maxJitter) {
+    safe.randomVariation = maxJitter;
+    issues.push({ code: 'jitter', message: `Timing jitter reduced from ${jitter} ms to ${maxJitter} ms` });
+  }
+
+  const requiresConsent = reachesRiskBand(safe, policy);
+  if (requiresConsent) {
+    const { minHz, maxHz } = policy.riskBand;
+    issues.push({ code: 'risk_band', message: `Pattern flashes within ${minHz}-${maxHz} Hz, the photosensitive risk band` });
+  }
+
+  return { pattern: safe, issues, requiresConsent };
+}
+
+/**
+ * Move a pattern's frequencies out of the risk band (to just below it)
+ */
+function avoidRiskBand(pattern: NovaPattern, policy: NovaSafetyPolicy): NovaPattern {
+  const { minHz, maxHz } = policy.riskBand;
+  const below = minHz - RISK_BAND_MARGIN_HZ;
+  const safe: NovaPattern = { ...pattern, randomVariation: 0 };
+
+  if (safe.type === 'sweep' && safe.targetFrequency !== undefined) {
+    // A sweep that starts or ends in the band, or crosses it, is held below it
+    const low = Math.min(safe.baseFrequency, safe.targetFrequency);
+    const high = Math.max(safe.baseFrequency, safe.targetFrequency);
+    if (high >= minHz && low <= maxHz) {
+      safe.baseFrequency = Math.min(safe.baseFrequency, below);
+      safe.targetFrequency = Math.min(safe.targetFrequency, below);
+    }
+  } else if (safe.baseFrequency >= minHz && safe.baseFrequency <= maxHz) {
+    safe.baseFrequency = below;
+  }
+
+  if (safe.type === 'wave') {
+    const amplitude = safe.waveAmplitude ?? 2;
+    const room = safe.baseFrequency < minHz ? below - safe.baseFrequency : safe.baseFrequency - maxHz - RISK_BAND_MARGIN_HZ;
+    safe.waveAmplitude = round(Math.max(0, Math.min(amplitude, room)));
+  }
+  return safe;
+}
+
+/**
+ * Make a pattern safe to play without consent (used for generated journeys)
+ * Clamps it to the policy and moves it out of the risk band; null if it cannot be made safe.
+ */
+export function makeNovaPatternSafe(
+  pattern: NovaPattern,
+  durationMs?: number,
+  policy: NovaSafetyPolicy = DEFAULT_NOVA_SAFETY_POLICY
+): NovaPattern | null {
+  let result = checkNovaPattern(pattern, durationMs, policy);
+  if (result.requiresConsent) {
+    result = checkNovaPattern(avoidRiskBand(result.pattern, policy), durationMs, policy);
+  }
+  return result.requiresConsent ? null : result.pattern;
+}
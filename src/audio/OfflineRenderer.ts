@@ -3,15 +3,29 @@
  * For high-quality export to WAV/MP3
  */
 
-import type { JourneyConfig, PhaseConfig, ProgressCallback, EntrainmentMode } from '../types/journey';
+import type { JourneyConfig, OutputProfileId, PhaseConfig, ProgressCallback, EntrainmentMode, FrequencyRange, AmplitudeRange, AutomatableParam } from '../types/journey';
 import { ENTRAINMENT_PRESETS } from '../types/journey';
-import { Oscillator } from './Oscillator';
-import { Envelope } from './Envelope';
+import { Oscillator, type ParamCurve } from './Oscillator';
+import {
+  Envelope,
+  automationValueAt,
+  blendByCurve,
+  curvePeak,
+  getParamLane,
+  hasAutomationShape,
+  scheduleCurve,
+} from './Envelope';
 import { SafetyProcessor } from './SafetyProcessor';
 import { createHarmonicEnricher } from './HarmonicEnricher';
 import { createEffectsChain } from './EffectsChain';
 import { createSpatialProcessor } from './SpatialProcessor';
 import { createSpectralProcessor } from './SpectralProcessor';
+import { MelodyGenerator, MELODY_LAYER_GAIN, isMelodyActive } from './MelodyGenerator';
+import { BinauralGenerator, hasBinauralBeats } from './BinauralGenerator';
+import { IsochronicGenerator, hasIsochronicTones } from './IsochronicGenerator';
+import { MonauralGenerator, hasMonauralBeats } from './MonauralGenerator';
+import { applyBeatMode } from './BeatMode';
+import { applyOutputProfile, createOutputStage, getOutputProfile, type OutputProfile } from './OutputProfile';
 
 // Map rhythm mode to entrainment mode
 const rhythmToEntrainment: Record<string, EntrainmentMode> = {
@@ -22,22 +36,31 @@ const rhythmToEntrainment: Record<string, EntrainmentMode> = {
   alpha: 'alpha',
 };
 
+// Phase parameters that switch on offline psychedelic processing
+const ENHANCEMENT_PARAMS = ['harmonic_richness', 'effects_intensity', 'spatial_width', 'warmth'] as const;
+
+// renderWithWebAudio pauses the graph this often (seconds of audio) to check for cancellation
+const CANCEL_CHECK_SECONDS = 10;
+
 export class OfflineRenderer {
   private sampleRate: number;
   private channels: number;
+  private outputProfile: OutputProfile | null;
 
-  constructor(sampleRate: number = 48000, channels: 1 | 2 = 2) {
+  constructor(sampleRate: number = 48000, channels: 1 | 2 = 2, outputProfile: OutputProfileId | null = null) {
     this.sampleRate = sampleRate;
     this.channels = channels;
+    this.outputProfile = getOutputProfile(outputProfile);
   }
 
   /**
    * Render a complete journey to AudioBuffer
    */
   async render(
-    config: JourneyConfig,
+    journey: JourneyConfig,
     onProgress?: ProgressCallback
   ): Promise<AudioBuffer> {
+    const config = applyOutputProfile(journey, this.outputProfile);
     const totalDuration = config.duration_minutes * 60;
     const totalSamples = Math.ceil(totalDuration * this.sampleRate);
 
@@ -60,10 +83,12 @@ export class OfflineRenderer {
     const oscillator = new Oscillator(this.sampleRate);
     const envelope = new Envelope(this.sampleRate);
     const safety = new SafetyProcessor(this.sampleRate);
+    const melody = new MelodyGenerator(this.sampleRate);
 
     // Calculate total phases for progress
     const totalPhases = config.phases.length;
     let processedSamples = 0;
+    let rawSumSquares = 0;
 
     // Generate all phase audio
     const phaseAudioChunks: Float32Array[] = [];
@@ -82,12 +107,19 @@ export class OfflineRenderer {
       // Generate phase audio
       let phaseAudio = this.renderPhase(
         phase,
+        i,
         phaseSamples,
         config.layers,
         oscillator,
-        envelope
+        envelope,
+        melody
       );
       
+      // Track the raw level so the tone layers can follow the bed's normalization
+      for (let s = 0; s < phaseAudio.length; s++) {
+        rawSumSquares += phaseAudio[s] * phaseAudio[s];
+      }
+
       // Normalize each phase to consistent level before concatenation
       // This ensures consistent volume across phases regardless of layer combinations
       phaseAudio = safety.normalizePhase(phaseAudio, -3); // -3 dB peak leaves headroom
@@ -121,8 +153,8 @@ export class OfflineRenderer {
       highpass_hz: 20,
     };
 
-    // Check if journey has full-range audio
-    const hasFullRangeAudio = false;
+    // Melody sits above the vibroacoustic lowpass, so it needs full-range processing
+    const hasFullRangeAudio = this.hasFullRangeAudio(config);
 
     if (hasFullRangeAudio) {
       // Use full-range processing with LUFS normalization
@@ -159,10 +191,34 @@ export class OfflineRenderer {
       this.sampleRate
     );
 
-    // Copy to both channels (or just one if mono)
+    // Copy the bed to both channels (or just one if mono)
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < this.channels; ch++) {
+      channels.push(new Float32Array(fullAudio));
+    }
+
+    // Binaural beats differ per ear and the beat carriers sit above the bed's lowpass,
+    // so they are added after the mono bed is processed
+    if (this.hasEntrainmentTones(config)) {
+      onProgress?.({
+        phase: 'Finalizing',
+        stage: 'tones',
+        progress: 90,
+        message: 'Rendering entrainment tones...',
+      });
+
+      const rawRms = Math.sqrt(rawSumSquares / Math.max(1, processedSamples));
+      this.mixEntrainmentTones(
+        channels,
+        config,
+        rawRms > 0 ? this.calculateRms(fullAudio) / rawRms : 1,
+        safetyConfig.peak_ceiling_db
+      );
+    }
+
+    createOutputStage(this.outputProfile, this.sampleRate, safetyConfig).process(channels);
     for (let ch = 0; ch < this.channels; ch++) {
-      const channelData = audioBuffer.getChannelData(ch);
-      channelData.set(fullAudio);
+      audioBuffer.getChannelData(ch).set(channels[ch]);
     }
 
     onProgress?.({
@@ -180,10 +236,12 @@ export class OfflineRenderer {
    */
   private renderPhase(
     phase: PhaseConfig,
+    phaseIndex: number,
     samples: number,
     layers: JourneyConfig['layers'],
     oscillator: Oscillator,
-    envelope: Envelope
+    envelope: Envelope,
+    melody: MelodyGenerator
   ): Float32Array {
     const mixed = new Float32Array(samples);
 
@@ -192,6 +250,17 @@ export class OfflineRenderer {
     const entrainmentMode = rhythmToEntrainment[rhythmMode] || 'breathing';
     const entrainmentRate = phase.entrainment_rate || ENTRAINMENT_PRESETS[entrainmentMode].rate;
 
+    // Automated parameters are evaluated for every sample
+    const paramCurve = (param: AutomatableParam, fixed: number, scale: number = 1): ParamCurve => {
+      const lane = getParamLane(phase, param);
+      return lane ? envelope.laneRamp(samples, lane, scale) : fixed * scale;
+    };
+
+    // Per-sample carrier frequency when the phase has breakpoints or a curved glide
+    const freqCurve = hasAutomationShape(phase.frequency)
+      ? envelope.automationRamp(samples, phase.frequency)
+      : undefined;
+
     // Foundation Layer (Base Carrier)
     if (layers.base_carrier !== false) {
       const baseAudio = oscillator.generateWithEntrainment(
@@ -199,18 +268,15 @@ export class OfflineRenderer {
         phase.frequency.start,
         phase.frequency.end,
         entrainmentMode,
-        entrainmentRate,
-        phase.fm_rate || 0.1,
-        phase.fm_depth || 0,
-        1.0
+        paramCurve('entrainment_rate', entrainmentRate),
+        paramCurve('fm_rate', phase.fm_rate || 0.1),
+        paramCurve('fm_depth', phase.fm_depth || 0),
+        1.0,
+        freqCurve
       );
 
       // Apply amplitude envelope
-      const ampEnv = envelope.sCurveRamp(
-        samples,
-        phase.amplitude.start,
-        phase.amplitude.end
-      );
+      const ampEnv = envelope.automationRamp(samples, phase.amplitude, 's_curve');
       
       for (let i = 0; i < samples; i++) {
         mixed[i] += baseAudio[i] * ampEnv[i] * 0.7;
@@ -221,23 +287,26 @@ export class OfflineRenderer {
     if (layers.support_carrier !== false) {
       const supportFreqStart = phase.support_frequency?.start || phase.frequency.start - 5;
       const supportFreqEnd = phase.support_frequency?.end || phase.frequency.end - 5;
+      let supportCurve: Float32Array | undefined = freqCurve?.map((freq) => freq - 5);
+      if (phase.support_frequency) {
+        supportCurve = hasAutomationShape(phase.support_frequency)
+          ? envelope.automationRamp(samples, phase.support_frequency)
+          : undefined;
+      }
 
       const supportAudio = oscillator.generateWithEntrainment(
         samples,
         supportFreqStart,
         supportFreqEnd,
         entrainmentMode,
-        entrainmentRate ? entrainmentRate * 0.97 : undefined, // Slight detune
-        (phase.fm_rate || 0.1) * 0.7,
-        (phase.fm_depth || 0) * 0.5,
-        1.0
+        entrainmentRate ? paramCurve('entrainment_rate', entrainmentRate, 0.97) : undefined, // Slight detune
+        paramCurve('fm_rate', phase.fm_rate || 0.1, 0.7),
+        paramCurve('fm_depth', phase.fm_depth || 0, 0.5),
+        1.0,
+        supportCurve
       );
 
-      const ampEnv = envelope.sCurveRamp(
-        samples,
-        phase.amplitude.start * 0.6,
-        phase.amplitude.end * 0.6
-      );
+      const ampEnv = envelope.automationRamp(samples, phase.amplitude, 's_curve', 0.6);
 
       for (let i = 0; i < samples; i++) {
         mixed[i] += supportAudio[i] * ampEnv[i] * 0.4;
@@ -252,37 +321,47 @@ export class OfflineRenderer {
         phase.frequency.end * 2,
         0.05,
         0,
-        1.0
+        1.0,
+        'linear',
+        0.0,
+        freqCurve?.map((freq) => freq * 2)
       );
 
       // Apply saturation for richness
       const saturated = oscillator.softSaturate(textureAudio, 0.3);
 
-      const ampEnv = envelope.sCurveRamp(
-        samples,
-        phase.amplitude.start * 0.15,
-        phase.amplitude.end * 0.15
-      );
+      const ampEnv = envelope.automationRamp(samples, phase.amplitude, 's_curve', 0.15);
 
       for (let i = 0; i < samples; i++) {
         mixed[i] += saturated[i] * ampEnv[i] * 0.15;
       }
     }
 
+    // Melody Layer (notes rooted on the carrier, same sequence as live playback)
+    if (isMelodyActive(phase, layers.melody_layer)) {
+      const notes = melody.generateNotes(phase, phaseIndex, samples / this.sampleRate);
+      const melodyAudio = melody.renderOffline(notes, samples);
+
+      const ampEnv = envelope.automationRamp(samples, phase.amplitude, 's_curve');
+
+      for (let i = 0; i < samples; i++) {
+        mixed[i] += melodyAudio[i] * ampEnv[i] * MELODY_LAYER_GAIN;
+      }
+    }
+
 
     // Apply psychedelic audio enhancement if enabled
-    const hasEnhancements = 
-      phase.harmonic_richness !== undefined ||
-      phase.effects_intensity !== undefined ||
-      phase.spatial_width !== undefined ||
-      phase.warmth !== undefined;
+    const hasEnhancements = ENHANCEMENT_PARAMS.some(
+      (param) => phase[param] !== undefined || getParamLane(phase, param) !== undefined
+    );
 
     if (hasEnhancements) {
       const enhanced = this.applyPsychedelicProcessing(
         mixed,
         phase,
         phase.frequency.start,
-        phase.frequency.end
+        phase.frequency.end,
+        envelope
       );
       for (let i = 0; i < samples; i++) {
         mixed[i] = enhanced[i];
@@ -294,19 +373,35 @@ export class OfflineRenderer {
 
   /**
    * Apply psychedelic audio enhancement processing
+   * Automated amounts run each processor at the lane's peak and blend it in sample by sample.
    */
   private applyPsychedelicProcessing(
     input: Float32Array,
     phase: PhaseConfig,
     freqStart: number,
-    freqEnd: number
+    freqEnd: number,
+    envelope: Envelope
   ): Float32Array {
     let output = new Float32Array(input);
-    
-    const harmonicRichness = phase.harmonic_richness ?? 0;
-    const effectsIntensity = phase.effects_intensity ?? 0;
-    const spatialWidth = phase.spatial_width ?? 0;
-    const warmth = phase.warmth ?? 0;
+
+    const amountCurve = (param: (typeof ENHANCEMENT_PARAMS)[number]) => {
+      const lane = getParamLane(phase, param);
+      return lane ? envelope.laneRamp(input.length, lane) : undefined;
+    };
+    const harmonicCurve = amountCurve('harmonic_richness');
+    const effectsCurve = amountCurve('effects_intensity');
+    const spatialCurve = amountCurve('spatial_width');
+    const warmthCurve = amountCurve('warmth');
+
+    const harmonicRichness = harmonicCurve ? curvePeak(harmonicCurve) : phase.harmonic_richness ?? 0;
+    const effectsIntensity = effectsCurve ? curvePeak(effectsCurve) : phase.effects_intensity ?? 0;
+    const spatialWidth = spatialCurve ? curvePeak(spatialCurve) : phase.spatial_width ?? 0;
+    const warmth = warmthCurve ? curvePeak(warmthCurve) : phase.warmth ?? 0;
+
+    // Keep a stage's output, or blend it in by its automated amount
+    const applyStage = (processed: Float32Array, curve: Float32Array | undefined, peak: number) => {
+      output.set(curve ? blendByCurve(output, processed, curve, peak) : processed);
+    };
 
     // Apply harmonic enrichment
     if (harmonicRichness > 0.1) {
@@ -318,7 +413,7 @@ export class OfflineRenderer {
         dryWet: harmonicRichness * 0.5,
       });
       const enriched = enricher.processOffline(output, freqStart, freqEnd);
-      output.set(enriched);
+      applyStage(enriched, harmonicCurve, harmonicRichness);
     }
 
     // Apply effects chain
@@ -337,7 +432,7 @@ export class OfflineRenderer {
         dryWet: effectsIntensity * 0.4,
       });
       const processed = effects.processOffline(output, this.sampleRate);
-      output.set(processed);
+      applyStage(processed, effectsCurve, effectsIntensity);
     }
 
     // Apply spectral processing
@@ -353,7 +448,15 @@ export class OfflineRenderer {
         exciterAmount: harmonicRichness * 0.3,
       });
       const spectralProcessed = spectral.processOffline(output);
-      output.set(spectralProcessed);
+      // Driven by whichever of richness and warmth is higher at each sample
+      let spectralCurve: Float32Array | undefined;
+      if (harmonicCurve || warmthCurve) {
+        spectralCurve = new Float32Array(output.length);
+        for (let i = 0; i < output.length; i++) {
+          spectralCurve[i] = Math.max(harmonicCurve?.[i] ?? harmonicRichness, warmthCurve?.[i] ?? warmth);
+        }
+      }
+      applyStage(spectralProcessed, spectralCurve, Math.max(harmonicRichness, warmth));
     }
 
     // Apply spatial processing (mono to stereo widening effect approximation)
@@ -370,15 +473,100 @@ export class OfflineRenderer {
       // Process as stereo (duplicate mono to both channels)
       const stereoResult = spatial.processOffline(output, new Float32Array(output));
       // Mix back to mono
+      const spatialMono = new Float32Array(output.length);
       for (let i = 0; i < output.length; i++) {
-        output[i] = (stereoResult.left[i] + stereoResult.right[i]) * 0.5;
+        spatialMono[i] = (stereoResult.left[i] + stereoResult.right[i]) * 0.5;
       }
+      applyStage(spatialMono, spatialCurve, spatialWidth);
     }
 
     return output;
   }
 
 
+  /**
+   * Check whether a journey has binaural, monaural or isochronic tones to mix over the bed
+   */
+  private hasEntrainmentTones(config: JourneyConfig): boolean {
+    const beats = applyBeatMode(config);
+    return hasBinauralBeats(beats) || hasMonauralBeats(beats) || hasIsochronicTones(beats);
+  }
+
+  /**
+   * Add the binaural (true stereo), monaural and isochronic (both ears) layers to processed bed channels
+   * levelGain carries the bed's normalization over so the tone/bed balance matches live playback
+   */
+  private mixEntrainmentTones(
+    channels: Float32Array[],
+    config: JourneyConfig,
+    levelGain: number,
+    peakCeilingDb: number
+  ): void {
+    const length = channels[0]?.length ?? 0;
+    if (length === 0) return;
+
+    const safety = new SafetyProcessor(this.sampleRate);
+    const beats = applyBeatMode(config);
+    const binaural = new BinauralGenerator(this.sampleRate).renderOffline(beats, length);
+    const monaural = new MonauralGenerator(this.sampleRate).renderOffline(beats, length);
+    const isochronic = new IsochronicGenerator(this.sampleRate).renderOffline(beats, length);
+    for (let i = 0; i < length; i++) {
+      binaural.left[i] += monaural[i] + isochronic[i];
+      binaural.right[i] += monaural[i] + isochronic[i];
+    }
+    const left = safety.applyFadeEdges(binaural.left);
+    const right = safety.applyFadeEdges(binaural.right);
+
+    if (channels.length === 1) {
+      // Mono export - both ears summed (heard as a monaural beat)
+      for (let i = 0; i < length; i++) {
+        channels[0][i] += (left[i] + right[i]) * 0.5 * levelGain;
+      }
+    } else {
+      for (let i = 0; i < length; i++) {
+        channels[0][i] += left[i] * levelGain;
+        channels[1][i] += right[i] * levelGain;
+      }
+    }
+
+    // Linked peak limiting keeps the stereo image intact
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = 0; i < length; i++) {
+        const abs = Math.abs(channel[i]);
+        if (abs > peak) peak = abs;
+      }
+    }
+    const ceiling = Math.pow(10, peakCeilingDb / 20);
+    if (peak > ceiling) {
+      const gain = ceiling / peak;
+      for (const channel of channels) {
+        for (let i = 0; i < length; i++) {
+          channel[i] *= gain;
+        }
+      }
+    }
+  }
+
+  /**
+   * Calculate RMS level of a signal
+   */
+  private calculateRms(audio: Float32Array): number {
+    if (audio.length === 0) return 0;
+    let sumSquares = 0;
+    for (let i = 0; i < audio.length; i++) {
+      sumSquares += audio[i] * audio[i];
+    }
+    return Math.sqrt(sumSquares / audio.length);
+  }
+
+  /**
+   * Whether any layer produces content above the vibroacoustic band
+   */
+  private hasFullRangeAudio(config: JourneyConfig): boolean {
+    return config.phases.some((phase) => isMelodyActive(phase, config.layers.melody_layer));
+  }
+
   /**
    * Concatenate phase audio chunks with crossfades
    */
@@ -409,11 +597,14 @@ export class OfflineRenderer {
   /**
    * Render journey using Web Audio scheduling (memory efficient)
    * This uses the OfflineAudioContext's native scheduling
+   * Rejects with an AbortError DOMException if signal is aborted.
    */
   async renderWithWebAudio(
-    config: JourneyConfig,
-    onProgress?: ProgressCallback
+    journey: JourneyConfig,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<AudioBuffer> {
+    const config = applyOutputProfile(journey, this.outputProfile);
     const totalDuration = config.duration_minutes * 60;
     const totalSamples = Math.ceil(totalDuration * this.sampleRate);
 
@@ -460,6 +651,12 @@ export class OfflineRenderer {
     harmonyOsc.connect(harmonyGain);
     harmonyGain.connect(master);
 
+    // Melody bus - notes are scheduled per phase below
+    const melody = new MelodyGenerator(this.sampleRate);
+    const melodyGain = offlineCtx.createGain();
+    melodyGain.gain.value = MELODY_LAYER_GAIN;
+    melodyGain.connect(master);
+
     // Create LFO for breathing/entrainment
     const lfo = offlineCtx.createOscillator();
     lfo.type = 'sine';
@@ -476,6 +673,7 @@ export class OfflineRenderer {
     master.gain.linearRampToValueAtTime(0.8, 2);
 
     for (let i = 0; i < config.phases.length; i++) {
+      this.throwIfAborted(signal);
       const phase = config.phases[i];
       const phaseDuration = phase.duration * 60;
 
@@ -487,21 +685,18 @@ export class OfflineRenderer {
       });
 
       // Foundation frequency ramps
-      foundationOsc.frequency.setValueAtTime(phase.frequency.start, time);
-      foundationOsc.frequency.linearRampToValueAtTime(phase.frequency.end, time + phaseDuration);
+      this.scheduleAutomation(foundationOsc.frequency, phase.frequency, time, phaseDuration);
 
       // Harmony frequency (slightly lower)
-      const harmonyStart = phase.support_frequency?.start || phase.frequency.start - 5;
-      const harmonyEnd = phase.support_frequency?.end || phase.frequency.end - 5;
-      harmonyOsc.frequency.setValueAtTime(harmonyStart, time);
-      harmonyOsc.frequency.linearRampToValueAtTime(harmonyEnd, time + phaseDuration);
+      if (phase.support_frequency) {
+        this.scheduleAutomation(harmonyOsc.frequency, phase.support_frequency, time, phaseDuration);
+      } else {
+        this.scheduleAutomation(harmonyOsc.frequency, phase.frequency, time, phaseDuration, -5);
+      }
 
       // Amplitude envelope on foundation gain
-      foundationGain.gain.setValueAtTime(phase.amplitude.start * 0.7, time);
-      foundationGain.gain.linearRampToValueAtTime(phase.amplitude.end * 0.7, time + phaseDuration);
-
-      harmonyGain.gain.setValueAtTime(phase.amplitude.start * 0.4, time);
-      harmonyGain.gain.linearRampToValueAtTime(phase.amplitude.end * 0.4, time + phaseDuration);
+      this.scheduleAutomation(foundationGain.gain, phase.amplitude, time, phaseDuration, 0, 0.7);
+      this.scheduleAutomation(harmonyGain.gain, phase.amplitude, time, phaseDuration, 0, 0.4);
 
       // LFO rate based on rhythm mode
       const rhythmMode = phase.rhythm_mode || 'breathing';
@@ -516,6 +711,12 @@ export class OfflineRenderer {
       lfo.frequency.setValueAtTime(lfoRate, time);
       lfoGain.gain.setValueAtTime(lfoRate > 0 ? 0.15 : 0, time);
 
+      // Melody notes (same generator and envelopes as SynthEngine)
+      if (isMelodyActive(phase, config.layers.melody_layer)) {
+        const notes = melody.generateNotes(phase, i, phaseDuration);
+        melody.scheduleNotes(offlineCtx, melodyGain, notes, time);
+      }
+
       time += phaseDuration;
     }
 
@@ -540,7 +741,8 @@ export class OfflineRenderer {
     });
 
     // Render - this is the heavy part but memory efficient
-    const renderedBuffer = await offlineCtx.startRendering();
+    const renderedBuffer = await this.renderCancellable(offlineCtx, totalDuration, signal);
+    this.throwIfAborted(signal);
 
     onProgress?.({
       phase: 'Normalizing',
@@ -552,6 +754,35 @@ export class OfflineRenderer {
     // Apply normalization to the rendered buffer
     const normalizedBuffer = this.normalizeRenderedBuffer(renderedBuffer, config);
 
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < normalizedBuffer.numberOfChannels; ch++) {
+      channels.push(normalizedBuffer.getChannelData(ch));
+    }
+    const safetyConfig = config.safety || {
+      max_rms_db: -12,
+      peak_ceiling_db: -1,
+      lowpass_hz: 120,
+      highpass_hz: 20,
+    };
+
+    // Beat layers are added after normalization so their carriers survive the bed's lowpass
+    if (this.hasEntrainmentTones(config)) {
+      onProgress?.({
+        phase: 'Normalizing',
+        stage: 'tones',
+        progress: 92,
+        message: 'Rendering entrainment tones...',
+      });
+
+      const rawRms = this.calculateRms(renderedBuffer.getChannelData(0));
+      const normalizedRms = this.calculateRms(channels[0]);
+      // The tone layers share the 0.8 master gain used by the graph above
+      const levelGain = rawRms > 0 ? (normalizedRms / rawRms) * 0.8 : 0.8;
+      this.mixEntrainmentTones(channels, config, levelGain, safetyConfig.peak_ceiling_db);
+    }
+
+    createOutputStage(this.outputProfile, this.sampleRate, safetyConfig).process(channels);
+
     onProgress?.({
       phase: 'Complete',
       stage: 'done',
@@ -562,6 +793,26 @@ export class OfflineRenderer {
     return normalizedBuffer;
   }
 
+  /**
+   * Schedule a phase's frequency or amplitude curve on an AudioParam as (offset + value) * scale
+   */
+  private scheduleAutomation(
+    param: AudioParam,
+    range: FrequencyRange | AmplitudeRange,
+    time: number,
+    duration: number,
+    offset: number = 0,
+    scale: number = 1
+  ): void {
+    if (hasAutomationShape(range)) {
+      scheduleCurve(param, (progress) => (automationValueAt(range, progress) + offset) * scale, time, duration);
+      return;
+    }
+
+    param.setValueAtTime((range.start + offset) * scale, time);
+    param.linearRampToValueAtTime((range.end + offset) * scale, time + duration);
+  }
+
   /**
    * Normalize a rendered AudioBuffer for consistent loudness
    */
@@ -572,7 +823,7 @@ export class OfflineRenderer {
     const safety = new SafetyProcessor(this.sampleRate);
     
     // Check if journey has full-range audio
-    const hasFullRangeAudio = false;
+    const hasFullRangeAudio = this.hasFullRangeAudio(config);
     
     // Create new offline context for the normalized buffer
     const offlineCtx = new OfflineAudioContext({
@@ -622,4 +873,31 @@ export class OfflineRenderer {
     
     return normalizedBuffer;
   }
+
+  /**
+   * Run an OfflineAudioContext, checking the signal at suspend points along the way
+   * An OfflineAudioContext cannot be stopped, so a cancelled render is left suspended and dropped.
+   */
+  private renderCancellable(ctx: OfflineAudioContext, duration: number, signal?: AbortSignal): Promise<AudioBuffer> {
+    if (!signal) return ctx.startRendering();
+
+    const cancelled = new Promise<never>((_, reject) => {
+      for (let time = CANCEL_CHECK_SECONDS; time < duration; time += CANCEL_CHECK_SECONDS) {
+        ctx.suspend(time).then(() => {
+          if (signal.aborted) {
+            reject(new DOMException('Export cancelled', 'AbortError'));
+          } else {
+            ctx.resume();
+          }
+        });
+      }
+    });
+    return Promise.race([ctx.startRendering(), cancelled]);
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new DOMException('Export cancelled', 'AbortError');
+    }
+  }
 }
@@ -5,6 +5,13 @@
 
 import { EntrainmentMode, ENTRAINMENT_PRESETS } from '../types/journey';
 
+// A fixed parameter value, or one value per sample when the parameter is automated
+export type ParamCurve = number | Float32Array;
+
+function scaleCurve(value: ParamCurve, scale: number): ParamCurve {
+  return typeof value === 'number' ? value * scale : value.map((v) => v * scale);
+}
+
 export class Oscillator {
   private sampleRate: number;
 
@@ -98,14 +105,16 @@ export class Oscillator {
     durationSamples: number,
     freqStart: number,
     freqEnd: number,
-    modFreq: number = 0.1,
-    modDepth: number = 0.0,
+    modFreq: ParamCurve = 0.1,
+    modDepth: ParamCurve = 0.0,
     amplitude: number = 1.0,
     glideType: 'linear' | 'exponential' = 'linear',
-    phaseOffset: number = 0.0
+    phaseOffset: number = 0.0,
+    frequencyCurve?: Float32Array
   ): Float32Array {
     const output = new Float32Array(durationSamples);
     let phase = phaseOffset;
+    let modPhase = 0;
     const twoPiOverSampleRate = (2 * Math.PI) / this.sampleRate;
     const durationSec = durationSamples / this.sampleRate;
 
@@ -113,19 +122,27 @@ export class Oscillator {
       const t = i / this.sampleRate;
       const progress = durationSec > 0 ? t / durationSec : 0;
 
-      // Frequency glide
+      // Frequency glide (a per-sample curve replaces the start/end glide)
       let freq: number;
-      if (glideType === 'exponential' && freqStart > 0 && freqEnd > 0) {
+      if (frequencyCurve) {
+        freq = frequencyCurve[i];
+      } else if (glideType === 'exponential' && freqStart > 0 && freqEnd > 0) {
         freq = freqStart * Math.pow(freqEnd / freqStart, progress);
       } else {
         freq = freqStart + (freqEnd - freqStart) * progress;
       }
 
-      // Add FM modulation
-      if (modDepth > 0) {
-        const modulator = modDepth * Math.sin(2 * Math.PI * modFreq * t);
+      // Add FM modulation (an automated rate advances its own phase)
+      const depth = typeof modDepth === 'number' ? modDepth : modDepth[i];
+      if (depth > 0) {
+        const modulator = typeof modFreq === 'number'
+          ? depth * Math.sin(2 * Math.PI * modFreq * t)
+          : depth * Math.sin(modPhase);
         freq += modulator;
       }
+      if (typeof modFreq !== 'number') {
+        modPhase += twoPiOverSampleRate * modFreq[i];
+      }
 
       output[i] = amplitude * Math.sin(phase);
       phase += twoPiOverSampleRate * freq;
@@ -198,7 +215,7 @@ export class Oscillator {
   generateEntrainmentEnvelope(
     durationSamples: number,
     mode: EntrainmentMode = 'breathing',
-    customRate?: number,
+    customRate?: ParamCurve,
     customDepth?: number
   ): Float32Array {
     const preset = ENTRAINMENT_PRESETS[mode];
@@ -207,23 +224,31 @@ export class Oscillator {
 
     const output = new Float32Array(durationSamples);
 
-    if (rate <= 0 || depth <= 0) {
+    if ((typeof rate === 'number' && rate <= 0) || depth <= 0) {
       output.fill(1.0);
       return output;
     }
 
+    // Cycles elapsed; an automated rate accumulates them sample by sample
+    let cycles = 0;
     for (let i = 0; i < durationSamples; i++) {
-      const t = i / this.sampleRate;
+      if (typeof rate === 'number') {
+        cycles = (i / this.sampleRate) * rate;
+      }
 
       if (mode === 'heartbeat') {
         // Double-pulse pattern for heartbeat (lub-dub)
-        const beatPhase = (t * rate) % 1.0;
+        const beatPhase = cycles % 1.0;
         const lub = Math.exp(-Math.pow(beatPhase - 0.1, 2) / 0.005);
         const dub = 0.7 * Math.exp(-Math.pow(beatPhase - 0.25, 2) / 0.003);
         output[i] = 1.0 + depth * (lub + dub);
       } else {
         // Sinusoidal modulation for smooth breathing/wave patterns
-        output[i] = 1.0 + depth * Math.sin(2 * Math.PI * rate * t);
+        output[i] = 1.0 + depth * Math.sin(2 * Math.PI * cycles);
+      }
+
+      if (typeof rate !== 'number') {
+        cycles += rate[i] / this.sampleRate;
       }
     }
 
@@ -238,10 +263,11 @@ export class Oscillator {
     freqStart: number,
     freqEnd: number,
     entrainmentMode: EntrainmentMode = 'breathing',
-    entrainmentRate?: number,
-    modFreq: number = 0.1,
-    modDepth: number = 0.0,
-    amplitude: number = 1.0
+    entrainmentRate?: ParamCurve,
+    modFreq: ParamCurve = 0.1,
+    modDepth: ParamCurve = 0.0,
+    amplitude: number = 1.0,
+    frequencyCurve?: Float32Array
   ): Float32Array {
     // Generate base complex oscillator
     const baseSignal = this.generateComplex(
@@ -249,8 +275,11 @@ export class Oscillator {
       freqStart,
       freqEnd,
       modFreq,
-      modDepth * 2.0, // Scale to reasonable Hz deviation
-      amplitude
+      scaleCurve(modDepth, 2.0), // Scale to reasonable Hz deviation
+      amplitude,
+      'linear',
+      0.0,
+      frequencyCurve
     );
 
     // Apply entrainment envelope
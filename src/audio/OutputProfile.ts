@@ -0,0 +1,176 @@
+/**
+ * OutputProfile - Named playback/export targets (headphones, speakers, transducer, bed)
+ * A profile switches the safety band, limiter, stereo handling, usable beat layers and
+ * available layers together. Without a profile a journey plays exactly as designed.
+ */
+
+import type { BeatMode, JourneyConfig, LayerConfig, OutputProfileId, SafetyConfig } from '../types/journey';
+import { DEFAULT_SAFETY } from '../types/journey';
+
+// stereo: as rendered; mono: both channels carry the sum;
+// split: left carries the tactile band for the bed, right the full-range audio
+export type StereoHandling = 'stereo' | 'mono' | 'split';
+
+// DynamicsCompressorNode settings used as the live limiter
+export interface LimiterSettings {
+  threshold: number; // dB
+  knee: number;      // dB
+  ratio: number;
+  attack: number;    // seconds
+  release: number;   // seconds
+}
+
+export interface OutputProfile {
+  id: OutputProfileId;
+  label: string;
+  description: string;
+  safety?: Partial<SafetyConfig>;  // Overrides the journey's safety band and levels
+  limiter: LimiterSettings;
+  stereo: StereoHandling;
+  beatModes?: BeatMode[];          // Beat layers the output can reproduce; the first replaces any other
+  layers?: Partial<LayerConfig>;   // Layers the output cannot reproduce are forced off
+}
+
+// Limiter used when no profile is selected
+export const DEFAULT_LIMITER: LimiterSettings = {
+  threshold: -3,
+  knee: 3,
+  ratio: 20,
+  attack: 0.003,
+  release: 0.1,
+};
+
+export const OUTPUT_PROFILES: Record<OutputProfileId, OutputProfile> = {
+  headphones: {
+    id: 'headphones',
+    label: 'Headphones',
+    description: 'Full range at a lower level with extra limiter headroom; binaural beats available',
+    safety: { max_rms_db: -16, highpass_hz: 20, lowpass_hz: 1000 },
+    limiter: { ...DEFAULT_LIMITER, threshold: -6 },
+    stereo: 'stereo',
+  },
+  speakers: {
+    id: 'speakers',
+    label: 'Room speakers',
+    description: 'Sub-bass below 40 Hz removed; binaural beats become monaural beats',
+    safety: { max_rms_db: -14, highpass_hz: 40, lowpass_hz: 1000 },
+    limiter: DEFAULT_LIMITER,
+    stereo: 'stereo',
+    beatModes: ['monaural', 'isochronic', 'none'],
+  },
+  transducer: {
+    id: 'transducer',
+    label: 'Bass shaker',
+    description: 'Mono 20-100 Hz for tactile transducers, hard limited; no beats, texture or melody',
+    safety: { max_rms_db: -12, peak_ceiling_db: -1, highpass_hz: 20, lowpass_hz: 100 },
+    limiter: { threshold: -1, knee: 0, ratio: 20, attack: 0.001, release: 0.05 },
+    stereo: 'mono',
+    beatModes: ['none'],
+    layers: { texture_layer: false, melody_layer: false },
+  },
+  bed: {
+    id: 'bed',
+    label: 'Bed (tactile + audio)',
+    description: "Left channel drives the bed with the journey's safety band, right carries the audio",
+    limiter: DEFAULT_LIMITER,
+    stereo: 'split',
+    beatModes: ['monaural', 'isochronic', 'none'],
+  },
+};
+
+/**
+ * Look up a profile (null for "as designed")
+ */
+export function getOutputProfile(id: OutputProfileId | null | undefined): OutputProfile | null {
+  return id ? OUTPUT_PROFILES[id] ?? null : null;
+}
+
+/**
+ * Beat layers a journey plays when it has no beat_mode
+ */
+function usedBeatModes(config: JourneyConfig): BeatMode[] {
+  const modes: BeatMode[] = [];
+  if (config.phases.some((phase) => phase.binaural_enabled === true)) modes.push('binaural');
+  if (config.phases.some((phase) => phase.monaural_enabled === true)) modes.push('monaural');
+  if (config.phases.some((phase) => phase.isochronic_enabled === true)) modes.push('isochronic');
+  return modes;
+}
+
+/**
+ * Adapt a journey to an output profile: safety band, available layers and beat mode
+ */
+export function applyOutputProfile(config: JourneyConfig, profile: OutputProfile | null): JourneyConfig {
+  if (!profile) return config;
+
+  let beatMode = config.beat_mode;
+  const allowed = profile.beatModes;
+  const playing = beatMode ? [beatMode] : usedBeatModes(config);
+  if (allowed && playing.some((mode) => !allowed.includes(mode))) {
+    beatMode = allowed[0];
+  }
+
+  return {
+    ...config,
+    safety: { ...DEFAULT_SAFETY, ...config.safety, ...profile.safety },
+    layers: { ...config.layers, ...profile.layers },
+    beat_mode: beatMode,
+  };
+}
+
+/**
+ * Stateful output stage applying a profile's stereo handling to rendered blocks
+ * Blocks must be processed in order; the tactile band filter carries its state between them.
+ */
+export class OutputStage {
+  private handling: StereoHandling;
+  private hpAlpha: number;
+  private lpAlpha: number;
+  private hpPrevInput = 0;
+  private hpPrevOutput = 0;
+  private lpPrevOutput = 0;
+
+  constructor(profile: OutputProfile | null, sampleRate: number, safety: SafetyConfig = DEFAULT_SAFETY) {
+    this.handling = profile?.stereo ?? 'stereo';
+
+    // One-pole filters, matching SafetyProcessor's vibroacoustic band
+    const hpRc = 1.0 / (2 * Math.PI * safety.highpass_hz);
+    const lpRc = 1.0 / (2 * Math.PI * safety.lowpass_hz);
+    const dt = 1.0 / sampleRate;
+    this.hpAlpha = hpRc / (hpRc + dt);
+    this.lpAlpha = dt / (lpRc + dt);
+  }
+
+  /**
+   * Apply the stereo handling to a left/right block in place (mono exports pass through)
+   */
+  process(channels: Float32Array[]): void {
+    if (channels.length < 2 || this.handling === 'stereo') return;
+
+    const [left, right] = channels;
+    for (let i = 0; i < left.length; i++) {
+      const mono = (left[i] + right[i]) * 0.5;
+      if (this.handling === 'mono') {
+        left[i] = mono;
+        right[i] = mono;
+        continue;
+      }
+
+      const highpassed = this.hpAlpha * (this.hpPrevOutput + mono - this.hpPrevInput);
+      this.hpPrevInput = mono;
+      this.hpPrevOutput = highpassed;
+      this.lpPrevOutput += this.lpAlpha * (highpassed - this.lpPrevOutput);
+
+      left[i] = this.lpPrevOutput;
+      right[i] = mono;
+    }
+  }
+}
+
+// Factory function
+export function createOutputStage(
+  profile: OutputProfile | null,
+  sampleRate: number,
+  safety?: SafetyConfig
+): OutputStage {
+  return new OutputStage(profile, sampleRate, safety);
+}
@@ -10,6 +10,7 @@ import { ModulationMatrix, createModulationMatrix, MODULATION_PRESETS } from './
 import { SpatialProcessor, createSpatialProcessor, SPATIAL_PRESETS } from './SpatialProcessor';
 import { TimbreEvolver, createTimbreEvolver, TIMBRE_PRESETS } from './TimbreEvolver';
 import { SpectralProcessor, createSpectralProcessor, SPECTRAL_PRESETS } from './SpectralProcessor';
+import { blendByCurve, curvePeak } from './Envelope';
 
 export type EnhancementPreset = 'subtle' | 'therapeutic' | 'psychedelic' | 'meditative' | 'dynamic' | 'custom';
 
@@ -37,6 +38,11 @@ export interface PsychedelicEngineSettings {
   warmth: number;                 // 0-1
 }
 
+// Per-sample amounts for offline processing, from a phase's automation lanes
+export type PsychedelicAutomation = Partial<
+  Record<'harmonicRichness' | 'effectsIntensity' | 'spatialWidth', Float32Array>
+>;
+
 const DEFAULT_SETTINGS: PsychedelicEngineSettings = {
   preset: 'therapeutic',
   enabled: true,
@@ -397,8 +403,15 @@ export class PsychedelicEngine {
 
   /**
    * Process audio offline (for export)
+   * Automated amounts run each processor at the curve's peak and blend it in sample by sample.
    */
-  processOffline(inputLeft: Float32Array, inputRight: Float32Array, freqStart: number, freqEnd: number): { left: Float32Array; right: Float32Array } {
+  processOffline(
+    inputLeft: Float32Array,
+    inputRight: Float32Array,
+    freqStart: number,
+    freqEnd: number,
+    automation: PsychedelicAutomation = {}
+  ): { left: Float32Array; right: Float32Array } {
     const left = new Float32Array(inputLeft.length);
     const right = new Float32Array(inputRight.length);
     
@@ -408,6 +421,21 @@ export class PsychedelicEngine {
       return { left, right };
     }
 
+    const previousSettings = this.settings;
+    const peaks: Partial<PsychedelicEngineSettings> = {};
+    for (const [key, curve] of Object.entries(automation) as [keyof PsychedelicAutomation, Float32Array][]) {
+      peaks[key] = curvePeak(curve);
+    }
+    if (Object.keys(peaks).length > 0) {
+      this.updateSettings(peaks);
+    }
+
+    // Keep a stage's output, or blend it in by its automated amount
+    const applyStage = (target: Float32Array, processed: Float32Array, key: keyof PsychedelicAutomation) => {
+      const curve = automation[key];
+      target.set(curve ? blendByCurve(target, processed, curve, this.settings[key]) : processed);
+    };
+
     // Apply dry/wet mix
     const dryLevel = 1 - this.settings.masterMix;
     const wetLevel = this.settings.masterMix;
@@ -426,31 +454,32 @@ export class PsychedelicEngine {
     // Apply harmonic enrichment
     if (this.settings.harmonicsEnabled && this.harmonicEnricher) {
       const enriched = this.harmonicEnricher.processOffline(mono, freqStart, freqEnd);
-      wetLeft.set(enriched);
-      wetRight.set(enriched);
+      applyStage(wetLeft, enriched, 'harmonicRichness');
+      applyStage(wetRight, enriched, 'harmonicRichness');
     }
 
     // Apply effects chain
     if (this.settings.effectsEnabled && this.effectsChain) {
       const processedLeft = this.effectsChain.processOffline(wetLeft, this.sampleRate);
       const processedRight = this.effectsChain.processOffline(wetRight, this.sampleRate);
-      wetLeft.set(processedLeft);
-      wetRight.set(processedRight);
+      applyStage(wetLeft, processedLeft, 'effectsIntensity');
+      applyStage(wetRight, processedRight, 'effectsIntensity');
     }
 
     // Apply spectral processing
     if (this.settings.spectralEnabled && this.spectralProcessor) {
       const spectralLeft = this.spectralProcessor.processOffline(wetLeft);
       const spectralRight = this.spectralProcessor.processOffline(wetRight);
-      wetLeft.set(spectralLeft);
-      wetRight.set(spectralRight);
+      // The exciter follows harmonic richness
+      applyStage(wetLeft, spectralLeft, 'harmonicRichness');
+      applyStage(wetRight, spectralRight, 'harmonicRichness');
     }
 
     // Apply spatial processing (stereo)
     if (this.settings.spatialEnabled && this.spatialProcessor) {
       const spatial = this.spatialProcessor.processOffline(wetLeft, wetRight);
-      wetLeft.set(spatial.left);
-      wetRight.set(spatial.right);
+      applyStage(wetLeft, spatial.left, 'spatialWidth');
+      applyStage(wetRight, spatial.right, 'spatialWidth');
     }
 
     // Mix dry and wet
@@ -459,6 +488,12 @@ export class PsychedelicEngine {
       right[i] = inputRight[i] * dryLevel + wetRight[i] * wetLevel;
     }
 
+    // Restore the live settings
+    if (this.settings !== previousSettings) {
+      this.settings = previousSettings;
+      if (this.isInitialized) this.updateAllProcessors();
+    }
+
     return { left, right };
   }
 
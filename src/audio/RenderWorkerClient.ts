@@ -0,0 +1,203 @@
+/**
+ * RenderWorkerClient - Main-thread side of the render worker
+ * Streams WAV or FLAC chunks either straight to a file on disk or into a Blob (one per stem file)
+ */
+
+import type { JourneyConfig, ExportSettings, ProgressCallback, StemLayer } from '../types/journey';
+import type { RenderWorkerRequest, RenderWorkerResponse } from '../workers/renderWorker';
+import type { LoudnessMeasurement } from './LoudnessMeter';
+import { getChannelMap } from './Stems';
+import { getJourneyTags } from './encoders/tags';
+
+// Consolidate spooled chunks into a Blob every ~32 MB so the browser can page them out
+const BLOB_SPOOL_SIZE = 32 * 1024 * 1024;
+
+export interface WorkerExportOptions {
+  onProgress?: ProgressCallback;
+  // Called once the whole mix has been measured
+  onLoudness?: (measurement: LoudnessMeasurement) => void;
+  signal?: AbortSignal;
+  // Write directly to this stream (File System Access API) instead of building a Blob
+  writable?: FileSystemWritableFileStream;
+}
+
+export interface StemFile {
+  stem: StemLayer;
+  blob: Blob;
+}
+
+// Spooled output of one file
+interface FileSpool {
+  stem: StemLayer | null;
+  spooled: Blob[];
+  pending: ArrayBuffer[];
+  pendingBytes: number;
+}
+
+/**
+ * Check whether exports can run in a Web Worker in this browser
+ */
+export function isWorkerExportSupported(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Check whether the browser can stream exports straight to a file on disk
+ */
+export function isDirectToDiskSupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+}
+
+/**
+ * Render a journey to WAV (or FLAC when settings.format is 'flac') in a Web Worker
+ * Resolves with the audio Blob, or null when the output was written to options.writable.
+ * Rejects with an AbortError DOMException if options.signal is aborted.
+ */
+export async function exportJourneyInWorker(
+  config: JourneyConfig,
+  settings: ExportSettings,
+  options: WorkerExportOptions = {}
+): Promise<Blob | null> {
+  const files = await runWorkerExport(config, { ...settings, stems: false }, options);
+  return files[0]?.blob ?? null;
+}
+
+/**
+ * Render one WAV or FLAC file per layer in a Web Worker
+ * Layers the journey does not use are skipped. Stems always go to Blobs.
+ */
+export async function exportStemsInWorker(
+  config: JourneyConfig,
+  settings: ExportSettings,
+  options: Omit<WorkerExportOptions, 'writable'> = {}
+): Promise<StemFile[]> {
+  const files = await runWorkerExport(config, { ...settings, stems: true }, options);
+  return files.flatMap(({ stem, blob }) => (stem ? [{ stem, blob }] : []));
+}
+
+/**
+ * Run an export in the worker, collecting each file it streams
+ * Resolves with no files when the output was written to options.writable.
+ */
+function runWorkerExport(
+  config: JourneyConfig,
+  settings: ExportSettings,
+  options: WorkerExportOptions
+): Promise<{ stem: StemLayer | null; blob: Blob }[]> {
+  const { onProgress, onLoudness, signal, writable } = options;
+  const format = settings.format === 'flac' ? 'flac' : 'wav';
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Export cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/renderWorker.ts', import.meta.url), { type: 'module' });
+    const files: FileSpool[] = [];
+    let writeQueue: Promise<void> = Promise.resolve();
+    let finished = false;
+
+    const send = (message: RenderWorkerRequest) => worker.postMessage(message);
+
+    const finish = (error?: unknown) => {
+      if (finished) return;
+      finished = true;
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+
+      if (error) {
+        if (writable) void writable.abort().catch(() => {});
+        reject(error);
+      }
+    };
+
+    const handleAbort = () => {
+      send({ type: 'cancel' });
+      finish(new DOMException('Export cancelled', 'AbortError'));
+    };
+
+    const store = (data: ArrayBuffer, file: number) => {
+      if (writable) {
+        writeQueue = writeQueue.then(() => writable.write(data));
+        return;
+      }
+
+      const spool = files[file];
+      spool.pending.push(data);
+      spool.pendingBytes += data.byteLength;
+      if (spool.pendingBytes >= BLOB_SPOOL_SIZE) {
+        spool.spooled.push(new Blob(spool.pending));
+        spool.pending = [];
+        spool.pendingBytes = 0;
+      }
+    };
+
+    worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+      if (finished) return;
+      const message = event.data;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'header':
+          files[message.file] = { stem: message.stem, spooled: [], pending: [], pendingBytes: 0 };
+          store(message.data, message.file);
+          break;
+        case 'loudness':
+          onLoudness?.(message.measurement);
+          break;
+        case 'chunk':
+          store(message.data, message.file);
+          // Acknowledge once written so the worker never runs far ahead of the disk
+          writeQueue.then(() => send({ type: 'ack' })).catch(finish);
+          break;
+        case 'done':
+          writeQueue
+            .then(async () => {
+              if (writable) {
+                await writable.close();
+                finish();
+                resolve([]);
+              } else {
+                finish();
+                resolve(files.map((spool) => ({
+                  stem: spool.stem,
+                  blob: new Blob([...spool.spooled, new Blob(spool.pending)], { type: format === 'flac' ? 'audio/flac' : 'audio/wav' }),
+                })));
+              }
+            })
+            .catch(finish);
+          break;
+        case 'cancelled':
+          finish(new DOMException('Export cancelled', 'AbortError'));
+          break;
+        case 'error':
+          finish(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish(new Error(event.message || 'Render worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    send({
+      type: 'start',
+      config,
+      sampleRate: settings.sampleRate,
+      channels: settings.channels,
+      bitDepth: settings.bitDepth || 16,
+      format,
+      tags: getJourneyTags(config),
+      outputProfile: settings.outputProfile ?? null,
+      channelMap: settings.channels === 4 || settings.channels === 6
+        ? getChannelMap(settings.channels, settings.channelMap)
+        : null,
+      stems: settings.stems === true,
+    });
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * SpectrumAnalysis - Frequency scales and measurements for the real-time visualizer
+ * Maps analyser FFT data onto a log frequency axis weighted towards sub-bass, and measures
+ * stereo correlation and brainwave bands for the entrainment overlay.
+ */
+
+// Log axis of the spectrum and spectrogram: 10 Hz - 1 kHz keeps 20-80 Hz at about a third of the width
+export const SPECTRUM_MIN_HZ = 10;
+export const SPECTRUM_MAX_HZ = 1000;
+
+// The band vibroacoustic transducers deliver, shaded on the spectrum
+export const SUB_BASS_BAND = { minHz: 20, maxHz: 80 };
+
+export type BrainwaveBand = 'delta' | 'theta' | 'alpha' | 'beta' | 'gamma';
+
+// Upper edge (Hz) of each band, in ascending order
+const BRAINWAVE_BANDS: { band: BrainwaveBand; maxHz: number }[] = [
+  { band: 'delta', maxHz: 4 },
+  { band: 'theta', maxHz: 8 },
+  { band: 'alpha', maxHz: 13 },
+  { band: 'beta', maxHz: 30 },
+  { band: 'gamma', maxHz: Infinity },
+];
+
+/**
+ * Position (0-1) of a frequency on the log axis
+ */
+export function frequencyToPosition(
+  frequency: number,
+  minHz: number = SPECTRUM_MIN_HZ,
+  maxHz: number = SPECTRUM_MAX_HZ
+): number {
+  return Math.log(frequency / minHz) / Math.log(maxHz / minHz);
+}
+
+/**
+ * Frequency at a position (0-1) on the log axis
+ */
+export function positionToFrequency(
+  position: number,
+  minHz: number = SPECTRUM_MIN_HZ,
+  maxHz: number = SPECTRUM_MAX_HZ
+): number {
+  return minHz * Math.pow(maxHz / minHz, position);
+}
+
+/**
+ * Resample analyser dB data (getFloatFrequencyData) into log-spaced columns
+ * Each column takes the loudest bin it covers; columns narrower than a bin (the low end at
+ * any practical FFT size) interpolate between the neighbouring bins instead.
+ */
+export function binSpectrum(
+  data: Float32Array,
+  sampleRate: number,
+  columns: number,
+  minHz: number = SPECTRUM_MIN_HZ,
+  maxHz: number = SPECTRUM_MAX_HZ
+): Float32Array {
+  const binWidth = sampleRate / (data.length * 2);
+  const lastBin = data.length - 1;
+  const output = new Float32Array(columns);
+
+  for (let column = 0; column < columns; column++) {
+    const low = positionToFrequency(column / columns, minHz, maxHz) / binWidth;
+    const high = positionToFrequency((column + 1) / columns, minHz, maxHz) / binWidth;
+    const first = Math.ceil(low);
+    const last = Math.min(Math.floor(high), lastBin);
+
+    if (first <= last) {
+      let max = -Infinity;
+      for (let bin = first; bin <= last; bin++) {
+        if (data[bin] > max) max = data[bin];
+      }
+      output[column] = max;
+    } else {
+      const center = Math.min((low + high) / 2, lastBin);
+      const below = Math.floor(center);
+      const above = Math.min(below + 1, lastBin);
+      const fraction = center - below;
+      output[column] = data[below] * (1 - fraction) + data[above] * fraction;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Frequency (Hz) of the loudest bin within a range, refined by parabolic interpolation
+ * Returns null when the range is below the floor (silence).
+ */
+export function findPeakFrequency(
+  data: Float32Array,
+  sampleRate: number,
+  minHz: number,
+  maxHz: number,
+  floorDb: number = -90
+): number | null {
+  const binWidth = sampleRate / (data.length * 2);
+  const first = Math.max(1, Math.ceil(minHz / binWidth));
+  const last = Math.min(Math.floor(maxHz / binWidth), data.length - 2);
+
+  let peak = -1;
+  for (let bin = first; bin <= last; bin++) {
+    if (data[bin] > floorDb && (peak < 0 || data[bin] > data[peak])) peak = bin;
+  }
+  if (peak < 0) return null;
+
+  const [a, b, c] = [data[peak - 1], data[peak], data[peak + 1]];
+  const denominator = a - 2 * b + c;
+  const offset = denominator !== 0 && Number.isFinite(denominator) ? (0.5 * (a - c)) / denominator : 0;
+  return (peak + offset) * binWidth;
+}
+
+/**
+ * Stereo correlation (-1 to 1): 1 is mono, 0 uncorrelated, -1 out of phase
+ * Binaural beats read below 1 because the ears carry different frequencies.
+ */
+export function stereoCorrelation(left: Float32Array, right: Float32Array): number {
+  let sumLR = 0;
+  let sumLL = 0;
+  let sumRR = 0;
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    sumLR += left[i] * right[i];
+    sumLL += left[i] * left[i];
+    sumRR += right[i] * right[i];
+  }
+  const energy = Math.sqrt(sumLL * sumRR);
+  return energy > 1e-12 ? sumLR / energy : 0;
+}
+
+/**
+ * Brainwave band an entrainment rate falls in
+ */
+export function getBrainwaveBand(rateHz: number): BrainwaveBand {
+  return BRAINWAVE_BANDS.find(({ maxHz }) => rateHz < maxHz)!.band;
+}
@@ -0,0 +1,145 @@
+/**
+ * Stems - Per-layer export outputs and multichannel channel maps
+ * Lets installations drive transducers and speakers from separate channels or files.
+ */
+
+import type { ChannelSource, JourneyConfig, StemLayer } from '../types/journey';
+import { isMelodyActive } from './MelodyGenerator';
+import { hasBinauralBeats } from './BinauralGenerator';
+import { hasMonauralBeats } from './MonauralGenerator';
+import { hasIsochronicTones } from './IsochronicGenerator';
+import { applyBeatMode } from './BeatMode';
+
+/**
+ * One rendered block of every layer (binaural is stereo, the rest mono)
+ */
+export interface StemBlock {
+  foundation: Float32Array;
+  harmony: Float32Array;
+  atmosphere: Float32Array;
+  binaural: [Float32Array, Float32Array];
+  melody: Float32Array;
+  music: Float32Array;
+}
+
+export const STEM_LABELS: Record<StemLayer, string> = {
+  foundation: 'Foundation',
+  harmony: 'Harmony',
+  atmosphere: 'Atmosphere',
+  binaural: 'Beats',
+  melody: 'Melody',
+  music: 'Music',
+};
+
+export const CHANNEL_SOURCE_LABELS: Record<ChannelSource, string> = {
+  foundation: 'Foundation',
+  harmony: 'Harmony',
+  atmosphere: 'Atmosphere',
+  binaural: 'Beats (left + right)',
+  binaural_left: 'Beats (left ear)',
+  binaural_right: 'Beats (right ear)',
+  melody: 'Melody',
+  // The music layer streams live from the server and is never rendered offline
+  music: 'Music (live only, silent)',
+  silent: 'Silent',
+};
+
+// Tactile layers first so transducer amps can take the first channels
+export const DEFAULT_CHANNEL_MAPS: Record<4 | 6, ChannelSource[]> = {
+  4: ['foundation', 'harmony', 'binaural_left', 'binaural_right'],
+  6: ['foundation', 'harmony', 'atmosphere', 'binaural', 'melody', 'music'],
+};
+
+/**
+ * Create an empty stem block
+ */
+export function createStemBlock(length: number): StemBlock {
+  return {
+    foundation: new Float32Array(length),
+    harmony: new Float32Array(length),
+    atmosphere: new Float32Array(length),
+    binaural: [new Float32Array(length), new Float32Array(length)],
+    melody: new Float32Array(length),
+    music: new Float32Array(length),
+  };
+}
+
+/**
+ * Multiply every stem by a gain, or by a per-sample gain curve
+ */
+export function scaleStemBlock(block: StemBlock, gain: number | Float32Array): void {
+  const arrays = [block.foundation, block.harmony, block.atmosphere, ...block.binaural, block.melody, block.music];
+  for (const array of arrays) {
+    for (let i = 0; i < array.length; i++) {
+      array[i] *= typeof gain === 'number' ? gain : gain[i];
+    }
+  }
+}
+
+/**
+ * The channel map for a multichannel export (the default when none fits the channel count)
+ */
+export function getChannelMap(channels: 4 | 6, channelMap?: ChannelSource[]): ChannelSource[] {
+  return channelMap && channelMap.length === channels ? channelMap : DEFAULT_CHANNEL_MAPS[channels];
+}
+
+/**
+ * Pick each output channel of a multichannel export from a stem block
+ */
+export function mapStemChannels(block: StemBlock, channelMap: ChannelSource[]): Float32Array[] {
+  const [left, right] = block.binaural;
+  return channelMap.map((source) => {
+    switch (source) {
+      case 'binaural': {
+        const mixed = new Float32Array(left.length);
+        for (let i = 0; i < mixed.length; i++) mixed[i] = (left[i] + right[i]) * 0.5;
+        return mixed;
+      }
+      case 'binaural_left':
+        return left;
+      case 'binaural_right':
+        return right;
+      case 'silent':
+        return new Float32Array(left.length);
+      default:
+        return block[source];
+    }
+  });
+}
+
+/**
+ * The stereo mix a stem block adds up to (before the mix's soft clip)
+ */
+export function mixStemBlock(block: StemBlock): [Float32Array, Float32Array] {
+  const [beatsLeft, beatsRight] = block.binaural;
+  const left = new Float32Array(beatsLeft.length);
+  const right = new Float32Array(beatsRight.length);
+  for (let i = 0; i < left.length; i++) {
+    const bed = block.foundation[i] + block.harmony[i] + block.atmosphere[i] + block.melody[i] + block.music[i];
+    left[i] = bed + beatsLeft[i];
+    right[i] = bed + beatsRight[i];
+  }
+  return [left, right];
+}
+
+/**
+ * Channels of one stem file (binaural keeps both ears)
+ */
+export function getStemChannels(block: StemBlock, layer: StemLayer): Float32Array[] {
+  return layer === 'binaural' ? block.binaural : [block[layer]];
+}
+
+/**
+ * Layers a journey actually renders, for stem file export
+ * Music is left out because it only exists as a live stream.
+ */
+export function getExportStems(config: JourneyConfig): StemLayer[] {
+  const beats = applyBeatMode(config);
+  const stems: StemLayer[] = [];
+  if (config.layers.base_carrier !== false) stems.push('foundation');
+  if (config.layers.support_carrier !== false) stems.push('harmony');
+  if (config.layers.texture_layer === true) stems.push('atmosphere');
+  if (hasBinauralBeats(beats) || hasMonauralBeats(beats) || hasIsochronicTones(beats)) stems.push('binaural');
+  if (config.phases.some((phase) => isMelodyActive(phase, config.layers.melody_layer))) stems.push('melody');
+  return stems;
+}
@@ -0,0 +1,502 @@
+/**
+ * StreamingRenderer - Block-based journey rendering with bounded memory
+ * Computes the SynthEngine graph sample-by-sample, one block at a time, so multi-hour
+ * journeys can be exported in chunks (used by the render worker)
+ */
+
+import type { JourneyConfig, OutputProfileId, SafetyConfig, ProgressCallback, RhythmMode, EntrainmentMode, StemLayer } from '../types/journey';
+import { ENTRAINMENT_PRESETS, DEFAULT_SAFETY } from '../types/journey';
+import { MelodyGenerator, MELODY_LAYER_GAIN, isMelodyActive, type MelodyNote } from './MelodyGenerator';
+import { BinauralGenerator, hasBinauralBeats, getPhaseAtTime } from './BinauralGenerator';
+import { IsochronicGenerator, hasIsochronicTones } from './IsochronicGenerator';
+import { MonauralGenerator, hasMonauralBeats } from './MonauralGenerator';
+import { applyBeatMode } from './BeatMode';
+import { applyOutputProfile, createOutputStage, getOutputProfile, type OutputProfile } from './OutputProfile';
+import { automationValueAt, resolvePhaseAt } from './Envelope';
+import { createStemBlock, getExportStems, scaleStemBlock, type StemBlock } from './Stems';
+
+// Map rhythm mode to entrainment mode (same table as SynthEngine)
+const rhythmToEntrainment: Record<RhythmMode, EntrainmentMode> = {
+  still: 'none',
+  breathing: 'breathing',
+  heartbeat: 'heartbeat',
+  delta: 'delta',
+  theta: 'theta',
+  alpha: 'alpha',
+  beta: 'beta',
+  gamma: 'gamma',
+};
+
+// Parameter smoothing time constant, matching SynthEngine's 0.5 s setTargetAtTime ramps
+const PARAM_RAMP_TIME = 0.5;
+
+// Parameters are re-evaluated every this many samples (one Web Audio render quantum)
+const CONTROL_BLOCK = 128;
+
+// Loudness target for journeys with full-range (melody) content
+const FULL_RANGE_TARGET_DB = -14;
+
+/**
+ * Receives each rendered block; may return a promise to apply backpressure
+ */
+export type ChunkCallback = (channels: Float32Array[], startFrame: number) => void | Promise<void>;
+
+/**
+ * Receives each rendered block of every layer; may return a promise to apply backpressure
+ */
+export type StemCallback = (stems: StemBlock, startFrame: number) => void | Promise<void>;
+
+// One-pole highpass/lowpass state
+interface BedFilter {
+  highpassX: number;
+  highpassY: number;
+  lowpassY: number;
+}
+
+// Bed layers rendered as stems, in the order of BedState.stemFilters
+const BED_STEMS = ['foundation', 'harmony', 'atmosphere', 'melody'] as const;
+
+/**
+ * Oscillator and smoothing state for the bed layers, carried between blocks
+ */
+interface BedState {
+  foundationPhase: number;
+  harmonyPhase: number;
+  atmospherePhase: number;
+  lfoPhase: number;
+  fmPhase: number;
+  foundationFreq: number;
+  harmonyFreq: number;
+  amp: number;
+  lfoRate: number;
+  lfoDepth: number;
+  fmDepth: number;
+  highpassX: number;
+  highpassY: number;
+  lowpassY: number;
+  stemFilters: BedFilter[];
+  initialized: boolean;
+}
+
+function createBedState(): BedState {
+  return {
+    foundationPhase: 0,
+    harmonyPhase: 0,
+    atmospherePhase: 0,
+    lfoPhase: 0,
+    fmPhase: 0,
+    foundationFreq: 0,
+    harmonyFreq: 0,
+    amp: 0,
+    lfoRate: 0,
+    lfoDepth: 0,
+    fmDepth: 0,
+    highpassX: 0,
+    highpassY: 0,
+    lowpassY: 0,
+    stemFilters: BED_STEMS.map(() => ({ highpassX: 0, highpassY: 0, lowpassY: 0 })),
+    initialized: false,
+  };
+}
+
+export class StreamingRenderer {
+  private sampleRate: number;
+  private channels: number;
+  private blockFrames: number;
+  private melody: MelodyGenerator;
+  private melodyNotes = new Map<number, MelodyNote[]>();
+  private outputProfile: OutputProfile | null;
+
+  constructor(
+    sampleRate: number = 48000,
+    channels: 1 | 2 = 2,
+    blockSeconds: number = 5,
+    outputProfile: OutputProfileId | null = null
+  ) {
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.blockFrames = Math.max(CONTROL_BLOCK, Math.floor(blockSeconds * sampleRate));
+    this.melody = new MelodyGenerator(sampleRate);
+    this.outputProfile = getOutputProfile(outputProfile);
+  }
+
+  /**
+   * Total number of frames the journey renders to
+   */
+  getTotalFrames(config: JourneyConfig): number {
+    const totalSeconds = config.phases.reduce((sum, phase) => sum + phase.duration * 60, 0);
+    return Math.ceil(totalSeconds * this.sampleRate);
+  }
+
+  /**
+   * Layers with content in a journey (after the output profile), for stem file export
+   */
+  getExportStems(journey: JourneyConfig): StemLayer[] {
+    return getExportStems(applyOutputProfile(journey, this.outputProfile));
+  }
+
+  /**
+   * Render a journey block by block
+   * Pass 1 measures the filtered bed to find the normalization gain, pass 2 renders and
+   * hands each finished block to onChunk. Memory use is independent of journey length.
+   */
+  async render(
+    journey: JourneyConfig,
+    onChunk: ChunkCallback,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.renderBlocks(journey, null, onChunk, onProgress, signal);
+  }
+
+  /**
+   * Render a journey with every layer on its own output
+   * Stems share the mix's normalization, limiter and fades, so together they add up to the
+   * stereo mix (before the output profile's stereo handling).
+   */
+  async renderStems(
+    journey: JourneyConfig,
+    onStems: StemCallback,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.renderBlocks(journey, onStems, null, onProgress, signal);
+  }
+
+  private async renderBlocks(
+    journey: JourneyConfig,
+    onStems: StemCallback | null,
+    onChunk: ChunkCallback | null,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (journey.phases.length === 0) {
+      throw new Error('Journey has no phases');
+    }
+
+    const config = applyOutputProfile(journey, this.outputProfile);
+    const totalFrames = this.getTotalFrames(config);
+    const safety = { ...DEFAULT_SAFETY, ...config.safety };
+    const fullRange = config.phases.some((phase) => isMelodyActive(phase, config.layers.melody_layer));
+    this.melodyNotes.clear();
+
+    onProgress?.({
+      phase: 'Analyzing',
+      stage: 'analysis',
+      progress: 0,
+      message: 'Measuring journey loudness...',
+    });
+
+    // Pass 1: loudness analysis
+    let sumSquares = 0;
+    let state = createBedState();
+    for (let start = 0; start < totalFrames; start += this.blockFrames) {
+      this.throwIfAborted(signal);
+      const length = Math.min(this.blockFrames, totalFrames - start);
+      const bed = this.renderBed(config, state, start, length, fullRange, safety);
+      for (let i = 0; i < length; i++) {
+        sumSquares += bed[i] * bed[i];
+      }
+
+      const { phase } = getPhaseAtTime(config, start / this.sampleRate);
+      onProgress?.({
+        phase: phase.name,
+        stage: 'analysis',
+        progress: Math.round((start / totalFrames) * 40),
+        message: `Analyzing ${phase.name}...`,
+      });
+      await this.yield();
+    }
+
+    const rms = Math.sqrt(sumSquares / Math.max(1, totalFrames));
+    const targetRms = Math.pow(10, (fullRange ? FULL_RANGE_TARGET_DB : safety.max_rms_db) / 20);
+    const normGain = rms > 0 ? targetRms / rms : 1;
+
+    // Pass 2: render, limit and stream out
+    state = createBedState();
+    // The journey's beat mode picks which beat layers render
+    const beats = applyBeatMode(config);
+    const binaural = hasBinauralBeats(beats) ? new BinauralGenerator(this.sampleRate) : null;
+    const monaural = hasMonauralBeats(beats) ? new MonauralGenerator(this.sampleRate) : null;
+    const isochronic = hasIsochronicTones(beats) ? new IsochronicGenerator(this.sampleRate) : null;
+    const output = createOutputStage(this.outputProfile, this.sampleRate, safety);
+    const ceiling = Math.pow(10, safety.peak_ceiling_db / 20);
+    const releaseCoeff = 1 - Math.exp(-1 / (0.05 * this.sampleRate));
+    const fadeInFrames = Math.floor(0.1 * this.sampleRate);
+    const fadeOutFrames = Math.floor(0.5 * this.sampleRate);
+    let limiterGain = 1;
+
+    for (let start = 0; start < totalFrames; start += this.blockFrames) {
+      this.throwIfAborted(signal);
+      const length = Math.min(this.blockFrames, totalFrames - start);
+      const stems = onStems ? createStemBlock(length) : null;
+      const bed = this.renderBed(config, state, start, length, fullRange, safety, stems);
+      if (stems) scaleStemBlock(stems, normGain);
+
+      const left = new Float32Array(length);
+      const right = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        const sample = this.softClip(bed[i] * normGain, 0.95);
+        left[i] = sample;
+        right[i] = sample;
+      }
+
+      if (binaural) {
+        // Binaural carriers bypass the bed filters but share its normalization gain
+        const binauralLeft = new Float32Array(length);
+        const binauralRight = new Float32Array(length);
+        binaural.renderBlock(beats, binauralLeft, binauralRight, start);
+        for (let i = 0; i < length; i++) {
+          left[i] += binauralLeft[i] * normGain;
+          right[i] += binauralRight[i] * normGain;
+          if (stems) {
+            stems.binaural[0][i] += binauralLeft[i] * normGain;
+            stems.binaural[1][i] += binauralRight[i] * normGain;
+          }
+        }
+      }
+
+      if (monaural || isochronic) {
+        // Monaural beats and isochronic pulses are the same in both ears and also bypass the bed filters
+        const tones = new Float32Array(length);
+        monaural?.renderBlock(beats, tones, start);
+        isochronic?.renderBlock(beats, tones, start);
+        for (let i = 0; i < length; i++) {
+          left[i] += tones[i] * normGain;
+          right[i] += tones[i] * normGain;
+          if (stems) {
+            stems.binaural[0][i] += tones[i] * normGain;
+            stems.binaural[1][i] += tones[i] * normGain;
+          }
+        }
+      }
+
+      // Linked peak limiter (instant attack, 50 ms release) and edge fades
+      const gains = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        const peak = Math.max(Math.abs(left[i]), Math.abs(right[i]));
+        const target = peak > ceiling ? ceiling / peak : 1;
+        limiterGain = target < limiterGain ? target : limiterGain + releaseCoeff * (target - limiterGain);
+
+        let fade = 1;
+        const frame = start + i;
+        if (frame < fadeInFrames) {
+          const t = frame / fadeInFrames;
+          fade = t * t;
+        }
+        const fromEnd = totalFrames - 1 - frame;
+        if (fromEnd < fadeOutFrames) {
+          const t = fromEnd / fadeOutFrames;
+          fade *= t * t;
+        }
+
+        gains[i] = limiterGain * fade;
+        left[i] *= gains[i];
+        right[i] *= gains[i];
+      }
+
+      if (stems && onStems) {
+        scaleStemBlock(stems, gains);
+        await onStems(stems, start);
+      } else if (onChunk) {
+        output.process([left, right]);
+        if (this.channels === 1) {
+          for (let i = 0; i < length; i++) {
+            left[i] = (left[i] + right[i]) * 0.5;
+          }
+          await onChunk([left], start);
+        } else {
+          await onChunk([left, right], start);
+        }
+      }
+
+      const { phase } = getPhaseAtTime(config, start / this.sampleRate);
+      onProgress?.({
+        phase: phase.name,
+        stage: 'rendering',
+        progress: 40 + Math.round(((start + length) / totalFrames) * 60),
+        message: `Rendering ${phase.name}...`,
+      });
+      await this.yield();
+    }
+  }
+
+  /**
+   * Render one block of the mono bed (foundation, harmony, atmosphere, melody) with filtering
+   * When stems is given, each layer is also written to its own stem, filtered separately.
+   */
+  private renderBed(
+    config: JourneyConfig,
+    state: BedState,
+    startFrame: number,
+    length: number,
+    fullRange: boolean,
+    safety: SafetyConfig,
+    stems: StemBlock | null = null
+  ): Float32Array {
+    const output = new Float32Array(length);
+    const twoPiOverSampleRate = (2 * Math.PI) / this.sampleRate;
+    const rampCoeff = 1 - Math.exp(-1 / (PARAM_RAMP_TIME * this.sampleRate));
+    const layers = config.layers;
+    const foundationLevel = layers.base_carrier !== false ? 0.7 : 0;
+    const harmonyLevel = layers.support_carrier !== false ? 0.4 : 0;
+    const atmosphereLevel = layers.texture_layer === true ? 0.15 : 0;
+    const melodyAudio = this.renderMelodyBlock(config, startFrame, length);
+
+    // One-pole filters, matching SafetyProcessor's vibroacoustic band
+    const hpRc = 1.0 / (2 * Math.PI * safety.highpass_hz);
+    const lpRc = 1.0 / (2 * Math.PI * safety.lowpass_hz);
+    const dt = 1.0 / this.sampleRate;
+    const hpAlpha = hpRc / (hpRc + dt);
+    const lpAlpha = dt / (lpRc + dt);
+
+    for (let block = 0; block < length; block += CONTROL_BLOCK) {
+      const { phase: timelinePhase, progress } = getPhaseAtTime(config, (startFrame + block) / this.sampleRate);
+      const phase = resolvePhaseAt(timelinePhase, progress);
+
+      // Targets for this control block (as in SynthEngine.updateFromTimeline)
+      const freq = automationValueAt(phase.frequency, progress);
+      const harmonyFreq = phase.support_frequency
+        ? automationValueAt(phase.support_frequency, progress)
+        : freq - 5;
+      const amp = automationValueAt(phase.amplitude, progress);
+      const preset = ENTRAINMENT_PRESETS[rhythmToEntrainment[phase.rhythm_mode || 'breathing']];
+      const lfoRate = phase.entrainment_rate || preset.rate;
+      const fmDepth = (phase.fm_depth || 0) * 2;
+
+      if (!state.initialized) {
+        state.foundationFreq = freq;
+        state.harmonyFreq = harmonyFreq;
+        state.amp = amp;
+        state.lfoRate = lfoRate;
+        state.lfoDepth = preset.depth;
+        state.fmDepth = fmDepth;
+        state.initialized = true;
+      }
+
+      const blockEnd = Math.min(block + CONTROL_BLOCK, length);
+      for (let i = block; i < blockEnd; i++) {
+        state.foundationFreq += rampCoeff * (freq - state.foundationFreq);
+        state.harmonyFreq += rampCoeff * (harmonyFreq - state.harmonyFreq);
+        state.amp += rampCoeff * (amp - state.amp);
+        state.lfoDepth += rampCoeff * ((preset.rate > 0 ? preset.depth : 0) - state.lfoDepth);
+        if (preset.rate > 0) state.lfoRate += rampCoeff * (lfoRate - state.lfoRate);
+        state.fmDepth += rampCoeff * (fmDepth - state.fmDepth);
+
+        // FM LFO (0.1 Hz "flow") shared by foundation and harmony
+        const fm = state.fmDepth * Math.sin(state.fmPhase);
+        state.fmPhase += twoPiOverSampleRate * 0.1;
+
+        const foundation = foundationLevel * Math.sin(state.foundationPhase);
+        const harmony = harmonyLevel * Math.sin(state.harmonyPhase);
+        const atmosphere = atmosphereLevel * Math.sin(state.atmospherePhase);
+        const melodySample = MELODY_LAYER_GAIN * melodyAudio[i];
+        const sample = foundation + harmony + atmosphere + melodySample;
+
+        state.foundationPhase += twoPiOverSampleRate * (state.foundationFreq + fm);
+        state.harmonyPhase += twoPiOverSampleRate * (state.harmonyFreq + fm);
+        state.atmospherePhase += twoPiOverSampleRate * state.foundationFreq * 2;
+        if (state.foundationPhase > 2 * Math.PI) state.foundationPhase -= 2 * Math.PI;
+        if (state.harmonyPhase > 2 * Math.PI) state.harmonyPhase -= 2 * Math.PI;
+        if (state.atmospherePhase > 2 * Math.PI) state.atmospherePhase -= 2 * Math.PI;
+
+        // Master gain = intensity + entrainment LFO
+        const masterGain = state.amp + state.lfoDepth * Math.sin(state.lfoPhase);
+        state.lfoPhase += twoPiOverSampleRate * state.lfoRate;
+        if (state.lfoPhase > 2 * Math.PI) state.lfoPhase -= 2 * Math.PI;
+
+        if (stems) {
+          const layerSamples = [foundation, harmony, atmosphere, melodySample];
+          for (let s = 0; s < BED_STEMS.length; s++) {
+            stems[BED_STEMS[s]][i] = this.filterSample(
+              state.stemFilters[s], layerSamples[s] * masterGain, hpAlpha, lpAlpha, fullRange
+            );
+          }
+        }
+
+        let filtered = sample * masterGain;
+
+        // Highpass (always) and lowpass (vibroacoustic-only journeys)
+        const hp = hpAlpha * (state.highpassY + filtered - state.highpassX);
+        state.highpassX = filtered;
+        state.highpassY = hp;
+        filtered = hp;
+        if (!fullRange) {
+          state.lowpassY += lpAlpha * (filtered - state.lowpassY);
+          filtered = state.lowpassY;
+        }
+
+        output[i] = filtered;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Run one sample through a stem's copy of the bed filters
+   */
+  private filterSample(filter: BedFilter, sample: number, hpAlpha: number, lpAlpha: number, fullRange: boolean): number {
+    const hp = hpAlpha * (filter.highpassY + sample - filter.highpassX);
+    filter.highpassX = sample;
+    filter.highpassY = hp;
+    if (fullRange) return hp;
+    filter.lowpassY += lpAlpha * (hp - filter.lowpassY);
+    return filter.lowpassY;
+  }
+
+  /**
+   * Render the melody layer for a block, which may span several phases
+   */
+  private renderMelodyBlock(config: JourneyConfig, startFrame: number, length: number): Float32Array {
+    const output = new Float32Array(length);
+    if (config.layers.melody_layer !== true) return output;
+
+    let phaseStartFrame = 0;
+    for (let i = 0; i < config.phases.length; i++) {
+      const phase = config.phases[i];
+      const phaseFrames = Math.floor(phase.duration * 60 * this.sampleRate);
+      const phaseEndFrame = phaseStartFrame + phaseFrames;
+
+      if (phaseEndFrame > startFrame && phaseStartFrame < startFrame + length && isMelodyActive(phase, true)) {
+        let notes = this.melodyNotes.get(i);
+        if (!notes) {
+          notes = this.melody.generateNotes(phase, i, phase.duration * 60);
+          this.melodyNotes.set(i, notes);
+        }
+
+        const from = Math.max(startFrame, phaseStartFrame);
+        const to = Math.min(startFrame + length, phaseEndFrame);
+        const rendered = this.melody.renderOffline(notes, to - from, from - phaseStartFrame);
+        output.set(rendered, from - startFrame);
+      }
+
+      phaseStartFrame = phaseEndFrame;
+    }
+
+    return output;
+  }
+
+  /**
+   * Soft clip above a threshold (same curve as SafetyProcessor.softClip)
+   */
+  private softClip(sample: number, threshold: number, knee: number = 0.1): number {
+    const absSample = Math.abs(sample);
+    if (absSample <= threshold) return sample;
+    const compressed = threshold + knee * Math.tanh((absSample - threshold) / knee);
+    return sample >= 0 ? compressed : -compressed;
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new DOMException('Export cancelled', 'AbortError');
+    }
+  }
+
+  /**
+   * Yield to the event loop so cancel messages can be handled between blocks
+   */
+  private yield(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
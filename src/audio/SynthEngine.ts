@@ -3,9 +3,19 @@
  * Enables live playback and modulation of vibroacoustic journeys
  */
 
-import type { JourneyConfig, PhaseConfig, AudioParams, RhythmMode, EntrainmentMode } from '../types/journey';
-import { ENTRAINMENT_PRESETS } from '../types/journey';
+import type { JourneyConfig, PhaseConfig, AudioParams, RhythmMode, EntrainmentMode, AutomatableParam, OutputProfileId } from '../types/journey';
+import { ENTRAINMENT_PRESETS, DEFAULT_SAFETY } from '../types/journey';
 import { createPsychedelicEngine, type PsychedelicEngine, type EnhancementPreset } from './PsychedelicEngine';
+import { getBinauralSettings, BINAURAL_RAMP_TIME, BINAURAL_RELEASE_TIME } from './BinauralGenerator';
+import { getIsochronicSettings, getPulseWave } from './IsochronicGenerator';
+import { getMonauralSettings, MONAURAL_CARRIER_GAIN } from './MonauralGenerator';
+import { applyPhaseBeatMode } from './BeatMode';
+import { applyOutputProfile, getOutputProfile, DEFAULT_LIMITER, type OutputProfile } from './OutputProfile';
+import { MelodyGenerator, MELODY_LAYER_GAIN, isMelodyActive, type MelodyNote } from './MelodyGenerator';
+import { automationValueAt, getParamLane, laneValueAt, resolvePhaseAt, scheduleCurve } from './Envelope';
+
+// How far ahead (seconds) melody notes are scheduled on the audio clock
+const MELODY_LOOKAHEAD = 2;
 
 // Map rhythm mode to entrainment mode (neural frequency bands)
 const rhythmToEntrainment: Record<RhythmMode, EntrainmentMode> = {
@@ -19,12 +29,34 @@ const rhythmToEntrainment: Record<RhythmMode, EntrainmentMode> = {
   gamma: 'gamma',     // 30-50 Hz - cognitive enhancement
 };
 
+// Visualizer spectrum resolution: 16384 points is ~2.9 Hz per bin at 48 kHz, enough for sub-bass
+const VISUALIZER_FFT_SIZE = 16384;
+
+export interface VisualizerAnalysers {
+  spectrum: AnalyserNode;
+  left: AnalyserNode;
+  right: AnalyserNode;
+}
+
+// Rates in Hz of the entrainment layers that are sounding
+export interface EntrainmentState {
+  rhythmRate: number | null;
+  binauralBeat: number | null;
+  monauralBeat: number | null;
+  isochronicRate: number | null;
+}
+
 export class SynthEngine {
   private ctx: AudioContext | null = null;
   private isPlaying = false;
   private isPaused = false;
   private journeyConfig: JourneyConfig | null = null;
 
+  // Output profile (null plays the journey as designed); journeyConfig has it applied
+  private designConfig: JourneyConfig | null = null;
+  private outputProfile: OutputProfile | null = null;
+  private outputNodes: AudioNode[] = [];
+
   // Timing
   private startTime = 0;
   private pausedAt = 0;
@@ -61,6 +93,9 @@ export class SynthEngine {
   private currentAdaptiveGain = 1.0;
   private adaptiveGainSmoothing = 0.95; // Higher = slower response
   private analysisBuffer: Float32Array<ArrayBuffer> | null = null;
+
+  // Visualizer taps: a fine-resolution spectrum for sub-bass, and each ear for the goniometer
+  private visualizer: VisualizerAnalysers | null = null;
   
   // Binaural beats
   private binaural: {
@@ -77,6 +112,52 @@ export class SynthEngine {
     carrierFreq: 200, // Default carrier frequency
   };
 
+  // Monaural beats - two carriers summed into both channels
+  private monaural: {
+    low: OscillatorNode | null;
+    high: OscillatorNode | null;
+    gain: GainNode | null;
+    enabled: boolean;
+  } = {
+    low: null,
+    high: null,
+    gain: null,
+    enabled: false,
+  };
+
+  // Isochronic tones - carrier gated by a pulse-shaped periodic wave
+  private isochronic: {
+    carrier: OscillatorNode | null;
+    pulse: OscillatorNode | null;
+    gate: GainNode | null;
+    gain: GainNode | null;
+    enabled: boolean;
+    waveKey: string | null; // Duty cycle and shape of the current pulse wave
+  } = {
+    carrier: null,
+    pulse: null,
+    gate: null,
+    gain: null,
+    enabled: false,
+    waveKey: null,
+  };
+
+  // Melody layer - notes come from MelodyGenerator so live and export match
+  private melodyGenerator = new MelodyGenerator();
+  private melody: {
+    gain: GainNode | null;
+    voices: Set<OscillatorNode>;
+    notes: Map<number, MelodyNote[]>;
+    scheduledUntil: number; // Journey time up to which notes are scheduled
+    resync: boolean;        // Pick up notes already sounding at scheduledUntil
+  } = {
+    gain: null,
+    voices: new Set(),
+    notes: new Map(),
+    scheduledUntil: 0,
+    resync: true,
+  };
+
   // Psychedelic audio enhancement engine
   private psychedelicEngine: PsychedelicEngine | null = null;
   private psychedelicEngineInitialized = false;
@@ -102,6 +183,10 @@ export class SynthEngine {
   private manualOverride = false;
   private manualOverrideTimeout: ReturnType<typeof setTimeout> | null = null;
 
+  // Automation lanes running as AudioParam ramps (automationPhaseIndex -1: reschedule on next update)
+  private automationPhaseIndex = -1;
+  private scheduledLanes: AutomatableParam[] = [];
+
   // Callbacks
   private onTimeUpdate?: (time: number) => void;
   private onPlayStateChange?: (isPlaying: boolean) => void;
@@ -152,14 +237,9 @@ export class SynthEngine {
   private createAudioGraph(): void {
     if (!this.ctx) return;
 
-    // Create limiter (dynamics compressor configured as a limiter)
+    // Create limiter (dynamics compressor configured as a limiter, settings from the output profile)
     this.limiter = this.ctx.createDynamicsCompressor();
-    this.limiter.threshold.value = -3; // Start limiting at -3 dB
-    this.limiter.knee.value = 3; // Soft knee for transparent limiting
-    this.limiter.ratio.value = 20; // High ratio for limiting behavior
-    this.limiter.attack.value = 0.003; // Fast attack to catch peaks
-    this.limiter.release.value = 0.1; // Moderate release
-    this.limiter.connect(this.ctx.destination);
+    this.connectOutput();
 
     // Create adaptive gain node (goes before limiter)
     this.adaptiveGain = this.ctx.createGain();
@@ -177,6 +257,7 @@ export class SynthEngine {
     this.master.gain.value = 0;
     this.master.connect(this.adaptiveGain);
     this.master.connect(this.analyser); // Also feed to analyser for level monitoring
+    this.createVisualizerTaps(this.master);
 
     // Foundation oscillator (base carrier)
     this.foundation.osc = this.ctx.createOscillator();
@@ -245,6 +326,38 @@ export class SynthEngine {
     this.binaural.right.gain.connect(this.binaural.right.panner);
     this.binaural.right.panner.connect(this.master);
 
+    // Monaural beats - no panning, the beat is in the summed signal
+    this.monaural.low = this.ctx.createOscillator();
+    this.monaural.low.type = 'sine';
+    this.monaural.high = this.ctx.createOscillator();
+    this.monaural.high.type = 'sine';
+    this.monaural.gain = this.ctx.createGain();
+    this.monaural.gain.gain.value = 0; // Start muted
+    this.monaural.low.connect(this.monaural.gain);
+    this.monaural.high.connect(this.monaural.gain);
+    this.monaural.gain.connect(this.master);
+
+    // Isochronic tones - the pulse wave is added to the gate's mean gain
+    this.isochronic.carrier = this.ctx.createOscillator();
+    this.isochronic.carrier.type = 'sine';
+    this.isochronic.carrier.frequency.value = 200;
+    this.isochronic.pulse = this.ctx.createOscillator();
+    this.isochronic.pulse.frequency.value = 10;
+    this.isochronic.gate = this.ctx.createGain();
+    this.isochronic.gate.gain.value = 0;
+    this.isochronic.gain = this.ctx.createGain();
+    this.isochronic.gain.gain.value = 0; // Start muted
+    this.isochronic.carrier.connect(this.isochronic.gate);
+    this.isochronic.pulse.connect(this.isochronic.gate.gain);
+    this.isochronic.gate.connect(this.isochronic.gain);
+    this.isochronic.gain.connect(this.master);
+    this.isochronic.waveKey = null;
+
+    // Melody bus (note voices are created on demand by scheduleMelody)
+    this.melody.gain = this.ctx.createGain();
+    this.melody.gain.gain.value = 0;
+    this.melody.gain.connect(this.master);
+
     // Start all oscillators
     this.foundation.osc.start();
     this.harmony.osc.start();
@@ -253,12 +366,92 @@ export class SynthEngine {
     this.fmLfo.osc.start();
     this.binaural.left.osc.start();
     this.binaural.right.osc.start();
+    this.monaural.low.start();
+    this.monaural.high.start();
+    this.isochronic.carrier.start();
+    this.isochronic.pulse.start();
+  }
+
+  /**
+   * Configure the limiter and route it to the speakers for the output profile
+   * Without a profile the limiter feeds the destination directly, as designed.
+   */
+  private connectOutput(): void {
+    if (!this.ctx || !this.limiter) return;
+
+    const limiter = this.outputProfile?.limiter ?? DEFAULT_LIMITER;
+    this.limiter.threshold.value = limiter.threshold;
+    this.limiter.knee.value = limiter.knee;
+    this.limiter.ratio.value = limiter.ratio;
+    this.limiter.attack.value = limiter.attack;
+    this.limiter.release.value = limiter.release;
+
+    this.limiter.disconnect();
+    for (const node of this.outputNodes) node.disconnect();
+    this.outputNodes = [];
+
+    if (!this.outputProfile) {
+      this.limiter.connect(this.ctx.destination);
+      return;
+    }
+
+    const safety = { ...DEFAULT_SAFETY, ...this.journeyConfig?.safety };
+    const highpass = this.ctx.createBiquadFilter();
+    highpass.type = 'highpass';
+    highpass.frequency.value = safety.highpass_hz;
+    this.outputNodes.push(highpass);
+
+    if (this.outputProfile.stereo === 'stereo') {
+      this.limiter.connect(highpass);
+      highpass.connect(this.ctx.destination);
+      return;
+    }
+
+    // A single-channel node downmixes; the destination plays it in both channels
+    const mono = this.ctx.createGain();
+    mono.channelCount = 1;
+    mono.channelCountMode = 'explicit';
+    mono.channelInterpretation = 'speakers';
+    const lowpass = this.ctx.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    lowpass.frequency.value = safety.lowpass_hz;
+    this.outputNodes.push(mono, lowpass);
+
+    this.limiter.connect(mono);
+    mono.connect(highpass);
+    highpass.connect(lowpass);
+
+    if (this.outputProfile.stereo === 'mono') {
+      lowpass.connect(this.ctx.destination);
+      return;
+    }
+
+    // Split: the tactile band drives the bed on the left, the full mix plays on the right
+    const merger = this.ctx.createChannelMerger(2);
+    this.outputNodes.push(merger);
+    lowpass.connect(merger, 0, 0);
+    mono.connect(merger, 0, 1);
+    merger.connect(this.ctx.destination);
+  }
+
+  /**
+   * Select the output profile for playback (null plays the journey as designed)
+   */
+  setOutputProfile(id: OutputProfileId | null): void {
+    this.outputProfile = getOutputProfile(id);
+    this.targetRmsDb = this.outputProfile?.safety?.max_rms_db ?? -12;
+    if (this.designConfig) {
+      this.setJourneyConfig(this.designConfig);
+    }
+    this.connectOutput();
   }
 
   /**
    * Set the journey configuration
    */
-  setJourneyConfig(config: JourneyConfig): void {
+  setJourneyConfig(design: JourneyConfig): void {
+    this.designConfig = design;
+    const config = applyOutputProfile(design, this.outputProfile);
     this.journeyConfig = config;
 
     if (config.layers) {
@@ -268,6 +461,11 @@ export class SynthEngine {
       this.currentParams.layers.melody = config.layers.melody_layer === true;
     }
 
+    // Note sequences depend on the phase settings, so regenerate them
+    this.melody.notes.clear();
+    this.resetMelody(this._currentTime);
+    this.automationPhaseIndex = -1;
+
     if (this.isPlaying) {
       this.updateFromTimeline();
     }
@@ -329,6 +527,7 @@ export class SynthEngine {
     this.master?.gain.setValueAtTime(0, now);
 
     this.ctx.suspend();
+    this.resetMelody(this.pausedAt);
 
     // Pause binaural beats
     if (this.binaural.enabled && this.ctx) {
@@ -342,6 +541,14 @@ export class SynthEngine {
       }
     }
 
+    // Pause monaural beats and isochronic tones
+    if (this.monaural.enabled && this.monaural.gain) {
+      this.monaural.gain.gain.setTargetAtTime(0, this.ctx.currentTime, BINAURAL_RELEASE_TIME);
+    }
+    if (this.isochronic.enabled && this.isochronic.gain) {
+      this.isochronic.gain.gain.setTargetAtTime(0, this.ctx.currentTime, BINAURAL_RELEASE_TIME);
+    }
+
     this.onPlayStateChange?.(false);
   }
 
@@ -365,6 +572,8 @@ export class SynthEngine {
     this.master?.gain.cancelScheduledValues(now);
     this.master?.gain.setValueAtTime(0, now);
     this.ctx.suspend();
+    this.resetMelody(0);
+    this.automationPhaseIndex = -1;
 
     // Stop binaural beats
     if (this.binaural.enabled && this.ctx) {
@@ -380,6 +589,16 @@ export class SynthEngine {
       this.binaural.beatFreq = null;
     }
 
+    // Stop monaural beats and isochronic tones
+    if (this.monaural.enabled && this.monaural.gain) {
+      this.monaural.gain.gain.setTargetAtTime(0, this.ctx.currentTime, BINAURAL_RELEASE_TIME);
+      this.monaural.enabled = false;
+    }
+    if (this.isochronic.enabled && this.isochronic.gain) {
+      this.isochronic.gain.gain.setTargetAtTime(0, this.ctx.currentTime, BINAURAL_RELEASE_TIME);
+      this.isochronic.enabled = false;
+    }
+
     this.onTimeUpdate?.(0);
     this.onPlayStateChange?.(false);
   }
@@ -391,6 +610,8 @@ export class SynthEngine {
     const totalDuration = this.totalDuration;
     this.pausedAt = Math.max(0, Math.min(timeSeconds, totalDuration));
     this._currentTime = this.pausedAt;
+    this.resetMelody(this.pausedAt);
+    this.automationPhaseIndex = -1;
 
     if (this.isPlaying && this.ctx) {
       this.startTime = this.ctx.currentTime - this.pausedAt;
@@ -417,6 +638,8 @@ export class SynthEngine {
       this.updateFromTimeline();
     }
 
+    this.scheduleMelody();
+
     // Update adaptive gain control for volume normalization
     this.updateAdaptiveGain();
 
@@ -491,14 +714,18 @@ export class SynthEngine {
   private updateFromTimeline(): void {
     if (!this.journeyConfig || !this.ctx) return;
 
-    const { phaseIndex, progress, phase } = this.getCurrentPhase();
-    if (!phase) return;
+    const { phaseIndex, progress, phase: timelinePhase } = this.getCurrentPhase();
+    if (!timelinePhase) return;
+
+    // Lanes with an AudioParam are scheduled once per phase; the rest are read per update
+    if (phaseIndex !== this.automationPhaseIndex) {
+      this.scheduleAutomationLanes(phaseIndex, timelinePhase, progress);
+    }
+    const phase = resolvePhaseAt(timelinePhase, progress);
 
-    // Interpolate frequency
-    const freq =
-      phase.frequency.start + (phase.frequency.end - phase.frequency.start) * progress;
-    const amp =
-      phase.amplitude.start + (phase.amplitude.end - phase.amplitude.start) * progress;
+    // Follow the phase's frequency and amplitude curves
+    const freq = automationValueAt(phase.frequency, progress);
+    const amp = automationValueAt(phase.amplitude, progress);
 
     // Get rhythm settings
     const rhythmMode = phase.rhythm_mode || 'breathing';
@@ -515,8 +742,10 @@ export class SynthEngine {
       this.foundation.freq = freq;
     }
 
-    // Harmony frequency (slightly lower)
-    const harmonyFreq = freq - 5;
+    // Harmony frequency (support carrier if set, otherwise slightly lower)
+    const harmonyFreq = phase.support_frequency
+      ? automationValueAt(phase.support_frequency, progress)
+      : freq - 5;
     if (this.harmony.osc && Math.abs(this.harmony.freq - harmonyFreq) > 0.1) {
       this.harmony.osc.frequency.setTargetAtTime(harmonyFreq, now, rampTime);
       this.harmony.freq = harmonyFreq;
@@ -533,9 +762,11 @@ export class SynthEngine {
       this.currentParams.intensity = amp;
     }
 
-    // LFO rate (rhythm)
+    // LFO rate (rhythm) - an explicit entrainment_rate overrides the preset rate
     if (this.lfo.osc && preset.rate > 0) {
-      this.lfo.osc.frequency.setTargetAtTime(preset.rate, now, rampTime);
+      if (!this.scheduledLanes.includes('entrainment_rate')) {
+        this.lfo.osc.frequency.setTargetAtTime(phase.entrainment_rate || preset.rate, now, rampTime);
+      }
       this.lfo.gain?.gain.setTargetAtTime(preset.depth, now, rampTime);
     } else if (this.lfo.gain) {
       this.lfo.gain.gain.setTargetAtTime(0, now, rampTime);
@@ -543,7 +774,7 @@ export class SynthEngine {
 
     // FM depth
     const fmDepth = phase.fm_depth || 0;
-    if (this.fmLfo.gain) {
+    if (this.fmLfo.gain && !this.scheduledLanes.includes('fm_depth')) {
       this.fmLfo.gain.gain.setTargetAtTime(fmDepth * 2, now, rampTime);
     }
 
@@ -569,12 +800,23 @@ export class SynthEngine {
         rampTime
       );
     }
+    if (this.melody.gain) {
+      this.melody.gain.gain.setTargetAtTime(
+        this.currentParams.layers.melody ? MELODY_LAYER_GAIN : 0,
+        now,
+        rampTime
+      );
+    }
 
     // Notify phase change
-    this.onPhaseChange?.(phaseIndex, phase);
+    this.onPhaseChange?.(phaseIndex, timelinePhase);
 
     // Update binaural beats if enabled
-    this.updateBinauralBeats(phase);
+    // The journey's beat mode picks which beat layer plays
+    const beats = applyPhaseBeatMode(phase, this.journeyConfig.beat_mode);
+    this.updateBinauralBeats(beats);
+    this.updateMonauralBeats(beats);
+    this.updateIsochronicTones(beats);
 
     // Update psychedelic audio enhancement
     this.updatePsychedelicEngine(phase, freq).catch(() => {
@@ -582,6 +824,38 @@ export class SynthEngine {
     });
   }
 
+  /**
+   * Schedule the phase's automation lanes that drive an AudioParam, from now to the phase end
+   */
+  private scheduleAutomationLanes(phaseIndex: number, phase: PhaseConfig, progress: number): void {
+    if (!this.ctx) return;
+
+    const now = this.ctx.currentTime;
+    const targets: { lane: AutomatableParam; param: AudioParam | undefined; scale: number }[] = [
+      { lane: 'fm_depth', param: this.fmLfo.gain?.gain, scale: 2 },
+      { lane: 'entrainment_rate', param: this.lfo.osc?.frequency, scale: 1 },
+    ];
+
+    // Hold whatever the previous phase left scheduled
+    for (const { lane, param } of targets) {
+      if (param && this.scheduledLanes.includes(lane)) {
+        param.cancelScheduledValues(now);
+        param.setValueAtTime(param.value, now);
+      }
+    }
+    this.scheduledLanes = [];
+    this.automationPhaseIndex = phaseIndex;
+
+    const remaining = phase.duration * 60 * (1 - progress);
+    for (const { lane, param, scale } of targets) {
+      const points = getParamLane(phase, lane);
+      if (!points || !param) continue;
+
+      scheduleCurve(param, (p) => laneValueAt(points, p) * scale, now, remaining, progress);
+      this.scheduledLanes.push(lane);
+    }
+  }
+
   /**
    * Get current phase information
    */
@@ -692,12 +966,83 @@ export class SynthEngine {
           if (this.atmosphere.gain) {
             this.atmosphere.gain.gain.setTargetAtTime(layers.atmosphere ? 0.15 : 0, now, rampTime);
           }
+          if (this.melody.gain) {
+            this.melody.gain.gain.setTargetAtTime(layers.melody ? MELODY_LAYER_GAIN : 0, now, rampTime);
+          }
           this.currentParams.layers = layers;
         }
         break;
     }
   }
 
+  /**
+   * Schedule melody notes that start within the lookahead window
+   */
+  private scheduleMelody(): void {
+    if (!this.ctx || !this.journeyConfig || !this.melody.gain) return;
+
+    const windowStart = this.melody.scheduledUntil;
+    const windowEnd = this._currentTime + MELODY_LOOKAHEAD;
+    if (windowEnd <= windowStart) return;
+
+    const resync = this.melody.resync;
+    const now = this.ctx.currentTime;
+    let phaseStart = 0;
+
+    for (let i = 0; i < this.journeyConfig.phases.length; i++) {
+      const phase = this.journeyConfig.phases[i];
+      const phaseDuration = phase.duration * 60;
+      const phaseEnd = phaseStart + phaseDuration;
+
+      if (
+        phaseEnd > windowStart &&
+        phaseStart < windowEnd &&
+        isMelodyActive(phase, this.journeyConfig.layers.melody_layer)
+      ) {
+        let notes = this.melody.notes.get(i);
+        if (!notes) {
+          notes = this.melodyGenerator.generateNotes(phase, i, phaseDuration);
+          this.melody.notes.set(i, notes);
+        }
+
+        const due = notes.filter((note) => {
+          const start = phaseStart + note.start;
+          if (start >= windowStart) return start < windowEnd;
+          return resync && start + note.duration > windowStart;
+        });
+
+        const voices = this.melodyGenerator.scheduleNotes(
+          this.ctx,
+          this.melody.gain,
+          due,
+          this.startTime + phaseStart,
+          now
+        );
+        for (const osc of voices) {
+          this.melody.voices.add(osc);
+          osc.addEventListener('ended', () => this.melody.voices.delete(osc));
+        }
+      }
+
+      phaseStart = phaseEnd;
+    }
+
+    this.melody.scheduledUntil = windowEnd;
+    this.melody.resync = false;
+  }
+
+  /**
+   * Silence scheduled melody voices and restart scheduling from a journey time
+   */
+  private resetMelody(fromTime: number): void {
+    for (const osc of this.melody.voices) {
+      osc.stop();
+    }
+    this.melody.voices.clear();
+    this.melody.scheduledUntil = fromTime;
+    this.melody.resync = true;
+  }
+
   /**
    * Update binaural beats based on current phase
    */
@@ -711,7 +1056,7 @@ export class SynthEngine {
       // Disable binaural beats
       if (this.binaural.enabled) {
         const now = this.ctx.currentTime;
-        const rampTime = 0.3;
+        const rampTime = BINAURAL_RELEASE_TIME;
         if (this.binaural.left.gain) {
           this.binaural.left.gain.gain.setTargetAtTime(0, now, rampTime);
         }
@@ -724,42 +1069,11 @@ export class SynthEngine {
       return;
     }
     
-    // Determine binaural beat frequency using entrainment science
-    // Priority: binaural_beat_frequency > entrainment_rate > rhythm_mode > frequency range
-    let beatFreq: number;
-    
-    if (phase.binaural_beat_frequency !== undefined && phase.binaural_beat_frequency > 0) {
-      // 1. Explicit binaural beat frequency
-      beatFreq = phase.binaural_beat_frequency;
-    } else if (phase.entrainment_rate !== undefined && phase.entrainment_rate > 0) {
-      // 2. Use entrainment_rate (exact Hz from preset) - capped at 30 Hz for binaural
-      beatFreq = Math.min(30, phase.entrainment_rate);
-    } else if (phase.rhythm_mode || phase.entrainment_mode) {
-      // 3. Map from rhythm_mode/entrainment_mode
-      const mode = phase.rhythm_mode || phase.entrainment_mode;
-      switch (mode) {
-        case 'delta': beatFreq = 3; break;    // Delta: deep sleep, trance
-        case 'theta': beatFreq = 6; break;    // Theta: meditation, hypnagogic
-        case 'alpha': beatFreq = 10; break;   // Alpha: visuals, flow states
-        case 'beta': beatFreq = 15; break;    // Beta: focus, alertness
-        case 'gamma': beatFreq = 30; break;   // Gamma: cognitive (capped for binaural)
-        case 'breathing': beatFreq = 10; break; // Alpha for calm breathing
-        case 'heartbeat': beatFreq = 10; break; // Alpha for grounded rhythm
-        default: beatFreq = 10; break;        // Default to alpha
-      }
-    } else {
-      // 4. Map from audio frequency range with progress interpolation
-      const { progress } = this.getCurrentPhase();
-      const interpolatedFreq = phase.frequency.start + (phase.frequency.end - phase.frequency.start) * progress;
-      if (interpolatedFreq <= 4) beatFreq = 3;        // Delta
-      else if (interpolatedFreq <= 7) beatFreq = 6;   // Theta
-      else if (interpolatedFreq <= 12) beatFreq = 10; // Alpha
-      else if (interpolatedFreq <= 30) beatFreq = 15; // Beta
-      else beatFreq = 10;                              // Default to Alpha
-    }
-    
-    // Carrier frequency (default 200 Hz, optimal range 100-400 Hz)
-    const carrierFreq = phase.binaural_carrier_frequency || 200;
+    // Resolve beat/carrier frequencies (shared with offline export)
+    const { progress } = this.getCurrentPhase();
+    const settings = getBinauralSettings(phase, progress);
+    const beatFreq = settings.beatFreq;
+    const carrierFreq = settings.carrierFreq;
     
     // Calculate left and right frequencies
     // Left: carrier - beatFreq/2, Right: carrier + beatFreq/2
@@ -767,7 +1081,7 @@ export class SynthEngine {
     const rightFreq = carrierFreq + beatFreq / 2;
     
     const now = this.ctx.currentTime;
-    const rampTime = 0.5;
+    const rampTime = BINAURAL_RAMP_TIME;
     
     // Update frequencies if changed
     if (!this.binaural.enabled || this.binaural.beatFreq !== beatFreq || this.binaural.carrierFreq !== carrierFreq) {
@@ -783,7 +1097,7 @@ export class SynthEngine {
     }
     
     // Get waveform type (default 'sine')
-    const waveform = phase.binaural_waveform || 'sine';
+    const waveform = settings.waveform;
     if (this.binaural.left.osc) {
       this.binaural.left.osc.type = waveform;
     }
@@ -793,7 +1107,7 @@ export class SynthEngine {
     
     // Enable binaural beats (fade in)
     if (!this.binaural.enabled) {
-      const binauralVolume = phase.binaural_volume ?? 0.3; // Default 30% volume
+      const binauralVolume = settings.volume; // Default 30% volume
       if (this.binaural.left.gain) {
         this.binaural.left.gain.gain.setTargetAtTime(binauralVolume, now, rampTime);
       }
@@ -803,7 +1117,7 @@ export class SynthEngine {
       this.binaural.enabled = true;
     } else {
       // Update volume if changed
-      const binauralVolume = phase.binaural_volume ?? 0.3;
+      const binauralVolume = settings.volume;
       if (this.binaural.left.gain) {
         this.binaural.left.gain.gain.setTargetAtTime(binauralVolume, now, rampTime);
       }
@@ -813,6 +1127,71 @@ export class SynthEngine {
     }
   }
 
+  /**
+   * Update monaural beats based on current phase
+   */
+  private updateMonauralBeats(phase: PhaseConfig | null): void {
+    if (!phase || !this.ctx) return;
+
+    const now = this.ctx.currentTime;
+    if (phase.monaural_enabled !== true) {
+      if (this.monaural.enabled) {
+        this.monaural.gain?.gain.setTargetAtTime(0, now, BINAURAL_RELEASE_TIME);
+        this.monaural.enabled = false;
+      }
+      return;
+    }
+
+    // Resolve beat/carrier frequencies (shared with offline export)
+    const { progress } = this.getCurrentPhase();
+    const settings = getMonauralSettings(phase, progress);
+
+    // Start on pitch, then glide like the binaural carriers
+    const rampTime = this.monaural.enabled ? BINAURAL_RAMP_TIME : 0.01;
+    this.monaural.low?.frequency.setTargetAtTime(settings.carrierFreq - settings.beatFreq / 2, now, rampTime);
+    this.monaural.high?.frequency.setTargetAtTime(settings.carrierFreq + settings.beatFreq / 2, now, rampTime);
+    this.monaural.gain?.gain.setTargetAtTime(settings.volume * MONAURAL_CARRIER_GAIN, now, BINAURAL_RAMP_TIME);
+    this.monaural.enabled = true;
+  }
+
+  /**
+   * Update isochronic tones based on current phase
+   */
+  private updateIsochronicTones(phase: PhaseConfig | null): void {
+    if (!phase || !this.ctx) return;
+
+    const now = this.ctx.currentTime;
+    if (phase.isochronic_enabled !== true) {
+      if (this.isochronic.enabled) {
+        this.isochronic.gain?.gain.setTargetAtTime(0, now, BINAURAL_RELEASE_TIME);
+        this.isochronic.enabled = false;
+      }
+      return;
+    }
+
+    // Resolve pulse settings (shared with offline export)
+    const { progress } = this.getCurrentPhase();
+    const settings = getIsochronicSettings(phase, progress);
+
+    // Rebuild the pulse wave only when its shape changes
+    const waveKey = `${settings.dutyCycle}:${settings.shape}`;
+    if (this.isochronic.waveKey !== waveKey && this.isochronic.pulse && this.isochronic.gate) {
+      const wave = getPulseWave(settings.dutyCycle, settings.shape);
+      this.isochronic.pulse.setPeriodicWave(
+        this.ctx.createPeriodicWave(wave.real, wave.imag, { disableNormalization: true })
+      );
+      this.isochronic.gate.gain.setValueAtTime(wave.mean, now);
+      this.isochronic.waveKey = waveKey;
+    }
+
+    // Start on pitch and rate, then glide like the binaural carriers
+    const rampTime = this.isochronic.enabled ? BINAURAL_RAMP_TIME : 0.01;
+    this.isochronic.carrier?.frequency.setTargetAtTime(settings.carrierFreq, now, rampTime);
+    this.isochronic.pulse?.frequency.setTargetAtTime(settings.pulseRate, now, rampTime);
+    this.isochronic.gain?.gain.setTargetAtTime(settings.volume, now, BINAURAL_RAMP_TIME);
+    this.isochronic.enabled = true;
+  }
+
   /**
    * Update psychedelic audio enhancement based on phase settings
    */
@@ -906,7 +1285,9 @@ export class SynthEngine {
 
     // Clean up normalization nodes
     this.analyser = null;
+    this.visualizer = null;
     this.limiter = null;
+    this.outputNodes = [];
     this.adaptiveGain = null;
     this.analysisBuffer = null;
 
@@ -916,6 +1297,57 @@ export class SynthEngine {
     }
   }
 
+  /**
+   * Analyser taps on the master bus for the visualizer (in parallel, so they do not alter the output)
+   */
+  private createVisualizerTaps(source: AudioNode): void {
+    if (!this.ctx) return;
+
+    const spectrum = this.ctx.createAnalyser();
+    spectrum.fftSize = VISUALIZER_FFT_SIZE;
+    spectrum.smoothingTimeConstant = 0.6;
+    spectrum.minDecibels = -100;
+    spectrum.maxDecibels = 0;
+
+    const splitter = this.ctx.createChannelSplitter(2);
+    const [left, right] = [0, 1].map((channel) => {
+      const analyser = this.ctx!.createAnalyser();
+      analyser.fftSize = 2048;
+      splitter.connect(analyser, channel);
+      return analyser;
+    });
+
+    source.connect(spectrum);
+    source.connect(splitter);
+    this.visualizer = { spectrum, left, right };
+  }
+
+  /**
+   * Analysers for the visualizer, or null before the audio graph exists
+   */
+  getVisualizerAnalysers(): VisualizerAnalysers | null {
+    return this.visualizer;
+  }
+
+  /**
+   * Entrainment rates currently being delivered (null for layers that are silent)
+   * Read from the running oscillators, so automation and ramps show as they happen.
+   */
+  getEntrainmentState(): EntrainmentState {
+    const audible = (gain: GainNode | null) => (gain?.gain.value ?? 0) > 0.001;
+    const isPlaying = this.isPlaying;
+    return {
+      rhythmRate: isPlaying && this.lfo.osc && audible(this.lfo.gain) ? this.lfo.osc.frequency.value : null,
+      binauralBeat: isPlaying && this.binaural.enabled ? this.binaural.beatFreq : null,
+      monauralBeat: isPlaying && this.monaural.enabled && this.monaural.low && this.monaural.high
+        ? this.monaural.high.frequency.value - this.monaural.low.frequency.value
+        : null,
+      isochronicRate: isPlaying && this.isochronic.enabled && this.isochronic.pulse
+        ? this.isochronic.pulse.frequency.value
+        : null,
+    };
+  }
+
   /**
    * Get current audio levels for UI feedback
    */
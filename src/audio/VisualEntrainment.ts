@@ -0,0 +1,144 @@
+/**
+ * VisualEntrainment - On-screen flicker and breathing timing for sessions without a Nova
+ * Flash timing comes from NovaPatternEngine.getNextFlash, so the screen follows the same patterns as
+ * the device, with a rate limiter and brightness cap on top for photosensitive safety.
+ */
+
+import type { NovaPattern, PhaseConfig } from '../types/journey';
+import { ENTRAINMENT_PRESETS } from '../types/journey';
+import { NovaPatternEngine } from './NovaPatternEngine';
+import { getNovaFrequencyForPhase } from './NovaController';
+
+export type VisualMode = 'flicker' | 'breathing';
+
+export interface VisualSessionSettings {
+  mode: VisualMode;
+  maxFlickerHz: number;   // Flash rate limit; faster patterns are scaled down to it
+  brightness: number;     // 0-1 of VISUAL_BRIGHTNESS_CAP
+}
+
+// Screen flicker never exceeds this rate: it keeps well below the 15-25 Hz band where
+// photosensitive seizures are most easily provoked
+export const MAX_VISUAL_FLICKER_HZ = 12;
+
+// Selectable rate limits; 3 Hz is the general flash threshold of WCAG 2.3.1 and ITU-R BT.1702
+export const VISUAL_FLICKER_LIMITS = [3, 6, 8, 10, MAX_VISUAL_FLICKER_HZ];
+
+// Peak opacity of the flash layer over black, so flashes are never full-field white
+export const VISUAL_BRIGHTNESS_CAP = 0.6;
+
+export const DEFAULT_VISUAL_SETTINGS: VisualSessionSettings = {
+  mode: 'breathing',
+  maxFlickerHz: 3,
+  brightness: 0.5,
+};
+
+// Share of a breath spent inhaling
+const INHALE_FRACTION = 0.4;
+
+/**
+ * Flicker pattern of a phase: its Nova pattern, or a steady flicker at its Nova frequency
+ */
+export function getPhasePattern(phase: PhaseConfig, progress: number = 0): NovaPattern {
+  return phase.nova_pattern ?? NovaPatternEngine.createSteadyPattern(getNovaFrequencyForPhase(phase, progress));
+}
+
+/**
+ * Scale a pattern's frequencies so its fastest rate is within a limit
+ */
+export function limitPattern(pattern: NovaPattern, maxHz: number): NovaPattern {
+  const limit = Math.min(maxHz, MAX_VISUAL_FLICKER_HZ);
+  const fastest = Math.max(
+    pattern.baseFrequency,
+    pattern.targetFrequency ?? 0,
+    pattern.type === 'wave' ? pattern.baseFrequency + (pattern.waveAmplitude ?? 2) : 0
+  );
+  if (fastest <= limit) return pattern;
+
+  const scale = limit / fastest;
+  return {
+    ...pattern,
+    baseFrequency: pattern.baseFrequency * scale,
+    ...(pattern.targetFrequency !== undefined && { targetFrequency: pattern.targetFrequency * scale }),
+    ...(pattern.waveAmplitude !== undefined && { waveAmplitude: pattern.waveAmplitude * scale }),
+  };
+}
+
+/**
+ * Schedules screen flashes from a Nova pattern
+ * Limited patterns can still produce closer flashes (bursts, jitter, short duty cycles), so any
+ * flash sooner than 1 / maxFlickerHz after the last one is dropped.
+ */
+export class VisualFlickerScheduler {
+  private engine = new NovaPatternEngine();
+  private minInterval = 1000 / DEFAULT_VISUAL_SETTINGS.maxFlickerHz;
+  private lastFlash = -Infinity;
+
+  start(pattern: NovaPattern, phaseDurationMs: number, maxFlickerHz: number): void {
+    const limit = Math.min(maxFlickerHz, MAX_VISUAL_FLICKER_HZ);
+    this.engine.startPattern(limitPattern(pattern, limit), phaseDurationMs);
+    this.minInterval = 1000 / limit;
+  }
+
+  stop(): void {
+    this.engine.stopPattern();
+  }
+
+  getCurrentFrequency(): number {
+    return this.engine.getCurrentFrequency();
+  }
+
+  /**
+   * Nominal time (ms) between flashes, never shorter than the rate limit allows
+   */
+  getFlashInterval(): number {
+    return Math.max(1000 / this.engine.getCurrentFrequency(), this.minInterval);
+  }
+
+  /**
+   * Next step at time now (ms): whether to flash now, and how long until the next step
+   */
+  next(now: number): { interval: number; flash: boolean } {
+    const { interval, shouldFlash } = this.engine.getNextFlash();
+    // Allow 1 ms of timer slack so a steady flicker at the limit is not thinned out
+    const flash = shouldFlash && now - this.lastFlash >= this.minInterval - 1;
+    if (flash) this.lastFlash = now;
+    return { interval, flash };
+  }
+}
+
+export function createVisualFlickerScheduler(): VisualFlickerScheduler {
+  return new VisualFlickerScheduler();
+}
+
+/**
+ * Flash layer opacity a time after a flash: a raised-cosine pulse over half the interval,
+ * softer than a square wave at the same rate
+ */
+export function flashBrightness(sinceFlashMs: number, intervalMs: number, brightness: number): number {
+  const width = Math.max(1, intervalMs / 2);
+  if (sinceFlashMs < 0 || sinceFlashMs >= width) return 0;
+  const peak = Math.min(1, Math.max(0, brightness)) * VISUAL_BRIGHTNESS_CAP;
+  return peak * 0.5 * (1 + Math.cos((Math.PI * sinceFlashMs) / width));
+}
+
+/**
+ * Breath cycle length (seconds) for a phase, defaulting to the breathing entrainment preset (~12 s)
+ */
+export function getBreathCycleSeconds(phase: PhaseConfig): number {
+  return phase.breath_cycle_sec && phase.breath_cycle_sec > 0
+    ? phase.breath_cycle_sec
+    : 1 / ENTRAINMENT_PRESETS.breathing.rate;
+}
+
+/**
+ * Breathing guide at a time: size of the guide (0-1) and whether to breathe in
+ */
+export function breathAt(elapsedSeconds: number, cycleSeconds: number): { level: number; inhaling: boolean } {
+  const position = (((elapsedSeconds % cycleSeconds) + cycleSeconds) % cycleSeconds) / cycleSeconds;
+  if (position < INHALE_FRACTION) {
+    return { level: 0.5 - 0.5 * Math.cos((Math.PI * position) / INHALE_FRACTION), inhaling: true };
+  }
+  const exhale = (position - INHALE_FRACTION) / (1 - INHALE_FRACTION);
+  return { level: 0.5 + 0.5 * Math.cos(Math.PI * exhale), inhaling: false };
+}
@@ -0,0 +1,493 @@
+/**
+ * FLAC Encoder - Lossless compression for exports
+ * Fixed-predictor FLAC with Rice-coded residuals and left/side stereo. Keeps the sub-40 Hz
+ * bed bit-exact at a fraction of the size of WAV. Encodes block by block, so it also runs
+ * in the streaming render worker.
+ */
+
+import { encodeVorbisComment, toVorbisComments, type AudioTags } from './tags';
+
+export type FlacBitDepth = 16 | 24;
+
+// Samples per channel in each frame (the reference encoder's default)
+const BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 8;
+const MAX_FIXED_ORDER = 4;
+
+// FLAC size relative to PCM: presets measure 0.15-0.2, with headroom for noise textures
+const FLAC_SIZE_RATIO = 0.3;
+
+const VENDOR = 'sonic-journey FLAC encoder';
+
+/**
+ * FLAC stores 16- or 24-bit integers; 32-bit float exports become 24-bit
+ */
+export function toFlacBitDepth(bitDepth: 16 | 24 | 32): FlacBitDepth {
+  return bitDepth === 16 ? 16 : 24;
+}
+
+/**
+ * Estimate FLAC file size in bytes
+ */
+export function estimateFlacSize(
+  durationSeconds: number,
+  sampleRate: number,
+  channels: number,
+  bitDepth: 16 | 24 | 32
+): number {
+  const pcmBytes = durationSeconds * sampleRate * channels * (toFlacBitDepth(bitDepth) / 8);
+  return Math.ceil(pcmBytes * FLAC_SIZE_RATIO);
+}
+
+// CRC tables for frame headers (CRC-8, poly 0x07) and whole frames (CRC-16, poly 0x8005)
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? ((crc8 << 1) ^ 0x07) & 0xff : (crc8 << 1) & 0xff;
+    crc16 = crc16 & 0x8000 ? ((crc16 << 1) ^ 0x8005) & 0xffff : (crc16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = crc8;
+  CRC16_TABLE[i] = crc16;
+}
+
+function crc8(bytes: Uint8Array, end: number): number {
+  let crc = 0;
+  for (let i = 0; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, end: number): number {
+  let crc = 0;
+  for (let i = 0; i < end; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+}
+
+/**
+ * MSB-first bit writer over a growable byte buffer
+ */
+class BitWriter {
+  bytes: Uint8Array;
+  length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  constructor(capacity: number = 1024) {
+    this.bytes = new Uint8Array(capacity);
+  }
+
+  /**
+   * Write an unsigned value of up to 53 bits
+   */
+  writeBits(value: number, count: number): void {
+    if (count > 16) {
+      this.writeBits(Math.floor(value / 65536), count - 16);
+      this.writeBits(value % 65536, 16);
+      return;
+    }
+    this.acc = (this.acc << count) | (value & ((1 << count) - 1));
+    this.accBits += count;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.pushByte((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  /**
+   * Write a two's complement value
+   */
+  writeSigned(value: number, count: number): void {
+    this.writeBits(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  writeUnary(zeros: number): void {
+    while (zeros >= 16) {
+      this.writeBits(0, 16);
+      zeros -= 16;
+    }
+    this.writeBits(1, zeros + 1);
+  }
+
+  writeRice(value: number, parameter: number): void {
+    const folded = value >= 0 ? value * 2 : -value * 2 - 1;
+    this.writeUnary(Math.floor(folded / 2 ** parameter));
+    if (parameter > 0) this.writeBits(folded % 2 ** parameter, parameter);
+  }
+
+  alignToByte(): void {
+    if (this.accBits > 0) this.writeBits(0, 8 - this.accBits);
+  }
+
+  /**
+   * Append whole bytes (the writer must be byte-aligned)
+   */
+  writeBytes(bytes: Uint8Array, length: number): void {
+    while (this.length + length > this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes.set(bytes.subarray(0, length), this.length);
+    this.length += length;
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * Residuals of a fixed polynomial predictor (orders 0-4)
+ */
+function fixedResiduals(samples: Int32Array, order: number): Float64Array {
+  const n = samples.length;
+  const residuals = new Float64Array(Math.max(0, n - order));
+  for (let i = order; i < n; i++) {
+    const x = samples;
+    let prediction = 0;
+    if (order === 1) prediction = x[i - 1];
+    else if (order === 2) prediction = 2 * x[i - 1] - x[i - 2];
+    else if (order === 3) prediction = 3 * x[i - 1] - 3 * x[i - 2] + x[i - 3];
+    else if (order === 4) prediction = 4 * x[i - 1] - 6 * x[i - 2] + 4 * x[i - 3] - x[i - 4];
+    residuals[i - order] = x[i] - prediction;
+  }
+  return residuals;
+}
+
+function sumAbs(values: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += Math.abs(values[i]);
+  return sum;
+}
+
+/**
+ * Best Rice parameter and estimated bit cost for a partition with the given folded sum
+ */
+function riceParameter(sum: number, count: number): { parameter: number; bits: number } {
+  if (count === 0) return { parameter: 0, bits: 0 };
+  const mean = sum / count;
+  const base = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  let best = { parameter: base, bits: Infinity };
+  for (const parameter of [base, base + 1]) {
+    const bits = count * (parameter + 1) + sum / 2 ** parameter;
+    if (bits < best.bits) best = { parameter: Math.min(parameter, 30), bits };
+  }
+  return best;
+}
+
+interface RicePlan {
+  order: number;
+  parameters: number[];
+  bits: number;
+}
+
+/**
+ * Choose the partition order and per-partition Rice parameters for a residual
+ */
+function planRice(residuals: Float64Array, blockSize: number, predictorOrder: number): RicePlan {
+  // Folded (zigzag) sums at the finest usable partition order
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    (blockSize >> (maxOrder + 1)) > predictorOrder
+  ) {
+    maxOrder++;
+  }
+
+  const partitions = 1 << maxOrder;
+  const partitionSize = blockSize >> maxOrder;
+  let sums: number[] = [];
+  let counts: number[] = [];
+  let index = 0;
+  for (let p = 0; p < partitions; p++) {
+    const count = partitionSize - (p === 0 ? predictorOrder : 0);
+    let sum = 0;
+    for (let i = 0; i < count; i++, index++) {
+      const value = residuals[index];
+      sum += value >= 0 ? value * 2 : -value * 2 - 1;
+    }
+    sums.push(sum);
+    counts.push(count);
+  }
+
+  let best: RicePlan = { order: 0, parameters: [], bits: Infinity };
+  for (let order = maxOrder; order >= 0; order--) {
+    const parameters: number[] = [];
+    let bits = 0;
+    for (let p = 0; p < sums.length; p++) {
+      const rice = riceParameter(sums[p], counts[p]);
+      parameters.push(rice.parameter);
+      bits += rice.bits + 5;
+    }
+    if (bits < best.bits) best = { order, parameters, bits };
+
+    // Merge neighbouring partitions for the next coarser order
+    const merged: number[] = [];
+    const mergedCounts: number[] = [];
+    for (let p = 0; p < sums.length; p += 2) {
+      merged.push(sums[p] + (sums[p + 1] ?? 0));
+      mergedCounts.push(counts[p] + (counts[p + 1] ?? 0));
+    }
+    sums = merged;
+    counts = mergedCounts;
+  }
+  return best;
+}
+
+/**
+ * Write one subframe (constant, fixed-predictor or verbatim, whichever is smallest)
+ */
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitsPerSample: number): void {
+  const n = samples.length;
+
+  let constant = true;
+  for (let i = 1; i < n && constant; i++) constant = samples[i] === samples[0];
+  if (constant) {
+    writer.writeBits(0, 8); // CONSTANT
+    writer.writeSigned(samples[0], bitsPerSample);
+    return;
+  }
+
+  // Predictor order by smallest total residual, as in the reference encoder
+  let order = 0;
+  let residuals = fixedResiduals(samples, 0);
+  let bestSum = sumAbs(residuals);
+  for (let candidate = 1; candidate <= Math.min(MAX_FIXED_ORDER, n - 1); candidate++) {
+    const candidateResiduals = fixedResiduals(samples, candidate);
+    const sum = sumAbs(candidateResiduals);
+    if (sum < bestSum) {
+      order = candidate;
+      residuals = candidateResiduals;
+      bestSum = sum;
+    }
+  }
+
+  const plan = planRice(residuals, n, order);
+  const fixedBits = 8 + order * bitsPerSample + 6 + plan.bits;
+  if (fixedBits >= n * bitsPerSample) {
+    writer.writeBits(0b00000010, 8); // VERBATIM
+    for (let i = 0; i < n; i++) writer.writeSigned(samples[i], bitsPerSample);
+    return;
+  }
+
+  writer.writeBits((0b001000 | order) << 1, 8); // FIXED, no wasted bits
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bitsPerSample);
+
+  // RICE (4-bit parameters) unless a partition needs a parameter above 14
+  const rice2 = plan.parameters.some((parameter) => parameter > 14);
+  writer.writeBits(rice2 ? 1 : 0, 2);
+  writer.writeBits(plan.order, 4);
+
+  const partitionSize = n >> plan.order;
+  let index = 0;
+  plan.parameters.forEach((parameter, p) => {
+    writer.writeBits(parameter, rice2 ? 5 : 4);
+    const count = partitionSize - (p === 0 ? order : 0);
+    for (let i = 0; i < count; i++, index++) writer.writeRice(residuals[index], parameter);
+  });
+}
+
+/**
+ * Write a frame number as FLAC's extended UTF-8 coding
+ */
+function writeUtf8Number(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  const limits = [0x800, 0x10000, 0x200000, 0x4000000, 0x80000000, 2 ** 36];
+  const length = limits.findIndex((limit) => value < limit) + 2;
+  const lead = (0xff00 >> length) & 0xff;
+  writer.writeBits(lead | Math.floor(value / 2 ** (6 * (length - 1))), 8);
+  for (let i = length - 2; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+/**
+ * Streaming FLAC encoder
+ * Call header() once, then encode() with consecutive blocks of any length and flush() at the end.
+ */
+export class FlacEncoder {
+  private channels: number;
+  private sampleRate: number;
+  private bitDepth: FlacBitDepth;
+  private totalFrames: number;
+  private tags?: AudioTags;
+  private pending: Int32Array[];
+  private pendingLength = 0;
+  private frameNumber = 0;
+
+  constructor(channels: number, sampleRate: number, bitDepth: FlacBitDepth, totalFrames: number, tags?: AudioTags) {
+    if (channels < 1 || channels > 8) {
+      throw new Error('FLAC supports 1 to 8 channels');
+    }
+    this.channels = channels;
+    this.sampleRate = sampleRate;
+    this.bitDepth = bitDepth;
+    this.totalFrames = totalFrames;
+    this.tags = tags;
+    this.pending = Array.from({ length: channels }, () => new Int32Array(BLOCK_SIZE));
+  }
+
+  /**
+   * The "fLaC" marker with STREAMINFO and Vorbis comment metadata blocks
+   */
+  header(): ArrayBuffer {
+    const comments = encodeVorbisComment(VENDOR, this.tags ? toVorbisComments(this.tags) : []);
+    const writer = new BitWriter(4 + 4 + 34 + 4 + comments.length);
+    for (const char of 'fLaC') writer.writeBits(char.charCodeAt(0), 8);
+
+    // STREAMINFO (frame sizes and MD5 left as unknown, which the format allows)
+    writer.writeBits(0, 1);
+    writer.writeBits(0, 7);
+    writer.writeBits(34, 24);
+    writer.writeBits(BLOCK_SIZE, 16);
+    writer.writeBits(BLOCK_SIZE, 16);
+    writer.writeBits(0, 24);
+    writer.writeBits(0, 24);
+    writer.writeBits(this.sampleRate, 20);
+    writer.writeBits(this.channels - 1, 3);
+    writer.writeBits(this.bitDepth - 1, 5);
+    writer.writeBits(this.totalFrames, 36);
+    for (let i = 0; i < 4; i++) writer.writeBits(0, 32);
+
+    // VORBIS_COMMENT (last metadata block)
+    writer.writeBits(1, 1);
+    writer.writeBits(4, 7);
+    writer.writeBits(comments.length, 24);
+    writer.writeBytes(comments, comments.length);
+
+    return writer.bytes.slice(0, writer.length).buffer;
+  }
+
+  /**
+   * Encode the next block of audio (one Float32Array per channel); returns whole frames only
+   */
+  encode(channels: Float32Array[]): ArrayBuffer {
+    const writer = new BitWriter(BLOCK_SIZE * this.channels * 2);
+    const scale = this.bitDepth === 16 ? 0x8000 : 0x800000;
+    const length = channels[0].length;
+
+    for (let offset = 0; offset < length; ) {
+      const count = Math.min(BLOCK_SIZE - this.pendingLength, length - offset);
+      for (let ch = 0; ch < this.channels; ch++) {
+        const input = channels[ch];
+        const target = this.pending[ch];
+        for (let i = 0; i < count; i++) {
+          const sample = Math.max(-1, Math.min(1, input[offset + i]));
+          // Same scaling as the WAV encoder
+          target[this.pendingLength + i] = Math.round(sample < 0 ? sample * scale : sample * (scale - 1));
+        }
+      }
+      this.pendingLength += count;
+      offset += count;
+
+      if (this.pendingLength === BLOCK_SIZE) {
+        this.writeFrame(writer, BLOCK_SIZE);
+      }
+    }
+
+    return writer.bytes.slice(0, writer.length).buffer;
+  }
+
+  /**
+   * Encode any remaining samples as a final short frame
+   */
+  flush(): ArrayBuffer {
+    const writer = new BitWriter(BLOCK_SIZE * this.channels * 2);
+    if (this.pendingLength > 0) this.writeFrame(writer, this.pendingLength);
+    return writer.bytes.slice(0, writer.length).buffer;
+  }
+
+  private writeFrame(output: BitWriter, blockSize: number): void {
+    const samples = this.pending.map((channel) => channel.slice(0, blockSize));
+    this.pendingLength = 0;
+
+    // Left/side stereo when the channels are similar (e.g. a bed duplicated to both sides)
+    let assignment = this.channels - 1;
+    let subframes: { samples: Int32Array; bits: number }[] = samples.map((channel) => ({
+      samples: channel,
+      bits: this.bitDepth,
+    }));
+    if (this.channels === 2) {
+      const side = new Int32Array(blockSize);
+      for (let i = 0; i < blockSize; i++) side[i] = samples[0][i] - samples[1][i];
+      const cost = (channel: Int32Array) => sumAbs(fixedResiduals(channel, Math.min(2, blockSize - 1)));
+      if (cost(side) < cost(samples[1])) {
+        assignment = 0b1000;
+        subframes = [subframes[0], { samples: side, bits: this.bitDepth + 1 }];
+      }
+    }
+
+    const writer = new BitWriter(blockSize * this.channels * 4);
+    writer.writeBits(0b11111111111110, 14);
+    writer.writeBits(0, 1);                     // Reserved
+    writer.writeBits(0, 1);                     // Fixed block size
+    writer.writeBits(0b0111, 4);                // Block size in 16 bits after the header
+    writer.writeBits(0b0000, 4);                // Sample rate from STREAMINFO
+    writer.writeBits(assignment, 4);
+    writer.writeBits(this.bitDepth === 16 ? 0b100 : 0b110, 3);
+    writer.writeBits(0, 1);                     // Reserved
+    writeUtf8Number(writer, this.frameNumber++);
+    writer.writeBits(blockSize - 1, 16);
+    writer.writeBits(crc8(writer.bytes, writer.length), 8);
+
+    for (const subframe of subframes) writeSubframe(writer, subframe.samples, subframe.bits);
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.bytes, writer.length), 16);
+
+    output.writeBytes(writer.bytes, writer.length);
+  }
+}
+
+/**
+ * Encode AudioBuffer to FLAC with progress callback
+ * @param buffer - AudioBuffer to encode
+ * @param bitDepth - Bit depth (32-bit float becomes 24-bit)
+ * @param onProgress - Progress callback (0-100)
+ * @param tags - Journey metadata to embed
+ * @param signal - Cancels encoding between chunks with an AbortError DOMException
+ */
+export async function encodeFlacWithProgress(
+  buffer: AudioBuffer,
+  bitDepth: 16 | 24 | 32 = 16,
+  onProgress?: (percent: number) => void,
+  tags?: AudioTags,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const numChannels = buffer.numberOfChannels;
+  const encoder = new FlacEncoder(numChannels, buffer.sampleRate, toFlacBitDepth(bitDepth), buffer.length, tags);
+  const parts: ArrayBuffer[] = [encoder.header()];
+
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < numChannels; ch++) {
+    channels.push(buffer.getChannelData(ch));
+  }
+
+  // Process in chunks for progress updates
+  const chunkSize = BLOCK_SIZE * 12;
+  for (let start = 0; start < buffer.length; start += chunkSize) {
+    if (signal?.aborted) {
+      throw new DOMException('Export cancelled', 'AbortError');
+    }
+    const end = Math.min(start + chunkSize, buffer.length);
+    parts.push(encoder.encode(channels.map((channel) => channel.subarray(start, end))));
+    onProgress?.(Math.round((end / buffer.length) * 100));
+
+    // Yield to event loop
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  parts.push(encoder.flush());
+
+  return new Blob(parts, { type: 'audio/flac' });
+}
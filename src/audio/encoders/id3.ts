@@ -0,0 +1,87 @@
+/**
+ * ID3 - ID3v2.4 tag with chapter frames for MP3 exports
+ * Writes the journey title (TIT2), a table of contents (CTOC) and one CHAP frame per phase,
+ * following the ID3v2 Chapter Frame Addendum.
+ */
+
+import type { AudioTags } from './tags';
+
+// CTOC entry counts are a single byte
+const MAX_CHAPTERS = 255;
+
+// Byte offsets in CHAP frames are optional; all ones means "not given"
+const NO_OFFSET = 0xffffffff;
+
+const encoder = new TextEncoder();
+
+/**
+ * Synchsafe integer (7 bits per byte), used for tag and frame sizes
+ */
+function synchsafe(value: number): number[] {
+  return [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function concat(parts: (Uint8Array | number[])[]): Uint8Array<ArrayBuffer> {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function frame(id: string, body: Uint8Array): Uint8Array {
+  return concat([encoder.encode(id), synchsafe(body.length), [0, 0], body]);
+}
+
+function textFrame(id: string, text: string): Uint8Array {
+  return frame(id, concat([[0x03], encoder.encode(text)])); // 0x03 = UTF-8
+}
+
+function elementId(id: string): Uint8Array {
+  return concat([encoder.encode(id), [0]]);
+}
+
+/**
+ * Build an ID3v2.4 tag for the start of an MP3 file
+ */
+export function createId3Tag(tags: AudioTags): Uint8Array<ArrayBuffer> {
+  const chapters = tags.chapters.slice(0, MAX_CHAPTERS);
+  const chapterIds = chapters.map((_, i) => `chp${i}`);
+
+  const frames = [textFrame('TIT2', tags.title)];
+  if (tags.description) {
+    // COMM: encoding, language, empty short description, text
+    frames.push(frame('COMM', concat([[0x03], encoder.encode('eng'), [0], encoder.encode(tags.description)])));
+  }
+
+  if (chapters.length > 0) {
+    frames.push(frame('CTOC', concat([
+      elementId('toc'),
+      [0x03, chapters.length], // Top-level and ordered
+      ...chapterIds.map(elementId),
+      textFrame('TIT2', tags.title),
+    ])));
+
+    chapters.forEach((chapter, i) => {
+      const end = i + 1 < chapters.length ? chapters[i + 1].startSeconds : tags.durationSeconds;
+      frames.push(frame('CHAP', concat([
+        elementId(chapterIds[i]),
+        uint32(Math.round(chapter.startSeconds * 1000)),
+        uint32(Math.round(end * 1000)),
+        uint32(NO_OFFSET),
+        uint32(NO_OFFSET),
+        textFrame('TIT2', chapter.title),
+      ])));
+    });
+  }
+
+  const body = concat(frames);
+  // 'ID3', version 2.4.0, no flags
+  return concat([encoder.encode('ID3'), [0x04, 0x00, 0x00], synchsafe(body.length), body]);
+}
@@ -5,6 +5,9 @@
  * We set these up before importing the module.
  */
 
+import { createId3Tag } from './id3';
+import type { AudioTags } from './tags';
+
 export type MP3Bitrate = 128 | 192 | 256 | 320;
 
 // Set up globals that lamejs needs (it was written for browser globals)
@@ -53,12 +56,16 @@ function floatTo16BitPCM(input: Float32Array): Int16Array {
  * @param buffer - AudioBuffer to encode
  * @param bitrate - MP3 bitrate in kbps
  * @param onProgress - Progress callback (0-100)
+ * @param tags - Title and chapters, written as an ID3v2 tag
+ * @param signal - Cancels encoding between chunks with an AbortError DOMException
  * @returns Blob containing MP3 file data
  */
 export async function encodeMp3(
   buffer: AudioBuffer,
   bitrate: MP3Bitrate = 192,
-  onProgress?: (percent: number) => void
+  onProgress?: (percent: number) => void,
+  tags?: AudioTags,
+  signal?: AbortSignal
 ): Promise<Blob> {
   const numChannels = buffer.numberOfChannels;
   const sampleRate = buffer.sampleRate;
@@ -86,6 +93,9 @@ export async function encodeMp3(
 
   // Encode chunks
   while (samplesProcessed < totalSamples) {
+    if (signal?.aborted) {
+      throw new DOMException('Export cancelled', 'AbortError');
+    }
     const chunkEnd = Math.min(samplesProcessed + chunkSize, totalSamples);
     const leftChunk = leftPCM.subarray(samplesProcessed, chunkEnd);
     const rightChunk = rightPCM.subarray(samplesProcessed, chunkEnd);
@@ -129,6 +139,9 @@ export async function encodeMp3(
     }
     return uint8;
   });
+  if (tags) {
+    blobParts.unshift(createId3Tag(tags));
+  }
   return new Blob(blobParts, { type: 'audio/mpeg' });
 }
 
@@ -0,0 +1,275 @@
+/**
+ * Opus Encoder - Converts AudioBuffer to Ogg Opus using WebCodecs
+ * The browser's AudioEncoder produces the Opus packets; they are wrapped in an Ogg stream
+ * here with OpusHead/OpusTags headers. Opus always runs at 48 kHz, mono or stereo.
+ */
+
+import { encodeVorbisComment, toVorbisComments, type AudioTags } from './tags';
+
+export type OpusBitrate = 64 | 96 | 128 | 192;
+
+export const OPUS_SAMPLE_RATE = 48000;
+
+const VENDOR = 'sonic-journey Opus encoder';
+
+// libopus lookahead at 48 kHz, used when the browser does not report its own pre-skip
+const DEFAULT_PRE_SKIP = 312;
+
+// Default Opus packet length (20 ms)
+const DEFAULT_PACKET_FRAMES = 960;
+
+// Ogg pages are closed once their payload passes this size
+const PAGE_TARGET_BYTES = 4096;
+
+// Ogg page header flags
+const FLAG_BOS = 0x02;
+const FLAG_EOS = 0x04;
+
+/**
+ * Whether this browser can encode Opus through WebCodecs
+ */
+export async function isOpusSupported(channels: number = 2): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const support = await AudioEncoder.isConfigSupported({
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: channels,
+    });
+    return support.supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Estimate Opus file size in bytes
+ */
+export function estimateOpusSize(durationSeconds: number, bitrate: OpusBitrate): number {
+  // About 1% on top of the audio for Ogg page headers
+  return Math.ceil(((bitrate * 1000 * durationSeconds) / 8) * 1.01);
+}
+
+// CRC-32 for Ogg pages (poly 0x04c11db7, not reflected)
+const CRC32_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  CRC32_TABLE[i] = crc >>> 0;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ CRC32_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Writes packets into Ogg pages for a single logical stream
+ */
+class OggWriter {
+  pages: Uint8Array[] = [];
+  private serial = Math.floor(Math.random() * 0xffffffff);
+  private sequence = 0;
+
+  /**
+   * Write packets as one page (they must fit within 255 lacing values)
+   */
+  writePage(packets: Uint8Array[], granule: number, flags: number = 0): void {
+    const lacing: number[] = [];
+    for (const packet of packets) {
+      for (let remaining = packet.length; ; remaining -= 255) {
+        lacing.push(Math.min(remaining, 255));
+        if (remaining < 255) break;
+      }
+    }
+    if (lacing.length > 255) {
+      throw new Error('Ogg page holds too many packets');
+    }
+
+    const payloadSize = packets.reduce((sum, packet) => sum + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + payloadSize);
+    const view = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53]); // 'OggS'
+    page[4] = 0;                         // Version
+    page[5] = flags;
+    view.setUint32(6, granule % 2 ** 32, true);
+    view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    for (const packet of packets) {
+      page.set(packet, offset);
+      offset += packet.length;
+    }
+    view.setUint32(22, crc32(page), true);
+    this.pages.push(page);
+  }
+}
+
+/**
+ * Lacing values a packet takes in an Ogg page
+ */
+function lacingCount(packet: Uint8Array): number {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+function createOpusHead(channels: number, preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1;                                    // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, OPUS_SAMPLE_RATE, true);     // Input sample rate
+  view.setInt16(16, 0, true);                     // Output gain
+  head[18] = 0;                                   // Mapping family (mono/stereo)
+  return head;
+}
+
+function createOpusTags(tags?: AudioTags): Uint8Array {
+  const magic = new TextEncoder().encode('OpusTags');
+  const comments = encodeVorbisComment(VENDOR, tags ? toVorbisComments(tags) : []);
+  const packet = new Uint8Array(magic.length + comments.length);
+  packet.set(magic);
+  packet.set(comments, magic.length);
+  return packet;
+}
+
+/**
+ * Pre-skip from the encoder's OpusHead description, if it provides one
+ */
+function readPreSkip(description?: AllowSharedBufferSource): number {
+  if (!description) return DEFAULT_PRE_SKIP;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') {
+    return DEFAULT_PRE_SKIP;
+  }
+  return bytes[10] | (bytes[11] << 8);
+}
+
+/**
+ * Encode AudioBuffer to Ogg Opus with progress callback
+ * @param buffer - 48 kHz mono or stereo AudioBuffer to encode
+ * @param bitrate - Opus bitrate in kbps
+ * @param onProgress - Progress callback (0-100)
+ * @param tags - Journey metadata to embed
+ * @param signal - Cancels encoding between chunks with an AbortError DOMException
+ */
+export async function encodeOpusWithProgress(
+  buffer: AudioBuffer,
+  bitrate: OpusBitrate = 128,
+  onProgress?: (percent: number) => void,
+  tags?: AudioTags,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const numChannels = buffer.numberOfChannels;
+  if (buffer.sampleRate !== OPUS_SAMPLE_RATE) {
+    throw new Error('Opus export requires a 48 kHz render');
+  }
+  if (numChannels > 2) {
+    throw new Error('Opus export supports mono or stereo only');
+  }
+  if (!(await isOpusSupported(numChannels))) {
+    throw new Error('This browser cannot encode Opus. Try FLAC or MP3 instead.');
+  }
+
+  const packets: { data: Uint8Array; frames: number }[] = [];
+  let description: AllowSharedBufferSource | undefined;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const frames = chunk.duration
+        ? Math.round((chunk.duration * OPUS_SAMPLE_RATE) / 1e6)
+        : DEFAULT_PACKET_FRAMES;
+      packets.push({ data, frames });
+      description ??= metadata?.decoderConfig?.description;
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure({
+    codec: 'opus',
+    sampleRate: OPUS_SAMPLE_RATE,
+    numberOfChannels: numChannels,
+    bitrate: bitrate * 1000,
+  });
+
+  // Feed one second at a time, letting the encoder drain between chunks
+  const chunkSize = OPUS_SAMPLE_RATE;
+  for (let start = 0; start < buffer.length && !failure && !signal?.aborted; start += chunkSize) {
+    const end = Math.min(start + chunkSize, buffer.length);
+    const planar = new Float32Array((end - start) * numChannels);
+    for (let ch = 0; ch < numChannels; ch++) {
+      planar.set(buffer.getChannelData(ch).subarray(start, end), ch * (end - start));
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: end - start,
+      numberOfChannels: numChannels,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+
+    while (encoder.encodeQueueSize > 2) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    onProgress?.(Math.round((end / buffer.length) * 95));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  if (signal?.aborted) {
+    encoder.close();
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+  if (!failure) await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  // Mux into Ogg: two header pages, then audio pages
+  const preSkip = readPreSkip(description);
+  const ogg = new OggWriter();
+  ogg.writePage([createOpusHead(numChannels, preSkip)], 0, FLAG_BOS);
+  ogg.writePage([createOpusTags(tags)], 0);
+
+  const endGranule = preSkip + buffer.length;
+  let granule = preSkip;
+  let page: Uint8Array[] = [];
+  let pageBytes = 0;
+  let pageLacing = 0;
+  packets.forEach((packet, i) => {
+    page.push(packet.data);
+    pageBytes += packet.data.length;
+    pageLacing += lacingCount(packet.data);
+    granule += packet.frames;
+
+    const last = i === packets.length - 1;
+    const next = packets[i + 1];
+    if (last || pageBytes >= PAGE_TARGET_BYTES || pageLacing + lacingCount(next.data) > 255) {
+      // The last page's granule trims the encoder's padding
+      ogg.writePage(page, last ? endGranule : Math.min(granule, endGranule), last ? FLAG_EOS : 0);
+      page = [];
+      pageBytes = 0;
+      pageLacing = 0;
+    }
+  });
+
+  onProgress?.(100);
+  return new Blob(ogg.pages as BlobPart[], { type: 'audio/ogg; codecs=opus' });
+}
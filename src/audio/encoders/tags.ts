@@ -0,0 +1,87 @@
+/**
+ * Tags - Journey metadata embedded in exported files
+ * The journey name, description and phase list (as chapters). FLAC and Ogg Opus carry them
+ * as Vorbis comments, WAV as cue points and MP3 as ID3v2 chapter frames.
+ */
+
+import type { JourneyConfig } from '../../types/journey';
+
+export interface AudioChapter {
+  title: string;
+  startSeconds: number;
+}
+
+export interface AudioTags {
+  title: string;
+  description?: string;
+  chapters: AudioChapter[];
+  durationSeconds: number; // Where the last chapter ends
+}
+
+/**
+ * Build the tags for a journey (one chapter per phase)
+ */
+export function getJourneyTags(journey: JourneyConfig): AudioTags {
+  let startSeconds = 0;
+  const chapters = journey.phases.map((phase) => {
+    const chapter = { title: phase.name, startSeconds };
+    startSeconds += phase.duration * 60;
+    return chapter;
+  });
+  return {
+    title: journey.name,
+    description: journey.description || undefined,
+    chapters,
+    durationSeconds: startSeconds,
+  };
+}
+
+/**
+ * Format a chapter start as HH:MM:SS.mmm
+ */
+export function formatChapterTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Vorbis comments for the tags (chapters use the CHAPTERxxx / CHAPTERxxxNAME convention)
+ */
+export function toVorbisComments(tags: AudioTags): string[] {
+  const comments = [`TITLE=${tags.title}`];
+  if (tags.description) comments.push(`DESCRIPTION=${tags.description}`);
+  tags.chapters.forEach((chapter, i) => {
+    const id = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+    comments.push(`${id}=${formatChapterTime(chapter.startSeconds)}`, `${id}NAME=${chapter.title}`);
+  });
+  return comments;
+}
+
+/**
+ * Encode a Vorbis comment block body (vendor string and comments, little-endian lengths)
+ */
+export function encodeVorbisComment(vendor: string, comments: string[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const strings = [vendor, ...comments].map((text) => encoder.encode(text));
+  const size = 4 + strings.reduce((sum, bytes) => sum + 4 + bytes.length, 0);
+  const output = new Uint8Array(size);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const writeString = (bytes: Uint8Array) => {
+    view.setUint32(offset, bytes.length, true);
+    output.set(bytes, offset + 4);
+    offset += 4 + bytes.length;
+  };
+
+  writeString(strings[0]);
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  strings.slice(1).forEach(writeString);
+  return output;
+}
@@ -2,6 +2,8 @@
  * WAV Encoder - Converts AudioBuffer to WAV file format
  */
 
+import type { AudioChapter, AudioTags } from './tags';
+
 /**
  * Write a string to a DataView at a specific offset
  */
@@ -11,46 +13,178 @@ function writeString(view: DataView, offset: number, str: string): void {
   }
 }
 
+// Largest file a RIFF size field can describe (32-bit, excluding the first 8 bytes)
+const MAX_RIFF_SIZE = 0xffffffff;
+
+// Tail of the KSDATAFORMAT_SUBTYPE GUIDs; the first four bytes hold the format tag
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+/**
+ * Cue points and their labels ('cue ' and LIST/adtl chunks) marking each chapter
+ * Cue positions are sample frames, so players and the bed controller can seek to phases.
+ */
+export function createWavCueChunks(chapters: AudioChapter[], sampleRate: number, numFrames: number): Uint8Array {
+  if (chapters.length === 0) return new Uint8Array(0);
+
+  const encoder = new TextEncoder();
+  const labels = chapters.map((chapter) => encoder.encode(chapter.title));
+  // Each labl sub-chunk: id, cue id, zero-terminated text, padded to an even size
+  const labelSizes = labels.map((label) => 4 + label.length + 1);
+  const cueSize = 4 + chapters.length * 24;
+  const listSize = 4 + labelSizes.reduce((sum, size) => sum + 8 + size + (size % 2), 0);
+
+  const chunks = new Uint8Array(8 + cueSize + 8 + listSize);
+  const view = new DataView(chunks.buffer);
+
+  writeString(view, 0, 'cue ');
+  view.setUint32(4, cueSize, true);
+  view.setUint32(8, chapters.length, true);
+  chapters.forEach((chapter, i) => {
+    const offset = 12 + i * 24;
+    const position = Math.min(numFrames, Math.round(chapter.startSeconds * sampleRate));
+    view.setUint32(offset, i + 1, true);         // Cue point id
+    view.setUint32(offset + 4, position, true);  // Play order position
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true);        // Chunk start
+    view.setUint32(offset + 16, 0, true);        // Block start
+    view.setUint32(offset + 20, position, true); // Sample offset
+  });
+
+  let offset = 8 + cueSize;
+  writeString(view, offset, 'LIST');
+  view.setUint32(offset + 4, listSize, true);
+  writeString(view, offset + 8, 'adtl');
+  offset += 12;
+  labels.forEach((label, i) => {
+    writeString(view, offset, 'labl');
+    view.setUint32(offset + 4, labelSizes[i], true);
+    view.setUint32(offset + 8, i + 1, true);
+    chunks.set(label, offset + 12);
+    offset += 8 + labelSizes[i] + (labelSizes[i] % 2);
+  });
+
+  return chunks;
+}
+
+/**
+ * Create a WAV header for PCM/float data of a known length
+ * Used when the sample data is written separately in chunks. Files with more than two
+ * channels get a WAVE_FORMAT_EXTENSIBLE header (68 bytes instead of 44); channelMask
+ * assigns speaker positions and defaults to none, as for discrete transducer outputs.
+ * Chapters are written as cue points ahead of the data chunk.
+ */
+export function createWavHeader(
+  numChannels: number,
+  sampleRate: number,
+  bitDepth: 16 | 24 | 32,
+  numFrames: number,
+  channelMask: number = 0,
+  chapters: AudioChapter[] = []
+): ArrayBuffer {
+  const format = bitDepth === 32 ? 3 : 1; // 3 = IEEE float, 1 = PCM
+  const extensible = numChannels > 2;
+  const fmtSize = extensible ? 40 : 16;
+  const cues = createWavCueChunks(chapters, sampleRate, numFrames);
+  const headerSize = 28 + fmtSize + cues.length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const byteRate = sampleRate * blockAlign;
+  const dataSize = numFrames * blockAlign;
+
+  if (headerSize - 8 + dataSize > MAX_RIFF_SIZE) {
+    throw new Error('Audio is too long for a WAV file at these settings. Try a lower bit depth or sample rate.');
+  }
+
+  const header = new ArrayBuffer(headerSize);
+  const view = new DataView(header);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, headerSize - 8 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, extensible ? 0xfffe : format, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  if (extensible) {
+    view.setUint16(36, 22, true);          // Extension size
+    view.setUint16(38, bitDepth, true);    // Valid bits per sample
+    view.setUint32(40, channelMask, true); // Speaker positions
+    view.setUint32(44, format, true);      // SubFormat GUID
+    SUBFORMAT_GUID_TAIL.forEach((byte, i) => view.setUint8(48 + i, byte));
+  }
+  new Uint8Array(header).set(cues, 20 + fmtSize);
+
+  writeString(view, headerSize - 8, 'data');
+  view.setUint32(headerSize - 4, dataSize, true);
+
+  return header;
+}
+
+/**
+ * Interleave and encode a block of channel data as WAV sample bytes (no header)
+ * @param channels - One Float32Array per channel, all the same length
+ * @param bitDepth - Bit depth (16, 24, or 32)
+ */
+export function encodeWavFrames(
+  channels: Float32Array[],
+  bitDepth: 16 | 24 | 32 = 16
+): ArrayBuffer {
+  const numChannels = channels.length;
+  const numFrames = numChannels > 0 ? channels[0].length : 0;
+  const bytesPerSample = bitDepth / 8;
+  const data = new ArrayBuffer(numFrames * numChannels * bytesPerSample);
+  const view = new DataView(data);
+
+  let offset = 0;
+  for (let i = 0; i < numFrames; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = Math.max(-1, Math.min(1, channels[ch][i]));
+
+      if (bitDepth === 16) {
+        const int16 = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+        view.setInt16(offset, Math.round(int16), true);
+        offset += 2;
+      } else if (bitDepth === 24) {
+        const int24 = sample < 0 ? sample * 0x800000 : sample * 0x7fffff;
+        const rounded = Math.round(int24);
+        view.setUint8(offset, rounded & 0xff);
+        view.setUint8(offset + 1, (rounded >> 8) & 0xff);
+        view.setUint8(offset + 2, (rounded >> 16) & 0xff);
+        offset += 3;
+      } else {
+        view.setFloat32(offset, sample, true);
+        offset += 4;
+      }
+    }
+  }
+
+  return data;
+}
+
 /**
  * Encode AudioBuffer to WAV format
  * @param buffer - AudioBuffer to encode
  * @param bitDepth - Bit depth (16, 24, or 32)
+ * @param tags - Chapters to mark with cue points
  * @returns Blob containing WAV file data
  */
 export function encodeWav(
   buffer: AudioBuffer,
-  bitDepth: 16 | 24 | 32 = 16
+  bitDepth: 16 | 24 | 32 = 16,
+  tags?: AudioTags
 ): Blob {
   const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const format = bitDepth === 32 ? 3 : 1; // 3 = IEEE float, 1 = PCM
-  const bytesPerSample = bitDepth / 8;
-  const blockAlign = numChannels * bytesPerSample;
-  const byteRate = sampleRate * blockAlign;
-  const dataSize = buffer.length * blockAlign;
-  const headerSize = 44;
+  const header = createWavHeader(numChannels, buffer.sampleRate, bitDepth, buffer.length, 0, tags?.chapters);
+  const dataSize = buffer.length * numChannels * (bitDepth / 8);
 
-  const arrayBuffer = new ArrayBuffer(headerSize + dataSize);
+  const arrayBuffer = new ArrayBuffer(header.byteLength + dataSize);
   const view = new DataView(arrayBuffer);
-
-  // RIFF chunk descriptor
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataSize, true); // File size - 8
-  writeString(view, 8, 'WAVE');
-
-  // fmt sub-chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-  view.setUint16(20, format, true); // AudioFormat
-  view.setUint16(22, numChannels, true); // NumChannels
-  view.setUint32(24, sampleRate, true); // SampleRate
-  view.setUint32(28, byteRate, true); // ByteRate
-  view.setUint16(32, blockAlign, true); // BlockAlign
-  view.setUint16(34, bitDepth, true); // BitsPerSample
-
-  // data sub-chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true); // Subchunk2Size
+  new Uint8Array(arrayBuffer).set(new Uint8Array(header));
 
   // Get channel data
   const channels: Float32Array[] = [];
@@ -59,7 +193,7 @@ export function encodeWav(
   }
 
   // Interleave and write samples
-  let offset = 44;
+  let offset = header.byteLength;
   for (let i = 0; i < buffer.length; i++) {
     for (let ch = 0; ch < numChannels; ch++) {
       const sample = Math.max(-1, Math.min(1, channels[ch][i]));
@@ -90,39 +224,22 @@ export function encodeWav(
 
 /**
  * Encode AudioBuffer to WAV with progress callback
- * Useful for very long audio files
+ * Useful for very long audio files; an aborted signal stops it between chunks with an AbortError
  */
 export async function encodeWavWithProgress(
   buffer: AudioBuffer,
   bitDepth: 16 | 24 | 32 = 16,
-  onProgress?: (percent: number) => void
+  onProgress?: (percent: number) => void,
+  tags?: AudioTags,
+  signal?: AbortSignal
 ): Promise<Blob> {
   const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const format = bitDepth === 32 ? 3 : 1;
-  const bytesPerSample = bitDepth / 8;
-  const blockAlign = numChannels * bytesPerSample;
-  const byteRate = sampleRate * blockAlign;
-  const dataSize = buffer.length * blockAlign;
-  const headerSize = 44;
+  const header = createWavHeader(numChannels, buffer.sampleRate, bitDepth, buffer.length, 0, tags?.chapters);
+  const dataSize = buffer.length * numChannels * (bitDepth / 8);
 
-  const arrayBuffer = new ArrayBuffer(headerSize + dataSize);
+  const arrayBuffer = new ArrayBuffer(header.byteLength + dataSize);
   const view = new DataView(arrayBuffer);
-
-  // Write header
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataSize, true);
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, format, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitDepth, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true);
+  new Uint8Array(arrayBuffer).set(new Uint8Array(header));
 
   // Get channel data
   const channels: Float32Array[] = [];
@@ -132,7 +249,7 @@ export async function encodeWavWithProgress(
 
   // Process in chunks for progress updates
   const chunkSize = 48000; // 1 second at 48kHz
-  let offset = 44;
+  let offset = header.byteLength;
   let samplesProcessed = 0;
 
   const processChunk = (): Promise<void> => {
@@ -170,6 +287,9 @@ export async function encodeWavWithProgress(
   };
 
   while (samplesProcessed < buffer.length) {
+    if (signal?.aborted) {
+      throw new DOMException('Export cancelled', 'AbortError');
+    }
     await processChunk();
   }
 
@@ -3,7 +3,9 @@
  */
 
 import { useJourneyStore } from '../../stores/journeyStore';
-import type { RhythmMode } from '../../types/journey';
+import type { RhythmMode, MelodyStyle, MelodyScale, NoteDensity } from '../../types/journey';
+import { getIsochronicPulseRate } from '../../audio/IsochronicGenerator';
+import { getMonauralSettings } from '../../audio/MonauralGenerator';
 
 const RHYTHM_OPTIONS: { value: RhythmMode; label: string; description: string }[] = [
   { value: 'still', label: 'Still', description: 'No rhythmic pulse' },
@@ -13,6 +15,28 @@ const RHYTHM_OPTIONS: { value: RhythmMode; label: string; description: string }[
   { value: 'alpha', label: 'Alpha Waves', description: '10 Hz relaxation' },
 ];
 
+const MELODY_STYLE_OPTIONS: { value: MelodyStyle; label: string }[] = [
+  { value: 'drone', label: 'Drone' },
+  { value: 'arpeggio', label: 'Arpeggio' },
+  { value: 'evolving', label: 'Evolving' },
+  { value: 'harmonic', label: 'Harmonic' },
+  { value: 'mixed', label: 'Mixed' },
+];
+
+const MELODY_SCALE_OPTIONS: { value: MelodyScale; label: string }[] = [
+  { value: 'pentatonic_major', label: 'Pentatonic Major' },
+  { value: 'pentatonic_minor', label: 'Pentatonic Minor' },
+  { value: 'natural_minor', label: 'Natural Minor' },
+  { value: 'major', label: 'Major' },
+  { value: 'lydian', label: 'Lydian' },
+  { value: 'mixolydian', label: 'Mixolydian' },
+  { value: 'dorian', label: 'Dorian' },
+  { value: 'whole_tone', label: 'Whole Tone' },
+  { value: 'chromatic', label: 'Chromatic' },
+];
+
+const NOTE_DENSITY_OPTIONS: NoteDensity[] = ['sparse', 'moderate', 'dense'];
+
 export function PhaseControls() {
   const {
     journey,
@@ -348,6 +372,306 @@ export function PhaseControls() {
         )}
       </div>
 
+      {/* Monaural Beats Control */}
+      <div className="space-y-2 pt-2 border-t border-[var(--color-surface-light)]">
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-[var(--color-text-muted)] flex items-center gap-2">
+            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M2 12c2-6 4-6 6 0s4 6 6 0 4-6 6 0" />
+            </svg>
+            Monaural Beats
+          </label>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={phase.monaural_enabled === true}
+              onChange={(e) => updatePhase(selectedPhaseIndex, { monaural_enabled: e.target.checked })}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-[var(--color-surface-light)] peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-[var(--color-primary)]"></div>
+          </label>
+        </div>
+        {phase.monaural_enabled && (
+          <div className="space-y-3 pl-6">
+            <p className="text-xs text-[var(--color-text-muted)]">Beat mixed into both channels - works on speakers</p>
+
+            {/* Beat Frequency */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-[var(--color-text-muted)]">Beat Frequency</label>
+                <span className="text-xs text-[var(--color-text)]">{getMonauralSettings(phase, 0).beatFreq} Hz</span>
+              </div>
+              <input
+                type="range"
+                min="1"
+                max="30"
+                step="0.5"
+                value={getMonauralSettings(phase, 0).beatFreq}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { monaural_beat_frequency: Number(e.target.value) })}
+                className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+              />
+              <div className="flex justify-between text-xs text-[var(--color-text-muted)] px-1">
+                <span>1 Hz</span>
+                <span>30 Hz</span>
+              </div>
+            </div>
+
+            {/* Carrier Frequency */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-[var(--color-text-muted)]">Carrier Frequency</label>
+                <span className="text-xs text-[var(--color-text)]">{phase.monaural_carrier_frequency || 200} Hz</span>
+              </div>
+              <input
+                type="range"
+                min="100"
+                max="400"
+                step="10"
+                value={phase.monaural_carrier_frequency || 200}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { monaural_carrier_frequency: Number(e.target.value) })}
+                className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+              />
+            </div>
+
+            {/* Volume */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-[var(--color-text-muted)]">Volume</label>
+                <span className="text-xs text-[var(--color-text)]">{Math.round((phase.monaural_volume ?? 0.3) * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="10"
+                max="80"
+                step="5"
+                value={(phase.monaural_volume ?? 0.3) * 100}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { monaural_volume: Number(e.target.value) / 100 })}
+                className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Isochronic Tones Control */}
+      <div className="space-y-2 pt-2 border-t border-[var(--color-surface-light)]">
+        <div className="flex items-center justify-between">
+          <label className="text-sm text-[var(--color-text-muted)] flex items-center gap-2">
+            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M2 12h3v-6h4v12h4v-12h4v12h4v-6h1" />
+            </svg>
+            Isochronic Tones
+          </label>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={phase.isochronic_enabled === true}
+              onChange={(e) => updatePhase(selectedPhaseIndex, { isochronic_enabled: e.target.checked })}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-[var(--color-surface-light)] peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-[var(--color-primary)]"></div>
+          </label>
+        </div>
+        {phase.isochronic_enabled && (
+          <div className="space-y-3 pl-6">
+            <p className="text-xs text-[var(--color-text-muted)]">Pulsed tone for speakers - no headphones needed</p>
+
+            {/* Pulse Rate */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-[var(--color-text-muted)]">Pulse Rate</label>
+                <span className="text-xs text-[var(--color-text)]">{getIsochronicPulseRate(phase, 0)} Hz</span>
+              </div>
+              <input
+                type="range"
+                min="1"
+                max="40"
+                step="0.5"
+                value={getIsochronicPulseRate(phase, 0)}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { isochronic_pulse_rate: Number(e.target.value) })}
+                className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+              />
+              <div className="flex justify-between text-xs text-[var(--color-text-muted)] px-1">
+                <span>1 Hz</span>
+                <span>40 Hz</span>
+              </div>
+            </div>
+
+            {/* Duty Cycle */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-[var(--color-text-muted)]">Duty Cycle</label>
+                <span className="text-xs text-[var(--color-text)]">{Math.round((phase.isochronic_duty_cycle ?? 0.5) * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="20"
+                max="80"
+                step="5"
+                value={(phase.isochronic_duty_cycle ?? 0.5) * 100}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { isochronic_duty_cycle: Number(e.target.value) / 100 })}
+                className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+              />
+            </div>
+
+            {/* Carrier Frequency */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-[var(--color-text-muted)]">Carrier Frequency</label>
+                <span className="text-xs text-[var(--color-text)]">{phase.isochronic_carrier_frequency || 200} Hz</span>
+              </div>
+              <input
+                type="range"
+                min="100"
+                max="400"
+                step="10"
+                value={phase.isochronic_carrier_frequency || 200}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { isochronic_carrier_frequency: Number(e.target.value) })}
+                className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+              />
+            </div>
+
+            {/* Volume */}
+            <div className="space-y-1">
+              <div className="flex justify-between items-center">
+                <label className="text-xs text-[var(--color-text-muted)]">Volume</label>
+                <span className="text-xs text-[var(--color-text)]">{Math.round((phase.isochronic_volume ?? 0.3) * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="10"
+                max="80"
+                step="5"
+                value={(phase.isochronic_volume ?? 0.3) * 100}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { isochronic_volume: Number(e.target.value) / 100 })}
+                className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+              />
+            </div>
+
+            {/* Pulse Shape */}
+            <div className="space-y-1">
+              <label className="text-xs text-[var(--color-text-muted)]">Pulse Shape</label>
+              <div className="grid grid-cols-3 gap-1">
+                {(['sine', 'soft', 'square'] as const).map((shape) => (
+                  <button
+                    key={shape}
+                    onClick={() => updatePhase(selectedPhaseIndex, { isochronic_pulse_shape: shape })}
+                    className={`px-2 py-1 rounded text-xs font-medium transition-colors capitalize ${
+                      (phase.isochronic_pulse_shape || 'soft') === shape
+                        ? 'bg-[var(--color-primary)] text-white'
+                        : 'bg-[var(--color-surface-light)] text-[var(--color-text-muted)] hover:bg-[var(--color-surface-light)]/80'
+                    }`}
+                  >
+                    {shape}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Melody Control (only when the melody layer is on) */}
+      {journey.layers.melody_layer && (
+        <div className="space-y-2 pt-2 border-t border-[var(--color-surface-light)]">
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-[var(--color-text-muted)] flex items-center gap-2">
+              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M9 18V5l12-2v13" />
+                <circle cx="6" cy="18" r="3" />
+                <circle cx="18" cy="16" r="3" />
+              </svg>
+              Melody
+            </label>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={phase.melody_enabled !== false}
+                onChange={(e) => updatePhase(selectedPhaseIndex, { melody_enabled: e.target.checked })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-[var(--color-surface-light)] peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-[var(--color-primary)]"></div>
+            </label>
+          </div>
+          {phase.melody_enabled !== false && (
+            <div className="space-y-3 pl-6">
+              {/* Style */}
+              <div className="space-y-1">
+                <label className="text-xs text-[var(--color-text-muted)]">Style</label>
+                <div className="grid grid-cols-5 gap-1">
+                  {MELODY_STYLE_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => updatePhase(selectedPhaseIndex, { melody_style: option.value })}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-colors truncate ${
+                        (phase.melody_style || 'evolving') === option.value
+                          ? 'bg-[var(--color-primary)] text-white'
+                          : 'bg-[var(--color-surface-light)] text-[var(--color-text-muted)] hover:bg-[var(--color-surface-light)]/80'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Scale */}
+              <div className="space-y-1">
+                <label className="text-xs text-[var(--color-text-muted)]">Scale</label>
+                <select
+                  value={phase.melody_scale || 'pentatonic_minor'}
+                  onChange={(e) => updatePhase(selectedPhaseIndex, { melody_scale: e.target.value as MelodyScale })}
+                  className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-1.5 text-xs text-[var(--color-text)]"
+                >
+                  {MELODY_SCALE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Intensity */}
+              <div className="space-y-1">
+                <div className="flex justify-between items-center">
+                  <label className="text-xs text-[var(--color-text-muted)]">Intensity</label>
+                  <span className="text-xs text-[var(--color-text)]">{Math.round((phase.melody_intensity ?? 0.5) * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={(phase.melody_intensity ?? 0.5) * 100}
+                  onChange={(e) => updatePhase(selectedPhaseIndex, { melody_intensity: Number(e.target.value) / 100 })}
+                  className="w-full h-1.5 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer accent-[var(--color-primary)]"
+                />
+              </div>
+
+              {/* Density */}
+              <div className="space-y-1">
+                <label className="text-xs text-[var(--color-text-muted)]">Note Density</label>
+                <div className="grid grid-cols-3 gap-1">
+                  {NOTE_DENSITY_OPTIONS.map((density) => (
+                    <button
+                      key={density}
+                      onClick={() => updatePhase(selectedPhaseIndex, { melody_density: density })}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-colors capitalize ${
+                        (phase.melody_density || 'moderate') === density
+                          ? 'bg-[var(--color-primary)] text-white'
+                          : 'bg-[var(--color-surface-light)] text-[var(--color-text-muted)] hover:bg-[var(--color-surface-light)]/80'
+                      }`}
+                    >
+                      {density}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
     </div>
   );
 }
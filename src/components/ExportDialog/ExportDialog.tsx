@@ -2,12 +2,43 @@
  * ExportDialog - Format selection, quality options, and export progress
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useJourneyStore } from '../../stores/journeyStore';
 import { OfflineRenderer } from '../../audio/OfflineRenderer';
 import { encodeWavWithProgress } from '../../audio/encoders/wav';
-import { formatFileSize } from '../../audio/encoders/mp3';
-import type { ExportSettings } from '../../types/journey';
+import { encodeFlacWithProgress, estimateFlacSize } from '../../audio/encoders/flac';
+import { OPUS_SAMPLE_RATE, encodeOpusWithProgress, estimateOpusSize, isOpusSupported } from '../../audio/encoders/opus';
+import { getJourneyTags } from '../../audio/encoders/tags';
+import {
+  exportJourneyInWorker,
+  exportStemsInWorker,
+  isWorkerExportSupported,
+  isDirectToDiskSupported,
+} from '../../audio/RenderWorkerClient';
+import { encodeMp3, estimateMp3Size, formatFileSize } from '../../audio/encoders/mp3';
+import { OUTPUT_PROFILES, applyOutputProfile, getOutputProfile } from '../../audio/OutputProfile';
+import { CHANNEL_SOURCE_LABELS, STEM_LABELS, getChannelMap, getExportStems } from '../../audio/Stems';
+import {
+  DEFAULT_LOUDNESS_TARGET,
+  LOUDNESS_TARGETS,
+  checkLoudness,
+  measureAudioBuffer,
+  type LoudnessMeasurement,
+} from '../../audio/LoudnessMeter';
+import type { ChannelSource, ExportFormat, ExportSettings, OutputProfileId } from '../../types/journey';
+import { LoudnessReport } from './LoudnessReport';
+
+const FORMATS: Record<ExportFormat, { label: string; description: string; extension: string; mimeType: string }> = {
+  wav: { label: 'WAV', description: 'Lossless, uncompressed audio', extension: 'wav', mimeType: 'audio/wav' },
+  flac: { label: 'FLAC', description: 'Lossless at a fraction of the size', extension: 'flac', mimeType: 'audio/flac' },
+  opus: {
+    label: 'Opus',
+    description: 'Small files that keep the low end clean (48 kHz, stereo)',
+    extension: 'opus',
+    mimeType: 'audio/ogg',
+  },
+  mp3: { label: 'MP3', description: 'Plays anywhere, but smears sub-40 Hz tones', extension: 'mp3', mimeType: 'audio/mpeg' },
+};
 
 const SAMPLE_RATES = [
   { value: 22050, label: '22.05 kHz (Draft)' },
@@ -21,6 +52,44 @@ const WAV_BIT_DEPTHS = [
   { value: 32, label: '32-bit Float (Studio)' },
 ] as const;
 
+const OPUS_BITRATES = [
+  { value: 64, label: '64 kbps (Compact)' },
+  { value: 96, label: '96 kbps (Standard)' },
+  { value: 128, label: '128 kbps (High Quality)' },
+  { value: 192, label: '192 kbps (Transparent)' },
+] as const;
+
+const MP3_BITRATES = [
+  { value: 128, label: '128 kbps' },
+  { value: 192, label: '192 kbps (Standard)' },
+  { value: 256, label: '256 kbps' },
+  { value: 320, label: '320 kbps (High Quality)' },
+] as const;
+
+const CHANNEL_COUNTS = [
+  { value: 1, label: 'Mono' },
+  { value: 2, label: 'Stereo' },
+  { value: 4, label: '4 ch' },
+  { value: 6, label: '6 ch' },
+] as const;
+
+/**
+ * Estimate the size of an export in bytes (all stem files together)
+ */
+function estimateExportSize(settings: ExportSettings, durationSeconds: number, totalChannels: number): number {
+  const bitDepth = settings.bitDepth || 16;
+  switch (settings.format) {
+    case 'flac':
+      return estimateFlacSize(durationSeconds, settings.sampleRate, totalChannels, bitDepth);
+    case 'opus':
+      return estimateOpusSize(durationSeconds, settings.opusBitrate || 128);
+    case 'mp3':
+      return estimateMp3Size(durationSeconds, settings.bitrate || 192);
+    default:
+      return durationSeconds * settings.sampleRate * totalChannels * (bitDepth / 8);
+  }
+}
+
 export function ExportDialog() {
   const {
     showExportDialog,
@@ -35,7 +104,11 @@ export function ExportDialog() {
   } = useJourneyStore();
 
   const [error, setError] = useState<string | null>(null);
-  const [exportedBlob, setExportedBlob] = useState<{ blob: Blob; filename: string } | null>(null);
+  const [exportedFiles, setExportedFiles] = useState<{ blob: Blob; filename: string }[] | null>(null);
+  const [saveToDisk, setSaveToDisk] = useState(false);
+  const [opusSupported, setOpusSupported] = useState(false);
+  const [loudness, setLoudness] = useState<LoudnessMeasurement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Prevent any unhandled errors from causing page refresh
   useEffect(() => {
@@ -69,12 +142,48 @@ export function ExportDialog() {
     }
   }, [showExportDialog, exportSettings, setExportSettings]);
 
+  // WebCodecs Opus encoding is not available in every browser
+  useEffect(() => {
+    if (showExportDialog) void isOpusSupported().then(setOpusSupported);
+  }, [showExportDialog]);
+
   if (!showExportDialog) return null;
 
   const durationSeconds = journey.duration_minutes * 60;
-  const estimatedSize = durationSeconds * exportSettings.sampleRate * exportSettings.channels * ((exportSettings.bitDepth || 16) / 8);
+  const stemLayers = exportSettings.stems
+    ? getExportStems(applyOutputProfile(journey, getOutputProfile(exportSettings.outputProfile)))
+    : [];
+  const totalChannels = exportSettings.stems
+    ? stemLayers.reduce((sum, layer) => sum + (layer === 'binaural' ? 2 : 1), 0)
+    : exportSettings.channels;
+  const estimatedSize = estimateExportSize(exportSettings, durationSeconds, totalChannels);
+  const format = FORMATS[exportSettings.format];
+  // WAV and FLAC stream from the worker; Opus and MP3 encode a rendered stereo buffer
+  const lossless = exportSettings.format === 'wav' || exportSettings.format === 'flac';
+  const channelMap = exportSettings.channels === 4 || exportSettings.channels === 6
+    ? getChannelMap(exportSettings.channels, exportSettings.channelMap)
+    : null;
 
   const iOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+  const canSaveToDisk = isWorkerExportSupported() && isDirectToDiskSupported() && !exportSettings.stems && lossless;
+
+  const selectFormat = (value: ExportFormat) => {
+    if (value === 'wav' || value === 'flac') {
+      setExportSettings({ format: value });
+      return;
+    }
+    setExportSettings({
+      format: value,
+      channels: exportSettings.channels === 1 ? 1 : 2,
+      stems: false,
+      ...(value === 'opus' && { sampleRate: OPUS_SAMPLE_RATE }),
+    });
+  };
+
+  const setChannelSource = (channel: number, source: ChannelSource) => {
+    if (!channelMap) return;
+    setExportSettings({ channelMap: channelMap.map((current, i) => (i === channel ? source : current)) });
+  };
 
   const handleExport = async (e?: React.MouseEvent) => {
     // Prevent any default behavior that might cause page refresh
@@ -82,49 +191,125 @@ export function ExportDialog() {
     e?.stopPropagation();
 
     setError(null);
+    setLoudness(null);
+    const stamp = Date.now();
+    const filename = `journey_${stamp}.${format.extension}`;
+
+    // Layer outputs are rendered sample by sample in the worker only
+    if ((exportSettings.stems || exportSettings.channels > 2) && !isWorkerExportSupported()) {
+      setError('Multichannel and stem exports are not supported in this browser.');
+      return;
+    }
+
+    // Ask for the destination first - the picker needs the click's user activation
+    let writable: FileSystemWritableFileStream | undefined;
+    if (saveToDisk && canSaveToDisk && window.showSaveFilePicker) {
+      try {
+        const handle = await window.showSaveFilePicker({
+          suggestedName: filename,
+          types: [{ description: `${format.label} audio`, accept: { [format.mimeType]: [`.${format.extension}`] } }],
+        });
+        writable = await handle.createWritable();
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Could not open file for writing');
+        return;
+      }
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
     setExporting(true);
     setExportProgress({ phase: 'Starting', stage: 'init', progress: 0 });
 
     try {
+      if (exportSettings.stems) {
+        const stems = await exportStemsInWorker(journey, exportSettings, {
+          onProgress: (progress) => setExportProgress(progress),
+          onLoudness: setLoudness,
+          signal: controller.signal,
+        });
+
+        setExportedFiles(stems.map(({ stem, blob }) => ({ blob, filename: `journey_${stamp}_${stem}.${format.extension}` })));
+        setExportProgress({
+          phase: 'Complete',
+          stage: 'done',
+          progress: 100,
+          message: `${stems.length} stem files ready to save!`,
+        });
+        setExporting(false);
+        return;
+      }
+
+      if (lossless && isWorkerExportSupported()) {
+        // Render and encode in a worker, streaming chunks to disk or a Blob
+        const blob = await exportJourneyInWorker(journey, exportSettings, {
+          onProgress: (progress) => setExportProgress(progress),
+          onLoudness: setLoudness,
+          signal: controller.signal,
+          writable,
+        });
+
+        if (blob) {
+          setExportedFiles([{ blob, filename }]);
+        }
+
+        setExportProgress({
+          phase: 'Complete',
+          stage: 'done',
+          progress: 100,
+          message: blob ? 'Ready to save!' : 'Saved successfully!',
+        });
+        setExporting(false);
+        return;
+      }
+
       // Create renderer with chosen sample rate
       const renderer = new OfflineRenderer(
         exportSettings.sampleRate,
-        exportSettings.channels
+        exportSettings.channels === 1 ? 1 : 2,
+        exportSettings.outputProfile
       );
 
       // Render to AudioBuffer using memory-efficient Web Audio method
       const audioBuffer = await renderer.renderWithWebAudio(journey, (progress) => {
         setExportProgress(progress);
-      });
-
-      // Encode to WAV
-      const timestamp = Date.now();
+      }, controller.signal);
+      const tags = getJourneyTags(journey);
+      setLoudness(measureAudioBuffer(audioBuffer, tags.chapters));
 
+      // Encode to the chosen format
       setExportProgress({
         phase: 'Encoding',
-        stage: 'wav',
+        stage: exportSettings.format,
         progress: 0,
-        message: 'Encoding to WAV...',
+        message: `Encoding to ${format.label}...`,
       });
 
-      const blob = await encodeWavWithProgress(
-        audioBuffer,
-        exportSettings.bitDepth || 16,
-        (percent) => {
-          setExportProgress({
-            phase: 'Encoding',
-            stage: 'wav',
-            progress: percent,
-            message: `Encoding WAV... ${percent}%`,
-          });
-        }
-      );
-      const filename = `journey_${timestamp}.wav`;
-
+      const onEncodeProgress = (percent: number) => {
+        setExportProgress({
+          phase: 'Encoding',
+          stage: exportSettings.format,
+          progress: percent,
+          message: `Encoding ${format.label}... ${percent}%`,
+        });
+      };
+      const bitDepth = exportSettings.bitDepth || 16;
+
+      let blob: Blob;
+      if (exportSettings.format === 'flac') {
+        blob = await encodeFlacWithProgress(audioBuffer, bitDepth, onEncodeProgress, tags, controller.signal);
+      } else if (exportSettings.format === 'opus') {
+        blob = await encodeOpusWithProgress(audioBuffer, exportSettings.opusBitrate || 128, onEncodeProgress, tags, controller.signal);
+      } else if (exportSettings.format === 'mp3') {
+        blob = await encodeMp3(audioBuffer, exportSettings.bitrate || 192, onEncodeProgress, tags, controller.signal);
+      } else {
+        blob = await encodeWavWithProgress(audioBuffer, bitDepth, onEncodeProgress, tags, controller.signal);
+      }
       console.log('Encoding complete, blob size:', blob.size);
 
       // Save blob to state - do NOTHING else
-      setExportedBlob({ blob, filename });
+      setExportedFiles([{ blob, filename }]);
 
       setExportProgress({
         phase: 'Complete',
@@ -136,26 +321,37 @@ export function ExportDialog() {
       setExporting(false);
       console.log('State updated, waiting for user action');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Export failed');
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
       setExporting(false);
       setExportProgress(null);
+    } finally {
+      abortRef.current = null;
     }
   };
 
+  const handleCancelExport = () => {
+    abortRef.current?.abort();
+  };
+
   const handleClose = () => {
     if (!isExporting) {
       setShowExportDialog(false);
       setExportProgress(null);
-      setExportedBlob(null);
+      setExportedFiles(null);
+      setLoudness(null);
     }
   };
 
   const handleDownload = async () => {
-    if (!exportedBlob) return;
+    if (!exportedFiles) return;
 
     try {
       const { saveAndShareFile } = await import('../../utils/nativeExport');
-      await saveAndShareFile(exportedBlob.blob, exportedBlob.filename);
+      for (const file of exportedFiles) {
+        await saveAndShareFile(file.blob, file.filename);
+      }
       setExportProgress({
         phase: 'Complete',
         stage: 'done',
@@ -168,6 +364,31 @@ export function ExportDialog() {
     }
   };
 
+  const handleSaveReport = async () => {
+    if (!loudness) return;
+
+    const report = {
+      journey: journey.name,
+      createdAt: new Date().toISOString(),
+      export: {
+        format: exportSettings.format,
+        sampleRate: exportSettings.sampleRate,
+        channels: exportSettings.stems ? 'stems' : exportSettings.channels,
+        outputProfile: exportSettings.outputProfile ?? null,
+      },
+      ...checkLoudness(loudness, LOUDNESS_TARGETS[exportSettings.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET]),
+    };
+
+    try {
+      const { saveAndShareFile } = await import('../../utils/nativeExport');
+      const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+      await saveAndShareFile(blob, `journey_${Date.now()}_loudness.json`, { dialogTitle: 'Save loudness report' });
+    } catch (err) {
+      console.error('Report save failed:', err);
+      setError('Failed to save the loudness report. Please try again.');
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       {/* Backdrop */}
@@ -225,6 +446,16 @@ export function ExportDialog() {
             </div>
           )}
 
+          {/* Loudness report (once the export has been measured) */}
+          {!isExporting && loudness && (
+            <LoudnessReport
+              measurement={loudness}
+              targetId={exportSettings.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET}
+              onTargetChange={(loudnessTarget) => setExportSettings({ loudnessTarget })}
+              onSave={handleSaveReport}
+            />
+          )}
+
           {/* Settings (hidden during export and when complete) */}
           {!isExporting && !exportProgress && (
             <>
@@ -234,21 +465,29 @@ export function ExportDialog() {
                 </div>
               )}
 
-              {/* Format info */}
-              <div className="p-4 bg-[var(--color-surface-light)] rounded-xl">
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 rounded-lg bg-[var(--color-primary)]/20 flex items-center justify-center">
-                    <svg className="w-5 h-5 text-[var(--color-primary)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                      <path d="M9 18V5l12-2v13" />
-                      <circle cx="6" cy="18" r="3" />
-                      <circle cx="18" cy="16" r="3" />
-                    </svg>
-                  </div>
-                  <div>
-                    <div className="font-medium text-[var(--color-text)]">WAV Format</div>
-                    <div className="text-xs text-[var(--color-text-muted)]">Lossless, full quality audio</div>
-                  </div>
+              {/* Format */}
+              <div className="space-y-2">
+                <label className="text-sm text-[var(--color-text-muted)]">Format</label>
+                <div className="grid grid-cols-4 gap-3">
+                  {(Object.keys(FORMATS) as ExportFormat[]).map((value) => {
+                    const unavailable = value === 'opus' && (!opusSupported || iOS);
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => !unavailable && selectFormat(value)}
+                        disabled={unavailable}
+                        className={`p-3 rounded-lg border transition-colors ${
+                          exportSettings.format === value
+                            ? 'border-[var(--color-primary)] bg-[var(--color-primary)]/10'
+                            : 'border-white/10 hover:border-white/20'
+                        } ${unavailable ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      >
+                        <span className="text-sm text-[var(--color-text)]">{FORMATS[value].label}</span>
+                      </button>
+                    );
+                  })}
                 </div>
+                <p className="text-xs text-[var(--color-text-muted)]">{format.description}</p>
               </div>
 
               {/* Sample rate */}
@@ -257,7 +496,7 @@ export function ExportDialog() {
                 <select
                   value={exportSettings.sampleRate}
                   onChange={(e) => setExportSettings({ sampleRate: Number(e.target.value) as ExportSettings['sampleRate'] })}
-                  disabled={iOS}
+                  disabled={iOS || exportSettings.format === 'opus'}
                   className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)] disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {SAMPLE_RATES.map((rate) => (
@@ -268,44 +507,143 @@ export function ExportDialog() {
                 </select>
               </div>
 
-              {/* Bit Depth */}
+              {/* Bit Depth (lossless) or bitrate (lossy) */}
+              {lossless ? (
+                <div className="space-y-2">
+                  <label className="text-sm text-[var(--color-text-muted)]">Bit Depth</label>
+                  <select
+                    value={exportSettings.bitDepth || 16}
+                    onChange={(e) => setExportSettings({ bitDepth: Number(e.target.value) as ExportSettings['bitDepth'] })}
+                    disabled={iOS}
+                    className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {WAV_BIT_DEPTHS.map((depth) => (
+                      <option key={depth.value} value={depth.value}>
+                        {depth.label}
+                      </option>
+                    ))}
+                  </select>
+                  {exportSettings.format === 'flac' && exportSettings.bitDepth === 32 && (
+                    <p className="text-xs text-[var(--color-text-muted)]">FLAC stores 32-bit float as 24-bit</p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <label className="text-sm text-[var(--color-text-muted)]">Bitrate</label>
+                  {exportSettings.format === 'opus' ? (
+                    <select
+                      value={exportSettings.opusBitrate || 128}
+                      onChange={(e) => setExportSettings({ opusBitrate: Number(e.target.value) as ExportSettings['opusBitrate'] })}
+                      className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)]"
+                    >
+                      {OPUS_BITRATES.map((rate) => (
+                        <option key={rate.value} value={rate.value}>
+                          {rate.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <select
+                      value={exportSettings.bitrate || 192}
+                      onChange={(e) => setExportSettings({ bitrate: Number(e.target.value) as ExportSettings['bitrate'] })}
+                      className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)]"
+                    >
+                      {MP3_BITRATES.map((rate) => (
+                        <option key={rate.value} value={rate.value}>
+                          {rate.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+
+              {/* Channels */}
+              <div className="space-y-2">
+                <label className="text-sm text-[var(--color-text-muted)]">Channels</label>
+                <div className="grid grid-cols-4 gap-3">
+                  {CHANNEL_COUNTS.map(({ value: channels, label }) => {
+                    // Opus and MP3 files are mono or stereo
+                    const unavailable = exportSettings.stems || (!lossless && channels > 2);
+                    return (
+                      <button
+                        key={channels}
+                        onClick={() => !iOS && !unavailable && setExportSettings({ channels })}
+                        disabled={(iOS && channels === 1) || unavailable}
+                        className={`p-3 rounded-lg border transition-colors ${
+                          exportSettings.channels === channels && !exportSettings.stems
+                            ? 'border-[var(--color-primary)] bg-[var(--color-primary)]/10'
+                            : 'border-white/10 hover:border-white/20'
+                        } ${iOS || unavailable ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      >
+                        <span className="text-sm text-[var(--color-text)]">{label}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {/* Channel map for multichannel files */}
+                {channelMap && !exportSettings.stems && (
+                  <div className="grid grid-cols-2 gap-2 pt-1">
+                    {channelMap.map((source, channel) => (
+                      <label key={channel} className="flex items-center gap-2">
+                        <span className="text-xs text-[var(--color-text-muted)] w-10">Ch {channel + 1}</span>
+                        <select
+                          value={source}
+                          onChange={(e) => setChannelSource(channel, e.target.value as ChannelSource)}
+                          className="flex-1 bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-2 py-1 text-sm text-[var(--color-text)]"
+                        >
+                          {(Object.keys(CHANNEL_SOURCE_LABELS) as ChannelSource[]).map((option) => (
+                            <option key={option} value={option}>{CHANNEL_SOURCE_LABELS[option]}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {!iOS && lossless && (
+                  <label className="flex items-center gap-3 cursor-pointer pt-1">
+                    <input
+                      type="checkbox"
+                      checked={exportSettings.stems === true}
+                      onChange={(e) => setExportSettings({ stems: e.target.checked })}
+                      className="w-4 h-4 accent-[var(--color-primary)]"
+                    />
+                    <div>
+                      <div className="text-sm text-[var(--color-text)]">Separate stem files</div>
+                      <div className="text-xs text-[var(--color-text-muted)]">
+                        {exportSettings.stems
+                          ? `One ${format.label} per layer: ${stemLayers.map((layer) => STEM_LABELS[layer]).join(', ') || 'none'}`
+                          : `One ${format.label} per layer, for mixing or separate outputs`}
+                      </div>
+                    </div>
+                  </label>
+                )}
+              </div>
+
+              {/* Output profile */}
               <div className="space-y-2">
-                <label className="text-sm text-[var(--color-text-muted)]">Bit Depth</label>
+                <label className="text-sm text-[var(--color-text-muted)]">Output</label>
                 <select
-                  value={exportSettings.bitDepth || 16}
-                  onChange={(e) => setExportSettings({ bitDepth: Number(e.target.value) as ExportSettings['bitDepth'] })}
-                  disabled={iOS}
-                  className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)] disabled:opacity-50 disabled:cursor-not-allowed"
+                  value={exportSettings.outputProfile || ''}
+                  onChange={(e) => setExportSettings({ outputProfile: (e.target.value || undefined) as OutputProfileId | undefined })}
+                  className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)]"
                 >
-                  {WAV_BIT_DEPTHS.map((depth) => (
-                    <option key={depth.value} value={depth.value}>
-                      {depth.label}
+                  <option value="">As designed</option>
+                  {Object.values(OUTPUT_PROFILES).map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.label}
                     </option>
                   ))}
                 </select>
-              </div>
-
-              {/* Channels */}
-              <div className="space-y-2">
-                <label className="text-sm text-[var(--color-text-muted)]">Channels</label>
-                <div className="grid grid-cols-2 gap-3">
-                  {([1, 2] as const).map((channels) => (
-                    <button
-                      key={channels}
-                      onClick={() => !iOS && setExportSettings({ channels })}
-                      disabled={iOS && channels === 1}
-                      className={`p-3 rounded-lg border transition-colors ${
-                        exportSettings.channels === channels
-                          ? 'border-[var(--color-primary)] bg-[var(--color-primary)]/10'
-                          : 'border-white/10 hover:border-white/20'
-                      } ${iOS ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                      <span className="text-sm text-[var(--color-text)]">
-                        {channels === 1 ? 'Mono' : 'Stereo'}
-                      </span>
-                    </button>
-                  ))}
-                </div>
+                {exportSettings.outputProfile && (
+                  <p className="text-xs text-[var(--color-text-muted)]">
+                    {OUTPUT_PROFILES[exportSettings.outputProfile].description}
+                    {OUTPUT_PROFILES[exportSettings.outputProfile].stereo === 'split' && exportSettings.channels === 1 &&
+                      ' (needs stereo to keep the channels separate)'}
+                  </p>
+                )}
               </div>
 
               {/* Estimated size */}
@@ -316,6 +654,24 @@ export function ExportDialog() {
                 </span>
               </div>
 
+              {/* Direct-to-disk (File System Access API) */}
+              {canSaveToDisk && (
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={saveToDisk}
+                    onChange={(e) => setSaveToDisk(e.target.checked)}
+                    className="w-4 h-4 accent-[var(--color-primary)]"
+                  />
+                  <div>
+                    <div className="text-sm text-[var(--color-text)]">Write directly to disk</div>
+                    <div className="text-xs text-[var(--color-text-muted)]">
+                      Choose the file first - recommended for long journeys
+                    </div>
+                  </div>
+                </label>
+              )}
+
               {/* Error message */}
               {error && (
                 <div className="p-3 bg-[var(--color-error)]/10 border border-[var(--color-error)]/30 rounded-lg text-sm text-[var(--color-error)]">
@@ -326,6 +682,18 @@ export function ExportDialog() {
           )}
         </div>
 
+        {/* Cancel while exporting */}
+        {isExporting && (
+          <div className="p-6 border-t border-white/10 flex justify-end">
+            <button
+              onClick={handleCancelExport}
+              className="px-4 py-2 rounded-lg text-[var(--color-text-muted)] hover:bg-white/5 transition-colors"
+            >
+              Cancel Export
+            </button>
+          </div>
+        )}
+
         {/* Footer */}
         {!isExporting && (
           <div className="p-6 border-t border-white/10 flex justify-end gap-3">
@@ -335,7 +703,7 @@ export function ExportDialog() {
             >
               {exportProgress?.phase === 'Complete' ? 'Close' : 'Cancel'}
             </button>
-            {exportedBlob ? (
+            {exportedFiles ? (
               <button
                 onClick={handleDownload}
                 className="px-6 py-2 rounded-lg bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] text-white font-medium transition-colors flex items-center gap-2"
@@ -345,14 +713,14 @@ export function ExportDialog() {
                   <polyline points="7 10 12 15 17 10" />
                   <line x1="12" y1="15" x2="12" y2="3" />
                 </svg>
-                Save File
+                {exportedFiles.length > 1 ? `Save ${exportedFiles.length} Files` : 'Save File'}
               </button>
             ) : exportProgress?.phase !== 'Complete' && (
               <button
                 onClick={handleExport}
                 className="px-6 py-2 rounded-lg bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] text-white font-medium transition-colors"
               >
-                Export WAV
+                Export {format.label}
               </button>
             )}
           </div>
@@ -0,0 +1,100 @@
+/**
+ * LoudnessReport - Post-export loudness measurements with pass/fail against a delivery target
+ */
+
+import { LOUDNESS_TARGETS, checkLoudness, type LoudnessMeasurement } from '../../audio/LoudnessMeter';
+import type { LoudnessTargetId } from '../../types/journey';
+
+interface LoudnessReportProps {
+  measurement: LoudnessMeasurement;
+  targetId: LoudnessTargetId;
+  onTargetChange: (targetId: LoudnessTargetId) => void;
+  onSave: () => void;
+}
+
+function formatDb(value: number, unit: string): string {
+  return `${value.toFixed(1)} ${unit}`;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+function Verdict({ pass }: { pass: boolean }) {
+  return (
+    <span className={`text-xs font-medium ${pass ? 'text-green-400' : 'text-[var(--color-error)]'}`}>
+      {pass ? 'PASS' : 'FAIL'}
+    </span>
+  );
+}
+
+export function LoudnessReport({ measurement, targetId, onTargetChange, onSave }: LoudnessReportProps) {
+  const report = checkLoudness(measurement, LOUDNESS_TARGETS[targetId]);
+  const { target } = report;
+
+  const rows = [
+    { label: 'Integrated', value: formatDb(report.integratedLufs, 'LUFS'), pass: report.integratedPass },
+    { label: 'True peak', value: formatDb(report.truePeakDbtp, 'dBTP'), pass: report.truePeakPass },
+    { label: 'Short-term max', value: formatDb(report.shortTermMaxLufs, 'LUFS') },
+    { label: 'Momentary max', value: formatDb(report.momentaryMaxLufs, 'LUFS') },
+    { label: 'Loudness range', value: formatDb(report.loudnessRangeLu, 'LU') },
+  ];
+
+  return (
+    <div className="space-y-3 p-4 bg-[var(--color-surface-light)] rounded-xl">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm font-medium text-[var(--color-text)]">Loudness</span>
+        <select
+          value={targetId}
+          onChange={(e) => onTargetChange(e.target.value as LoudnessTargetId)}
+          className="bg-[var(--color-surface)] border border-white/10 rounded-lg px-2 py-1 text-xs text-[var(--color-text)]"
+        >
+          {Object.values(LOUDNESS_TARGETS).map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center justify-between text-sm">
+            <span className="text-[var(--color-text-muted)]">{row.label}</span>
+            <span className="flex items-center gap-2 text-[var(--color-text)]">
+              {row.value}
+              {row.pass !== undefined && <Verdict pass={row.pass} />}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-[var(--color-text-muted)]">
+        Target {target.integratedLufs} LUFS ±{target.toleranceLu} LU, true peak ≤ {target.truePeakDbtp} dBTP
+        {' - '}
+        {report.pass ? 'compliant' : 'not compliant'}
+      </p>
+
+      {report.phases.length > 0 && (
+        <div className="space-y-1 pt-2 border-t border-white/10 max-h-32 overflow-y-auto">
+          {report.phases.map((phase) => (
+            <div key={`${phase.startSeconds}-${phase.name}`} className="flex items-center justify-between text-xs">
+              <span className="text-[var(--color-text-muted)]">
+                {formatTime(phase.startSeconds)} {phase.name}
+              </span>
+              <span className="text-[var(--color-text)]">{formatDb(phase.rmsDb, 'dB RMS')}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onSave}
+        className="w-full px-3 py-1.5 rounded-lg border border-white/10 hover:border-white/20 text-sm text-[var(--color-text)] transition-colors"
+      >
+        Save Report (JSON)
+      </button>
+    </div>
+  );
+}
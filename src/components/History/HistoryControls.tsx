@@ -0,0 +1,106 @@
+/**
+ * HistoryControls - Undo/redo buttons, keyboard shortcuts and a jump-to list of edits
+ */
+
+import { useEffect, useState } from 'react';
+import { useJourneyStore } from '../../stores/journeyStore';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD_KEY = isMac ? '⌘' : 'Ctrl+';
+
+/**
+ * Whether a key event comes from a text field, which keeps its own native undo
+ */
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type);
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export function HistoryControls() {
+  const { history, historyIndex, undo, redo, jumpToHistory } = useJourneyStore();
+  const [showList, setShowList] = useState(false);
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !isMac)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const canUndo = historyIndex > 0;
+  const canRedo = historyIndex < history.length - 1;
+  const buttonClass =
+    'w-8 h-8 rounded-lg flex items-center justify-center text-[var(--color-text-muted)] hover:bg-white/10 hover:text-[var(--color-text)] transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button onClick={undo} disabled={!canUndo} className={buttonClass} title={`Undo (${MOD_KEY}Z)`}>
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="9 14 4 9 9 4" />
+          <path d="M20 20v-7a4 4 0 0 0-4-4H4" />
+        </svg>
+      </button>
+      <button onClick={redo} disabled={!canRedo} className={buttonClass} title={`Redo (${MOD_KEY}Shift+Z)`}>
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="15 14 20 9 15 4" />
+          <path d="M4 20v-7a4 4 0 0 1 4-4h12" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setShowList(!showList)}
+        className={`${buttonClass} ${showList ? 'bg-white/10 text-[var(--color-text)]' : ''}`}
+        title="History"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="12" cy="12" r="10" />
+          <polyline points="12 6 12 12 16 14" />
+        </svg>
+      </button>
+
+      {showList && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-30" onClick={() => setShowList(false)} />
+          <div className="absolute right-0 top-10 z-40 w-72 max-h-80 overflow-y-auto bg-[var(--color-surface)] border border-white/10 rounded-xl shadow-2xl p-1">
+            {history
+              .map((entry, index) => ({ entry, index }))
+              .reverse()
+              .map(({ entry, index }) => (
+                <button
+                  key={`${index}-${entry.timestamp}`}
+                  onClick={() => jumpToHistory(index)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-xs flex items-center justify-between gap-2 transition-colors ${
+                    index === historyIndex
+                      ? 'bg-[var(--color-primary)] text-white'
+                      : index > historyIndex
+                      ? 'text-[var(--color-text-muted)]/50 hover:bg-white/5'
+                      : 'text-[var(--color-text)] hover:bg-white/5'
+                  }`}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="shrink-0 opacity-60">{formatTime(entry.timestamp)}</span>
+                </button>
+              ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
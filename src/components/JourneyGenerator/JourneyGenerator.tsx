@@ -1,10 +1,20 @@
 /**
- * JourneyGenerator - Modal for AI-powered journey generation
- * Users input a prompt and duration to generate custom journeys
+ * JourneyGenerator - Modal for AI-powered journey generation and refinement
+ * Users input a prompt and duration to generate custom journeys; without the server (or when asked)
+ * the journey is built on this device from the chosen intent and options. Refine mode sends the
+ * current journey with a follow-up instruction and reviews the changed phases one by one.
  */
 
 import { useState, useCallback } from 'react';
 import { useJourneyStore } from '../../stores/journeyStore';
+import { RefinementReview } from './RefinementReview';
+import { JOURNEY_INTENTS, type JourneyConstraints, type JourneyIntensity, type JourneyIntent } from '../../utils/offlineJourney';
+
+const INTENSITIES: JourneyIntensity[] = ['gentle', 'moderate', 'strong'];
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
 
 export function JourneyGenerator() {
   const {
@@ -12,16 +22,33 @@ export function JourneyGenerator() {
     setShowJourneyGenerator,
     isGenerating,
     generationError,
+    generationNotice,
     generateJourney,
+    journey,
+    isRefining,
+    refinementError,
+    refinement,
+    refineJourney,
+    applyRefinement,
+    discardRefinement,
   } = useJourneyStore();
 
+  const [mode, setMode] = useState<'create' | 'refine'>('create');
+  const [instruction, setInstruction] = useState('');
+
   const [prompt, setPrompt] = useState('');
   const [duration, setDuration] = useState(60);
+  const [intent, setIntent] = useState<JourneyIntent | ''>('');
+  const [intensity, setIntensity] = useState<JourneyIntensity>('moderate');
+  const [novaEnabled, setNovaEnabled] = useState(true);
+  const [binauralEnabled, setBinauralEnabled] = useState(true);
+  const [offline, setOffline] = useState(false);
 
   const handleClose = useCallback(() => {
     setShowJourneyGenerator(false);
     setPrompt('');
     setDuration(60);
+    setInstruction('');
   }, [setShowJourneyGenerator]);
 
   const handleGenerate = useCallback(async () => {
@@ -29,19 +56,51 @@ export function JourneyGenerator() {
       return;
     }
 
+    // Only options the user changed constrain the journey; defaults leave AI output as generated
+    const constraints: JourneyConstraints = {
+      intent: intent || undefined,
+      intensity: intensity === 'moderate' ? undefined : intensity,
+      nova: novaEnabled ? undefined : false,
+      binaural: binauralEnabled ? undefined : false,
+    };
+
     try {
-      await generateJourney(prompt.trim(), duration);
+      await generateJourney(prompt.trim(), duration, { constraints, offline });
     } catch (error) {
       // Error is handled by store
       console.error('Generation error:', error);
     }
-  }, [prompt, duration, generateJourney]);
+  }, [prompt, duration, intent, intensity, novaEnabled, binauralEnabled, offline, generateJourney]);
+
+  const handleRefine = useCallback(async () => {
+    if (!instruction.trim()) {
+      return;
+    }
+
+    try {
+      await refineJourney(instruction.trim());
+    } catch (error) {
+      // Error is handled by store
+      console.error('Refinement error:', error);
+    }
+  }, [instruction, refineJourney]);
+
+  const handleApplyRefinement = useCallback((accepted: boolean[]) => {
+    applyRefinement(accepted);
+    // Still pending only when the selection could not be applied (the error is shown)
+    if (!useJourneyStore.getState().refinement) {
+      handleClose();
+    }
+  }, [applyRefinement, handleClose]);
+
+  const handleSubmit = mode === 'create' ? handleGenerate : handleRefine;
+  const busy = isGenerating || isRefining;
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-      handleGenerate();
+      handleSubmit();
     }
-  }, [handleGenerate]);
+  }, [handleSubmit]);
 
   if (!showJourneyGenerator) return null;
 
@@ -59,16 +118,18 @@ export function JourneyGenerator() {
         <div className="flex items-center justify-between p-6 border-b border-white/10">
           <div>
             <h2 className="text-xl font-semibold text-[var(--color-text)]">
-              Create Journey with AI
+              {mode === 'create' ? 'Create Journey with AI' : 'Refine Journey with AI'}
             </h2>
             <p className="text-sm text-[var(--color-text-muted)] mt-1">
-              Describe your desired journey and we'll generate it for you
+              {mode === 'create'
+                ? "Describe your desired journey and we'll generate it for you"
+                : 'Describe what to change and review each affected phase'}
             </p>
           </div>
           <button
             onClick={handleClose}
             className="p-2 rounded-lg hover:bg-[var(--color-surface-light)] transition-colors"
-            disabled={isGenerating}
+            disabled={busy}
           >
             <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <line x1="18" y1="6" x2="6" y2="18" />
@@ -78,86 +139,236 @@ export function JourneyGenerator() {
         </div>
 
         {/* Content */}
-        <div className="p-6 space-y-6">
-          {/* Prompt Input */}
-          <div>
-            <label className="block text-sm font-medium text-[var(--color-text)] mb-2">
-              Describe your journey
-            </label>
-            <textarea
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="e.g., 'Deep meditation for stress relief', 'Energizing morning routine', 'Gentle sleep journey'..."
-              className="w-full px-4 py-3 bg-[var(--color-surface-light)] border border-white/10 rounded-lg text-[var(--color-text)] placeholder-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] resize-none"
-              rows={4}
-              disabled={isGenerating}
-            />
-            <p className="text-xs text-[var(--color-text-muted)] mt-2">
-              Be specific about the mood, purpose, or therapeutic goal
-            </p>
+        <div className="p-6 space-y-6 max-h-[60vh] overflow-y-auto">
+          {/* Mode */}
+          <div className="flex gap-1 p-1 bg-[var(--color-surface-light)] rounded-lg">
+            {(['create', 'refine'] as const).map((id) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                disabled={busy}
+                className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  mode === id
+                    ? 'bg-[var(--color-surface)] text-[var(--color-text)]'
+                    : 'text-[var(--color-text-muted)] hover:text-[var(--color-text)]'
+                }`}
+              >
+                {id === 'create' ? 'New journey' : `Refine "${journey.name}"`}
+              </button>
+            ))}
           </div>
 
-          {/* Duration Slider */}
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <label className="text-sm font-medium text-[var(--color-text)]">
-                Duration
-              </label>
-              <span className="text-sm font-semibold text-[var(--color-primary)]">
-                {duration} minutes
-              </span>
-            </div>
-            <input
-              type="range"
-              min="5"
-              max="180"
-              step="5"
-              value={duration}
-              onChange={(e) => setDuration(Number(e.target.value))}
-              className="w-full h-2 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer slider"
-              disabled={isGenerating}
-            />
-            <div className="flex justify-between text-xs text-[var(--color-text-muted)] mt-1">
-              <span>5 min</span>
-              <span>90 min</span>
-              <span>180 min</span>
-            </div>
-          </div>
-
-          {/* Error Display */}
-          {generationError && (
-            <div className="p-4 bg-[var(--color-error)]/20 border border-[var(--color-error)]/50 rounded-lg">
-              <p className="text-sm text-[var(--color-error)]">
-                {generationError}
-              </p>
-            </div>
-          )}
+          {mode === 'create' ? (
+            <>
+              {/* Prompt Input */}
+              <div>
+                <label className="block text-sm font-medium text-[var(--color-text)] mb-2">
+                  Describe your journey
+                </label>
+                <textarea
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="e.g., 'Deep meditation for stress relief', 'Energizing morning routine', 'Gentle sleep journey'..."
+                  className="w-full px-4 py-3 bg-[var(--color-surface-light)] border border-white/10 rounded-lg text-[var(--color-text)] placeholder-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] resize-none"
+                  rows={4}
+                  disabled={isGenerating}
+                />
+                <p className="text-xs text-[var(--color-text-muted)] mt-2">
+                  Be specific about the mood, purpose, or therapeutic goal
+                </p>
+              </div>
 
-          {/* Examples */}
-          <div className="p-4 bg-[var(--color-surface-light)] rounded-lg">
-            <p className="text-xs font-medium text-[var(--color-text-muted)] mb-2 uppercase tracking-wide">
-              Example Prompts
-            </p>
-            <div className="space-y-1">
-              {[
-                'Deep relaxation for sleep',
-                'Morning energizer with uplifting frequencies',
-                'Meditation journey for anxiety relief',
-                'Grounding session after stress',
-                'Creative flow state activation',
-              ].map((example, i) => (
-                <button
-                  key={i}
-                  onClick={() => setPrompt(example)}
+              {/* Duration Slider */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-[var(--color-text)]">
+                    Duration
+                  </label>
+                  <span className="text-sm font-semibold text-[var(--color-primary)]">
+                    {duration} minutes
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min="5"
+                  max="180"
+                  step="5"
+                  value={duration}
+                  onChange={(e) => setDuration(Number(e.target.value))}
+                  className="w-full h-2 bg-[var(--color-surface-light)] rounded-lg appearance-none cursor-pointer slider"
                   disabled={isGenerating}
-                  className="block w-full text-left text-sm text-[var(--color-text-muted)] hover:text-[var(--color-primary)] transition-colors"
-                >
-                  • {example}
-                </button>
-              ))}
-            </div>
-          </div>
+                />
+                <div className="flex justify-between text-xs text-[var(--color-text-muted)] mt-1">
+                  <span>5 min</span>
+                  <span>90 min</span>
+                  <span>180 min</span>
+                </div>
+              </div>
+
+              {/* Options */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-[var(--color-text)] mb-2">
+                    Intent
+                  </label>
+                  <select
+                    value={intent}
+                    onChange={(e) => setIntent(e.target.value as JourneyIntent | '')}
+                    disabled={isGenerating}
+                    className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <option value="">Auto (from description)</option>
+                    {JOURNEY_INTENTS.map((id) => (
+                      <option key={id} value={id}>{capitalize(id)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-[var(--color-text)] mb-2">
+                    Intensity
+                  </label>
+                  <select
+                    value={intensity}
+                    onChange={(e) => setIntensity(e.target.value as JourneyIntensity)}
+                    disabled={isGenerating}
+                    className="w-full bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-2 text-[var(--color-text)] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {INTENSITIES.map((id) => (
+                      <option key={id} value={id}>{capitalize(id)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={novaEnabled}
+                    onChange={(e) => setNovaEnabled(e.target.checked)}
+                    disabled={isGenerating}
+                    className="w-4 h-4 accent-[var(--color-primary)]"
+                  />
+                  <span className="text-sm text-[var(--color-text)]">Nova light</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={binauralEnabled}
+                    onChange={(e) => setBinauralEnabled(e.target.checked)}
+                    disabled={isGenerating}
+                    className="w-4 h-4 accent-[var(--color-primary)]"
+                  />
+                  <span className="text-sm text-[var(--color-text)]">Binaural beats</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={offline}
+                    onChange={(e) => setOffline(e.target.checked)}
+                    disabled={isGenerating}
+                    className="w-4 h-4 accent-[var(--color-primary)]"
+                  />
+                  <span className="text-sm text-[var(--color-text)]">Generate on this device (no AI)</span>
+                </label>
+              </div>
+
+              {/* Fallback Notice */}
+              {generationNotice && (
+                <div className="p-4 bg-[var(--color-primary)]/10 border border-[var(--color-primary)]/40 rounded-lg">
+                  <p className="text-sm text-[var(--color-text)]">
+                    {generationNotice}
+                  </p>
+                  <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                    The journey is loaded. Close this dialog to use it, or generate again.
+                  </p>
+                </div>
+              )}
+
+              {/* Error Display */}
+              {generationError && (
+                <div className="p-4 bg-[var(--color-error)]/20 border border-[var(--color-error)]/50 rounded-lg">
+                  <p className="text-sm text-[var(--color-error)]">
+                    {generationError}
+                  </p>
+                </div>
+              )}
+
+              {/* Examples */}
+              <div className="p-4 bg-[var(--color-surface-light)] rounded-lg">
+                <p className="text-xs font-medium text-[var(--color-text-muted)] mb-2 uppercase tracking-wide">
+                  Example Prompts
+                </p>
+                <div className="space-y-1">
+                  {[
+                    'Deep relaxation for sleep',
+                    'Morning energizer with uplifting frequencies',
+                    'Meditation journey for anxiety relief',
+                    'Grounding session after stress',
+                    'Creative flow state activation',
+                  ].map((example, i) => (
+                    <button
+                      key={i}
+                      onClick={() => setPrompt(example)}
+                      disabled={isGenerating}
+                      className="block w-full text-left text-sm text-[var(--color-text-muted)] hover:text-[var(--color-primary)] transition-colors"
+                    >
+                      • {example}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Instruction Input */}
+              <div>
+                <label className="block text-sm font-medium text-[var(--color-text)] mb-2">
+                  What should change?
+                </label>
+                <textarea
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="e.g., 'Make the middle deeper and remove Nova in the last phase'"
+                  className="w-full px-4 py-3 bg-[var(--color-surface-light)] border border-white/10 rounded-lg text-[var(--color-text)] placeholder-[var(--color-text-muted)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] resize-none"
+                  rows={3}
+                  disabled={isRefining}
+                />
+                <p className="text-xs text-[var(--color-text-muted)] mt-2">
+                  {journey.phases.length} phases, {journey.duration_minutes} minutes. You can accept or reject each changed phase.
+                </p>
+              </div>
+
+              {/* Fallback Notice */}
+              {refinement?.offline && refinement.reason && (
+                <div className="p-4 bg-[var(--color-primary)]/10 border border-[var(--color-primary)]/40 rounded-lg">
+                  <p className="text-sm text-[var(--color-text)]">
+                    Refined on this device because AI refinement was unavailable: {refinement.reason}
+                  </p>
+                </div>
+              )}
+
+              {/* Error Display */}
+              {refinementError && (
+                <div className="p-4 bg-[var(--color-error)]/20 border border-[var(--color-error)]/50 rounded-lg">
+                  <p className="text-sm text-[var(--color-error)]">
+                    {refinementError}
+                  </p>
+                </div>
+              )}
+
+              {refinement && (
+                <RefinementReview
+                  key={refinement.instruction}
+                  changes={refinement.changes}
+                  onApply={handleApplyRefinement}
+                  onCancel={discardRefinement}
+                />
+              )}
+            </>
+          )}
         </div>
 
         {/* Footer */}
@@ -165,26 +376,26 @@ export function JourneyGenerator() {
           <button
             onClick={handleClose}
             className="px-4 py-2 text-sm font-medium text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
-            disabled={isGenerating}
+            disabled={busy}
           >
-            Cancel
+            {generationNotice ? 'Close' : 'Cancel'}
           </button>
           <button
-            onClick={handleGenerate}
-            disabled={!prompt.trim() || isGenerating}
+            onClick={handleSubmit}
+            disabled={!(mode === 'create' ? prompt : instruction).trim() || busy}
             className="px-6 py-2 text-sm font-semibold bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-accent)] text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
-            {isGenerating ? (
+            {busy ? (
               <>
                 <div className="spinner-small" />
-                Generating...
+                {isRefining ? 'Refining...' : 'Generating...'}
               </>
             ) : (
               <>
                 <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                   <path d="M12 2v20M2 12h20" />
                 </svg>
-                Generate Journey
+                {mode === 'create' ? 'Generate Journey' : 'Refine Journey'}
               </>
             )}
           </button>
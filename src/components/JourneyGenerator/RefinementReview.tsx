@@ -0,0 +1,112 @@
+/**
+ * RefinementReview - Review the phase changes a refinement proposes before applying them
+ * Every added, removed or modified phase can be accepted or rejected on its own
+ */
+
+import { useState } from 'react';
+import type { PhaseChange, PhaseFieldChange } from '../../utils/journeyDiff';
+
+interface RefinementReviewProps {
+  changes: PhaseChange[];
+  onApply: (accepted: boolean[]) => void;
+  onCancel: () => void;
+}
+
+const TYPE_LABELS: Record<PhaseChange['type'], string> = {
+  modified: 'Changed',
+  added: 'New',
+  removed: 'Removed',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return 'unset';
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if ('start' in record && 'end' in record) return `${formatValue(record.start)} → ${formatValue(record.end)}`;
+    if ('type' in record && 'baseFrequency' in record) return `${record.type} ${formatValue(record.baseFrequency)} Hz`;
+  }
+  return 'edited';
+}
+
+function formatField(change: PhaseFieldChange): string {
+  return `${change.field.replace(/_/g, ' ')}: ${formatValue(change.before)} ⇒ ${formatValue(change.after)}`;
+}
+
+export function RefinementReview({ changes, onApply, onCancel }: RefinementReviewProps) {
+  const [accepted, setAccepted] = useState<boolean[]>(() => changes.map(() => true));
+
+  const toggle = (index: number) => {
+    setAccepted((current) => current.map((value, i) => (i === index ? !value : value)));
+  };
+
+  const count = accepted.filter(Boolean).length;
+
+  if (changes.length === 0) {
+    return (
+      <div className="p-4 bg-[var(--color-surface-light)] rounded-lg">
+        <p className="text-sm text-[var(--color-text-muted)]">
+          The refinement did not change any phases. Try a more specific instruction.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-[var(--color-text)]">
+        {changes.length} phase change{changes.length === 1 ? '' : 's'} proposed
+      </h3>
+
+      {changes.map((change, index) => (
+        <label
+          key={`${change.type}-${change.index}-${index}`}
+          className="flex items-start gap-3 bg-[var(--color-surface-light)] rounded-xl p-3 border border-white/10 cursor-pointer"
+        >
+          <input
+            type="checkbox"
+            checked={accepted[index]}
+            onChange={() => toggle(index)}
+            className="mt-1 w-4 h-4 accent-[var(--color-primary)]"
+          />
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-xs uppercase tracking-wide text-[var(--color-text-muted)]">
+                {TYPE_LABELS[change.type]}
+              </span>
+              <span className="font-medium text-sm text-[var(--color-text)] truncate">{change.name}</span>
+            </div>
+            {change.type === 'added' && change.phase && (
+              <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                {change.phase.duration} min • {formatValue(change.phase.frequency)} Hz • {change.phase.rhythm_mode || 'breathing'}
+              </p>
+            )}
+            {change.fields.map((field) => (
+              <p key={field.field} className="text-xs text-[var(--color-text-muted)] mt-1 break-words">
+                {formatField(field)}
+              </p>
+            ))}
+          </div>
+        </label>
+      ))}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg text-sm text-[var(--color-text-muted)] hover:bg-white/5 transition-colors"
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => onApply(accepted)}
+          disabled={count === 0}
+          className="px-4 py-2 rounded-lg text-sm bg-[var(--color-primary)] text-white hover:opacity-90 transition-opacity disabled:opacity-40"
+        >
+          Apply {count > 0 ? count : ''}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@
 
 import { useState, useEffect } from 'react';
 import { novaController } from '../../audio/NovaController';
-import type { NovaState } from '../../audio/NovaController';
+import type { NovaConsentRecord, NovaState } from '../../audio/NovaController';
 
 type DebugLogEntry = { timestamp: number; message: string; type: 'info' | 'warn' | 'error' | 'success' };
 
@@ -14,6 +14,8 @@ export function NovaControl() {
   const [error, setError] = useState<string | null>(null);
   const [debugLog, setDebugLog] = useState<DebugLogEntry[]>(novaController.getDebugLog());
   const [showDebugLog, setShowDebugLog] = useState(false);
+  const [consent, setConsent] = useState<NovaConsentRecord | null>(novaController.getConsent());
+  const [consentChecked, setConsentChecked] = useState(false);
 
   useEffect(() => {
     // Subscribe to state changes
@@ -50,6 +52,16 @@ export function NovaControl() {
     }
   };
 
+  const handleRecordConsent = () => {
+    setConsent(novaController.recordConsent());
+    setConsentChecked(false);
+  };
+
+  const handleRevokeConsent = () => {
+    novaController.revokeConsent();
+    setConsent(null);
+  };
+
   const handleDisconnect = async () => {
     try {
       await novaController.disconnect();
@@ -66,6 +78,8 @@ export function NovaControl() {
     );
   }
 
+  const { riskBand } = novaController.getSafetyPolicy();
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString();
@@ -140,6 +154,43 @@ export function NovaControl() {
         )}
       </div>
 
+      {state.consentRequired && !consent && (
+        <div className="mt-2 p-3 max-w-md rounded-lg border border-[var(--color-warning)]/40 bg-[var(--color-warning)]/10 text-xs text-[var(--color-text)] space-y-2">
+          <p className="font-medium text-[var(--color-warning)]">Flicker blocked for safety</p>
+          <p>
+            This pattern flashes within {riskBand.minHz}-{riskBand.maxHz} Hz, the range most likely to trigger
+            photosensitive seizures. Only continue if you have no history of epilepsy, seizures or light-triggered
+            migraine. Keep your eyes closed and stop if you feel unwell.
+          </p>
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={consentChecked}
+              onChange={(e) => setConsentChecked(e.target.checked)}
+              className="mt-0.5"
+            />
+            I understand the risk and consent to flicker in this range
+          </label>
+          <button
+            onClick={handleRecordConsent}
+            disabled={!consentChecked}
+            className="px-3 py-1.5 rounded-lg bg-[var(--color-surface-light)] hover:bg-[var(--color-warning)] text-[var(--color-text)] font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Record Consent
+          </button>
+        </div>
+      )}
+
+      {consent && (
+        <div className="mt-1 text-xs text-[var(--color-text-muted)]">
+          {consent.riskBand.minHz}-{consent.riskBand.maxHz} Hz flicker consented {new Date(consent.grantedAt).toLocaleString()}
+          {' - '}
+          <button onClick={handleRevokeConsent} className="underline hover:text-[var(--color-text)]">
+            Revoke
+          </button>
+        </div>
+      )}
+
       {showDebugLog && (
         <div className="absolute top-full left-0 mt-2 w-96 max-w-[90vw] bg-[var(--color-surface)] border border-[var(--color-surface-light)] rounded-lg shadow-lg p-3 z-50 max-h-64 overflow-y-auto">
           <div className="flex items-center justify-between mb-2">
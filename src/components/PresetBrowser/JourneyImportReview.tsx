@@ -0,0 +1,97 @@
+/**
+ * JourneyImportReview - Review the contents of a .sonicjourney file before importing
+ * Lists every journey with its preview, validation errors and how to resolve conflicts
+ */
+
+import { useState } from 'react';
+import {
+  getPreviewUrl,
+  type ImportResolution,
+  type JourneyImportItem,
+} from '../../utils/journeyFile';
+
+interface JourneyImportReviewProps {
+  items: JourneyImportItem[];
+  onImport: (resolutions: ImportResolution[]) => void;
+  onCancel: () => void;
+}
+
+export function JourneyImportReview({ items, onImport, onCancel }: JourneyImportReviewProps) {
+  const [resolutions, setResolutions] = useState<ImportResolution[]>(() =>
+    items.map((item) => (item.existing ? 'skip' : 'keep_both'))
+  );
+
+  const setResolution = (index: number, resolution: ImportResolution) => {
+    setResolutions((current) => current.map((r, i) => (i === index ? resolution : r)));
+  };
+
+  const importable = items.filter((item, index) => item.journey && resolutions[index] !== 'skip').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-[var(--color-text)]">
+          Import {items.length} journey{items.length === 1 ? '' : 's'}
+        </h3>
+      </div>
+
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className="bg-[var(--color-surface-light)] rounded-xl p-3 sm:p-4 border border-white/10"
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h4 className="font-medium text-[var(--color-text)] truncate">{item.name}</h4>
+              {item.journey && (
+                <p className="text-xs text-[var(--color-text-muted)]">
+                  {item.journey.duration_minutes} min • {item.journey.phases.length} stages
+                </p>
+              )}
+            </div>
+
+            {item.existing && (
+              <select
+                value={resolutions[index]}
+                onChange={(e) => setResolution(index, e.target.value as ImportResolution)}
+                className="shrink-0 bg-[var(--color-surface)] border border-white/10 rounded-lg px-2 py-1 text-xs text-[var(--color-text)]"
+              >
+                <option value="skip">Skip</option>
+                <option value="replace">Replace saved</option>
+                <option value="keep_both">Keep both</option>
+              </select>
+            )}
+          </div>
+
+          {item.error && (
+            <p className="mt-2 text-xs text-[var(--color-error)] break-words">{item.error}</p>
+          )}
+          {item.existing && (
+            <p className="mt-2 text-xs text-[var(--color-warning)]">
+              A saved journey with this name and duration already exists
+            </p>
+          )}
+          {item.preview && (
+            <audio controls src={getPreviewUrl(item.preview)} className="mt-3 w-full h-8" />
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2 pt-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg text-sm text-[var(--color-text-muted)] hover:bg-white/5 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onImport(resolutions)}
+          disabled={importable === 0}
+          className="px-4 py-2 rounded-lg text-sm bg-[var(--color-primary)] text-white hover:opacity-90 transition-opacity disabled:opacity-40"
+        >
+          Import {importable > 0 ? importable : ''}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,446 @@
+/**
+ * JourneyLibrary - Saved journeys with folders, tags, search, sorting and file import/export
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  getSavedJourneys,
+  getFolders,
+  getAllTags,
+  createFolder,
+  renameFolder,
+  deleteFolder,
+  deleteSavedJourney,
+  updateJourneyDetails,
+  type JourneyFolder,
+  type JourneyQuery,
+  type JourneySort,
+  type SavedJourney,
+} from '../../utils/journeyStorage';
+import {
+  JOURNEY_FILE_EXTENSION,
+  JOURNEY_FILE_MIME_TYPE,
+  exportJourneyFile,
+  importJourneys,
+  readJourneyFile,
+  type ImportResolution,
+  type JourneyImportItem,
+} from '../../utils/journeyFile';
+import { JourneyImportReview } from './JourneyImportReview';
+
+interface JourneyLibraryProps {
+  onSelect: (savedJourney: SavedJourney) => void;
+  onChange: () => void;  // Called after journeys are added, removed or edited
+}
+
+const SORT_OPTIONS: { value: JourneySort; label: string }[] = [
+  { value: 'updated', label: 'Recently saved' },
+  { value: 'last_played', label: 'Last played' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'name', label: 'Name' },
+];
+
+const chipClass = (active: boolean) =>
+  `whitespace-nowrap px-3 py-1 rounded-full text-xs transition-colors ${
+    active
+      ? 'bg-[var(--color-primary)] text-white'
+      : 'bg-[var(--color-surface-light)] text-[var(--color-text-muted)] hover:bg-white/10'
+  }`;
+
+const toolbarButtonClass =
+  'px-3 py-1.5 rounded-lg text-sm bg-[var(--color-surface-light)] text-[var(--color-text)] hover:bg-white/10 transition-colors disabled:opacity-40';
+
+export function JourneyLibrary({ onSelect, onChange }: JourneyLibraryProps) {
+  const [journeys, setJourneys] = useState<SavedJourney[]>([]);
+  const [folders, setFolders] = useState<JourneyFolder[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [query, setQuery] = useState<JourneyQuery>({ sort: 'updated' });
+  const [importItems, setImportItems] = useState<JourneyImportItem[] | null>(null);
+  const [includePreview, setIncludePreview] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    const [nextJourneys, nextFolders, nextTags] = await Promise.all([
+      getSavedJourneys(query),
+      getFolders(),
+      getAllTags(),
+    ]);
+    setJourneys(nextJourneys);
+    setFolders(nextFolders);
+    setTags(nextTags);
+  }, [query]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Reload the list and let the browser update its counts
+  const handleChanged = async () => {
+    await refresh();
+    onChange();
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      setMessage(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleDelete = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    if (confirm('Delete this saved journey?')) {
+      void runAction(async () => {
+        await deleteSavedJourney(id);
+        await handleChanged();
+      }, 'Failed to delete journey');
+    }
+  };
+
+  const handleEditTags = (e: React.MouseEvent, savedJourney: SavedJourney) => {
+    e.stopPropagation();
+    const input = prompt('Tags (comma separated)', savedJourney.tags.join(', '));
+    if (input === null) return;
+
+    void runAction(async () => {
+      await updateJourneyDetails(savedJourney.id, { tags: input.split(',') });
+      await handleChanged();
+    }, 'Failed to update tags');
+  };
+
+  const handleMoveToFolder = (savedJourney: SavedJourney, folderId: string) => {
+    void runAction(async () => {
+      await updateJourneyDetails(savedJourney.id, { folderId: folderId || null });
+      await handleChanged();
+    }, 'Failed to move journey');
+  };
+
+  const handleCreateFolder = () => {
+    const name = prompt('Folder name');
+    if (!name) return;
+
+    void runAction(async () => {
+      const folder = await createFolder(name);
+      setQuery((current) => ({ ...current, folderId: folder.id }));
+    }, 'Failed to create folder');
+  };
+
+  const handleRenameFolder = (folder: JourneyFolder) => {
+    const name = prompt('Rename folder', folder.name);
+    if (!name || name === folder.name) return;
+
+    void runAction(async () => {
+      await renameFolder(folder.id, name);
+      await refresh();
+    }, 'Failed to rename folder');
+  };
+
+  const handleDeleteFolder = (folder: JourneyFolder) => {
+    if (!confirm(`Delete folder "${folder.name}"? Its journeys are kept.`)) return;
+
+    void runAction(async () => {
+      await deleteFolder(folder.id);
+      setQuery((current) => ({ ...current, folderId: undefined }));
+    }, 'Failed to delete folder');
+  };
+
+  const handleExport = async (toExport: SavedJourney[]) => {
+    setIsTransferring(true);
+    setMessage(includePreview ? 'Rendering previews...' : null);
+    try {
+      await exportJourneyFile(toExport, { includePreview });
+      setMessage(null);
+    } catch (error) {
+      console.error('Journey export failed:', error);
+      setMessage(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleExportOne = (e: React.MouseEvent, savedJourney: SavedJourney) => {
+    e.stopPropagation();
+    void handleExport([savedJourney]);
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setImportItems(await readJourneyFile(file));
+      setMessage(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not read file');
+    }
+  };
+
+  const handleImport = async (resolutions: ImportResolution[]) => {
+    if (!importItems) return;
+
+    setIsTransferring(true);
+    const result = await importJourneys(importItems, resolutions);
+    const summary = [
+      result.imported > 0 && `${result.imported} imported`,
+      result.replaced > 0 && `${result.replaced} replaced`,
+      result.skipped > 0 && `${result.skipped} skipped`,
+      result.failed.length > 0 && `${result.failed.length} failed (${result.failed.join('; ')})`,
+    ].filter(Boolean);
+
+    setImportItems(null);
+    setIsTransferring(false);
+    setMessage(summary.length > 0 ? summary.join(', ') : 'Nothing to import');
+    await handleChanged();
+  };
+
+  const selectedFolder = folders.find((folder) => folder.id === query.folderId);
+  const isFiltered = query.folderId !== undefined || !!query.tag || !!query.search?.trim();
+
+  if (importItems) {
+    return (
+      <JourneyImportReview
+        items={importItems}
+        onImport={handleImport}
+        onCancel={() => setImportItems(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Search and sort */}
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query.search || ''}
+          onChange={(e) => setQuery((current) => ({ ...current, search: e.target.value }))}
+          placeholder="Search names, descriptions, stages, tags..."
+          className="flex-1 min-w-0 bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-3 py-1.5 text-sm text-[var(--color-text)] placeholder:text-[var(--color-text-muted)]"
+        />
+        <select
+          value={query.sort}
+          onChange={(e) => setQuery((current) => ({ ...current, sort: e.target.value as JourneySort }))}
+          className="bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-2 py-1.5 text-sm text-[var(--color-text)]"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Folders */}
+      <div className="flex items-center gap-2 overflow-x-auto pb-1">
+        <button
+          onClick={() => setQuery((current) => ({ ...current, folderId: undefined }))}
+          className={chipClass(query.folderId === undefined)}
+        >
+          All
+        </button>
+        <button
+          onClick={() => setQuery((current) => ({ ...current, folderId: null }))}
+          className={chipClass(query.folderId === null)}
+        >
+          Unfiled
+        </button>
+        {folders.map((folder) => (
+          <button
+            key={folder.id}
+            onClick={() => setQuery((current) => ({ ...current, folderId: folder.id }))}
+            className={chipClass(query.folderId === folder.id)}
+          >
+            📁 {folder.name}
+          </button>
+        ))}
+        <button onClick={handleCreateFolder} className={chipClass(false)} title="New folder">
+          + Folder
+        </button>
+      </div>
+
+      {selectedFolder && (
+        <div className="flex items-center gap-3 text-xs text-[var(--color-text-muted)]">
+          <button onClick={() => handleRenameFolder(selectedFolder)} className="hover:text-[var(--color-text)]">
+            Rename folder
+          </button>
+          <button onClick={() => handleDeleteFolder(selectedFolder)} className="hover:text-[var(--color-error)]">
+            Delete folder
+          </button>
+        </div>
+      )}
+
+      {/* Tags */}
+      {tags.length > 0 && (
+        <div className="flex items-center gap-2 overflow-x-auto pb-1">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => setQuery((current) => ({ ...current, tag: current.tag === tag ? undefined : tag }))}
+              className={chipClass(query.tag === tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Import / export */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${JOURNEY_FILE_EXTENSION},${JOURNEY_FILE_MIME_TYPE},application/json`}
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isTransferring}
+          className={toolbarButtonClass}
+        >
+          Import
+        </button>
+        <button
+          onClick={() => handleExport(journeys)}
+          disabled={isTransferring || journeys.length === 0}
+          className={toolbarButtonClass}
+        >
+          {isFiltered ? `Export ${journeys.length}` : 'Export All'}
+        </button>
+        <label className="flex items-center gap-2 text-xs text-[var(--color-text-muted)] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includePreview}
+            onChange={(e) => setIncludePreview(e.target.checked)}
+            disabled={isTransferring}
+            className="w-3.5 h-3.5 accent-[var(--color-primary)]"
+          />
+          Include audio preview
+        </label>
+        {message && (
+          <p className="w-full text-xs text-[var(--color-text-muted)] break-words">{message}</p>
+        )}
+      </div>
+
+      {journeys.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <svg className="w-16 h-16 text-[var(--color-text-muted)] mb-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+            <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
+            <polyline points="17 21 17 13 7 13 7 21" />
+            <polyline points="7 3 7 8 15 8" />
+          </svg>
+          {isFiltered ? (
+            <p className="text-[var(--color-text-muted)]">No journeys match</p>
+          ) : (
+            <>
+              <p className="text-[var(--color-text-muted)] mb-2">No saved journeys yet</p>
+              <p className="text-sm text-[var(--color-text-muted)]">
+                Generate a journey or import a {JOURNEY_FILE_EXTENSION} file to save it here
+              </p>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+          {journeys.map((savedJourney) => (
+            <div
+              key={savedJourney.id}
+              className="bg-[var(--color-surface-light)] rounded-xl p-3 sm:p-4 border border-transparent hover:border-[var(--color-primary)]/50 transition-colors relative group overflow-hidden"
+            >
+              <button
+                onClick={() => onSelect(savedJourney)}
+                className="w-full text-left"
+              >
+                <div className="flex items-start justify-between mb-1">
+                  <h3 className="font-medium text-[var(--color-text)] pr-16 truncate">
+                    {savedJourney.journey.name}
+                  </h3>
+                </div>
+                <p className="text-xs text-[var(--color-text-muted)] mb-3 line-clamp-2">
+                  {savedJourney.journey.description || 'A therapeutic vibroacoustic journey'}
+                </p>
+                <div className="flex items-center gap-3 text-xs text-[var(--color-text-muted)]">
+                  <span className="flex items-center gap-1">
+                    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <circle cx="12" cy="12" r="10" />
+                      <polyline points="12 6 12 12 16 14" />
+                    </svg>
+                    {savedJourney.journey.duration_minutes} min
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M9 18V5l12-2v13" />
+                      <circle cx="6" cy="18" r="3" />
+                      <circle cx="18" cy="16" r="3" />
+                    </svg>
+                    {savedJourney.journey.phases.length} stages
+                  </span>
+                </div>
+                <div className="mt-2 text-xs text-[var(--color-text-muted)]">
+                  Saved {new Date(savedJourney.createdAt).toLocaleDateString()}
+                  {savedJourney.lastPlayedAt && ` • Played ${new Date(savedJourney.lastPlayedAt).toLocaleDateString()}`}
+                </div>
+              </button>
+
+              <div className="mt-2 flex items-center gap-2 flex-wrap">
+                <select
+                  value={savedJourney.folderId || ''}
+                  onChange={(e) => handleMoveToFolder(savedJourney, e.target.value)}
+                  className="bg-[var(--color-surface)] border border-white/10 rounded-md px-1.5 py-0.5 text-xs text-[var(--color-text-muted)]"
+                  title="Folder"
+                >
+                  <option value="">No folder</option>
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </option>
+                  ))}
+                </select>
+                {savedJourney.tags.map((tag) => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full bg-white/5 text-xs text-[var(--color-text-muted)]">
+                    #{tag}
+                  </span>
+                ))}
+                <button
+                  onClick={(e) => handleEditTags(e, savedJourney)}
+                  className="text-xs text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
+                >
+                  {savedJourney.tags.length > 0 ? 'Edit tags' : '+ Tags'}
+                </button>
+              </div>
+
+              <button
+                onClick={(e) => handleExportOne(e, savedJourney)}
+                disabled={isTransferring}
+                className="absolute top-2 right-10 p-1.5 rounded-lg hover:bg-white/10 text-[var(--color-text-muted)] hover:text-[var(--color-text)] opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Export"
+              >
+                <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                  <polyline points="17 8 12 3 7 8" />
+                  <line x1="12" y1="3" x2="12" y2="15" />
+                </svg>
+              </button>
+              <button
+                onClick={(e) => handleDelete(e, savedJourney.id)}
+                className="absolute top-2 right-2 p-1.5 rounded-lg hover:bg-[var(--color-error)]/20 text-[var(--color-text-muted)] hover:text-[var(--color-error)] opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete"
+              >
+                <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <polyline points="3 6 5 6 21 6" />
+                  <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,17 +5,22 @@
 import { useState, useEffect } from 'react';
 import { useJourneyStore } from '../../stores/journeyStore';
 import { presets, presetIndex } from '../../presets';
-import { getSavedJourneys, deleteSavedJourney, type SavedJourney } from '../../utils/journeyStorage';
+import { getSavedJourneys, type SavedJourney } from '../../utils/journeyStorage';
+import { JourneyLibrary } from './JourneyLibrary';
 
 export function PresetBrowser() {
   const { showPresetBrowser, setShowPresetBrowser, setJourney, setJourneyWithId } = useJourneyStore();
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [savedJourneys, setSavedJourneys] = useState<SavedJourney[]>([]);
+  const [savedCount, setSavedCount] = useState(0);
 
-  // Load saved journeys when modal opens
+  const refreshSavedCount = () => {
+    void getSavedJourneys().then((saved) => setSavedCount(saved.length));
+  };
+
+  // Count saved journeys when modal opens
   useEffect(() => {
     if (showPresetBrowser) {
-      setSavedJourneys(getSavedJourneys());
+      refreshSavedCount();
     }
   }, [showPresetBrowser]);
 
@@ -34,14 +39,6 @@ export function PresetBrowser() {
     setShowPresetBrowser(false);
   };
 
-  const handleDeleteSavedJourney = (e: React.MouseEvent, id: string) => {
-    e.stopPropagation();
-    if (confirm('Delete this saved journey?')) {
-      deleteSavedJourney(id);
-      setSavedJourneys(getSavedJourneys());
-    }
-  };
-
   const handleClose = () => {
     setShowPresetBrowser(false);
   };
@@ -107,8 +104,8 @@ export function PresetBrowser() {
               <span className="mr-1 sm:mr-2">💾</span>
               <span className="hidden sm:inline">My Journeys</span>
               <span className="sm:hidden">Saved</span>
-              {savedJourneys.length > 0 && (
-                <span className="ml-1 sm:ml-auto text-xs opacity-75">({savedJourneys.length})</span>
+              {savedCount > 0 && (
+                <span className="ml-1 sm:ml-auto text-xs opacity-75">({savedCount})</span>
               )}
             </button>
             {presetIndex.categories.map((category) => (
@@ -130,72 +127,7 @@ export function PresetBrowser() {
           {/* Presets grid */}
           <div className="flex-1 p-3 sm:p-6 overflow-y-auto min-h-0">
             {isShowingSaved ? (
-              savedJourneys.length === 0 ? (
-                <div className="flex flex-col items-center justify-center h-full text-center">
-                  <svg className="w-16 h-16 text-[var(--color-text-muted)] mb-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
-                    <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
-                    <polyline points="17 21 17 13 7 13 7 21" />
-                    <polyline points="7 3 7 8 15 8" />
-                  </svg>
-                  <p className="text-[var(--color-text-muted)] mb-2">No saved journeys yet</p>
-                  <p className="text-sm text-[var(--color-text-muted)]">
-                    Generate a journey to save it here
-                  </p>
-                </div>
-              ) : (
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-                  {savedJourneys.map((savedJourney) => (
-                    <div
-                      key={savedJourney.id}
-                      className="bg-[var(--color-surface-light)] rounded-xl p-3 sm:p-4 border border-transparent hover:border-[var(--color-primary)]/50 transition-colors relative group overflow-hidden"
-                    >
-                      <button
-                        onClick={() => handleSavedJourneySelect(savedJourney)}
-                        className="w-full text-left"
-                      >
-                        <div className="flex items-start justify-between mb-1">
-                          <h3 className="font-medium text-[var(--color-text)] pr-8 truncate">
-                            {savedJourney.journey.name}
-                          </h3>
-                          <button
-                            onClick={(e) => handleDeleteSavedJourney(e, savedJourney.id)}
-                            className="absolute top-2 right-2 p-1.5 rounded-lg hover:bg-[var(--color-error)]/20 text-[var(--color-text-muted)] hover:text-[var(--color-error)] opacity-0 group-hover:opacity-100 transition-opacity"
-                            title="Delete"
-                          >
-                            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <polyline points="3 6 5 6 21 6" />
-                              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            </svg>
-                          </button>
-                        </div>
-                        <p className="text-xs text-[var(--color-text-muted)] mb-3 line-clamp-2">
-                          {savedJourney.journey.description || 'A therapeutic vibroacoustic journey'}
-                        </p>
-                        <div className="flex items-center gap-3 text-xs text-[var(--color-text-muted)]">
-                          <span className="flex items-center gap-1">
-                            <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <circle cx="12" cy="12" r="10" />
-                              <polyline points="12 6 12 12 16 14" />
-                            </svg>
-                            {savedJourney.journey.duration_minutes} min
-                          </span>
-                          <span className="flex items-center gap-1">
-                            <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                              <path d="M9 18V5l12-2v13" />
-                              <circle cx="6" cy="18" r="3" />
-                              <circle cx="18" cy="16" r="3" />
-                            </svg>
-                            {savedJourney.journey.phases.length} stages
-                          </span>
-                        </div>
-                        <div className="mt-2 text-xs text-[var(--color-text-muted)]">
-                          Saved {new Date(savedJourney.createdAt).toLocaleDateString()}
-                        </div>
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              )
+              <JourneyLibrary onSelect={handleSavedJourneySelect} onChange={refreshSavedCount} />
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                 {filteredPresets.map(({ id, preset }) => (
@@ -0,0 +1,298 @@
+/**
+ * SessionView - Full-screen session with on-screen visual entrainment for listeners without a Nova
+ * Plays the journey behind a soft colour flicker (Nova pattern timing) or a breathing animation,
+ * after a photosensitivity warning, with a brightness cap and flash-rate limit.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useJourneyStore } from '../../stores/journeyStore';
+import { synthEngine } from '../../audio/SynthEngine';
+import {
+  DEFAULT_VISUAL_SETTINGS,
+  VISUAL_BRIGHTNESS_CAP,
+  VISUAL_FLICKER_LIMITS,
+  breathAt,
+  createVisualFlickerScheduler,
+  flashBrightness,
+  getBreathCycleSeconds,
+  getPhasePattern,
+  limitPattern,
+  type VisualMode,
+  type VisualSessionSettings,
+} from '../../audio/VisualEntrainment';
+import { getBrainwaveBand, type BrainwaveBand } from '../../audio/SpectrumAnalysis';
+
+const BAND_HUES: Record<BrainwaveBand, number> = {
+  delta: 250,
+  theta: 210,
+  alpha: 160,
+  beta: 45,
+  gamma: 20,
+};
+
+const MODES: { value: VisualMode; label: string; description: string }[] = [
+  { value: 'breathing', label: 'Breathing', description: 'Slow glow that follows the breath - no flicker' },
+  { value: 'flicker', label: 'Flicker', description: 'Soft colour flashes at the phase entrainment rate' },
+];
+
+export function SessionView() {
+  const {
+    journey,
+    isPlaying,
+    currentPhaseIndex,
+    showSessionView,
+    setShowSessionView,
+    play,
+    pause,
+  } = useJourneyStore();
+
+  const [settings, setSettings] = useState<VisualSessionSettings>(DEFAULT_VISUAL_SETTINGS);
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [inhaling, setInhaling] = useState(true);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const glowRef = useRef<HTMLDivElement>(null);
+  const guideRef = useRef<HTMLDivElement>(null);
+  const schedulerRef = useRef(createVisualFlickerScheduler());
+  const lastFlashRef = useRef(-Infinity);
+
+  const phase = journey.phases[currentPhaseIndex] ?? journey.phases[0];
+  const flickerHz = phase ? limitPattern(getPhasePattern(phase), settings.maxFlickerHz).baseFrequency : 0;
+  const flickerEnabled = settings.mode === 'flicker' && phase?.nova_enabled !== false && flickerHz > 0;
+  const hue = BAND_HUES[getBrainwaveBand(flickerHz)];
+
+  const handleStart = () => {
+    containerRef.current?.requestFullscreen?.().catch(() => {
+      // Full screen is optional (denied, or unsupported on iOS); the view already covers the window
+    });
+    synthEngine.init();
+    if (!isPlaying) play();
+    setIsRunning(true);
+  };
+
+  const handleExit = useCallback(() => {
+    setIsRunning(false);
+    setAcknowledged(false);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    setShowSessionView(false);
+  }, [setShowSessionView]);
+
+  // Escape leaves the session
+  useEffect(() => {
+    if (!showSessionView) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleExit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showSessionView, handleExit]);
+
+  // Flash scheduling, restarted for each phase
+  useEffect(() => {
+    if (!isRunning || !isPlaying || !flickerEnabled || !phase) return;
+
+    const phaseStart = journey.phases.slice(0, currentPhaseIndex).reduce((sum, p) => sum + p.duration * 60, 0);
+    const durationMs = phase.duration * 60000;
+    const elapsedMs = (useJourneyStore.getState().currentTime - phaseStart) * 1000;
+    const progress = Math.max(0, Math.min(1, elapsedMs / durationMs));
+
+    const scheduler = schedulerRef.current;
+    scheduler.start(getPhasePattern(phase, progress), Math.max(1, durationMs - elapsedMs), settings.maxFlickerHz);
+
+    let timeout: ReturnType<typeof setTimeout>;
+    const step = () => {
+      const now = performance.now();
+      const { interval, flash } = scheduler.next(now);
+      if (flash) lastFlashRef.current = now;
+      timeout = setTimeout(step, interval);
+    };
+    step();
+
+    return () => {
+      clearTimeout(timeout);
+      scheduler.stop();
+    };
+  }, [isRunning, isPlaying, flickerEnabled, phase, journey.phases, currentPhaseIndex, settings.maxFlickerHz]);
+
+  // Animation: flash glow (or breathing glow) and the breathing guide
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const startedAt = performance.now();
+    const cycleSeconds = phase ? getBreathCycleSeconds(phase) : 12;
+    let wasInhaling = true;
+    let animationId: number;
+
+    const animate = () => {
+      const now = performance.now();
+      const breath = breathAt((now - startedAt) / 1000, cycleSeconds);
+
+      let opacity = 0;
+      if (isPlaying && flickerEnabled) {
+        opacity = flashBrightness(now - lastFlashRef.current, schedulerRef.current.getFlashInterval(), settings.brightness);
+      } else if (isPlaying && settings.mode === 'breathing') {
+        opacity = breath.level * settings.brightness * VISUAL_BRIGHTNESS_CAP * 0.5;
+      }
+
+      if (glowRef.current) glowRef.current.style.opacity = opacity.toFixed(3);
+      if (guideRef.current) guideRef.current.style.transform = `scale(${0.4 + 0.6 * breath.level})`;
+      if (breath.inhaling !== wasInhaling) {
+        wasInhaling = breath.inhaling;
+        setInhaling(breath.inhaling);
+      }
+
+      animationId = requestAnimationFrame(animate);
+    };
+    animationId = requestAnimationFrame(animate);
+
+    return () => cancelAnimationFrame(animationId);
+  }, [isRunning, isPlaying, flickerEnabled, phase, settings.mode, settings.brightness]);
+
+  if (!showSessionView) return null;
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-50 bg-black flex items-center justify-center">
+      {isRunning ? (
+        <>
+          <div
+            ref={glowRef}
+            className="absolute inset-0 pointer-events-none"
+            style={{ backgroundColor: `hsl(${hue}, 70%, 55%)`, opacity: 0 }}
+          />
+
+          <div className="relative flex flex-col items-center gap-8 text-center select-none">
+            <div className="text-sm uppercase tracking-widest text-white/50">{phase?.name}</div>
+            <div className="relative w-64 h-64 flex items-center justify-center">
+              <div
+                ref={guideRef}
+                className="absolute inset-0 rounded-full border-2 border-white/40"
+                style={{ transform: 'scale(0.4)' }}
+              />
+              <span className="text-xl text-white/80">{inhaling ? 'Breathe in' : 'Breathe out'}</span>
+            </div>
+            <div className="text-xs text-white/40">
+              {flickerEnabled ? `Flicker ${flickerHz.toFixed(1)} Hz` : 'No flicker'}
+              {!isPlaying && ' - paused'}
+            </div>
+          </div>
+
+          <div className="absolute top-4 right-4 flex items-center gap-2">
+            <button
+              onClick={() => (isPlaying ? pause() : play())}
+              className="px-3 py-1.5 rounded-lg text-sm text-white/70 bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              {isPlaying ? 'Pause' : 'Resume'}
+            </button>
+            <button
+              onClick={handleExit}
+              className="px-3 py-1.5 rounded-lg text-sm text-white/70 bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              Exit (Esc)
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="relative bg-[var(--color-surface)] rounded-2xl w-full max-w-lg m-4 p-6 space-y-5 border border-white/10">
+          <h2 className="text-xl font-semibold text-[var(--color-text)]">Start Session</h2>
+
+          <div className="p-4 rounded-xl border border-[var(--color-warning)]/40 bg-[var(--color-warning)]/10 text-sm text-[var(--color-text)] space-y-2">
+            <p className="font-medium text-[var(--color-warning)]">Photosensitivity warning</p>
+            <p>
+              Flickering light can trigger seizures in people with photosensitive epilepsy, including people
+              with no history of seizures. Do not use flicker if you have epilepsy, a history of seizures or
+              light-triggered migraines.
+            </p>
+            <p>
+              Stop at once and close your eyes if you feel dizzy, disoriented or nauseous, or notice twitching
+              or altered vision. Use flicker with eyes closed, in a lit room, away from the screen.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {MODES.map((mode) => (
+              <button
+                key={mode.value}
+                onClick={() => setSettings({ ...settings, mode: mode.value })}
+                className={`p-3 rounded-xl text-left border transition-colors ${
+                  settings.mode === mode.value
+                    ? 'border-[var(--color-primary)] bg-[var(--color-primary)]/10'
+                    : 'border-white/10 hover:border-white/20'
+                }`}
+              >
+                <div className="text-sm font-medium text-[var(--color-text)]">{mode.label}</div>
+                <div className="text-xs text-[var(--color-text-muted)]">{mode.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {settings.mode === 'flicker' && (
+            <div className="space-y-3">
+              <label className="flex items-center justify-between text-sm text-[var(--color-text-muted)]">
+                Maximum flash rate
+                <select
+                  value={settings.maxFlickerHz}
+                  onChange={(e) => setSettings({ ...settings, maxFlickerHz: Number(e.target.value) })}
+                  className="bg-[var(--color-surface-light)] border border-white/10 rounded-lg px-2 py-1 text-[var(--color-text)]"
+                >
+                  {VISUAL_FLICKER_LIMITS.map((hz) => (
+                    <option key={hz} value={hz}>
+                      {hz} Hz{hz === DEFAULT_VISUAL_SETTINGS.maxFlickerHz ? ' (safest)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-xs text-[var(--color-text-muted)]">
+                Faster phases are slowed to this rate. Flicker never exceeds {VISUAL_FLICKER_LIMITS.at(-1)} Hz.
+              </p>
+            </div>
+          )}
+
+          <label className="flex items-center justify-between gap-4 text-sm text-[var(--color-text-muted)]">
+            Brightness
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={settings.brightness}
+              onChange={(e) => setSettings({ ...settings, brightness: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-[var(--color-text)]">{Math.round(settings.brightness * 100)}%</span>
+          </label>
+
+          {settings.mode === 'flicker' && (
+            <label className="flex items-start gap-2 text-sm text-[var(--color-text)]">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+                className="mt-1"
+              />
+              I have read the warning and no one watching is at risk of photosensitive seizures
+            </label>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={handleExit}
+              className="px-4 py-2 rounded-lg text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleStart}
+              disabled={settings.mode === 'flicker' && !acknowledged}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Start Session
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 /**
- * Timeline component - Canvas-based journey visualization with playhead
+ * Timeline component - Canvas-based journey editor with playhead
+ * Drag stage edges to change duration, drag the selected stage's frequency and intensity
+ * handles, and double-click a curve to add a breakpoint.
  */
 
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect, useCallback, useState } from 'react';
 import { useJourneyStore } from '../../stores/journeyStore';
+import { automationValueAt, getAutomationPoints } from '../../audio/Envelope';
+import type { CurveShape, PhaseConfig } from '../../types/journey';
 
 const COLORS = {
   background: '#1e1e2e',
@@ -15,11 +19,152 @@ const COLORS = {
   playhead: '#22d3ee',
   frequency: '#22c55e',
   amplitude: '#f59e0b',
+  handle: '#ffffff',
 };
 
+const PADDING = { top: 30, right: 20, bottom: 40, left: 60 };
+// Frequency axis: the range generated journeys use, widened to fit the journey (the schema allows 1-1000 Hz)
+const FREQ_AXIS_MIN = 20;
+const FREQ_AXIS_MAX = 120;
+const FREQ_LIMIT_MIN = 1;
+const FREQ_LIMIT_MAX = 1000;
+const HIT_RADIUS = 8;
+const MIN_PHASE_MINUTES = 1;
+const MIN_POINT_GAP = 0.01; // Closest two breakpoints may get (fraction of the stage)
+
+const CURVE_SHAPES: { value: CurveShape; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 's_curve', label: 'S-curve' },
+];
+
+type Lane = 'frequency' | 'amplitude';
+type CurveRange = PhaseConfig[Lane];
+
+// A point on a stage's curve: index 0 is the start, the last index is the end
+interface CurvePoint {
+  phaseIndex: number;
+  lane: Lane;
+  index: number;
+}
+
+interface FrequencyAxis {
+  min: number;
+  max: number;
+}
+
+type DragState =
+  | { kind: 'point'; point: CurvePoint; frequencyAxis: FrequencyAxis }
+  | { kind: 'edge'; phaseIndex: number; phaseStart: number; viewDuration: number };
+
+interface Layout {
+  width: number;
+  height: number;
+  graphWidth: number;
+  graphHeight: number;
+  frequencyAxis: FrequencyAxis;
+}
+
+function getLayout(width: number, height: number, frequencyAxis: FrequencyAxis): Layout {
+  return {
+    width,
+    height,
+    graphWidth: width - PADDING.left - PADDING.right,
+    graphHeight: height - PADDING.top - PADDING.bottom,
+    frequencyAxis,
+  };
+}
+
+/**
+ * Frequency axis that shows every frequency in the journey, so no value sits off the chart
+ */
+function getFrequencyAxis(phases: PhaseConfig[]): FrequencyAxis {
+  const values = phases.flatMap((phase) => getAutomationPoints(phase.frequency).map((point) => point.value));
+  return {
+    min: Math.max(FREQ_LIMIT_MIN, Math.floor(Math.min(FREQ_AXIS_MIN, ...values))),
+    max: Math.min(FREQ_LIMIT_MAX, Math.ceil(Math.max(FREQ_AXIS_MAX, ...values))),
+  };
+}
+
+function valueToY(lane: Lane, value: number, layout: Layout): number {
+  const { min, max } = layout.frequencyAxis;
+  const normalized = lane === 'frequency'
+    ? (value - min) / (max - min)
+    : value * 0.8;
+  return PADDING.top + layout.graphHeight - normalized * layout.graphHeight;
+}
+
+function yToValue(lane: Lane, y: number, layout: Layout): number {
+  const normalized = (PADDING.top + layout.graphHeight - y) / layout.graphHeight;
+  if (lane === 'frequency') {
+    const { min, max } = layout.frequencyAxis;
+    return Math.round(Math.min(max, Math.max(min, min + normalized * (max - min))));
+  }
+  return Math.round(Math.min(1, Math.max(0, normalized / 0.8)) * 100) / 100;
+}
+
+/**
+ * Start time of every phase in seconds, followed by the journey end
+ */
+function getPhaseStarts(phases: PhaseConfig[]): number[] {
+  const starts = [0];
+  for (const phase of phases) starts.push(starts[starts.length - 1] + phase.duration * 60);
+  return starts;
+}
+
+/**
+ * Curve range with its breakpoints replaced (sorted, and dropped when empty)
+ */
+function withBreakpoints(range: CurveRange, breakpoints: NonNullable<CurveRange['breakpoints']>): CurveRange {
+  return { ...range, breakpoints: breakpoints.length > 0 ? breakpoints : undefined };
+}
+
+function movePoint(range: CurveRange, index: number, value: number, position?: number): CurveRange {
+  const points = getAutomationPoints(range);
+  if (index === 0) return { ...range, start: value };
+  if (index === points.length - 1) return { ...range, end: value };
+
+  const breakpoints = points.slice(1, -1);
+  breakpoints[index - 1] = { ...breakpoints[index - 1], value, position: position ?? breakpoints[index - 1].position };
+  return withBreakpoints(range, breakpoints);
+}
+
+function setPointCurve(range: CurveRange, index: number, curve: CurveShape): CurveRange {
+  const points = getAutomationPoints(range);
+  if (index === points.length - 1) return { ...range, curve };
+
+  const breakpoints = points.slice(1, -1);
+  breakpoints[index - 1] = { ...breakpoints[index - 1], curve };
+  return withBreakpoints(range, breakpoints);
+}
+
+function removePoint(range: CurveRange, index: number): CurveRange {
+  const breakpoints = getAutomationPoints(range).slice(1, -1);
+  breakpoints.splice(index - 1, 1);
+  return withBreakpoints(range, breakpoints);
+}
+
+/**
+ * Add a breakpoint on the existing curve, so the sound does not change until it is dragged
+ */
+function addPoint(range: CurveRange, position: number, lane: Lane): { range: CurveRange; index: number } {
+  const points = getAutomationPoints(range);
+  const index = points.findIndex((point) => point.position > position);
+  const value = automationValueAt(range, position);
+  const breakpoints = points.slice(1, -1);
+  breakpoints.splice(index - 1, 0, {
+    position: Math.round(position * 1000) / 1000,
+    value: lane === 'frequency' ? Math.round(value * 10) / 10 : Math.round(value * 100) / 100,
+    curve: points[index].curve,
+  });
+  return { range: withBreakpoints(range, breakpoints), index };
+}
+
 export function Timeline() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [activePoint, setActivePoint] = useState<CurvePoint | null>(null);
 
   const {
     journey,
@@ -27,11 +172,33 @@ export function Timeline() {
     currentTime,
     isPlaying,
     selectPhase,
+    updatePhase,
     seek,
   } = useJourneyStore();
 
   const totalDuration = journey.duration_minutes * 60;
 
+  // The active point belongs to the selected stage and may vanish on undo
+  const selectedPhase = journey.phases[selectedPhaseIndex];
+  const active = activePoint
+    && activePoint.phaseIndex === selectedPhaseIndex
+    && selectedPhase
+    && activePoint.index < getAutomationPoints(selectedPhase[activePoint.lane]).length
+    ? activePoint
+    : null;
+
+  // While an edge is dragged the time scale stays put, so the edge tracks the pointer
+  const getViewDuration = useCallback(() => {
+    const drag = dragRef.current;
+    return drag?.kind === 'edge' ? drag.viewDuration : totalDuration;
+  }, [totalDuration]);
+
+  // Likewise the frequency scale while a point is dragged
+  const getFrequencyAxisInView = useCallback(() => {
+    const drag = dragRef.current;
+    return drag?.kind === 'point' ? drag.frequencyAxis : getFrequencyAxis(journey.phases);
+  }, [journey.phases]);
+
   // Draw the timeline
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -50,11 +217,10 @@ export function Timeline() {
     canvas.style.height = `${rect.height}px`;
     ctx.scale(dpr, dpr);
 
-    const width = rect.width;
-    const height = rect.height;
-    const padding = { top: 30, right: 20, bottom: 40, left: 60 };
-    const graphWidth = width - padding.left - padding.right;
-    const graphHeight = height - padding.top - padding.bottom;
+    const layout = getLayout(rect.width, rect.height, getFrequencyAxisInView());
+    const { width, height, graphWidth, graphHeight, frequencyAxis } = layout;
+    const padding = PADDING;
+    const viewDuration = getViewDuration();
 
     // Clear
     ctx.fillStyle = COLORS.background;
@@ -90,7 +256,7 @@ export function Timeline() {
       ctx.stroke();
 
       // Frequency labels
-      const freq = 90 - (i / freqSteps) * 62; // 28-90 Hz range
+      const freq = frequencyAxis.max - (i / freqSteps) * (frequencyAxis.max - frequencyAxis.min);
       ctx.fillStyle = COLORS.text;
       ctx.font = '11px system-ui';
       ctx.textAlign = 'right';
@@ -111,8 +277,8 @@ export function Timeline() {
     let elapsed = 0;
     journey.phases.forEach((phase, index) => {
       const phaseDuration = phase.duration * 60;
-      const startX = padding.left + (elapsed / totalDuration) * graphWidth;
-      const endX = padding.left + ((elapsed + phaseDuration) / totalDuration) * graphWidth;
+      const startX = padding.left + (elapsed / viewDuration) * graphWidth;
+      const endX = padding.left + ((elapsed + phaseDuration) / viewDuration) * graphWidth;
       const phaseWidth = endX - startX;
 
       // Phase background
@@ -144,38 +310,57 @@ export function Timeline() {
         ctx.fillText(displayName, nameX, padding.top - 10);
       }
 
-      // Frequency curve
-      const freqToY = (freq: number) => {
-        const normalized = (freq - 28) / 62; // 28-90 Hz range
-        return padding.top + graphHeight - normalized * graphHeight;
+      // Frequency and amplitude curves, sampled every couple of pixels
+      const steps = Math.max(2, Math.ceil(phaseWidth / 2));
+      const drawCurve = (lane: Lane) => {
+        ctx.beginPath();
+        for (let step = 0; step <= steps; step++) {
+          const x = startX + (step / steps) * phaseWidth;
+          const y = valueToY(lane, automationValueAt(phase[lane], step / steps), layout);
+          if (step === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
       };
 
       ctx.strokeStyle = COLORS.frequency;
       ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(startX, freqToY(phase.frequency.start));
-      ctx.lineTo(endX, freqToY(phase.frequency.end));
-      ctx.stroke();
+      drawCurve('frequency');
 
-      // Amplitude indicator (as line thickness variation)
       ctx.strokeStyle = COLORS.amplitude;
       ctx.lineWidth = 1;
       ctx.setLineDash([4, 4]);
-      const ampToY = (amp: number) => {
-        return padding.top + graphHeight - amp * graphHeight * 0.8;
-      };
-      ctx.beginPath();
-      ctx.moveTo(startX, ampToY(phase.amplitude.start));
-      ctx.lineTo(endX, ampToY(phase.amplitude.end));
-      ctx.stroke();
+      drawCurve('amplitude');
       ctx.setLineDash([]);
 
+      // Draggable handles on the selected stage
+      if (index === selectedPhaseIndex) {
+        (['frequency', 'amplitude'] as const).forEach((lane) => {
+          getAutomationPoints(phase[lane]).forEach((point, pointIndex) => {
+            const isActive = active?.lane === lane && active.index === pointIndex;
+            ctx.beginPath();
+            ctx.arc(
+              startX + point.position * phaseWidth,
+              valueToY(lane, point.value, layout),
+              isActive ? 6 : 4,
+              0,
+              Math.PI * 2
+            );
+            ctx.fillStyle = isActive ? COLORS.handle : COLORS[lane];
+            ctx.fill();
+            ctx.strokeStyle = COLORS.background;
+            ctx.lineWidth = 1.5;
+            ctx.stroke();
+          });
+        });
+      }
+
       elapsed += phaseDuration;
     });
 
     // Draw playhead
     if (currentTime > 0 || isPlaying) {
-      const playheadX = padding.left + (currentTime / totalDuration) * graphWidth;
+      const playheadX = padding.left + (currentTime / viewDuration) * graphWidth;
 
       // Playhead line
       ctx.strokeStyle = COLORS.playhead;
@@ -222,22 +407,59 @@ export function Timeline() {
     ctx.fillRect(legendX, legendY + 16, 10, 10);
     ctx.fillStyle = COLORS.text;
     ctx.fillText('Intensity', legendX + 14, legendY + 25);
-  }, [journey, selectedPhaseIndex, currentTime, isPlaying, totalDuration]);
+  }, [journey, selectedPhaseIndex, currentTime, isPlaying, active, getViewDuration, getFrequencyAxisInView]);
+
+  // Pointer position in canvas coordinates
+  const getPointer = useCallback((e: React.PointerEvent<HTMLCanvasElement> | React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+      layout: getLayout(rect.width, rect.height, getFrequencyAxisInView()),
+    };
+  }, [getFrequencyAxisInView]);
+
+  // Handle of the selected stage, or stage edge, under the pointer
+  const hitTest = useCallback(
+    (x: number, y: number, layout: Layout): DragState | null => {
+      const starts = getPhaseStarts(journey.phases);
+      const timeToX = (time: number) => PADDING.left + (time / totalDuration) * layout.graphWidth;
+
+      if (selectedPhase) {
+        const startX = timeToX(starts[selectedPhaseIndex]);
+        const phaseWidth = timeToX(starts[selectedPhaseIndex + 1]) - startX;
+        for (const lane of ['frequency', 'amplitude'] as const) {
+          const points = getAutomationPoints(selectedPhase[lane]);
+          for (let index = 0; index < points.length; index++) {
+            const dx = startX + points[index].position * phaseWidth - x;
+            const dy = valueToY(lane, points[index].value, layout) - y;
+            if (dx * dx + dy * dy <= HIT_RADIUS * HIT_RADIUS) {
+              return {
+                kind: 'point',
+                point: { phaseIndex: selectedPhaseIndex, lane, index },
+                frequencyAxis: layout.frequencyAxis,
+              };
+            }
+          }
+        }
+      }
+
+      if (y < PADDING.top || y > PADDING.top + layout.graphHeight) return null;
+      for (let i = 0; i < journey.phases.length; i++) {
+        if (Math.abs(timeToX(starts[i + 1]) - x) <= HIT_RADIUS / 2) {
+          return { kind: 'edge', phaseIndex: i, phaseStart: starts[i], viewDuration: totalDuration };
+        }
+      }
+      return null;
+    },
+    [journey.phases, selectedPhase, selectedPhaseIndex, totalDuration]
+  );
 
   // Handle click to select phase or seek
   const handleClick = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      const canvas = canvasRef.current;
-      const container = containerRef.current;
-      if (!canvas || !container) return;
-
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const padding = { left: 60, right: 20 };
-      const graphWidth = rect.width - padding.left - padding.right;
-
+    (x: number, layout: Layout) => {
       // Calculate clicked time
-      const clickedTime = ((x - padding.left) / graphWidth) * totalDuration;
+      const clickedTime = ((x - PADDING.left) / layout.graphWidth) * totalDuration;
 
       if (clickedTime >= 0 && clickedTime <= totalDuration) {
         // Seek to clicked position
@@ -258,6 +480,113 @@ export function Timeline() {
     [journey.phases, totalDuration, seek, selectPhase]
   );
 
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const { x, y, layout } = getPointer(e);
+      const hit = hitTest(x, y, layout);
+
+      if (!hit) {
+        handleClick(x, layout);
+        return;
+      }
+
+      dragRef.current = hit;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      if (hit.kind === 'point') setActivePoint(hit.point);
+    },
+    [getPointer, hitTest, handleClick]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const { x, y, layout } = getPointer(e);
+      const drag = dragRef.current;
+
+      if (!drag) {
+        const hover = hitTest(x, y, layout);
+        e.currentTarget.style.cursor = hover?.kind === 'edge' ? 'ew-resize' : hover ? 'grab' : 'pointer';
+        return;
+      }
+
+      if (drag.kind === 'edge') {
+        const time = ((x - PADDING.left) / layout.graphWidth) * drag.viewDuration;
+        const duration = Math.max(MIN_PHASE_MINUTES, Math.round((time - drag.phaseStart) / 60));
+        if (duration !== journey.phases[drag.phaseIndex].duration) {
+          updatePhase(drag.phaseIndex, { duration });
+        }
+        return;
+      }
+
+      const { phaseIndex, lane, index } = drag.point;
+      const phase = journey.phases[phaseIndex];
+      const points = getAutomationPoints(phase[lane]);
+      const value = yToValue(lane, y, layout);
+
+      // Breakpoints also move in time, but never past their neighbours
+      let position: number | undefined;
+      if (index > 0 && index < points.length - 1) {
+        const starts = getPhaseStarts(journey.phases);
+        const startX = PADDING.left + (starts[phaseIndex] / totalDuration) * layout.graphWidth;
+        const phaseWidth = ((phase.duration * 60) / totalDuration) * layout.graphWidth;
+        position = Math.min(
+          points[index + 1].position - MIN_POINT_GAP,
+          Math.max(points[index - 1].position + MIN_POINT_GAP, (x - startX) / phaseWidth)
+        );
+        position = Math.round(position * 1000) / 1000;
+      }
+
+      if (value !== points[index].value || (position !== undefined && position !== points[index].position)) {
+        updatePhase(phaseIndex, { [lane]: movePoint(phase[lane], index, value, position) });
+      }
+    },
+    [getPointer, hitTest, journey.phases, totalDuration, updatePhase]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!dragRef.current) return;
+      dragRef.current = null;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+      draw();
+    },
+    [draw]
+  );
+
+  // Double-click a curve of the selected stage to add a breakpoint, or a breakpoint to remove it
+  const handleDoubleClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!selectedPhase) return;
+      const { x, y, layout } = getPointer(e);
+      const hit = hitTest(x, y, layout);
+
+      if (hit?.kind === 'point') {
+        const { lane, index } = hit.point;
+        if (index > 0 && index < getAutomationPoints(selectedPhase[lane]).length - 1) {
+          updatePhase(selectedPhaseIndex, { [lane]: removePoint(selectedPhase[lane], index) });
+          setActivePoint(null);
+        }
+        return;
+      }
+
+      const starts = getPhaseStarts(journey.phases);
+      const startX = PADDING.left + (starts[selectedPhaseIndex] / totalDuration) * layout.graphWidth;
+      const phaseWidth = ((selectedPhase.duration * 60) / totalDuration) * layout.graphWidth;
+      const position = (x - startX) / phaseWidth;
+      if (position <= MIN_POINT_GAP || position >= 1 - MIN_POINT_GAP) return;
+
+      // Nearest curve to the pointer, if it is close enough
+      const distance = (lane: Lane) =>
+        Math.abs(valueToY(lane, automationValueAt(selectedPhase[lane], position), layout) - y);
+      const lane: Lane = distance('frequency') <= distance('amplitude') ? 'frequency' : 'amplitude';
+      if (distance(lane) > HIT_RADIUS * 2) return;
+
+      const added = addPoint(selectedPhase[lane], position, lane);
+      updatePhase(selectedPhaseIndex, { [lane]: added.range });
+      setActivePoint({ phaseIndex: selectedPhaseIndex, lane, index: added.index });
+    },
+    [getPointer, hitTest, journey.phases, selectedPhase, selectedPhaseIndex, totalDuration, updatePhase]
+  );
+
   // Redraw on changes
   useEffect(() => {
     draw();
@@ -284,16 +613,69 @@ export function Timeline() {
     return () => cancelAnimationFrame(animationId);
   }, [isPlaying, draw]);
 
+  const activeRange = active && selectedPhase ? selectedPhase[active.lane] : null;
+  const activePoints = activeRange ? getAutomationPoints(activeRange) : [];
+  const isBreakpoint = active !== null && active.index > 0 && active.index < activePoints.length - 1;
+
   return (
-    <div
-      ref={containerRef}
-      className="w-full h-64 rounded-lg overflow-hidden border border-white/10"
-    >
-      <canvas
-        ref={canvasRef}
-        onClick={handleClick}
-        className="cursor-pointer"
-      />
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="w-full h-64 rounded-lg overflow-hidden border border-white/10"
+      >
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={handleDoubleClick}
+          className="cursor-pointer touch-none"
+        />
+      </div>
+
+      {/* Curve shape of the segment leading into the active point */}
+      <div className="flex items-center gap-2 flex-wrap min-h-8 text-xs text-[var(--color-text-muted)]">
+        {active && activeRange && active.index > 0 ? (
+          <>
+            <span>
+              {active.lane === 'frequency' ? 'Frequency' : 'Intensity'} curve into{' '}
+              {active.index === activePoints.length - 1 ? 'end' : `point ${active.index}`}:
+            </span>
+            {CURVE_SHAPES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => updatePhase(selectedPhaseIndex, {
+                  [active.lane]: setPointCurve(activeRange, active.index, value),
+                })}
+                className={`px-2 py-1 rounded-md transition-colors ${
+                  (activePoints[active.index].curve || 'linear') === value
+                    ? 'bg-[var(--color-primary)] text-white'
+                    : 'bg-white/5 hover:bg-white/10 text-[var(--color-text)]'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            {isBreakpoint && (
+              <button
+                onClick={() => {
+                  updatePhase(selectedPhaseIndex, { [active.lane]: removePoint(activeRange, active.index) });
+                  setActivePoint(null);
+                }}
+                className="px-2 py-1 rounded-md text-[var(--color-error)] hover:bg-white/5 transition-colors"
+              >
+                Remove point
+              </button>
+            )}
+          </>
+        ) : (
+          <span>
+            Drag stage edges to change length, drag the handles to shape frequency and intensity,
+            double-click a curve to add a point
+          </span>
+        )}
+      </div>
     </div>
   );
 }
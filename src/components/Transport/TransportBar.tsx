@@ -16,6 +16,7 @@ export function TransportBar() {
     stop,
     seek,
     setShowExportDialog,
+    setShowSessionView,
   } = useJourneyStore();
 
   const totalDuration = journey.duration_minutes * 60;
@@ -117,6 +118,21 @@ export function TransportBar() {
         )}
       </div>
 
+      {/* Session button */}
+      <button
+        onClick={() => setShowSessionView(true)}
+        className="px-4 py-2 rounded-lg bg-[var(--color-surface-light)] hover:bg-[var(--color-primary)] text-[var(--color-text)] text-sm font-medium transition-colors flex items-center gap-2"
+        title="Full-screen session with visual entrainment"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M8 3H5a2 2 0 0 0-2 2v3" />
+          <path d="M21 8V5a2 2 0 0 0-2-2h-3" />
+          <path d="M3 16v3a2 2 0 0 0 2 2h3" />
+          <path d="M16 21h3a2 2 0 0 0 2-2v-3" />
+        </svg>
+        Session
+      </button>
+
       {/* Export button */}
       <button
         onClick={() => setShowExportDialog(true)}
@@ -0,0 +1,356 @@
+/**
+ * Visualizer - Live sub-bass spectrum, spectrogram, goniometer and entrainment readout
+ * Lets practitioners confirm by eye what is being delivered during a session.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useJourneyStore } from '../../stores/journeyStore';
+import { synthEngine, type EntrainmentState } from '../../audio/SynthEngine';
+import { novaController } from '../../audio/NovaController';
+import {
+  SUB_BASS_BAND,
+  binSpectrum,
+  findPeakFrequency,
+  frequencyToPosition,
+  getBrainwaveBand,
+  stereoCorrelation,
+} from '../../audio/SpectrumAnalysis';
+
+const COLORS = {
+  background: '#1e1e2e',
+  grid: '#2a2a3e',
+  text: '#a1a1aa',
+  band: 'rgba(99, 102, 241, 0.15)',
+  spectrum: '#22c55e',
+  goniometer: '#22d3ee',
+  flash: '#f59e0b',
+};
+
+const GRID_FREQUENCIES = [10, 20, 40, 80, 160, 320, 640];
+const MIN_DB = -100;
+const MAX_DB = 0;
+
+// Nova flash strip shows the last two seconds
+const FLASH_WINDOW_MS = 2000;
+
+// Text readouts refresh at 4 Hz; the canvases redraw every frame
+const READOUT_INTERVAL_MS = 250;
+
+interface Readout {
+  entrainment: EntrainmentState;
+  levels: { rms: number; peak: number };
+  correlation: number;
+  peakFrequency: number | null;
+  novaFrequency: number | null;
+  novaMeasured: number | null;
+}
+
+const ENTRAINMENT_LABELS: { key: keyof EntrainmentState; label: string }[] = [
+  { key: 'rhythmRate', label: 'Rhythm' },
+  { key: 'binauralBeat', label: 'Binaural' },
+  { key: 'monauralBeat', label: 'Monaural' },
+  { key: 'isochronicRate', label: 'Isochronic' },
+];
+
+/**
+ * Match a canvas backing store to its displayed size; returns the 2D context in CSS pixels
+ */
+function fitCanvas(canvas: HTMLCanvasElement): CanvasRenderingContext2D | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const dpr = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * dpr);
+  const height = Math.round(canvas.clientHeight * dpr);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  return ctx;
+}
+
+function dbToLevel(db: number): number {
+  return Math.max(0, Math.min(1, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+}
+
+function heatColor(db: number): string {
+  const level = dbToLevel(db);
+  return `hsl(${260 - 220 * level}, 80%, ${8 + 52 * level}%)`;
+}
+
+function formatDbfs(value: number): string {
+  return value > 0 ? `${(20 * Math.log10(value)).toFixed(1)} dBFS` : '-∞ dBFS';
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? 'off' : `${rate.toFixed(2)} Hz · ${getBrainwaveBand(rate)}`;
+}
+
+/**
+ * Flash rate (Hz) from the median interval of recent Nova flashes
+ */
+function measureFlashRate(flashTimes: number[], now: number): number | null {
+  const recent = flashTimes.filter((time) => now - time < FLASH_WINDOW_MS);
+  if (recent.length < 3) return null;
+  const intervals = recent.slice(1).map((time, i) => time - recent[i]).sort((a, b) => a - b);
+  const median = intervals[Math.floor(intervals.length / 2)];
+  return median > 0 ? 1000 / median : null;
+}
+
+function drawSpectrum(canvas: HTMLCanvasElement, columns: Float32Array | null, peakFrequency: number | null) {
+  const ctx = fitCanvas(canvas);
+  if (!ctx) return;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  const x = (frequency: number) => frequencyToPosition(frequency) * width;
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = COLORS.band;
+  ctx.fillRect(x(SUB_BASS_BAND.minHz), 0, x(SUB_BASS_BAND.maxHz) - x(SUB_BASS_BAND.minHz), height);
+
+  ctx.strokeStyle = COLORS.grid;
+  ctx.fillStyle = COLORS.text;
+  ctx.font = '10px system-ui';
+  ctx.textAlign = 'center';
+  for (const frequency of GRID_FREQUENCIES) {
+    ctx.beginPath();
+    ctx.moveTo(x(frequency), 0);
+    ctx.lineTo(x(frequency), height - 14);
+    ctx.stroke();
+    ctx.fillText(`${frequency}`, x(frequency), height - 3);
+  }
+
+  if (columns) {
+    ctx.strokeStyle = COLORS.spectrum;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    columns.forEach((db, column) => {
+      const y = (height - 14) * (1 - dbToLevel(db));
+      if (column === 0) ctx.moveTo(0, y);
+      else ctx.lineTo((column / columns.length) * width, y);
+    });
+    ctx.stroke();
+  }
+
+  if (peakFrequency !== null) {
+    ctx.fillStyle = COLORS.spectrum;
+    ctx.textAlign = 'left';
+    ctx.fillText(`Sub-bass peak ${peakFrequency.toFixed(1)} Hz`, 6, 12);
+  }
+}
+
+/**
+ * Scroll the spectrogram left by one pixel and paint the newest column (low frequencies at the bottom)
+ */
+function drawSpectrogramColumn(canvas: HTMLCanvasElement, rows: Float32Array) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  if (canvas.width !== canvas.clientWidth || canvas.height !== rows.length) {
+    canvas.width = canvas.clientWidth;
+    canvas.height = rows.length;
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.drawImage(canvas, -1, 0);
+  rows.forEach((db, row) => {
+    ctx.fillStyle = heatColor(db);
+    ctx.fillRect(canvas.width - 1, rows.length - 1 - row, 1, 1);
+  });
+}
+
+/**
+ * Mid/side scatter of the stereo signal: mono is vertical, out-of-phase horizontal
+ */
+function drawGoniometer(canvas: HTMLCanvasElement, left: Float32Array | null, right: Float32Array | null) {
+  const ctx = fitCanvas(canvas);
+  if (!ctx) return;
+  const size = canvas.clientWidth;
+  const center = size / 2;
+  const radius = size * 0.45;
+
+  // Fade the previous frame so motion leaves a short trail
+  ctx.fillStyle = 'rgba(30, 30, 46, 0.35)';
+  ctx.fillRect(0, 0, size, size);
+
+  ctx.strokeStyle = COLORS.grid;
+  ctx.beginPath();
+  ctx.moveTo(center, center - radius);
+  ctx.lineTo(center, center + radius);
+  ctx.moveTo(center - radius, center);
+  ctx.lineTo(center + radius, center);
+  ctx.stroke();
+  ctx.fillStyle = COLORS.text;
+  ctx.font = '10px system-ui';
+  ctx.fillText('L', center - radius * 0.75, center - radius * 0.75);
+  ctx.fillText('R', center + radius * 0.7, center - radius * 0.75);
+
+  if (!left || !right) return;
+  ctx.fillStyle = COLORS.goniometer;
+  for (let i = 0; i < left.length; i += 2) {
+    const side = (right[i] - left[i]) * Math.SQRT1_2;
+    const mid = (left[i] + right[i]) * Math.SQRT1_2;
+    ctx.fillRect(center + side * radius, center - mid * radius, 1, 1);
+  }
+}
+
+function drawFlashes(canvas: HTMLCanvasElement, flashTimes: number[], now: number) {
+  const ctx = fitCanvas(canvas);
+  if (!ctx) return;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = COLORS.flash;
+  for (const time of flashTimes) {
+    const age = now - time;
+    if (age < 0 || age > FLASH_WINDOW_MS) continue;
+    ctx.fillRect(width - (age / FLASH_WINDOW_MS) * width, 0, 2, height);
+  }
+}
+
+export function Visualizer() {
+  const { isPlaying } = useJourneyStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [readout, setReadout] = useState<Readout | null>(null);
+
+  const spectrumRef = useRef<HTMLCanvasElement>(null);
+  const spectrogramRef = useRef<HTMLCanvasElement>(null);
+  const goniometerRef = useRef<HTMLCanvasElement>(null);
+  const flashRef = useRef<HTMLCanvasElement>(null);
+  const measurementRef = useRef({ correlation: 0, peakFrequency: null as number | null });
+
+  // Canvas loop
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let frequencyData: Float32Array<ArrayBuffer> | null = null;
+    let leftData: Float32Array<ArrayBuffer> | null = null;
+    let rightData: Float32Array<ArrayBuffer> | null = null;
+    let animationId: number;
+
+    const animate = () => {
+      const analysers = isPlaying ? synthEngine.getVisualizerAnalysers() : null;
+      let columns: Float32Array | null = null;
+      let peakFrequency: number | null = null;
+
+      if (analysers) {
+        const { spectrum, left, right } = analysers;
+        const sampleRate = spectrum.context.sampleRate;
+        if (frequencyData?.length !== spectrum.frequencyBinCount) {
+          frequencyData = new Float32Array(spectrum.frequencyBinCount);
+          leftData = new Float32Array(left.fftSize);
+          rightData = new Float32Array(right.fftSize);
+        }
+        spectrum.getFloatFrequencyData(frequencyData);
+        left.getFloatTimeDomainData(leftData!);
+        right.getFloatTimeDomainData(rightData!);
+
+        const spectrumCanvas = spectrumRef.current;
+        if (spectrumCanvas) columns = binSpectrum(frequencyData, sampleRate, Math.max(1, spectrumCanvas.clientWidth));
+        const spectrogramCanvas = spectrogramRef.current;
+        if (spectrogramCanvas) {
+          drawSpectrogramColumn(
+            spectrogramCanvas,
+            binSpectrum(frequencyData, sampleRate, Math.max(1, spectrogramCanvas.clientHeight))
+          );
+        }
+
+        peakFrequency = findPeakFrequency(frequencyData, sampleRate, SUB_BASS_BAND.minHz, SUB_BASS_BAND.maxHz);
+        measurementRef.current = { correlation: stereoCorrelation(leftData!, rightData!), peakFrequency };
+      } else {
+        measurementRef.current = { correlation: 0, peakFrequency: null };
+      }
+
+      if (spectrumRef.current) drawSpectrum(spectrumRef.current, columns, peakFrequency);
+      if (goniometerRef.current) {
+        drawGoniometer(goniometerRef.current, analysers ? leftData : null, analysers ? rightData : null);
+      }
+      if (flashRef.current) drawFlashes(flashRef.current, novaController.getFlashTimes(), performance.now());
+
+      animationId = requestAnimationFrame(animate);
+    };
+    animationId = requestAnimationFrame(animate);
+
+    return () => cancelAnimationFrame(animationId);
+  }, [isOpen, isPlaying]);
+
+  // Text readouts
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const update = () => {
+      const nova = novaController.getState();
+      setReadout({
+        entrainment: synthEngine.getEntrainmentState(),
+        levels: synthEngine.getCurrentLevels(),
+        ...measurementRef.current,
+        novaFrequency: nova.isFlickering ? nova.currentFrequency : null,
+        novaMeasured: nova.isFlickering ? measureFlashRate(novaController.getFlashTimes(), performance.now()) : null,
+      });
+    };
+    update();
+    const interval = setInterval(update, READOUT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  return (
+    <section className="bg-[var(--color-surface)] rounded-xl p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-[var(--color-text)]">Monitor</h2>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-1 rounded-lg text-xs bg-[var(--color-surface-light)] text-[var(--color-text-muted)] hover:text-[var(--color-text)] transition-colors"
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+            <div className="space-y-2 min-w-0">
+              <canvas ref={spectrumRef} className="w-full h-36 rounded-lg border border-white/10" />
+              <canvas ref={spectrogramRef} className="w-full h-28 rounded-lg border border-white/10" />
+            </div>
+            <div className="space-y-2">
+              <canvas ref={goniometerRef} className="w-40 h-40 mx-auto rounded-lg border border-white/10" />
+              {readout && (
+                <div className="text-xs text-[var(--color-text-muted)] space-y-0.5 text-center">
+                  <div>Correlation {readout.correlation.toFixed(2)}</div>
+                  <div>RMS {formatDbfs(readout.levels.rms)}</div>
+                  <div>Peak {formatDbfs(readout.levels.peak)}</div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {readout && (
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-xs">
+              {ENTRAINMENT_LABELS.map(({ key, label }) => (
+                <div key={key} className="px-2 py-1.5 rounded-lg bg-[var(--color-surface-light)]">
+                  <div className="text-[var(--color-text-muted)]">{label}</div>
+                  <div className="text-[var(--color-text)]">{formatRate(readout.entrainment[key])}</div>
+                </div>
+              ))}
+              <div className="px-2 py-1.5 rounded-lg bg-[var(--color-surface-light)] col-span-2 sm:col-span-1">
+                <div className="text-[var(--color-text-muted)]">Nova flicker</div>
+                <div className="text-[var(--color-text)]">
+                  {readout.novaFrequency === null
+                    ? 'off'
+                    : `${readout.novaFrequency.toFixed(1)} Hz · measured ${
+                        readout.novaMeasured === null ? '—' : `${readout.novaMeasured.toFixed(1)} Hz`
+                      }`}
+                </div>
+                <canvas ref={flashRef} className="w-full h-3 mt-1 rounded" />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
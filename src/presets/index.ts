@@ -2,7 +2,8 @@
  * Presets module - Static imports of journey presets
  */
 
-import type { JourneyConfig, PresetIndex, PhaseConfig } from '../types/journey';
+import type { JourneyConfig, PresetIndex } from '../types/journey';
+import { parseJourney } from '../utils/journeySchema';
 
 // Import preset JSON files
 import deepRestJson from './deep_rest.json';
@@ -34,30 +35,9 @@ import manifestingAbundanceJson from './manifesting_abundance.json';
 import indexJson from './index.json';
 
 // Helper to convert preset JSON to proper JourneyConfig
+// Preset files predate schema versioning, so they are migrated and validated like saved journeys
 function convertPreset(json: Record<string, unknown>): JourneyConfig {
-  const phases = (json.phases as Array<Record<string, unknown>>).map((p): PhaseConfig => ({
-    name: p.name as string,
-    duration: ((p.end_min as number) - (p.start_min as number)) || (p.duration as number) || 15,
-    frequency: p.frequency as PhaseConfig['frequency'],
-    amplitude: p.amplitude as PhaseConfig['amplitude'],
-    breath_cycle_sec: p.breath_cycle_sec as number | undefined,
-    fm_depth: p.fm_depth as number | undefined,
-    fm_rate: p.fm_rate as number | undefined,
-    rhythm_mode: p.rhythm_mode as PhaseConfig['rhythm_mode'],
-    entrainment_mode: p.entrainment_mode as PhaseConfig['entrainment_mode'],
-    entrainment_rate: p.entrainment_rate as number | undefined,
-    support_frequency: p.support_frequency as PhaseConfig['support_frequency'],
-  }));
-
-  return {
-    name: json.name as string,
-    description: json.description as string | undefined,
-    duration_minutes: json.duration_minutes as number,
-    sample_rate: (json.sample_rate as number) || 48000,
-    layers: json.layers as JourneyConfig['layers'],
-    phases,
-    safety: json.safety as JourneyConfig['safety'],
-  };
+  return parseJourney(json);
 }
 
 // Export converted presets
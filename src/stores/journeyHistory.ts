@@ -0,0 +1,70 @@
+/**
+ * Journey edit history - The undo/redo steps behind the journey store
+ * Pure functions over { history, historyIndex }, where history[historyIndex] is the current journey.
+ */
+
+import type { JourneyConfig } from '../types/journey';
+
+export const MAX_HISTORY = 100;
+// Edits with the same coalesce key closer together than this become one history step
+export const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  label: string;
+  journey: JourneyConfig;
+  selectedPhaseIndex: number;
+  timestamp: number;
+  coalesceKey?: string;
+}
+
+export interface HistoryState {
+  history: HistoryEntry[];
+  historyIndex: number;
+}
+
+/**
+ * A new history holding only the opened journey
+ */
+export function createHistory(journey: JourneyConfig, now: number = Date.now()): HistoryState {
+  return {
+    history: [{ label: `Opened "${journey.name}"`, journey, selectedPhaseIndex: 0, timestamp: now }],
+    historyIndex: 0,
+  };
+}
+
+/**
+ * Record an edit as the new current step
+ * The entry replaces the current step when both share a coalesce key within the window (e.g. one
+ * slider drag). Steps after the current one (the redo branch) are discarded, and the oldest
+ * steps are dropped beyond MAX_HISTORY.
+ */
+export function pushHistoryEntry({ history, historyIndex }: HistoryState, entry: HistoryEntry): HistoryState {
+  const last = history[historyIndex];
+  const coalesce =
+    entry.coalesceKey !== undefined &&
+    historyIndex > 0 &&
+    historyIndex === history.length - 1 &&
+    last.coalesceKey === entry.coalesceKey &&
+    entry.timestamp - last.timestamp < COALESCE_WINDOW_MS;
+
+  const kept = history.slice(0, coalesce ? historyIndex : historyIndex + 1);
+  const nextHistory = [...kept, entry].slice(-MAX_HISTORY);
+  return { history: nextHistory, historyIndex: nextHistory.length - 1 };
+}
+
+/**
+ * The journey and phase selection to restore when moving to a step (undefined when out of range)
+ */
+export function historyStepAt(
+  { history }: HistoryState,
+  index: number
+): { journey: JourneyConfig; historyIndex: number; selectedPhaseIndex: number } | undefined {
+  const entry = history[index];
+  if (!entry) return undefined;
+
+  return {
+    journey: entry.journey,
+    historyIndex: index,
+    selectedPhaseIndex: Math.min(entry.selectedPhaseIndex, entry.journey.phases.length - 1),
+  };
+}
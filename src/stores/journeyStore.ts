@@ -2,15 +2,21 @@
  * Zustand store for journey state management
  */
 
-import { create } from 'zustand';
-import type { JourneyConfig, PhaseConfig, AudioParams, RhythmMode, ExportSettings, RenderProgress } from '../types/journey';
+import { create, type StoreApi } from 'zustand';
+import type { JourneyConfig, PhaseConfig, AudioParams, RhythmMode, BeatMode, ExportSettings, OutputProfileId, RenderProgress } from '../types/journey';
 import { DEFAULT_LAYERS, DEFAULT_EXPORT_SETTINGS } from '../types/journey';
 import { synthEngine } from '../audio/SynthEngine';
-import { generateJourney as generateJourneyApi } from '../api/journeyGeneratorApi';
-import { saveJourney, updateSavedJourney } from '../utils/journeyStorage';
+import { generateJourneyWithFallback, refineJourney as refineJourneyApi, type GenerateJourneyOptions, type JourneyRefinement } from '../api/journeyGeneratorApi';
+import { applyPhaseChanges } from '../utils/journeyDiff';
+import { saveJourney, updateSavedJourney, markJourneyPlayed } from '../utils/journeyStorage';
+import { JOURNEY_SCHEMA_VERSION } from '../utils/journeySchema';
+import { createHistory, historyStepAt, pushHistoryEntry, type HistoryEntry } from './journeyHistory';
+
+export type { HistoryEntry } from './journeyHistory';
 
 // Default journey configuration
 const defaultJourney: JourneyConfig = {
+  schema_version: JOURNEY_SCHEMA_VERSION,
   name: 'Deep Rest Journey',
   description: 'A gentle 90-minute journey for deep relaxation',
   duration_minutes: 90,
@@ -65,17 +71,59 @@ const defaultJourney: JourneyConfig = {
   ],
 };
 
+const FIELD_LABELS: Partial<Record<keyof PhaseConfig, string>> = {
+  name: 'name',
+  duration: 'duration',
+  frequency: 'frequency',
+  amplitude: 'intensity',
+  fm_depth: 'flow',
+  rhythm_mode: 'rhythm',
+  entrainment_mode: 'rhythm',
+  binaural_enabled: 'binaural beats',
+  binaural_beat_frequency: 'beat frequency',
+  binaural_carrier_frequency: 'carrier frequency',
+  binaural_volume: 'binaural volume',
+  binaural_waveform: 'binaural waveform',
+  monaural_enabled: 'monaural beats',
+  monaural_beat_frequency: 'monaural beat frequency',
+  monaural_carrier_frequency: 'monaural carrier',
+  monaural_volume: 'monaural volume',
+  isochronic_enabled: 'isochronic tones',
+  isochronic_pulse_rate: 'pulse rate',
+  isochronic_duty_cycle: 'duty cycle',
+  isochronic_carrier_frequency: 'isochronic carrier',
+  isochronic_volume: 'isochronic volume',
+  isochronic_pulse_shape: 'pulse shape',
+  melody_enabled: 'melody',
+  melody_style: 'melody style',
+  melody_scale: 'melody scale',
+  melody_intensity: 'melody intensity',
+  melody_density: 'melody density',
+};
+
+function describePhaseUpdate(phase: PhaseConfig, updates: Partial<PhaseConfig>): string {
+  const fields = [...new Set(
+    (Object.keys(updates) as (keyof PhaseConfig)[]).map((key) => FIELD_LABELS[key] || key.replace(/_/g, ' '))
+  )];
+  return `${phase.name}: ${fields.join(', ')}`;
+}
+
 interface JourneyState {
   // Journey config
   journey: JourneyConfig;
   selectedPhaseIndex: number;
   isDirty: boolean;
 
+  // Undo history (history[historyIndex] is the current journey)
+  history: HistoryEntry[];
+  historyIndex: number;
+
   // Playback state
   isPlaying: boolean;
   isPaused: boolean;
   currentTime: number;
   currentPhaseIndex: number;
+  outputProfile: OutputProfileId | null; // Playback target; also the default for exports
 
   // Export state
   isExporting: boolean;
@@ -86,22 +134,35 @@ interface JourneyState {
   showPresetBrowser: boolean;
   showExportDialog: boolean;
   showJourneyGenerator: boolean;
+  showSessionView: boolean;
 
   // Generation state
   isGenerating: boolean;
   generationError: string | null;
+  generationNotice: string | null; // Set when the AI was unavailable and the journey was built on this device
+
+  // Refinement state: proposed changes to the journey they were made for, awaiting per-phase review
+  isRefining: boolean;
+  refinementError: string | null;
+  refinement: (JourneyRefinement & { base: JourneyConfig; instruction: string }) | null;
   savedJourneyId: string | null; // ID of currently loaded saved journey
 
   // Actions
   setJourney: (journey: JourneyConfig) => void;
   setJourneyWithId: (journey: JourneyConfig, savedId: string | null) => void;
-  saveCurrentJourney: () => string;
-  updateCurrentJourney: () => void;
+  saveCurrentJourney: () => Promise<string>;
+  updateCurrentJourney: () => Promise<void>;
   updatePhase: (index: number, updates: Partial<PhaseConfig>) => void;
   selectPhase: (index: number) => void;
   addPhase: () => void;
   removePhase: (index: number) => void;
   setLayers: (layers: JourneyConfig['layers']) => void;
+  setBeatMode: (beatMode: BeatMode | undefined) => void;
+
+  // History actions
+  undo: () => void;
+  redo: () => void;
+  jumpToHistory: (index: number) => void;
 
   // Playback actions
   play: () => void;
@@ -110,6 +171,7 @@ interface JourneyState {
   seek: (time: number) => void;
   setCurrentTime: (time: number) => void;
   setCurrentPhaseIndex: (index: number) => void;
+  setOutputProfile: (profile: OutputProfileId | null) => void;
 
   // Live modulation
   updateLiveParameter: (param: keyof AudioParams, value: number | RhythmMode | AudioParams['layers']) => void;
@@ -123,10 +185,39 @@ interface JourneyState {
   setShowPresetBrowser: (show: boolean) => void;
   setShowExportDialog: (show: boolean) => void;
   setShowJourneyGenerator: (show: boolean) => void;
+  setShowSessionView: (show: boolean) => void;
 
   // Generation actions
-  generateJourney: (prompt: string, duration: number) => Promise<void>;
+  generateJourney: (prompt: string, duration: number, options?: GenerateJourneyOptions) => Promise<void>;
+  refineJourney: (instruction: string) => Promise<void>;
+  applyRefinement: (accepted: boolean[]) => void;
+  discardRefinement: () => void;
+
+}
 
+/**
+ * Apply an edited journey and record it as a history step
+ * Consecutive edits with the same coalesceKey (e.g. one slider drag) merge into a single step.
+ */
+function commitEdit(
+  set: StoreApi<JourneyState>['setState'],
+  get: StoreApi<JourneyState>['getState'],
+  journey: JourneyConfig,
+  label: string,
+  options: { coalesceKey?: string; selectedPhaseIndex?: number } = {}
+) {
+  const { history, historyIndex, selectedPhaseIndex: currentSelection } = get();
+  const selectedPhaseIndex = options.selectedPhaseIndex ?? currentSelection;
+
+  const entry: HistoryEntry = { label, journey, selectedPhaseIndex, timestamp: Date.now(), coalesceKey: options.coalesceKey };
+
+  set({
+    journey,
+    selectedPhaseIndex,
+    isDirty: true,
+    ...pushHistoryEntry({ history, historyIndex }, entry),
+  });
+  synthEngine.setJourneyConfig(journey);
 }
 
 export const useJourneyStore = create<JourneyState>((set, get) => ({
@@ -135,10 +226,13 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
   selectedPhaseIndex: 0,
   isDirty: false,
 
+  ...createHistory(defaultJourney),
+
   isPlaying: false,
   isPaused: false,
   currentTime: 0,
   currentPhaseIndex: 0,
+  outputProfile: null,
 
   isExporting: false,
   exportProgress: null,
@@ -147,19 +241,24 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
   showPresetBrowser: false,
   showExportDialog: false,
   showJourneyGenerator: false,
+  showSessionView: false,
 
   isGenerating: false,
   generationError: null,
+  generationNotice: null,
+  isRefining: false,
+  refinementError: null,
+  refinement: null,
   savedJourneyId: null,
 
   // Journey actions
   setJourney: (journey) => {
-    set({ journey, isDirty: false, selectedPhaseIndex: 0, savedJourneyId: null });
+    set({ journey, isDirty: false, selectedPhaseIndex: 0, savedJourneyId: null, ...createHistory(journey) });
     synthEngine.setJourneyConfig(journey);
   },
 
   setJourneyWithId: (journey, savedId) => {
-    set({ journey, isDirty: false, selectedPhaseIndex: 0, savedJourneyId: savedId });
+    set({ journey, isDirty: false, selectedPhaseIndex: 0, savedJourneyId: savedId, ...createHistory(journey) });
     synthEngine.setJourneyConfig(journey);
   },
 
@@ -174,8 +273,9 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
       duration_minutes: newPhases.reduce((sum, p) => sum + p.duration, 0),
     };
 
-    set({ journey: newJourney, isDirty: true });
-    synthEngine.setJourneyConfig(newJourney);
+    commitEdit(set, get, newJourney, describePhaseUpdate(newPhases[index], updates), {
+      coalesceKey: `phase:${index}:${Object.keys(updates).sort().join(',')}`,
+    });
   },
 
   selectPhase: (index) => {
@@ -200,8 +300,7 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
       duration_minutes: journey.duration_minutes + 10,
     };
 
-    set({ journey: newJourney, isDirty: true });
-    synthEngine.setJourneyConfig(newJourney);
+    commitEdit(set, get, newJourney, `Added ${newPhase.name}`);
   },
 
   removePhase: (index) => {
@@ -217,19 +316,42 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
       duration_minutes: journey.duration_minutes - removedDuration,
     };
 
-    set({
-      journey: newJourney,
-      isDirty: true,
+    commitEdit(set, get, newJourney, `Removed ${journey.phases[index].name}`, {
       selectedPhaseIndex: Math.min(selectedPhaseIndex, newPhases.length - 1),
     });
-    synthEngine.setJourneyConfig(newJourney);
   },
 
   setLayers: (layers) => {
     const { journey } = get();
     const newJourney = { ...journey, layers };
-    set({ journey: newJourney, isDirty: true });
-    synthEngine.setJourneyConfig(newJourney);
+    const changed = (Object.keys(layers) as (keyof typeof layers)[])
+      .filter((layer) => layers[layer] !== journey.layers[layer])
+      .map((layer) => `${layer.replace(/_/g, ' ')} ${layers[layer] ? 'on' : 'off'}`);
+    commitEdit(set, get, newJourney, `Layers: ${changed.join(', ') || 'unchanged'}`);
+  },
+
+  setBeatMode: (beatMode) => {
+    const { journey } = get();
+    commitEdit(set, get, { ...journey, beat_mode: beatMode }, `Beats: ${beatMode || 'per phase'}`);
+  },
+
+  // History actions
+  undo: () => {
+    const { historyIndex, jumpToHistory } = get();
+    if (historyIndex > 0) jumpToHistory(historyIndex - 1);
+  },
+
+  redo: () => {
+    const { history, historyIndex, jumpToHistory } = get();
+    if (historyIndex < history.length - 1) jumpToHistory(historyIndex + 1);
+  },
+
+  jumpToHistory: (index) => {
+    const step = historyStepAt(get(), index);
+    if (!step) return;
+
+    set({ ...step, isDirty: true });
+    synthEngine.setJourneyConfig(step.journey);
   },
 
 
@@ -237,6 +359,9 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
   play: () => {
     synthEngine.play();
     set({ isPlaying: true, isPaused: false });
+
+    const { savedJourneyId } = get();
+    if (savedJourneyId) void markJourneyPlayed(savedJourneyId);
   },
 
   pause: () => {
@@ -262,6 +387,14 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
     set({ currentPhaseIndex: index });
   },
 
+  setOutputProfile: (profile) => {
+    synthEngine.setOutputProfile(profile);
+    set((state) => ({
+      outputProfile: profile,
+      exportSettings: { ...state.exportSettings, outputProfile: profile ?? undefined },
+    }));
+  },
+
   // Live modulation
   updateLiveParameter: (param, value) => {
     synthEngine.updateParameter(param, value);
@@ -292,27 +425,38 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
   },
 
   setShowJourneyGenerator: (show) => {
-    set({ showJourneyGenerator: show });
+    set({ showJourneyGenerator: show, generationNotice: null, refinement: null, refinementError: null });
+  },
+
+  setShowSessionView: (show) => {
+    set({ showSessionView: show });
   },
 
   // Generation actions
-  generateJourney: async (prompt, duration) => {
-    set({ isGenerating: true, generationError: null });
+  generateJourney: async (prompt, duration, options) => {
+    set({ isGenerating: true, generationError: null, generationNotice: null });
 
     try {
-      const journey = await generateJourneyApi(prompt, duration);
+      const { journey, reason } = await generateJourneyWithFallback(prompt, duration, options);
       
       // Auto-save generated journeys
-      const savedId = saveJourney(journey);
+      const savedId = await saveJourney(journey);
       
       set({ 
         journey, 
         isDirty: false, 
         selectedPhaseIndex: 0,
         savedJourneyId: savedId,
+        ...createHistory(journey),
       });
       synthEngine.setJourneyConfig(journey);
-      set({ isGenerating: false, showJourneyGenerator: false });
+
+      // Keep the generator open after a fallback so the user sees the AI was not used
+      if (reason) {
+        set({ isGenerating: false, generationNotice: `Created on this device because AI generation was unavailable: ${reason}` });
+      } else {
+        set({ isGenerating: false, showJourneyGenerator: false });
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate journey';
       set({ isGenerating: false, generationError: errorMessage });
@@ -320,18 +464,62 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
     }
   },
 
+  refineJourney: async (instruction) => {
+    const base = get().journey;
+    set({ isRefining: true, refinementError: null, refinement: null });
+
+    try {
+      const result = await refineJourneyApi(base, instruction);
+      set({ isRefining: false, refinement: { ...result, base, instruction: instruction.trim() } });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to refine journey';
+      set({ isRefining: false, refinementError: errorMessage });
+      throw error;
+    }
+  },
+
+  // Apply the accepted phase changes (accepted[i] for refinement.changes[i]) as one undoable step
+  // Refused when the journey was edited, undone or redone since the refinement was requested,
+  // because the changes were computed against the earlier journey
+  applyRefinement: (accepted) => {
+    const { refinement, selectedPhaseIndex, journey: current } = get();
+    if (!refinement) return;
+    if (current !== refinement.base) {
+      set({ refinementError: 'The journey changed while this refinement was open - discard it and refine again' });
+      return;
+    }
+
+    const journey = applyPhaseChanges(refinement.base, refinement.changes, accepted);
+    if (journey.phases.length === 0) {
+      set({ refinementError: 'A journey needs at least one phase - keep one of the removed phases' });
+      return;
+    }
+
+    const count = accepted.filter(Boolean).length;
+    set({ refinement: null, refinementError: null });
+    if (count === 0) return;
+
+    commitEdit(set, get, journey, `Refined: ${refinement.instruction}`, {
+      selectedPhaseIndex: Math.min(selectedPhaseIndex, journey.phases.length - 1),
+    });
+  },
+
+  discardRefinement: () => {
+    set({ refinement: null, refinementError: null });
+  },
+
   // Save current journey
-  saveCurrentJourney: () => {
+  saveCurrentJourney: async () => {
     const { journey, savedJourneyId } = get();
     
     try {
       if (savedJourneyId) {
         // Update existing
-        updateSavedJourney(savedJourneyId, journey);
+        await updateSavedJourney(savedJourneyId, journey);
         return savedJourneyId;
       } else {
         // Save new
-        const id = saveJourney(journey);
+        const id = await saveJourney(journey);
         set({ savedJourneyId: id, isDirty: false });
         return id;
       }
@@ -342,7 +530,7 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
   },
 
   // Update current saved journey
-  updateCurrentJourney: () => {
+  updateCurrentJourney: async () => {
     const { journey, savedJourneyId } = get();
     
     if (!savedJourneyId) {
@@ -350,7 +538,7 @@ export const useJourneyStore = create<JourneyState>((set, get) => ({
     }
     
     try {
-      updateSavedJourney(savedJourneyId, journey);
+      await updateSavedJourney(savedJourneyId, journey);
       set({ isDirty: false });
     } catch (error) {
       console.error('Error updating journey:', error);
@@ -0,0 +1,19 @@
+/**
+ * File System Access API TypeScript definitions
+ * showSaveFilePicker is available in Chromium-based browsers only
+ */
+
+interface SaveFilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string[]>;
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: SaveFilePickerAcceptType[];
+  excludeAcceptAllOption?: boolean;
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+}
@@ -14,16 +14,56 @@ export type EntrainmentMode = 'none' | 'breathing' | 'heartbeat' | 'delta' | 'th
 // Rhythm mode (user-friendly alias for entrainment bands)
 export type RhythmMode = 'still' | 'breathing' | 'heartbeat' | 'delta' | 'theta' | 'alpha' | 'beta' | 'gamma';
 
+// Shape of an automation segment (the Envelope ramps)
+export type CurveShape = 'linear' | 'exponential' | 's_curve';
+
+// Intermediate point on a phase's frequency or amplitude curve
+export interface Breakpoint {
+  position: number;    // 0-1 through the phase
+  value: number;
+  curve?: CurveShape;  // Shape of the segment leading into this point (default: linear)
+}
+
+// Numeric phase parameters that can follow an automation lane instead of a fixed value
+export type AutomatableParam =
+  | 'fm_depth'
+  | 'fm_rate'
+  | 'entrainment_rate'
+  | 'binaural_beat_frequency'
+  | 'binaural_carrier_frequency'
+  | 'binaural_volume'
+  | 'monaural_beat_frequency'
+  | 'monaural_carrier_frequency'
+  | 'monaural_volume'
+  | 'isochronic_pulse_rate'
+  | 'isochronic_carrier_frequency'
+  | 'isochronic_volume'
+  | 'melody_intensity'
+  | 'harmonic_richness'
+  | 'effects_intensity'
+  | 'spatial_width'
+  | 'modulation_depth'
+  | 'timbre_evolution'
+  | 'warmth'
+  | 'nova_frequency';
+
+// Timed breakpoints for one parameter; the value holds before the first and after the last point
+export type AutomationLane = Breakpoint[];
+
 // Frequency range type
 export interface FrequencyRange {
   start: number;
   end: number;
+  curve?: CurveShape;          // Shape of the segment leading into end
+  breakpoints?: Breakpoint[];
 }
 
 // Amplitude range type
 export interface AmplitudeRange {
   start: number;
   end: number;
+  curve?: CurveShape;
+  breakpoints?: Breakpoint[];
 }
 
 // Nova Pattern Types for complex flicker sequences
@@ -129,6 +169,18 @@ export interface PhaseConfig {
   binaural_carrier_frequency?: number; // Carrier frequency (Hz) - default 200 Hz, range 100-400 Hz recommended
   binaural_volume?: number; // Volume/intensity (0-1) - default 0.3, range 0.1-0.8 recommended
   binaural_waveform?: 'sine' | 'triangle' | 'sawtooth' | 'square'; // Waveform type - default 'sine'
+  // Monaural beats - two close carriers summed in both ears, no headphones needed
+  monaural_enabled?: boolean;
+  monaural_beat_frequency?: number;    // Beat frequency (Hz) - defaults like the binaural beat
+  monaural_carrier_frequency?: number; // Carrier frequency (Hz) - default 200 Hz
+  monaural_volume?: number;            // Volume/intensity (0-1) - default 0.3
+  // Isochronic tones - a pulsed carrier that works on speakers, no headphones needed
+  isochronic_enabled?: boolean;
+  isochronic_pulse_rate?: number;        // Pulses per second (Hz) - defaults to entrainment_rate or the binaural beat target
+  isochronic_duty_cycle?: number;        // Fraction of each pulse the tone is on (0.05-0.95) - default 0.5
+  isochronic_carrier_frequency?: number; // Tone frequency (Hz) - default 200 Hz
+  isochronic_volume?: number;            // Volume/intensity (0-1) - default 0.3
+  isochronic_pulse_shape?: 'sine' | 'soft' | 'square'; // Pulse edges, smooth to sharp - default 'soft'
   // Melody layer settings
   melody_enabled?: boolean;        // Enable melody for this phase (default true if melody_layer is on)
   melody_style?: MelodyStyle;      // Melody style
@@ -145,8 +197,13 @@ export interface PhaseConfig {
   modulation_depth?: number;       // 0-1, LFO modulation amount
   timbre_evolution?: number;       // 0-1, rate of timbre morphing
   warmth?: number;                 // 0-1, analog warmth/saturation
+  // Automation lanes, overriding the fixed value of a parameter while the phase plays
+  automation?: Partial<Record<AutomatableParam, AutomationLane>>;
 }
 
+// Beat layer a journey plays through: binaural needs headphones, the others work on speakers
+export type BeatMode = 'binaural' | 'monaural' | 'isochronic' | 'none';
+
 // Layer configuration
 export interface LayerConfig {
   base_carrier: boolean;
@@ -157,6 +214,7 @@ export interface LayerConfig {
 
 // Complete journey configuration
 export interface JourneyConfig {
+  schema_version?: number; // JOURNEY_SCHEMA_VERSION in utils/journeySchema.ts; missing on pre-versioning data
   name: string;
   description?: string;
   duration_minutes: number;
@@ -165,6 +223,7 @@ export interface JourneyConfig {
   layers: LayerConfig;
   safety?: SafetyConfig;
   nova_enabled?: boolean; // Global Nova toggle for entire journey
+  beat_mode?: BeatMode;    // Beat layer for every phase with beats; unset plays each phase's own layers
 }
 
 // Safety processing configuration
@@ -262,15 +321,32 @@ export interface RenderProgress {
 }
 
 // Export format options
-export type ExportFormat = 'wav' | 'mp3';
+export type ExportFormat = 'wav' | 'flac' | 'opus' | 'mp3';
+
+// Playback/export target (see audio/OutputProfile)
+export type OutputProfileId = 'headphones' | 'speakers' | 'transducer' | 'bed';
+
+// Delivery loudness target an export is checked against (see audio/LoudnessMeter)
+export type LoudnessTargetId = 'streaming' | 'podcast' | 'ebu_r128';
+
+// Layers an export can put on their own outputs (binaural carries every beat layer, in stereo)
+export type StemLayer = 'foundation' | 'harmony' | 'atmosphere' | 'binaural' | 'melody' | 'music';
+
+// What one channel of a multichannel export carries
+export type ChannelSource = StemLayer | 'binaural_left' | 'binaural_right' | 'silent';
 
 // Export quality settings
 export interface ExportSettings {
   format: ExportFormat;
   sampleRate: 22050 | 44100 | 48000;
-  bitDepth?: 16 | 24 | 32; // WAV only
+  bitDepth?: 16 | 24 | 32; // WAV and FLAC (FLAC stores 32-bit float as 24-bit)
   bitrate?: 128 | 192 | 256 | 320; // MP3 only
-  channels: 1 | 2;
+  opusBitrate?: 64 | 96 | 128 | 192; // Opus only
+  channels: 1 | 2 | 4 | 6;         // 4 and 6 put one layer on each channel
+  channelMap?: ChannelSource[];    // Source of each channel of a 4/6-channel export
+  stems?: boolean;                 // One file per layer instead of a single mix
+  outputProfile?: OutputProfileId; // Unset renders the journey as designed
+  loudnessTarget?: LoudnessTargetId; // Target for the post-export loudness report
 }
 
 // Default export settings
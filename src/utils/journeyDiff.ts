@@ -0,0 +1,161 @@
+/**
+ * Journey diff - Phase-level differences between a journey and a refined version of it
+ * Phases are matched by name in order; unmatched phases between two matches are paired up by position
+ * (a renamed or reworked phase), and the rest count as added or removed. Accepting a modified phase
+ * applies only its changed fields, so settings the refinement did not touch keep the user's values.
+ * Dependency-free so the server, the serverless functions and the app share it.
+ */
+
+import type { JourneyConfig, PhaseConfig } from '../types/journey';
+
+export type PhaseChangeType = 'modified' | 'added' | 'removed';
+
+export interface PhaseFieldChange {
+  field: keyof PhaseConfig;
+  before: unknown;      // undefined when the field was not set
+  after: unknown;       // undefined when the refinement removed it
+}
+
+export interface PhaseChange {
+  type: PhaseChangeType;
+  index: number;        // Phase index in the original journey (insertion point for added phases)
+  name: string;         // Refined name, or the original one for removed phases
+  fields: PhaseFieldChange[];
+  phase?: PhaseConfig;  // The new phase, for added phases
+}
+
+// Canonical JSON (sorted keys, undefined dropped) for structural comparison
+function canonical(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fields that differ between two versions of a phase
+ */
+export function diffPhaseFields(before: PhaseConfig, after: PhaseConfig): PhaseFieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])] as (keyof PhaseConfig)[];
+  return fields
+    .filter((field) => canonical(before[field]) !== canonical(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+// A matched pair of phases, or a phase only one side has (removed or added)
+export interface PhaseAlignment {
+  original?: number;
+  refined?: number;
+}
+
+/**
+ * Align two phase lists: longest common subsequence of names, then positional pairing in the gaps
+ * Refined indices come out in order.
+ */
+export function alignPhases(original: PhaseConfig[], refined: PhaseConfig[]): PhaseAlignment[] {
+  const n = original.length;
+  const m = refined.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = original[i].name === refined[j].name
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const steps: PhaseAlignment[] = [];
+  let gapOriginal: number[] = [];
+  let gapRefined: number[] = [];
+  const flushGap = () => {
+    const paired = Math.min(gapOriginal.length, gapRefined.length);
+    for (let k = 0; k < paired; k++) steps.push({ original: gapOriginal[k], refined: gapRefined[k] });
+    for (const i of gapOriginal.slice(paired)) steps.push({ original: i });
+    for (const j of gapRefined.slice(paired)) steps.push({ refined: j });
+    gapOriginal = [];
+    gapRefined = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && original[i].name === refined[j].name) {
+      flushGap();
+      steps.push({ original: i++, refined: j++ });
+    } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      gapOriginal.push(i++);
+    } else {
+      gapRefined.push(j++);
+    }
+  }
+  flushGap();
+  return steps;
+}
+
+/**
+ * Phase changes from an original journey to a refined one, in journey order
+ */
+export function diffJourneyPhases(original: JourneyConfig, refined: JourneyConfig): PhaseChange[] {
+  const changes: PhaseChange[] = [];
+  let position = 0;
+
+  for (const step of alignPhases(original.phases, refined.phases)) {
+    if (step.original !== undefined) position = step.original + 1;
+
+    if (step.original !== undefined && step.refined !== undefined) {
+      const fields = diffPhaseFields(original.phases[step.original], refined.phases[step.refined]);
+      if (fields.length > 0) {
+        changes.push({ type: 'modified', index: step.original, name: refined.phases[step.refined].name, fields });
+      }
+    } else if (step.original !== undefined) {
+      changes.push({ type: 'removed', index: step.original, name: original.phases[step.original].name, fields: [] });
+    } else if (step.refined !== undefined) {
+      const phase = refined.phases[step.refined];
+      changes.push({ type: 'added', index: position, name: phase.name, fields: [], phase });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Apply the accepted changes (accepted[i] for changes[i]) to the original journey
+ * Journey-level settings stay as they are; the duration follows the phases.
+ */
+export function applyPhaseChanges(original: JourneyConfig, changes: PhaseChange[], accepted: boolean[]): JourneyConfig {
+  const chosen = changes.filter((_, i) => accepted[i]);
+  const phases: PhaseConfig[] = [];
+
+  const insertAdded = (index: number) => {
+    for (const change of chosen) {
+      if (change.type === 'added' && change.index === index && change.phase) phases.push({ ...change.phase });
+    }
+  };
+
+  original.phases.forEach((phase, index) => {
+    insertAdded(index);
+    const change = chosen.find((c) => c.type !== 'added' && c.index === index);
+    if (change?.type === 'removed') return;
+
+    const next: PhaseConfig = { ...phase };
+    for (const { field, after } of change?.fields ?? []) {
+      if (after === undefined) {
+        delete next[field];
+      } else {
+        (next as unknown as Record<string, unknown>)[field] = after;
+      }
+    }
+    phases.push(next);
+  });
+  insertAdded(original.phases.length);
+
+  return {
+    ...original,
+    phases,
+    duration_minutes: phases.reduce((sum, phase) => sum + phase.duration, 0),
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Journey files - Portable .sonicjourney import/export
+ * A file is a JSON document carrying one or more saved journeys, their metadata and an
+ * optional short MP3 preview, so journeys can move between devices and people.
+ */
+
+import type { JourneyConfig } from '../types/journey';
+import type { SavedJourney } from './journeyStorage';
+import { findExistingJourney, saveJourney, updateSavedJourney } from './journeyStorage';
+import { parseJourney } from './journeySchema';
+
+export const JOURNEY_FILE_EXTENSION = '.sonicjourney';
+export const JOURNEY_FILE_MIME_TYPE = 'application/vnd.sonicjourney+json';
+
+const JOURNEY_FILE_FORMAT = 'sonicjourney';
+const JOURNEY_FILE_VERSION = 1;
+
+// The preview plays the whole journey squeezed into this many seconds
+const PREVIEW_SECONDS = 30;
+const PREVIEW_SAMPLE_RATE = 44100;
+const PREVIEW_BITRATE = 128;
+
+export interface JourneyPreview {
+  mime_type: 'audio/mpeg';
+  duration_seconds: number;
+  data: string; // base64
+}
+
+export interface JourneyFileEntry {
+  journey: JourneyConfig;
+  created_at: number;
+  updated_at: number;
+  tags?: string[];
+  preview?: JourneyPreview;
+}
+
+export interface JourneyFile {
+  format: typeof JOURNEY_FILE_FORMAT;
+  format_version: number;
+  exported_at: string;
+  journeys: JourneyFileEntry[];
+}
+
+export interface JourneyFileExportOptions {
+  includePreview?: boolean;
+  onProgress?: (percent: number) => void;
+}
+
+// What to do with an imported journey that matches one already saved
+export type ImportResolution = 'skip' | 'replace' | 'keep_both';
+
+export interface JourneyImportItem {
+  name: string;
+  journey?: JourneyConfig;  // Missing when the entry failed validation
+  error?: string;
+  tags: string[];
+  preview?: JourneyPreview;
+  existing?: SavedJourney;  // Saved journey with the same name and duration
+}
+
+export interface JourneyImportResult {
+  imported: number;
+  replaced: number;
+  skipped: number;
+  failed: string[];
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'journey';
+}
+
+/**
+ * Render a short MP3 preview of a journey with every phase compressed proportionally
+ */
+async function renderPreview(journey: JourneyConfig): Promise<JourneyPreview> {
+  const [{ OfflineRenderer }, { encodeMp3 }] = await Promise.all([
+    import('../audio/OfflineRenderer'),
+    import('../audio/encoders/mp3'),
+  ]);
+
+  const scale = PREVIEW_SECONDS / 60 / journey.duration_minutes;
+  const previewConfig: JourneyConfig = {
+    ...journey,
+    duration_minutes: PREVIEW_SECONDS / 60,
+    phases: journey.phases.map((phase) => ({ ...phase, duration: phase.duration * scale })),
+  };
+
+  const renderer = new OfflineRenderer(PREVIEW_SAMPLE_RATE, 2);
+  const buffer = await renderer.render(previewConfig);
+  const mp3 = await encodeMp3(buffer, PREVIEW_BITRATE);
+
+  return {
+    mime_type: 'audio/mpeg',
+    duration_seconds: PREVIEW_SECONDS,
+    data: arrayBufferToBase64(await mp3.arrayBuffer()),
+  };
+}
+
+/**
+ * Build a .sonicjourney file from saved journeys
+ */
+export async function createJourneyFile(
+  journeys: SavedJourney[],
+  options: JourneyFileExportOptions = {}
+): Promise<Blob> {
+  const { includePreview = false, onProgress } = options;
+  const entries: JourneyFileEntry[] = [];
+
+  for (let i = 0; i < journeys.length; i++) {
+    const saved = journeys[i];
+    entries.push({
+      journey: saved.journey,
+      created_at: saved.createdAt,
+      updated_at: saved.updatedAt,
+      tags: saved.tags,
+      preview: includePreview ? await renderPreview(saved.journey) : undefined,
+    });
+    onProgress?.(Math.round(((i + 1) / journeys.length) * 100));
+  }
+
+  const file: JourneyFile = {
+    format: JOURNEY_FILE_FORMAT,
+    format_version: JOURNEY_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    journeys: entries,
+  };
+
+  return new Blob([JSON.stringify(file, null, 2)], { type: JOURNEY_FILE_MIME_TYPE });
+}
+
+/**
+ * Export saved journeys as a .sonicjourney file (download on web, share sheet on iOS)
+ */
+export async function exportJourneyFile(
+  journeys: SavedJourney[],
+  options: JourneyFileExportOptions = {}
+): Promise<void> {
+  if (journeys.length === 0) {
+    throw new Error('No journeys to export');
+  }
+
+  const blob = await createJourneyFile(journeys, options);
+  const filename = journeys.length === 1
+    ? `${fileSlug(journeys[0].journey.name)}${JOURNEY_FILE_EXTENSION}`
+    : `sonic_journeys_${new Date().toISOString().slice(0, 10)}${JOURNEY_FILE_EXTENSION}`;
+
+  const { saveAndShareFile } = await import('./nativeExport');
+  await saveAndShareFile(blob, filename, {
+    title: 'Sonic Journey',
+    dialogTitle: journeys.length === 1 ? 'Share your journey' : 'Share your journeys',
+  });
+}
+
+/**
+ * Read a .sonicjourney file and check every journey in it against the schema
+ * Each item reports either a migrated journey (plus any saved journey it conflicts with) or an error.
+ */
+export async function readJourneyFile(file: Blob): Promise<JourneyImportItem[]> {
+  let parsed: Partial<JourneyFile>;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Not a Sonic Journey file (invalid JSON)');
+  }
+
+  if (parsed?.format !== JOURNEY_FILE_FORMAT || !Array.isArray(parsed.journeys)) {
+    throw new Error('Not a Sonic Journey file');
+  }
+  if (typeof parsed.format_version !== 'number' || parsed.format_version > JOURNEY_FILE_VERSION) {
+    throw new Error('This file was made by a newer version of Sonic Journey');
+  }
+
+  return Promise.all(parsed.journeys.map(async (entry, index): Promise<JourneyImportItem> => {
+    const name = typeof entry?.journey?.name === 'string' ? entry.journey.name : `Journey ${index + 1}`;
+    const tags = Array.isArray(entry?.tags) ? entry.tags.filter((tag) => typeof tag === 'string') : [];
+    try {
+      const journey = parseJourney(entry.journey);
+      return {
+        name,
+        journey,
+        tags,
+        preview: entry.preview?.data ? entry.preview : undefined,
+        existing: await findExistingJourney(journey),
+      };
+    } catch (error) {
+      return { name, tags, error: error instanceof Error ? error.message : 'Invalid journey' };
+    }
+  }));
+}
+
+/**
+ * Data URL for playing an embedded preview in an <audio> element
+ */
+export function getPreviewUrl(preview: JourneyPreview): string {
+  return `data:${preview.mime_type};base64,${preview.data}`;
+}
+
+/**
+ * Name that does not collide with a saved journey of the same duration
+ */
+async function uniqueJourneyName(journey: JourneyConfig): Promise<string> {
+  for (let copy = 2; ; copy++) {
+    const name = `${journey.name} (${copy})`;
+    if (!(await findExistingJourney({ ...journey, name }))) return name;
+  }
+}
+
+/**
+ * Save imported journeys, resolving each conflict with the matching resolution
+ */
+export async function importJourneys(
+  items: JourneyImportItem[],
+  resolutions: ImportResolution[]
+): Promise<JourneyImportResult> {
+  const result: JourneyImportResult = { imported: 0, replaced: 0, skipped: 0, failed: [] };
+
+  for (const [index, item] of items.entries()) {
+    if (!item.journey) {
+      result.failed.push(`${item.name}: ${item.error}`);
+      continue;
+    }
+
+    // Conflicts may also come from earlier items in the same file
+    const existing = await findExistingJourney(item.journey);
+    const resolution = existing ? resolutions[index] || 'skip' : 'keep_both';
+
+    if (resolution === 'skip') {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      if (resolution === 'replace' && existing) {
+        await updateSavedJourney(existing.id, item.journey);
+        result.replaced++;
+        continue;
+      }
+
+      const journey = existing ? { ...item.journey, name: await uniqueJourneyName(item.journey) } : item.journey;
+      await saveJourney(journey, { tags: item.tags });
+      result.imported++;
+    } catch (error) {
+      result.failed.push(`${item.name}: ${error instanceof Error ? error.message : 'could not be saved'}`);
+    }
+  }
+
+  return result;
+}
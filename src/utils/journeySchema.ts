@@ -0,0 +1,412 @@
+/**
+ * Journey schema - Versioned JSON Schema, validator and migrations for JourneyConfig
+ *
+ * Every entry point (presets, saved journeys, AI generation on the Express server and the
+ * Vercel function) upgrades incoming data with migrateJourney() and checks it with
+ * validateJourney(). This module only has type imports so the serverless functions can
+ * import it without a bundler.
+ */
+
+import type { AutomatableParam, JourneyConfig } from '../types/journey';
+
+// Bump when the shape of JourneyConfig changes and add a migration from the previous version
+export const JOURNEY_SCHEMA_VERSION = 4;
+
+// Field-level validation error, e.g. { path: 'phases[2].frequency.start', message: 'must be >= 1' }
+export interface JourneyFieldError {
+  path: string;
+  message: string;
+}
+
+// Subset of JSON Schema (draft 2020-12) keywords understood by the validator
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  enum?: readonly (string | number | boolean)[];
+  const?: string | number | boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  minItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  default?: unknown;
+}
+
+const CURVE_SHAPES = ['linear', 'exponential', 's_curve'] as const;
+
+const unit: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+
+const breakpoint = (value: JsonSchema): JsonSchema => ({
+  type: 'object',
+  properties: {
+    position: unit,
+    value,
+    curve: { enum: CURVE_SHAPES },
+  },
+  required: ['position', 'value'],
+  additionalProperties: false,
+});
+
+const range = (minimum: number, maximum: number): JsonSchema => ({
+  type: 'object',
+  properties: {
+    start: { type: 'number', minimum, maximum },
+    end: { type: 'number', minimum, maximum },
+    curve: { enum: CURVE_SHAPES },
+    breakpoints: { type: 'array', items: breakpoint({ type: 'number', minimum, maximum }) },
+  },
+  required: ['start', 'end'],
+  additionalProperties: false,
+});
+
+// Value bounds of every automatable phase parameter, shared by the field and its automation lane
+const AUTOMATABLE: Record<AutomatableParam, JsonSchema> = {
+  fm_depth: unit,
+  fm_rate: { type: 'number', minimum: 0 },
+  entrainment_rate: { type: 'number', minimum: 0, maximum: 100 },
+  binaural_beat_frequency: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+  binaural_carrier_frequency: { type: 'number', minimum: 20, maximum: 2000 },
+  binaural_volume: unit,
+  monaural_beat_frequency: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+  monaural_carrier_frequency: { type: 'number', minimum: 20, maximum: 2000 },
+  monaural_volume: unit,
+  isochronic_pulse_rate: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+  isochronic_carrier_frequency: { type: 'number', minimum: 20, maximum: 2000 },
+  isochronic_volume: unit,
+  melody_intensity: unit,
+  harmonic_richness: unit,
+  effects_intensity: unit,
+  spatial_width: unit,
+  modulation_depth: unit,
+  timbre_evolution: unit,
+  warmth: unit,
+  nova_frequency: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+};
+
+const automationLanes: JsonSchema = {
+  type: 'object',
+  properties: Object.fromEntries(
+    Object.entries(AUTOMATABLE).map(([param, value]) => [
+      param,
+      { type: 'array', minItems: 1, items: breakpoint(value) },
+    ])
+  ),
+  additionalProperties: false,
+};
+
+const RHYTHM_MODES = ['still', 'breathing', 'heartbeat', 'delta', 'theta', 'alpha', 'beta', 'gamma'] as const;
+const ENTRAINMENT_MODES = ['none', 'breathing', 'heartbeat', 'delta', 'theta', 'alpha', 'beta', 'gamma'] as const;
+
+/**
+ * JSON Schema for the current JourneyConfig version
+ * Defaults mirror DEFAULT_SAFETY and DEFAULT_LAYERS in types/journey.ts and are filled in by migrations.
+ */
+export const JOURNEY_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://sonicjourney.app/schemas/journey.json',
+  title: 'JourneyConfig',
+  type: 'object',
+  properties: {
+    schema_version: { const: JOURNEY_SCHEMA_VERSION },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    duration_minutes: { type: 'number', exclusiveMinimum: 0 },
+    sample_rate: { type: 'integer', minimum: 8000, maximum: 192000, default: 48000 },
+    phases: { type: 'array', minItems: 1, items: { $ref: '#/$defs/phase' } },
+    layers: { $ref: '#/$defs/layers' },
+    safety: { $ref: '#/$defs/safety' },
+    nova_enabled: { type: 'boolean' },
+    beat_mode: { enum: ['binaural', 'monaural', 'isochronic', 'none'] },
+  },
+  required: ['schema_version', 'name', 'duration_minutes', 'sample_rate', 'phases', 'layers'],
+  additionalProperties: false,
+  $defs: {
+    phase: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        duration: { type: 'number', exclusiveMinimum: 0 },
+        frequency: range(1, 1000),
+        amplitude: range(0, 1),
+        breath_cycle_sec: { type: 'number', exclusiveMinimum: 0 },
+        fm_depth: AUTOMATABLE.fm_depth,
+        fm_rate: AUTOMATABLE.fm_rate,
+        rhythm_mode: { enum: RHYTHM_MODES },
+        entrainment_mode: { enum: ENTRAINMENT_MODES },
+        entrainment_rate: AUTOMATABLE.entrainment_rate,
+        support_frequency: range(1, 1000),
+        nova_enabled: { type: 'boolean' },
+        nova_frequency: AUTOMATABLE.nova_frequency,
+        nova_pattern: { $ref: '#/$defs/novaPattern' },
+        binaural_enabled: { type: 'boolean' },
+        binaural_beat_frequency: AUTOMATABLE.binaural_beat_frequency,
+        binaural_carrier_frequency: AUTOMATABLE.binaural_carrier_frequency,
+        binaural_volume: AUTOMATABLE.binaural_volume,
+        binaural_waveform: { enum: ['sine', 'triangle', 'sawtooth', 'square'] },
+        monaural_enabled: { type: 'boolean' },
+        monaural_beat_frequency: AUTOMATABLE.monaural_beat_frequency,
+        monaural_carrier_frequency: AUTOMATABLE.monaural_carrier_frequency,
+        monaural_volume: AUTOMATABLE.monaural_volume,
+        isochronic_enabled: { type: 'boolean' },
+        isochronic_pulse_rate: AUTOMATABLE.isochronic_pulse_rate,
+        isochronic_duty_cycle: { type: 'number', minimum: 0.05, maximum: 0.95 },
+        isochronic_carrier_frequency: AUTOMATABLE.isochronic_carrier_frequency,
+        isochronic_volume: AUTOMATABLE.isochronic_volume,
+        isochronic_pulse_shape: { enum: ['sine', 'soft', 'square'] },
+        melody_enabled: { type: 'boolean' },
+        melody_style: { enum: ['drone', 'arpeggio', 'evolving', 'harmonic', 'mixed'] },
+        melody_scale: {
+          enum: [
+            'pentatonic_major', 'pentatonic_minor', 'natural_minor', 'major', 'lydian',
+            'mixolydian', 'dorian', 'whole_tone', 'chromatic',
+          ],
+        },
+        melody_intensity: AUTOMATABLE.melody_intensity,
+        melody_density: { enum: ['sparse', 'moderate', 'dense'] },
+        music_prompt: { type: 'string' },
+        music_vocalization: { type: 'boolean' },
+        harmonic_richness: AUTOMATABLE.harmonic_richness,
+        effects_intensity: AUTOMATABLE.effects_intensity,
+        spatial_width: AUTOMATABLE.spatial_width,
+        modulation_depth: AUTOMATABLE.modulation_depth,
+        timbre_evolution: AUTOMATABLE.timbre_evolution,
+        warmth: AUTOMATABLE.warmth,
+        automation: automationLanes,
+      },
+      required: ['name', 'duration', 'frequency', 'amplitude'],
+      additionalProperties: false,
+    },
+    novaPattern: {
+      type: 'object',
+      properties: {
+        type: { enum: ['steady', 'sweep', 'burst', 'rhythm', 'wave', 'pulse', 'random'] },
+        baseFrequency: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+        targetFrequency: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+        burstCount: { type: 'integer', minimum: 1 },
+        burstGap: { type: 'number', minimum: 0 },
+        rhythmPattern: { type: 'array', minItems: 2, items: { type: 'number', minimum: 0 } },
+        waveAmplitude: { type: 'number', minimum: 0 },
+        wavePeriod: { type: 'number', exclusiveMinimum: 0 },
+        dutyCycle: unit,
+        randomVariation: { type: 'number', minimum: 0 },
+      },
+      required: ['type', 'baseFrequency'],
+      additionalProperties: false,
+    },
+    layers: {
+      type: 'object',
+      properties: {
+        base_carrier: { type: 'boolean', default: true },
+        support_carrier: { type: 'boolean', default: true },
+        texture_layer: { type: 'boolean', default: false },
+        melody_layer: { type: 'boolean', default: false },
+      },
+      required: ['base_carrier', 'support_carrier', 'texture_layer'],
+      additionalProperties: false,
+    },
+    safety: {
+      type: 'object',
+      properties: {
+        max_rms_db: { type: 'number', maximum: 0, default: -12 },
+        peak_ceiling_db: { type: 'number', maximum: 0, default: -1 },
+        lowpass_hz: { type: 'number', exclusiveMinimum: 0, default: 120 },
+        highpass_hz: { type: 'number', minimum: 0, default: 20 },
+      },
+      required: ['max_rms_db', 'peak_ceiling_db', 'lowpass_hz', 'highpass_hz'],
+      additionalProperties: false,
+    },
+  },
+};
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function resolveRef(ref: string): JsonSchema {
+  const name = ref.replace('#/$defs/', '');
+  const schema = JOURNEY_SCHEMA.$defs?.[name];
+  if (!schema) throw new Error(`Unknown schema reference: ${ref}`);
+  return schema;
+}
+
+function typeMatches(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object': return isObject(value);
+    case 'array': return Array.isArray(value);
+    case 'string': return typeof value === 'string';
+    case 'boolean': return typeof value === 'boolean';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+  }
+}
+
+function validateNode(schema: JsonSchema, value: unknown, path: string, errors: JourneyFieldError[]): void {
+  if (schema.$ref) {
+    validateNode(resolveRef(schema.$ref), value, path, errors);
+    return;
+  }
+
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.const !== undefined && value !== schema.const) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    fail(`must be one of: ${schema.enum.join(', ')}`);
+    return;
+  }
+  if (schema.type && !typeMatches(schema.type, value)) {
+    fail(`must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) fail(`must be > ${schema.exclusiveMinimum}`);
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(schema.items!, item, joinPath(path, index), errors));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties || {};
+    // Keys holding undefined are treated as absent, like JSON.stringify does
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) errors.push({ path: joinPath(path, key), message: 'is required' });
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) continue;
+      if (properties[key]) {
+        validateNode(properties[key], child, joinPath(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: 'is not a known field' });
+      }
+    }
+  }
+}
+
+/**
+ * Validate a journey against the current schema
+ * Returns every field-level error (empty when valid). Run migrateJourney() first for older data.
+ */
+export function validateJourney(value: unknown): JourneyFieldError[] {
+  const errors: JourneyFieldError[] = [];
+  validateNode(JOURNEY_SCHEMA, value, '', errors);
+  return errors.map((error) => ({ ...error, path: error.path || '(root)' }));
+}
+
+/**
+ * Format validation errors as a single readable message
+ */
+export function formatJourneyErrors(errors: JourneyFieldError[]): string {
+  return errors.map((error) => `${error.path} ${error.message}`).join('; ');
+}
+
+/**
+ * Property defaults declared in a schema definition
+ */
+function schemaDefaults(name: string): JsonObject {
+  const defaults: JsonObject = {};
+  for (const [key, property] of Object.entries(resolveRef(`#/$defs/${name}`).properties || {})) {
+    if (property.default !== undefined) defaults[key] = property.default;
+  }
+  return defaults;
+}
+
+// Migrations keyed by the version they upgrade from; each mutates the journey to version + 1.
+// Versions that only added optional fields have no entry.
+const MIGRATIONS: Record<number, (journey: JsonObject) => void> = {
+  // v0: preset JSON and journeys saved before versioning
+  0: (journey) => {
+    // Presets describe phases by start/end minute instead of duration
+    if (Array.isArray(journey.phases)) {
+      for (const phase of journey.phases) {
+        if (!isObject(phase)) continue;
+        if (typeof phase.start_min === 'number' && typeof phase.end_min === 'number' && !phase.duration) {
+          phase.duration = phase.end_min - phase.start_min;
+        }
+        delete phase.start_min;
+        delete phase.end_min;
+      }
+    }
+
+    // Preset-only metadata that never belonged to JourneyConfig
+    delete journey.category;
+    delete journey.bit_depth;
+
+    if (journey.sample_rate === undefined) journey.sample_rate = JOURNEY_SCHEMA.properties?.sample_rate.default;
+    // Presets only list the safety fields they override
+    journey.layers = { ...schemaDefaults('layers'), ...(isObject(journey.layers) ? journey.layers : {}) };
+    if (journey.safety === undefined || isObject(journey.safety)) {
+      journey.safety = { ...schemaDefaults('safety'), ...(journey.safety as JsonObject | undefined) };
+    }
+  },
+
+  // v1 (breakpoints and automation lanes), v2 (isochronic tones) and v3 (monaural beats and
+  // beat_mode) only added optional fields, so their data upgrades as it is
+};
+
+/**
+ * Schema version of a journey (0 for data saved before versioning)
+ */
+export function getJourneyVersion(value: unknown): number {
+  return isObject(value) && typeof value.schema_version === 'number' ? value.schema_version : 0;
+}
+
+/**
+ * Upgrade a journey of any older version to the current schema version
+ * Returns a migrated copy; the input is left untouched. Data from a newer version is
+ * returned unchanged and will fail validation.
+ */
+export function migrateJourney(value: unknown): unknown {
+  if (!isObject(value)) return value;
+
+  const journey = structuredClone(value);
+  let version = getJourneyVersion(journey);
+  while (version < JOURNEY_SCHEMA_VERSION) {
+    MIGRATIONS[version]?.(journey);
+    version += 1;
+    journey.schema_version = version;
+  }
+  return journey;
+}
+
+/**
+ * Migrate and validate a journey, throwing with every field error when it is invalid
+ */
+export function parseJourney(value: unknown): JourneyConfig {
+  const journey = migrateJourney(value);
+  const errors = validateJourney(journey);
+  if (errors.length > 0) {
+    throw new Error(`Invalid journey: ${formatJourneyErrors(errors)}`);
+  }
+  return journey as JourneyConfig;
+}
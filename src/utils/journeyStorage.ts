@@ -1,29 +1,266 @@
 /**
  * Browser storage utilities for saving and loading journeys
+ * Journeys and folders live in IndexedDB; journeys saved by earlier versions in localStorage
+ * are moved over the first time the library is opened.
  */
 
 import type { JourneyConfig } from '../types/journey';
+import { getJourneyVersion, migrateJourney, parseJourney, validateJourney, formatJourneyErrors } from './journeySchema';
 
-const STORAGE_KEY = 'sonic-journey-saved-journeys';
-const MAX_SAVED_JOURNEYS = 50;
+const DB_NAME = 'sonic-journey-library';
+const DB_VERSION = 2;
+const JOURNEY_STORE = 'journeys';
+const FOLDER_STORE = 'folders';
+
+// Where journeys were kept before the IndexedDB library
+const LEGACY_STORAGE_KEY = 'sonic-journey-saved-journeys';
 
 export interface SavedJourney {
   id: string;
   journey: JourneyConfig;
   createdAt: number;
   updatedAt: number;
+  folderId: string | null;  // null = not in a folder
+  tags: string[];
+  lastPlayedAt?: number;
+}
+
+export interface JourneyFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export type JourneySort = 'updated' | 'last_played' | 'duration' | 'name';
+
+export interface JourneyQuery {
+  folderId?: string | null;  // undefined = every folder, null = journeys outside folders
+  tag?: string;
+  search?: string;           // Matches name, description, phase names and tags
+  sort?: JourneySort;
+}
+
+export interface JourneyDetails {
+  folderId?: string | null;
+  tags?: string[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+/**
+ * Trim, drop empty and de-duplicate (case-insensitively) a list of tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Move journeys saved in localStorage into the library (runs once)
+ * Entries that fail validation stay in localStorage so nothing is lost.
+ */
+async function migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+  let entries: unknown;
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+    entries = JSON.parse(stored);
+  } catch (error) {
+    console.error('Error reading legacy saved journeys:', error);
+    return;
+  }
+
+  if (!Array.isArray(entries)) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+
+  const invalid: unknown[] = [];
+  const transaction = db.transaction(JOURNEY_STORE, 'readwrite');
+  const store = transaction.objectStore(JOURNEY_STORE);
+
+  for (const entry of entries) {
+    const journey = migrateJourney(entry?.journey);
+    const errors = validateJourney(journey);
+    if (!entry?.id || errors.length > 0) {
+      console.warn(`Not migrating invalid saved journey ${entry?.id}: ${formatJourneyErrors(errors)}`);
+      invalid.push(entry);
+      continue;
+    }
+
+    const saved: SavedJourney = {
+      id: entry.id,
+      journey: journey as JourneyConfig,
+      createdAt: entry.createdAt || Date.now(),
+      updatedAt: entry.updatedAt || entry.createdAt || Date.now(),
+      folderId: null,
+      tags: [],
+    };
+    store.put(saved);
+  }
+
+  await transactionDone(transaction);
+
+  if (invalid.length > 0) {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(invalid));
+  } else {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+}
+
+/**
+ * Open (and on first use create and populate) the journey library database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Journey library is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const journeys = db.createObjectStore(JOURNEY_STORE, { keyPath: 'id' });
+          journeys.createIndex('folderId', 'folderId');
+          journeys.createIndex('tags', 'tags', { multiEntry: true });
+          db.createObjectStore(FOLDER_STORE, { keyPath: 'id' });
+        }
+        // v2: name lookups for import conflicts
+        if (event.oldVersion < 2) {
+          request.transaction!.objectStore(JOURNEY_STORE).createIndex('name', 'journey.name');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await migrateLegacyStorage(db);
+      return db;
+    });
+
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Upgrade older schema versions of journey records in place, skipping invalid ones
+ */
+async function upgradeRecords(db: IDBDatabase, records: SavedJourney[]): Promise<SavedJourney[]> {
+  const upgraded: SavedJourney[] = [];
+  const valid = records.filter((record) => {
+    const journey = migrateJourney(record.journey);
+    const errors = validateJourney(journey);
+    if (errors.length > 0) {
+      console.warn(`Skipping invalid saved journey ${record.id}: ${formatJourneyErrors(errors)}`);
+      return false;
+    }
+    if (getJourneyVersion(journey) !== getJourneyVersion(record.journey)) {
+      record.journey = journey as JourneyConfig;
+      upgraded.push(record);
+    }
+    return true;
+  });
+
+  if (upgraded.length > 0) {
+    const transaction = db.transaction(JOURNEY_STORE, 'readwrite');
+    upgraded.forEach((record) => transaction.objectStore(JOURNEY_STORE).put(record));
+    await transactionDone(transaction).catch((error) => console.error('Error writing migrated journeys:', error));
+  }
+
+  return valid;
+}
+
+/**
+ * Read the journey records a query selects, using the tag or folder index when it has one
+ */
+async function readJourneys(query: JourneyQuery): Promise<SavedJourney[]> {
+  const db = await openDatabase();
+  const store = db.transaction(JOURNEY_STORE, 'readonly').objectStore(JOURNEY_STORE);
+
+  let records: SavedJourney[];
+  if (query.tag) {
+    records = await requestToPromise(store.index('tags').getAll(query.tag));
+  } else if (query.folderId) {
+    records = await requestToPromise(store.index('folderId').getAll(query.folderId));
+  } else {
+    records = await requestToPromise(store.getAll());
+  }
+
+  return upgradeRecords(db, records);
+}
+
+function matchesSearch(saved: SavedJourney, search: string): boolean {
+  const text = [
+    saved.journey.name,
+    saved.journey.description || '',
+    ...saved.journey.phases.map((phase) => phase.name),
+    ...saved.tags,
+  ]
+    .join(' ')
+    .toLowerCase();
+
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => text.includes(term));
 }
 
+const SORTERS: Record<JourneySort, (a: SavedJourney, b: SavedJourney) => number> = {
+  updated: (a, b) => b.updatedAt - a.updatedAt,
+  // Never-played journeys go last
+  last_played: (a, b) => (b.lastPlayedAt || 0) - (a.lastPlayedAt || 0) || b.updatedAt - a.updatedAt,
+  duration: (a, b) => a.journey.duration_minutes - b.journey.duration_minutes,
+  name: (a, b) => a.journey.name.localeCompare(b.journey.name),
+};
+
 /**
- * Get all saved journeys from localStorage
+ * Get saved journeys, optionally filtered by folder, tag and search text
  */
-export function getSavedJourneys(): SavedJourney[] {
+export async function getSavedJourneys(query: JourneyQuery = {}): Promise<SavedJourney[]> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-    
-    const parsed = JSON.parse(stored);
-    return Array.isArray(parsed) ? parsed : [];
+    let journeys = await readJourneys(query);
+
+    if (query.folderId !== undefined) {
+      journeys = journeys.filter((saved) => saved.folderId === query.folderId);
+    }
+    if (query.search?.trim()) {
+      journeys = journeys.filter((saved) => matchesSearch(saved, query.search!));
+    }
+
+    return journeys.sort(SORTERS[query.sort || 'updated']);
   } catch (error) {
     console.error('Error loading saved journeys:', error);
     return [];
@@ -31,31 +268,25 @@ export function getSavedJourneys(): SavedJourney[] {
 }
 
 /**
- * Save a journey to localStorage
+ * Save a journey to the library
  */
-export function saveJourney(journey: JourneyConfig): string {
-  const saved = getSavedJourneys();
-  const id = `custom-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+export async function saveJourney(journey: JourneyConfig, details: JourneyDetails = {}): Promise<string> {
   const now = Date.now();
-  
   const savedJourney: SavedJourney = {
-    id,
-    journey,
+    id: createId('custom'),
+    journey: parseJourney(journey),
     createdAt: now,
     updatedAt: now,
+    folderId: details.folderId ?? null,
+    tags: normalizeTags(details.tags || []),
   };
-  
-  // Add to beginning of array
-  saved.unshift(savedJourney);
-  
-  // Limit to MAX_SAVED_JOURNEYS
-  if (saved.length > MAX_SAVED_JOURNEYS) {
-    saved.splice(MAX_SAVED_JOURNEYS);
-  }
-  
+
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
-    return id;
+    const db = await openDatabase();
+    const transaction = db.transaction(JOURNEY_STORE, 'readwrite');
+    transaction.objectStore(JOURNEY_STORE).add(savedJourney);
+    await transactionDone(transaction);
+    return savedJourney.id;
   } catch (error) {
     console.error('Error saving journey:', error);
     throw new Error('Failed to save journey to browser storage');
@@ -63,39 +294,73 @@ export function saveJourney(journey: JourneyConfig): string {
 }
 
 /**
- * Update an existing saved journey
+ * Apply a change to a stored journey record
  */
-export function updateSavedJourney(id: string, journey: JourneyConfig): void {
-  const saved = getSavedJourneys();
-  const index = saved.findIndex((j) => j.id === id);
-  
-  if (index === -1) {
+async function modifySavedJourney(id: string, change: (saved: SavedJourney) => void): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(JOURNEY_STORE, 'readwrite');
+  const store = transaction.objectStore(JOURNEY_STORE);
+
+  const saved: SavedJourney | undefined = await requestToPromise(store.get(id));
+  if (!saved) {
+    transaction.abort();
     throw new Error('Journey not found');
   }
-  
-  saved[index] = {
-    ...saved[index],
-    journey,
-    updatedAt: Date.now(),
-  };
-  
+
+  change(saved);
+  store.put(saved);
+  await transactionDone(transaction);
+}
+
+/**
+ * Update an existing saved journey
+ */
+export async function updateSavedJourney(id: string, journey: JourneyConfig): Promise<void> {
+  const validated = parseJourney(journey);
+
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    await modifySavedJourney(id, (saved) => {
+      saved.journey = validated;
+      saved.updatedAt = Date.now();
+    });
   } catch (error) {
     console.error('Error updating journey:', error);
-    throw new Error('Failed to update journey');
+    throw error instanceof Error && error.message === 'Journey not found' ? error : new Error('Failed to update journey');
+  }
+}
+
+/**
+ * Move a saved journey to a folder and/or replace its tags
+ */
+export async function updateJourneyDetails(id: string, details: JourneyDetails): Promise<void> {
+  await modifySavedJourney(id, (saved) => {
+    if (details.folderId !== undefined) saved.folderId = details.folderId;
+    if (details.tags) saved.tags = normalizeTags(details.tags);
+  });
+}
+
+/**
+ * Record that a saved journey was just played (for sorting by last played)
+ */
+export async function markJourneyPlayed(id: string): Promise<void> {
+  try {
+    await modifySavedJourney(id, (saved) => {
+      saved.lastPlayedAt = Date.now();
+    });
+  } catch (error) {
+    console.error('Error recording journey playback:', error);
   }
 }
 
 /**
  * Delete a saved journey
  */
-export function deleteSavedJourney(id: string): void {
-  const saved = getSavedJourneys();
-  const filtered = saved.filter((j) => j.id !== id);
-  
+export async function deleteSavedJourney(id: string): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    const db = await openDatabase();
+    const transaction = db.transaction(JOURNEY_STORE, 'readwrite');
+    transaction.objectStore(JOURNEY_STORE).delete(id);
+    await transactionDone(transaction);
   } catch (error) {
     console.error('Error deleting journey:', error);
     throw new Error('Failed to delete journey');
@@ -105,19 +370,105 @@ export function deleteSavedJourney(id: string): void {
 /**
  * Get a specific saved journey by ID
  */
-export function getSavedJourney(id: string): SavedJourney | undefined {
-  const saved = getSavedJourneys();
-  return saved.find((j) => j.id === id);
+export async function getSavedJourney(id: string): Promise<SavedJourney | undefined> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(JOURNEY_STORE, 'readonly').objectStore(JOURNEY_STORE);
+    const record: SavedJourney | undefined = await requestToPromise(store.get(id));
+    return record ? (await upgradeRecords(db, [record]))[0] : undefined;
+  } catch (error) {
+    console.error('Error loading saved journey:', error);
+    return undefined;
+  }
 }
 
 /**
  * Check if a journey is already saved (by name and duration)
  */
-export function findExistingJourney(journey: JourneyConfig): SavedJourney | undefined {
-  const saved = getSavedJourneys();
-  return saved.find(
-    (s) =>
-      s.journey.name === journey.name &&
-      s.journey.duration_minutes === journey.duration_minutes
-  );
+export async function findExistingJourney(journey: JourneyConfig): Promise<SavedJourney | undefined> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(JOURNEY_STORE, 'readonly').objectStore(JOURNEY_STORE);
+    const records: SavedJourney[] = await requestToPromise(store.index('name').getAll(journey.name));
+    const saved = await upgradeRecords(db, records);
+    return saved.find((s) => s.journey.duration_minutes === journey.duration_minutes);
+  } catch (error) {
+    console.error('Error looking up saved journey:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Every tag used in the library, alphabetically
+ */
+export async function getAllTags(): Promise<string[]> {
+  const saved = await getSavedJourneys();
+  return normalizeTags(saved.flatMap((s) => s.tags)).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Get all folders, alphabetically
+ */
+export async function getFolders(): Promise<JourneyFolder[]> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(FOLDER_STORE, 'readonly').objectStore(FOLDER_STORE);
+    const folders: JourneyFolder[] = await requestToPromise(store.getAll());
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error loading folders:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a folder
+ */
+export async function createFolder(name: string): Promise<JourneyFolder> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Folder name is required');
+  }
+
+  const folder: JourneyFolder = { id: createId('folder'), name: trimmed, createdAt: Date.now() };
+  const db = await openDatabase();
+  const transaction = db.transaction(FOLDER_STORE, 'readwrite');
+  transaction.objectStore(FOLDER_STORE).add(folder);
+  await transactionDone(transaction);
+  return folder;
+}
+
+/**
+ * Rename a folder
+ */
+export async function renameFolder(id: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Folder name is required');
+  }
+
+  const db = await openDatabase();
+  const transaction = db.transaction(FOLDER_STORE, 'readwrite');
+  const store = transaction.objectStore(FOLDER_STORE);
+  const folder: JourneyFolder | undefined = await requestToPromise(store.get(id));
+  if (!folder) {
+    transaction.abort();
+    throw new Error('Folder not found');
+  }
+  store.put({ ...folder, name: trimmed });
+  await transactionDone(transaction);
+}
+
+/**
+ * Delete a folder; its journeys are kept and moved out of the folder
+ */
+export async function deleteFolder(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([FOLDER_STORE, JOURNEY_STORE], 'readwrite');
+  const journeys = transaction.objectStore(JOURNEY_STORE);
+
+  const contained: SavedJourney[] = await requestToPromise(journeys.index('folderId').getAll(id));
+  contained.forEach((saved) => journeys.put({ ...saved, folderId: null }));
+  transaction.objectStore(FOLDER_STORE).delete(id);
+  await transactionDone(transaction);
 }
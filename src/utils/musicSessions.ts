@@ -0,0 +1,194 @@
+/**
+ * Music Sessions - Ids, limits and timeouts for Lyria music streams, one session per listener
+ * Dependency-free so the Express server and the Vercel functions share it. The registry only keeps
+ * the bookkeeping; whoever opens a session passes the data needed to close it and an onExpire handler.
+ */
+
+export interface MusicSessionLimits {
+  maxSessions: number;                // Open sessions across all clients
+  maxSessionsPerClient: number;       // Open sessions per client (IP address)
+  idleTimeoutMs: number;              // Ended after this long without audio or a control request
+  maxDurationMs: number;              // Ended after this long regardless
+  maxPromptUpdatesPerMinute: number;
+}
+
+export const DEFAULT_MUSIC_SESSION_LIMITS: MusicSessionLimits = {
+  maxSessions: 8,
+  maxSessionsPerClient: 2,
+  idleTimeoutMs: 2 * 60 * 1000,
+  maxDurationMs: 60 * 60 * 1000,
+  maxPromptUpdatesPerMinute: 12,
+};
+
+export type MusicSessionEndReason = 'stopped' | 'idle' | 'max_duration' | 'disconnected' | 'error' | 'closed';
+
+export interface MusicSessionRecord<T> {
+  id: string;
+  clientId: string;
+  createdAt: number;
+  lastActivity: number;
+  promptUpdates: number[];    // Times of recent prompt updates, for the rate limit
+  data: T;
+}
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a value looks like a session id issued by a registry (request validation)
+ */
+export function isMusicSessionId(value: unknown): value is string {
+  return typeof value === 'string' && SESSION_ID_PATTERN.test(value);
+}
+
+/**
+ * Music session limits from environment variables, falling back to the defaults
+ * MUSIC_MAX_SESSIONS, MUSIC_MAX_SESSIONS_PER_CLIENT, MUSIC_SESSION_IDLE_SECONDS, MUSIC_SESSION_MAX_MINUTES
+ */
+export function getMusicSessionLimitsFromEnv(env: Record<string, string | undefined>): MusicSessionLimits {
+  const read = (name: string, scale: number, fallback: number) => {
+    const value = Number(env[name]);
+    return Number.isFinite(value) && value > 0 ? value * scale : fallback;
+  };
+  const defaults = DEFAULT_MUSIC_SESSION_LIMITS;
+  return {
+    ...defaults,
+    maxSessions: read('MUSIC_MAX_SESSIONS', 1, defaults.maxSessions),
+    maxSessionsPerClient: read('MUSIC_MAX_SESSIONS_PER_CLIENT', 1, defaults.maxSessionsPerClient),
+    idleTimeoutMs: read('MUSIC_SESSION_IDLE_SECONDS', 1000, defaults.idleTimeoutMs),
+    maxDurationMs: read('MUSIC_SESSION_MAX_MINUTES', 60 * 1000, defaults.maxDurationMs),
+  };
+}
+
+export class MusicSessionRegistry<T> {
+  private limits: MusicSessionLimits;
+  private onExpire: (record: MusicSessionRecord<T>, reason: MusicSessionEndReason) => void;
+  private sessions = new Map<string, MusicSessionRecord<T>>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    limits: Partial<MusicSessionLimits>,
+    onExpire: (record: MusicSessionRecord<T>, reason: MusicSessionEndReason) => void
+  ) {
+    this.limits = { ...DEFAULT_MUSIC_SESSION_LIMITS, ...limits };
+    this.onExpire = onExpire;
+  }
+
+  getLimits(): MusicSessionLimits {
+    return { ...this.limits };
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Why a client cannot open another session, or null if it can
+   */
+  checkOpen(clientId: string): string | null {
+    if (this.sessions.size >= this.limits.maxSessions) {
+      return `Too many music sessions (maximum ${this.limits.maxSessions})`;
+    }
+    const clientSessions = [...this.sessions.values()].filter((record) => record.clientId === clientId).length;
+    if (clientSessions >= this.limits.maxSessionsPerClient) {
+      return `Too many music sessions for this client (maximum ${this.limits.maxSessionsPerClient})`;
+    }
+    return null;
+  }
+
+  open(clientId: string, data: T): MusicSessionRecord<T> {
+    const error = this.checkOpen(clientId);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const now = Date.now();
+    const record: MusicSessionRecord<T> = {
+      id: crypto.randomUUID(),
+      clientId,
+      createdAt: now,
+      lastActivity: now,
+      promptUpdates: [],
+      data,
+    };
+    this.sessions.set(record.id, record);
+    this.schedule(record);
+    return record;
+  }
+
+  get(id: string): MusicSessionRecord<T> | null {
+    return this.sessions.get(id) ?? null;
+  }
+
+  /**
+   * Record activity (audio delivered or a control request), postponing the idle timeout
+   */
+  touch(id: string): void {
+    const record = this.sessions.get(id);
+    if (record) record.lastActivity = Date.now();
+  }
+
+  /**
+   * Count a prompt update against the rate limit; false if the session is over it
+   */
+  allowPromptUpdate(id: string): boolean {
+    const record = this.sessions.get(id);
+    if (!record) return false;
+
+    const now = Date.now();
+    record.promptUpdates = record.promptUpdates.filter((time) => now - time < 60_000);
+    if (record.promptUpdates.length >= this.limits.maxPromptUpdatesPerMinute) {
+      return false;
+    }
+    record.promptUpdates.push(now);
+    record.lastActivity = now;
+    return true;
+  }
+
+  /**
+   * Forget a session without calling onExpire; returns it, or null if it was not open
+   */
+  remove(id: string): MusicSessionRecord<T> | null {
+    const record = this.sessions.get(id);
+    if (!record) return null;
+    this.sessions.delete(id);
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    return record;
+  }
+
+  // One timer per session, set for whichever of the idle and duration limits comes first
+  private schedule(record: MusicSessionRecord<T>): void {
+    const deadline = Math.min(record.lastActivity + this.limits.idleTimeoutMs, record.createdAt + this.limits.maxDurationMs);
+    const timer = setTimeout(() => this.check(record.id), Math.max(0, deadline - Date.now()));
+    // Node timers should not keep the process alive; browsers return a number
+    (timer as { unref?: () => void }).unref?.();
+    this.timers.set(record.id, timer);
+  }
+
+  private check(id: string): void {
+    const record = this.sessions.get(id);
+    if (!record) return;
+
+    const now = Date.now();
+    let reason: MusicSessionEndReason | null = null;
+    if (now >= record.createdAt + this.limits.maxDurationMs) {
+      reason = 'max_duration';
+    } else if (now >= record.lastActivity + this.limits.idleTimeoutMs) {
+      reason = 'idle';
+    }
+
+    if (reason) {
+      this.remove(id);
+      this.onExpire(record, reason);
+    } else {
+      this.schedule(record);
+    }
+  }
+}
+
+export function createMusicSessionRegistry<T>(
+  limits: Partial<MusicSessionLimits>,
+  onExpire: (record: MusicSessionRecord<T>, reason: MusicSessionEndReason) => void
+): MusicSessionRegistry<T> {
+  return new MusicSessionRegistry(limits, onExpire);
+}
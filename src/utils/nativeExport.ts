@@ -1,6 +1,6 @@
 /**
  * Native file export for Capacitor iOS app.
- * Saves audio blobs to the device filesystem and opens the iOS share sheet.
+ * Saves blobs (audio exports, journey files) to the device filesystem and opens the iOS share sheet.
  * Falls back to browser download on web.
  */
 import { Capacitor } from '@capacitor/core';
@@ -17,9 +17,15 @@ function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
+export interface ShareOptions {
+  title?: string;
+  dialogTitle?: string;
+}
+
 export async function saveAndShareFile(
   blob: Blob,
-  filename: string
+  filename: string,
+  options: ShareOptions = {}
 ): Promise<void> {
   if (!Capacitor.isNativePlatform()) {
     // Web fallback — use browser download
@@ -47,8 +53,8 @@ export async function saveAndShareFile(
   });
 
   await Share.share({
-    title: 'Sonic Journey Export',
+    title: options.title ?? 'Sonic Journey Export',
     url: result.uri,
-    dialogTitle: 'Save or share your audio',
+    dialogTitle: options.dialogTitle ?? 'Save or share your audio',
   });
 }
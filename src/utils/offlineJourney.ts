@@ -0,0 +1,395 @@
+/**
+ * Offline journey - Rule-based journeys from prompt keywords, for working without an AI provider
+ * The prompt's keywords (or an explicit intent) pick a phase arc, which is laid out over the requested
+ * duration using the energy levels, entrainment presets and Nova pattern presets. The result has the
+ * shape the server's normalization produces, so the app can use it directly when the server is out of reach.
+ * Simple plain-language refinements of an existing journey are handled the same way.
+ * Imports carry .js specifiers so the serverless functions can load it without a bundler.
+ */
+
+import type { EntrainmentMode, JourneyConfig, PhaseConfig, RhythmMode } from '../types/journey.js';
+import { DEFAULT_LAYERS, DEFAULT_SAFETY, ENERGY_LEVELS, ENTRAINMENT_PRESETS, NOVA_PATTERN_PRESETS } from '../types/journey.js';
+import { makeNovaPatternSafe } from '../audio/NovaSafety.js';
+import { JOURNEY_SCHEMA_VERSION, formatJourneyErrors, validateJourney } from './journeySchema.js';
+
+export type JourneyIntent = 'sleep' | 'anxiety' | 'relaxation' | 'grief' | 'focus' | 'energy' | 'creativity' | 'meditation';
+
+export type JourneyIntensity = 'gentle' | 'moderate' | 'strong';
+
+export interface JourneyConstraints {
+  intent?: JourneyIntent;       // Overrides keyword detection
+  nova?: boolean;               // Nova flicker on or off for every phase
+  binaural?: boolean;           // Binaural beats on or off for every phase
+  intensity?: JourneyIntensity; // Scales amplitude and FM depth
+}
+
+interface PhaseTemplate {
+  name: string;
+  weight: number;           // Share of the journey
+  from: string;             // ENERGY_LEVELS key at the start of the phase
+  to: string;               // ENERGY_LEVELS key at the end
+  rhythm: RhythmMode;
+  amplitude: [number, number];
+  nova: string;             // NOVA_PATTERN_PRESETS key, chosen below the photosensitive risk band
+}
+
+interface IntentTemplate {
+  label: string;
+  keywords: string[];
+  phases: PhaseTemplate[];
+}
+
+const MAX_PHASE_MINUTES = 60;   // Longest phase the schema allows
+
+const INTENSITY: Record<JourneyIntensity, { amplitude: number; fmDepth: number }> = {
+  gentle: { amplitude: 0.8, fmDepth: 0.05 },
+  moderate: { amplitude: 1, fmDepth: 0.1 },
+  strong: { amplitude: 1.2, fmDepth: 0.15 },
+};
+
+const INTENTS: Record<JourneyIntent, IntentTemplate> = {
+  sleep: {
+    label: 'Deep Sleep',
+    keywords: ['sleep', 'insomnia', 'night', 'bed', 'drowsy', 'nap'],
+    phases: [
+      { name: 'Settling In', weight: 0.2, from: 'centered', to: 'grounding', rhythm: 'breathing', amplitude: [0.5, 0.55], nova: 'alpha_to_theta' },
+      { name: 'Letting Go', weight: 0.25, from: 'grounding', to: 'deep_grounding', rhythm: 'theta', amplitude: [0.55, 0.6], nova: 'theta_to_delta' },
+      { name: 'Descent', weight: 0.3, from: 'deep_grounding', to: 'deep_grounding', rhythm: 'delta', amplitude: [0.6, 0.5], nova: 'slow_wave' },
+      { name: 'Deep Rest', weight: 0.25, from: 'deep_grounding', to: 'deep_grounding', rhythm: 'delta', amplitude: [0.5, 0.35], nova: 'steady_delta' },
+    ],
+  },
+  anxiety: {
+    label: 'Steady Ground',
+    keywords: ['anxi', 'panic', 'worry', 'nervous', 'overwhelm', 'racing'],
+    phases: [
+      { name: 'Feet on the Floor', weight: 0.2, from: 'centered', to: 'grounding', rhythm: 'heartbeat', amplitude: [0.45, 0.5], nova: 'heartbeat' },
+      { name: 'Slowing the Breath', weight: 0.3, from: 'grounding', to: 'grounding', rhythm: 'breathing', amplitude: [0.5, 0.55], nova: 'breathing' },
+      { name: 'Safe Harbor', weight: 0.3, from: 'grounding', to: 'grounding', rhythm: 'alpha', amplitude: [0.55, 0.55], nova: 'alpha_wave' },
+      { name: 'Steady Return', weight: 0.2, from: 'grounding', to: 'centered', rhythm: 'breathing', amplitude: [0.55, 0.45], nova: 'soft_alpha' },
+    ],
+  },
+  relaxation: {
+    label: 'Calm Release',
+    keywords: ['relax', 'calm', 'stress', 'unwind', 'peace', 'tension', 'soothe'],
+    phases: [
+      { name: 'Arrival', weight: 0.2, from: 'balanced', to: 'centered', rhythm: 'breathing', amplitude: [0.45, 0.55], nova: 'breathing' },
+      { name: 'Softening', weight: 0.3, from: 'centered', to: 'grounding', rhythm: 'alpha', amplitude: [0.55, 0.6], nova: 'alpha_wave' },
+      { name: 'Stillness', weight: 0.3, from: 'grounding', to: 'grounding', rhythm: 'theta', amplitude: [0.6, 0.55], nova: 'theta_wave' },
+      { name: 'Gentle Return', weight: 0.2, from: 'grounding', to: 'centered', rhythm: 'breathing', amplitude: [0.55, 0.45], nova: 'soft_alpha' },
+    ],
+  },
+  grief: {
+    label: 'Holding Space',
+    keywords: ['grief', 'griev', 'loss', 'mourn', 'sad', 'heartbr', 'miss '],
+    phases: [
+      { name: 'Being Held', weight: 0.2, from: 'centered', to: 'grounding', rhythm: 'heartbeat', amplitude: [0.45, 0.5], nova: 'heartbeat' },
+      { name: 'Feeling', weight: 0.3, from: 'grounding', to: 'grounding', rhythm: 'theta', amplitude: [0.5, 0.6], nova: 'organic_theta' },
+      { name: 'Release', weight: 0.25, from: 'grounding', to: 'deep_grounding', rhythm: 'delta', amplitude: [0.6, 0.5], nova: 'slow_wave' },
+      { name: 'Comfort', weight: 0.25, from: 'deep_grounding', to: 'centered', rhythm: 'breathing', amplitude: [0.5, 0.45], nova: 'breathing' },
+    ],
+  },
+  focus: {
+    label: 'Clear Focus',
+    keywords: ['focus', 'concentrat', 'study', 'work', 'productiv', 'clarity', 'attention'],
+    phases: [
+      { name: 'Clearing', weight: 0.2, from: 'centered', to: 'balanced', rhythm: 'breathing', amplitude: [0.45, 0.5], nova: 'breathing' },
+      { name: 'Engagement', weight: 0.35, from: 'balanced', to: 'uplifting', rhythm: 'alpha', amplitude: [0.5, 0.55], nova: 'steady_alpha' },
+      { name: 'Deep Work', weight: 0.3, from: 'uplifting', to: 'uplifting', rhythm: 'beta', amplitude: [0.55, 0.55], nova: 'alpha_burst' },
+      { name: 'Integration', weight: 0.15, from: 'uplifting', to: 'balanced', rhythm: 'alpha', amplitude: [0.55, 0.45], nova: 'soft_alpha' },
+    ],
+  },
+  energy: {
+    label: 'Rising Energy',
+    keywords: ['energ', 'wake', 'morning', 'uplift', 'motivat', 'activat', 'vital', 'boost'],
+    phases: [
+      { name: 'Grounding', weight: 0.2, from: 'grounding', to: 'centered', rhythm: 'breathing', amplitude: [0.5, 0.55], nova: 'breathing' },
+      { name: 'Awakening', weight: 0.3, from: 'centered', to: 'uplifting', rhythm: 'alpha', amplitude: [0.55, 0.6], nova: 'delta_to_alpha' },
+      { name: 'Activation', weight: 0.3, from: 'uplifting', to: 'energizing', rhythm: 'beta', amplitude: [0.6, 0.65], nova: 'alpha_burst' },
+      { name: 'Ready', weight: 0.2, from: 'energizing', to: 'uplifting', rhythm: 'heartbeat', amplitude: [0.65, 0.55], nova: 'triplet' },
+    ],
+  },
+  creativity: {
+    label: 'Open Mind',
+    keywords: ['creativ', 'imagin', 'inspir', 'idea', 'artist', 'paint', 'write', 'flow'],
+    phases: [
+      { name: 'Loosening', weight: 0.2, from: 'balanced', to: 'centered', rhythm: 'breathing', amplitude: [0.45, 0.5], nova: 'breathing' },
+      { name: 'Wandering', weight: 0.3, from: 'centered', to: 'centered', rhythm: 'alpha', amplitude: [0.5, 0.55], nova: 'organic_alpha' },
+      { name: 'Dreaming', weight: 0.3, from: 'centered', to: 'grounding', rhythm: 'theta', amplitude: [0.55, 0.6], nova: 'theta_burst' },
+      { name: 'Gathering', weight: 0.2, from: 'grounding', to: 'balanced', rhythm: 'alpha', amplitude: [0.6, 0.5], nova: 'alpha_wave' },
+    ],
+  },
+  meditation: {
+    label: 'Inner Journey',
+    keywords: ['meditat', 'mindful', 'spiritual', 'dream', 'explore', 'visual'],
+    phases: [
+      { name: 'Grounding Breath', weight: 0.2, from: 'balanced', to: 'centered', rhythm: 'breathing', amplitude: [0.45, 0.55], nova: 'breathing' },
+      { name: 'Opening', weight: 0.25, from: 'centered', to: 'centered', rhythm: 'alpha', amplitude: [0.55, 0.6], nova: 'alpha_to_theta' },
+      { name: 'Deep Journey', weight: 0.35, from: 'centered', to: 'grounding', rhythm: 'theta', amplitude: [0.6, 0.6], nova: 'theta_wave' },
+      { name: 'Return', weight: 0.2, from: 'grounding', to: 'balanced', rhythm: 'breathing', amplitude: [0.6, 0.45], nova: 'soft_alpha' },
+    ],
+  },
+};
+
+export const JOURNEY_INTENTS = Object.keys(INTENTS) as JourneyIntent[];
+
+/**
+ * Intent of a prompt: the one with the most keyword matches, meditation if none match
+ */
+export function detectIntent(prompt: string): JourneyIntent {
+  const text = prompt.toLowerCase();
+  let best: JourneyIntent = 'meditation';
+  let bestScore = 0;
+  for (const [intent, template] of Object.entries(INTENTS) as [JourneyIntent, IntentTemplate][]) {
+    const score = template.keywords.filter((keyword) => text.includes(keyword)).length;
+    if (score > bestScore) {
+      best = intent;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function levelMidpoint(level: string): number {
+  const [low, high] = ENERGY_LEVELS[level] ?? ENERGY_LEVELS.centered;
+  return Math.round((low + high) / 2);
+}
+
+/**
+ * Whole-minute durations in proportion to weights, each at least 1, summing to total
+ */
+function splitDuration(weights: number[], total: number): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const durations = weights.map((weight) => Math.max(1, Math.round((weight / sum) * total)));
+  const diff = total - durations.reduce((a, b) => a + b, 0);
+  const longest = durations.indexOf(Math.max(...durations));
+  durations[longest] = Math.max(1, durations[longest] + diff);
+  return durations;
+}
+
+interface LaidOutPhase {
+  template: PhaseTemplate;
+  name: string;
+  duration: number;
+  frequency: [number, number];
+  amplitude: [number, number];
+}
+
+/**
+ * Lay a template's phases over the duration, splitting any phase longer than the schema allows
+ * into parts that continue its frequency and amplitude ramps
+ */
+function layOutPhases(template: IntentTemplate, duration: number): LaidOutPhase[] {
+  const durations = splitDuration(template.phases.map((phase) => phase.weight), duration);
+
+  return template.phases.flatMap((phase, index) => {
+    const frequency: [number, number] = [levelMidpoint(phase.from), levelMidpoint(phase.to)];
+    const parts = Math.ceil(durations[index] / MAX_PHASE_MINUTES);
+    if (parts === 1) {
+      return [{ template: phase, name: phase.name, duration: durations[index], frequency, amplitude: phase.amplitude }];
+    }
+
+    const along = (range: [number, number], part: number) => range[0] + ((range[1] - range[0]) * part) / parts;
+    return splitDuration(new Array(parts).fill(1), durations[index]).map((partDuration, part) => ({
+      template: phase,
+      name: `${phase.name} ${part + 1}`,
+      duration: partDuration,
+      frequency: [Math.round(along(frequency, part)), Math.round(along(frequency, part + 1))] as [number, number],
+      amplitude: [along(phase.amplitude, part), along(phase.amplitude, part + 1)] as [number, number],
+    }));
+  });
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Apply user constraints to a finished journey (offline or AI-generated)
+ */
+export function applyJourneyConstraints(journey: JourneyConfig, constraints: JourneyConstraints): JourneyConfig {
+  const intensity = constraints.intensity ? INTENSITY[constraints.intensity] : null;
+
+  const phases = journey.phases.map((phase) => {
+    const next: PhaseConfig = { ...phase };
+    if (intensity) {
+      next.amplitude = {
+        start: Math.min(1, roundTo(phase.amplitude.start * intensity.amplitude, 0.01)),
+        end: Math.min(1, roundTo(phase.amplitude.end * intensity.amplitude, 0.01)),
+      };
+      next.fm_depth = intensity.fmDepth;
+    }
+    if (constraints.nova !== undefined) next.nova_enabled = constraints.nova;
+    if (constraints.binaural !== undefined) next.binaural_enabled = constraints.binaural;
+    return next;
+  });
+
+  return {
+    ...journey,
+    nova_enabled: constraints.nova ?? journey.nova_enabled,
+    phases,
+  };
+}
+
+/**
+ * Build a journey for a prompt and duration (minutes) without any AI provider
+ */
+export function buildOfflineJourney(prompt: string, duration: number, constraints: JourneyConstraints = {}): JourneyConfig {
+  const intent = constraints.intent ?? detectIntent(prompt);
+  const template = INTENTS[intent];
+
+  const phases: PhaseConfig[] = layOutPhases(template, duration).map((phase) => {
+    const rhythm = phase.template.rhythm;
+    const entrainmentMode: EntrainmentMode = rhythm === 'still' ? 'none' : rhythm;
+    const rate = ENTRAINMENT_PRESETS[entrainmentMode].rate;
+    const novaPattern = makeNovaPatternSafe(NOVA_PATTERN_PRESETS[phase.template.nova], phase.duration * 60000);
+    return {
+      name: phase.name,
+      duration: phase.duration,
+      frequency: { start: phase.frequency[0], end: phase.frequency[1] },
+      amplitude: { start: roundTo(phase.amplitude[0], 0.01), end: roundTo(phase.amplitude[1], 0.01) },
+      breath_cycle_sec: 12,
+      fm_depth: 0.1,
+      rhythm_mode: rhythm,
+      entrainment_mode: entrainmentMode,
+      entrainment_rate: rate >= 1 ? rate : undefined,
+      nova_enabled: novaPattern !== null,
+      nova_pattern: novaPattern ?? undefined,
+      binaural_enabled: true,
+      binaural_beat_frequency: rate >= 1 ? rate : 10,
+      binaural_carrier_frequency: 200,
+    };
+  });
+
+  const journey = applyJourneyConstraints({
+    schema_version: JOURNEY_SCHEMA_VERSION,
+    name: template.label,
+    description: `A ${duration}-minute ${template.label.toLowerCase()} journey for "${prompt.trim().substring(0, 80)}"`,
+    duration_minutes: duration,
+    sample_rate: 48000,
+    layers: { ...DEFAULT_LAYERS },
+    safety: { ...DEFAULT_SAFETY },
+    nova_enabled: true,
+    phases,
+  }, constraints);
+
+  const errors = validateJourney(journey);
+  if (errors.length > 0) {
+    throw new Error(`Offline journey failed validation: ${formatJourneyErrors(errors)}`);
+  }
+  return journey;
+}
+
+// Entrainment rhythms from slowest to fastest, for "deeper" and "brighter" refinements
+type LadderRhythm = 'delta' | 'theta' | 'alpha' | 'beta';
+const RHYTHM_LADDER: LadderRhythm[] = ['delta', 'theta', 'alpha', 'beta'];
+
+// Nova pattern to follow a rhythm change, below the photosensitive risk band
+const RHYTHM_NOVA: Record<LadderRhythm, string> = {
+  delta: 'slow_wave',
+  theta: 'theta_wave',
+  alpha: 'alpha_wave',
+  beta: 'alpha_burst',
+};
+
+type PhaseEdit = (phase: PhaseConfig) => PhaseConfig;
+
+interface RefinementRule {
+  group: string;        // Only the first matching rule of a group applies to a clause
+  pattern: RegExp;
+  edit: PhaseEdit;
+}
+
+function shiftLevel(hz: number, steps: number): number {
+  const levels = Object.keys(ENERGY_LEVELS);
+  const current = levels.findIndex((level) => hz < ENERGY_LEVELS[level][1]);
+  const index = current === -1 ? levels.length - 1 : current;
+  const target = levels[Math.max(0, Math.min(levels.length - 1, index + steps))];
+  return target === levels[index] ? hz : levelMidpoint(target);
+}
+
+function shiftPhase(steps: number): PhaseEdit {
+  return (phase) => {
+    const next: PhaseConfig = {
+      ...phase,
+      frequency: { start: shiftLevel(phase.frequency.start, steps), end: shiftLevel(phase.frequency.end, steps) },
+    };
+
+    const rung = RHYTHM_LADDER.indexOf(phase.rhythm_mode as LadderRhythm);
+    if (rung === -1) return next;
+    const rhythm = RHYTHM_LADDER[Math.max(0, Math.min(RHYTHM_LADDER.length - 1, rung + steps))];
+    const rate = ENTRAINMENT_PRESETS[rhythm].rate;
+    next.rhythm_mode = rhythm;
+    next.entrainment_mode = rhythm;
+    next.entrainment_rate = rate;
+    if (phase.binaural_beat_frequency !== undefined) next.binaural_beat_frequency = rate;
+    if (phase.nova_pattern) {
+      next.nova_pattern = makeNovaPatternSafe(NOVA_PATTERN_PRESETS[RHYTHM_NOVA[rhythm]], phase.duration * 60000) ?? undefined;
+    }
+    return next;
+  };
+}
+
+function scaleAmplitude(factor: number): PhaseEdit {
+  return (phase) => ({
+    ...phase,
+    amplitude: {
+      start: Math.min(1, roundTo(phase.amplitude.start * factor, 0.01)),
+      end: Math.min(1, roundTo(phase.amplitude.end * factor, 0.01)),
+    },
+  });
+}
+
+const REFINEMENT_RULES: RefinementRule[] = [
+  { group: 'nova', pattern: /\b(no|remove|without|disable|turn off|drop)\b.*\bnova\b|\bnova\b.*\b(off|removed)\b/, edit: (phase) => ({ ...phase, nova_enabled: false }) },
+  { group: 'nova', pattern: /\b(add|enable|turn on|with)\b.*\bnova\b|\bnova\b.*\bon\b/, edit: (phase) => ({ ...phase, nova_enabled: true }) },
+  { group: 'binaural', pattern: /\b(no|remove|without|disable|turn off|drop)\b.*\bbinaural|\bbinaural.*\b(off|removed)\b/, edit: (phase) => ({ ...phase, binaural_enabled: false }) },
+  { group: 'binaural', pattern: /\b(add|enable|turn on|with)\b.*\bbinaural|\bbinaural.*\bon\b/, edit: (phase) => ({ ...phase, binaural_enabled: true }) },
+  { group: 'depth', pattern: /\b(deeper|lower|slower|calmer|more relax\w*|more grounding)\b/, edit: shiftPhase(-1) },
+  { group: 'depth', pattern: /\b(higher|brighter|faster|more energ\w*|more uplifting|lighter)\b/, edit: shiftPhase(1) },
+  { group: 'intensity', pattern: /\b(softer|gentler|quieter|less intense)\b/, edit: scaleAmplitude(0.8) },
+  { group: 'intensity', pattern: /\b(louder|stronger|more intense)\b/, edit: scaleAmplitude(1.2) },
+];
+
+/**
+ * Phases a clause of an instruction refers to: named phases, or first/middle/last, else all
+ */
+function targetPhases(clause: string, phases: PhaseConfig[]): number[] {
+  const all = phases.map((_, index) => index);
+  const named = all.filter((index) => clause.includes(phases[index].name.toLowerCase()));
+  if (named.length > 0) return named;
+
+  const last = phases.length - 1;
+  const targets = new Set<number>();
+  if (/\b(first|opening|beginning|start)\b/.test(clause)) targets.add(0);
+  if (/\b(last|final|closing|end|ending)\b/.test(clause)) targets.add(last);
+  if (/\b(middle|main|core|center|centre)\b/.test(clause)) {
+    (phases.length > 2 ? all.slice(1, last) : all).forEach((index) => targets.add(index));
+  }
+  return targets.size > 0 ? [...targets] : all;
+}
+
+/**
+ * Refine a journey from a plain-language instruction without any AI provider
+ * Understands clauses such as "make the middle deeper", "remove Nova in the last phase",
+ * "softer at the start" or "no binaural"; throws if no clause is understood.
+ */
+export function refineOfflineJourney(journey: JourneyConfig, instruction: string): JourneyConfig {
+  const phases = journey.phases.map((phase) => ({ ...phase }));
+  let understood = false;
+
+  for (const clause of instruction.toLowerCase().split(/,|;|\band\b|\bthen\b|\bbut\b/)) {
+    const rules = REFINEMENT_RULES.filter((rule, index) =>
+      rule.pattern.test(clause) &&
+      !REFINEMENT_RULES.slice(0, index).some((earlier) => earlier.group === rule.group && earlier.pattern.test(clause)));
+    if (rules.length === 0) continue;
+    understood = true;
+    for (const index of targetPhases(clause, phases)) {
+      phases[index] = rules.reduce((phase, rule) => rule.edit(phase), phases[index]);
+    }
+  }
+
+  if (!understood) {
+    throw new Error('Could not understand the refinement. Try e.g. "make the middle deeper" or "remove Nova in the last phase"');
+  }
+  return { ...journey, phases };
+}
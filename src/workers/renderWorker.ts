@@ -0,0 +1,177 @@
+/**
+ * Render Worker - Runs journey exports off the main thread
+ * Streams WAV or FLAC data back in chunks so long journeys never sit in memory as one buffer.
+ * Stem exports stream several files at once, told apart by their file index.
+ */
+
+import type { ChannelSource, ExportSettings, JourneyConfig, OutputProfileId, RenderProgress, StemLayer } from '../types/journey';
+import { StreamingRenderer } from '../audio/StreamingRenderer';
+import { getStemChannels, mapStemChannels, mixStemBlock } from '../audio/Stems';
+import { LoudnessMeter, type LoudnessMeasurement } from '../audio/LoudnessMeter';
+import { createWavHeader, encodeWavFrames } from '../audio/encoders/wav';
+import { FlacEncoder, estimateFlacSize, toFlacBitDepth } from '../audio/encoders/flac';
+import type { AudioTags } from '../audio/encoders/tags';
+
+export interface RenderWorkerStartMessage {
+  type: 'start';
+  config: JourneyConfig;
+  sampleRate: number;
+  channels: ExportSettings['channels'];
+  bitDepth: 16 | 24 | 32;
+  format: 'wav' | 'flac';
+  tags: AudioTags | null;             // Title and phase chapters (WAV gets the chapters as cue points)
+  outputProfile: OutputProfileId | null;
+  channelMap: ChannelSource[] | null; // Required for 4/6 channels
+  stems: boolean;                     // One file per layer (channels and channelMap are ignored)
+}
+
+export interface RenderWorkerCancelMessage {
+  type: 'cancel';
+}
+
+// Sent by the main thread once it has consumed a chunk
+export interface RenderWorkerAckMessage {
+  type: 'ack';
+}
+
+export type RenderWorkerRequest = RenderWorkerStartMessage | RenderWorkerCancelMessage | RenderWorkerAckMessage;
+
+export type RenderWorkerResponse =
+  | { type: 'progress'; progress: RenderProgress }
+  | { type: 'header'; data: ArrayBuffer; totalBytes: number; file: number; stem: StemLayer | null } // totalBytes is estimated for FLAC
+  | { type: 'chunk'; data: ArrayBuffer; file: number }
+  | { type: 'loudness'; measurement: LoudnessMeasurement } // Of the mix, sent just before done
+  | { type: 'done' }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+// Chunks posted but not yet consumed; rendering pauses when the main thread falls behind
+const MAX_CHUNKS_IN_FLIGHT = 4;
+
+let controller: AbortController | null = null;
+let chunksInFlight = 0;
+let resumeRender: (() => void) | null = null;
+
+function post(message: RenderWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+async function runExport(message: RenderWorkerStartMessage): Promise<void> {
+  controller?.abort();
+  const current = new AbortController();
+  controller = current;
+  chunksInFlight = 0;
+
+  try {
+    const { config, sampleRate, bitDepth, format } = message;
+    const renderer = new StreamingRenderer(sampleRate, message.channels === 1 ? 1 : 2, undefined, message.outputProfile);
+    const totalFrames = renderer.getTotalFrames(config);
+    const onProgress = (progress: RenderProgress) => post({ type: 'progress', progress });
+
+    // One FLAC encoder per file, as stem files are encoded side by side
+    const flacEncoders: FlacEncoder[] = [];
+
+    // Layer exports are measured as the stereo mix they add up to
+    const layered = message.stems || message.channels > 2;
+    const meter = new LoudnessMeter(sampleRate, layered ? 2 : message.channels, message.tags?.chapters);
+
+    const sendHeader = (channels: number, file: number, stem: StemLayer | null) => {
+      if (format === 'flac') {
+        const encoder = new FlacEncoder(channels, sampleRate, toFlacBitDepth(bitDepth), totalFrames, message.tags ?? undefined);
+        flacEncoders[file] = encoder;
+        const header = encoder.header();
+        const totalBytes = estimateFlacSize(totalFrames / sampleRate, sampleRate, channels, bitDepth);
+        post({ type: 'header', data: header, totalBytes, file, stem }, [header]);
+        return;
+      }
+      const header = createWavHeader(channels, sampleRate, bitDepth, totalFrames, 0, message.tags?.chapters);
+      const totalBytes = header.byteLength + totalFrames * channels * (bitDepth / 8);
+      post({ type: 'header', data: header, totalBytes, file, stem }, [header]);
+    };
+
+    const postChunk = (data: ArrayBuffer, file: number) => {
+      chunksInFlight++;
+      post({ type: 'chunk', data, file }, [data]);
+    };
+
+    const sendFrames = async (channels: Float32Array[], file: number) => {
+      postChunk(format === 'flac' ? flacEncoders[file].encode(channels) : encodeWavFrames(channels, bitDepth), file);
+      while (chunksInFlight >= MAX_CHUNKS_IN_FLIGHT && !current.signal.aborted) {
+        await new Promise<void>((resolve) => {
+          resumeRender = resolve;
+        });
+      }
+    };
+
+    if (message.stems) {
+      const layers = renderer.getExportStems(config);
+      if (layers.length === 0) throw new Error('Journey has no layers to export');
+      layers.forEach((layer, file) => sendHeader(layer === 'binaural' ? 2 : 1, file, layer));
+      await renderer.renderStems(
+        config,
+        async (stems) => {
+          meter.process(mixStemBlock(stems));
+          for (let file = 0; file < layers.length; file++) {
+            await sendFrames(getStemChannels(stems, layers[file]), file);
+          }
+        },
+        onProgress,
+        current.signal
+      );
+    } else if (message.channels > 2) {
+      const channelMap = message.channelMap;
+      if (!channelMap || channelMap.length !== message.channels) {
+        throw new Error(`A ${message.channels}-channel export needs a channel map`);
+      }
+      sendHeader(channelMap.length, 0, null);
+      await renderer.renderStems(
+        config,
+        (stems) => {
+          meter.process(mixStemBlock(stems));
+          return sendFrames(mapStemChannels(stems, channelMap), 0);
+        },
+        onProgress,
+        current.signal
+      );
+    } else {
+      sendHeader(message.channels, 0, null);
+      await renderer.render(
+        config,
+        (channels) => {
+          meter.process(channels);
+          return sendFrames(channels, 0);
+        },
+        onProgress,
+        current.signal
+      );
+    }
+
+    // FLAC holds back the last partial frame until the end
+    flacEncoders.forEach((encoder, file) => postChunk(encoder.flush(), file));
+    post({ type: 'loudness', measurement: meter.result() });
+    post({ type: 'done' });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      post({ type: 'cancelled' });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : 'Export failed' });
+    }
+  } finally {
+    if (controller === current) controller = null;
+  }
+}
+
+self.onmessage = (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'start') {
+    void runExport(message);
+  } else if (message.type === 'ack') {
+    chunksInFlight = Math.max(0, chunksInFlight - 1);
+    resumeRender?.();
+    resumeRender = null;
+  } else if (message.type === 'cancel') {
+    controller?.abort();
+    resumeRender?.();
+    resumeRender = null;
+  }
+};
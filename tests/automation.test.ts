@@ -0,0 +1,87 @@
+/**
+ * Automation curve tests - Breakpoints, curve shapes and parameter lanes shared by live and offline rendering
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FrequencyRange, PhaseConfig } from '../src/types/journey';
+import { Envelope, automationValueAt, laneValueAt, resolvePhaseAt } from '../src/audio/Envelope';
+import { Oscillator } from '../src/audio/Oscillator';
+import { validateJourney } from '../src/utils/journeySchema';
+import { presets } from '../src/presets';
+
+const SAMPLES = 1001;
+
+describe('automation curves', () => {
+  const envelope = new Envelope(1000);
+
+  it('keeps plain start/end ranges on the existing ramps', () => {
+    const range: FrequencyRange = { start: 40, end: 60 };
+    assert.equal(automationValueAt(range, 0.25), 45);
+    assert.deepEqual(envelope.automationRamp(SAMPLES, range, 's_curve'), envelope.sCurveRamp(SAMPLES, 40, 60));
+  });
+
+  it('passes through breakpoints with the shape of each segment', () => {
+    const range: FrequencyRange = {
+      start: 40,
+      end: 30,
+      curve: 'exponential',
+      breakpoints: [{ position: 0.5, value: 60, curve: 's_curve' }],
+    };
+
+    assert.equal(automationValueAt(range, 0.5), 60);
+    assert.equal(automationValueAt(range, 0.25), 50);              // S-curve midpoint
+    assert.equal(automationValueAt(range, 0.75), 60 - 30 * 0.25);  // Fade out: t^2
+
+    const ramp = envelope.automationRamp(SAMPLES, range);
+    for (const index of [0, 100, 250, 500, 700, 1000]) {
+      assert.ok(Math.abs(ramp[index] - automationValueAt(range, index / (SAMPLES - 1))) < 1e-4, `sample ${index}`);
+    }
+  });
+
+  it('holds automation lanes outside their points and resolves them on a phase', () => {
+    const lane = [
+      { position: 0.8, value: 0.2 },
+      { position: 0.2, value: 0.6 },
+    ];
+    assert.equal(laneValueAt(lane, 0), 0.6);
+    assert.equal(laneValueAt(lane, 0.5), 0.4);
+    assert.equal(laneValueAt(lane, 1), 0.2);
+
+    const phase: PhaseConfig = {
+      name: 'Drift',
+      duration: 10,
+      frequency: { start: 40, end: 40 },
+      amplitude: { start: 0.5, end: 0.5 },
+      fm_depth: 0.9,
+      automation: { fm_depth: lane },
+    };
+    assert.equal(resolvePhaseAt(phase, 0.5).fm_depth, 0.4);
+    assert.equal(phase.fm_depth, 0.9);
+  });
+
+  it('renders a constant automated rate like the fixed rate', () => {
+    const oscillator = new Oscillator(1000);
+    const fixed = oscillator.generateEntrainmentEnvelope(SAMPLES, 'breathing', 0.5);
+    const automated = oscillator.generateEntrainmentEnvelope(SAMPLES, 'breathing', new Float32Array(SAMPLES).fill(0.5));
+    for (let i = 0; i < SAMPLES; i++) {
+      assert.ok(Math.abs(fixed[i] - automated[i]) < 1e-4, `sample ${i}`);
+    }
+  });
+
+  it('validates breakpoints and lanes in the journey schema', () => {
+    const journey = structuredClone(presets.deep_rest);
+    journey.phases[0].amplitude = {
+      ...journey.phases[0].amplitude,
+      breakpoints: [{ position: 0.4, value: 0.9, curve: 'exponential' }],
+    };
+    assert.deepEqual(validateJourney(journey), []);
+
+    journey.phases[0].amplitude.breakpoints = [{ position: 1.5, value: 0.9 }];
+    journey.phases[0].automation = { warmth: [{ position: 0.5, value: 2 }] };
+    assert.deepEqual(validateJourney(journey).map((error) => error.path), [
+      'phases[0].amplitude.breakpoints[0].position',
+      'phases[0].automation.warmth[0].value',
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Encoder tests - Lossless FLAC round trips, journey metadata tags, phase chapters and cancelled exports
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FlacEncoder, encodeFlacWithProgress } from '../src/audio/encoders/flac';
+import { getJourneyTags, formatChapterTime, toVorbisComments } from '../src/audio/encoders/tags';
+import { createWavHeader, encodeWavWithProgress } from '../src/audio/encoders/wav';
+import { createId3Tag } from '../src/audio/encoders/id3';
+import { encodeMp3 } from '../src/audio/encoders/mp3';
+import { StreamingRenderer } from '../src/audio/StreamingRenderer';
+import { OfflineRenderer } from '../src/audio/OfflineRenderer';
+import { presets } from '../src/presets';
+import { compressJourney } from './support/journeyRender';
+import { installWebAudioPolyfill, PolyfillAudioBuffer } from './support/webAudioPolyfill';
+import { decodeFlac } from './support/flacDecoder';
+
+const SAMPLE_RATE = 4000;
+
+/**
+ * Encode blocks with a FlacEncoder into one byte array
+ */
+function encodeFlac(encoder: FlacEncoder, blocks: Float32Array[][]): Uint8Array {
+  const parts = [encoder.header(), ...blocks.map((block) => encoder.encode(block)), encoder.flush()];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(new Uint8Array(part), offset);
+    offset += part.byteLength;
+  }
+  return output;
+}
+
+function toInteger(samples: Float32Array, bitDepth: 16 | 24): Int32Array {
+  const scale = bitDepth === 16 ? 0x8000 : 0x800000;
+  return Int32Array.from(samples, (value) => {
+    const sample = Math.max(-1, Math.min(1, value));
+    return Math.round(sample < 0 ? sample * scale : sample * (scale - 1));
+  });
+}
+
+describe('FLAC encoder', () => {
+  it('round-trips a rendered journey bit-exactly', async () => {
+    const journey = compressJourney(structuredClone(presets.deep_rest), 6);
+    const blocks: Float32Array[][] = [];
+    await new StreamingRenderer(SAMPLE_RATE, 2, 5).render(journey, (channels) => {
+      blocks.push(channels.map((channel) => channel.slice()));
+    });
+    const totalFrames = blocks.reduce((sum, block) => sum + block[0].length, 0);
+
+    for (const bitDepth of [16, 24] as const) {
+      const bytes = encodeFlac(new FlacEncoder(2, SAMPLE_RATE, bitDepth, totalFrames), blocks);
+      const decoded = decodeFlac(bytes);
+      assert.equal(decoded.sampleRate, SAMPLE_RATE);
+      assert.equal(decoded.channels, 2);
+      assert.equal(decoded.bitsPerSample, bitDepth);
+      assert.equal(decoded.totalSamples, totalFrames);
+
+      for (let ch = 0; ch < 2; ch++) {
+        const expected = toInteger(Float32Array.from(blocks.flatMap((block) => [...block[ch]])), bitDepth);
+        assert.deepEqual(decoded.samples[ch], expected);
+      }
+      assert.ok(bytes.length < totalFrames * 2 * (bitDepth / 8) * 0.8, `${bytes.length} bytes`);
+    }
+  });
+
+  it('handles silence, noise, full-scale and multichannel input', () => {
+    const length = 10000;
+    const noise = Float32Array.from({ length }, (_, i) => Math.sin(i * 12.9898) * 43758.5453 % 1);
+    const channels = [
+      new Float32Array(length),
+      noise,
+      Float32Array.from({ length }, (_, i) => (i % 2 ? 1 : -1)),
+      Float32Array.from({ length }, (_, i) => Math.sin(i / 40) * 0.5),
+    ];
+    // Odd block lengths exercise frames that straddle encode() calls
+    const blocks = [channels.map((channel) => channel.subarray(0, 3333)), channels.map((channel) => channel.subarray(3333))];
+    const decoded = decodeFlac(encodeFlac(new FlacEncoder(4, 48000, 24, length), blocks));
+
+    channels.forEach((channel, ch) => assert.deepEqual(decoded.samples[ch], toInteger(channel, 24)));
+  });
+});
+
+describe('journey tags', () => {
+  it('lists phases as chapters in FLAC Vorbis comments', () => {
+    const journey = structuredClone(presets.deep_rest);
+    const tags = getJourneyTags(journey);
+    assert.equal(tags.chapters.length, journey.phases.length);
+    assert.equal(tags.chapters[1].startSeconds, journey.phases[0].duration * 60);
+    assert.equal(formatChapterTime(3725.5), '01:02:05.500');
+
+    const decoded = decodeFlac(encodeFlac(new FlacEncoder(1, 48000, 16, 0, tags), []));
+    assert.deepEqual(decoded.comments, toVorbisComments(tags));
+    assert.equal(decoded.comments[0], `TITLE=${journey.name}`);
+    assert.ok(decoded.comments.includes(`CHAPTER001NAME=${journey.phases[0].name}`));
+  });
+
+  it('marks phases as WAV cue points with labels', () => {
+    const tags = getJourneyTags(structuredClone(presets.deep_rest));
+    const header = new Uint8Array(createWavHeader(2, 1000, 16, 10_000_000, 0, tags.chapters));
+    const view = new DataView(header.buffer);
+    const text = (offset: number, length: number) => new TextDecoder().decode(header.subarray(offset, offset + length));
+
+    // Walk the chunks after 'WAVE' up to 'data'
+    const chunks = new Map<string, number>();
+    for (let offset = 12; offset < header.length; offset += 8 + view.getUint32(offset + 4, true)) {
+      chunks.set(text(offset, 4), offset);
+      if (text(offset, 4) === 'data') break;
+    }
+    assert.equal(chunks.get('data'), header.length - 8);
+    assert.equal(view.getUint32(4, true), header.length - 8 + view.getUint32(header.length - 4, true));
+
+    const cue = chunks.get('cue ')!;
+    assert.equal(view.getUint32(cue + 8, true), tags.chapters.length);
+    tags.chapters.forEach((chapter, i) => {
+      assert.equal(view.getUint32(cue + 12 + i * 24 + 20, true), Math.round(chapter.startSeconds * 1000));
+    });
+
+    let label = chunks.get('LIST')! + 12;
+    assert.equal(text(label - 4, 4), 'adtl');
+    for (const [i, chapter] of tags.chapters.entries()) {
+      const size = view.getUint32(label + 4, true);
+      assert.equal(text(label, 4), 'labl');
+      assert.equal(view.getUint32(label + 8, true), i + 1);
+      assert.equal(text(label + 12, size - 5), chapter.title);
+      label += 8 + size + (size % 2);
+    }
+  });
+
+  it('writes ID3v2 chapter frames for MP3', () => {
+    const tags = getJourneyTags(structuredClone(presets.deep_rest));
+    const tag = createId3Tag(tags);
+    const view = new DataView(tag.buffer);
+    const text = (offset: number, length: number) => new TextDecoder().decode(tag.subarray(offset, offset + length));
+    const synchsafe = (offset: number) =>
+      (tag[offset] << 21) | (tag[offset + 1] << 14) | (tag[offset + 2] << 7) | tag[offset + 3];
+
+    assert.equal(text(0, 3), 'ID3');
+    assert.equal(synchsafe(6), tag.length - 10);
+
+    const chapters: { start: number; end: number; title: string }[] = [];
+    for (let offset = 10; offset < tag.length; offset += 10 + synchsafe(offset + 4)) {
+      if (text(offset, 4) !== 'CHAP') continue;
+      const body = offset + 10;
+      const idEnd = tag.indexOf(0, body);
+      const sub = idEnd + 17;
+      assert.equal(text(sub, 4), 'TIT2');
+      assert.equal(text(body, 3), 'chp');
+      chapters.push({
+        start: view.getUint32(idEnd + 1),
+        end: view.getUint32(idEnd + 5),
+        title: text(sub + 11, synchsafe(sub + 4) - 1),
+      });
+    }
+
+    assert.deepEqual(
+      chapters.map(({ title }) => title),
+      tags.chapters.map(({ title }) => title)
+    );
+    assert.equal(chapters[1].start, tags.chapters[1].startSeconds * 1000);
+    assert.equal(chapters[0].end, chapters[1].start);
+    assert.equal(chapters.at(-1)!.end, tags.durationSeconds * 1000);
+  });
+});
+
+describe('cancelled exports', () => {
+  it('stop the Web Audio render partway through', async () => {
+    installWebAudioPolyfill({ numberOfChannels: 2, length: 0, sampleRate: SAMPLE_RATE });
+    const journey = compressJourney(structuredClone(presets.deep_rest), 30);
+    const controller = new AbortController();
+    const stages: string[] = [];
+
+    await assert.rejects(
+      new OfflineRenderer(SAMPLE_RATE, 2).renderWithWebAudio(journey, (progress) => {
+        stages.push(progress.stage);
+        // Aborted once the graph is scheduled, so only the render itself can notice
+        if (progress.stage === 'processing') controller.abort();
+      }, controller.signal),
+      { name: 'AbortError' }
+    );
+    assert.ok(!stages.includes('normalizing'));
+  });
+
+  it('stop WAV, FLAC and MP3 encoding after the current chunk', async () => {
+    const buffer = new PolyfillAudioBuffer({ numberOfChannels: 2, length: 48000 * 10, sampleRate: 48000 }) as unknown as AudioBuffer;
+    const encoders = {
+      wav: (onProgress: (percent: number) => void, signal: AbortSignal) => encodeWavWithProgress(buffer, 16, onProgress, undefined, signal),
+      flac: (onProgress: (percent: number) => void, signal: AbortSignal) => encodeFlacWithProgress(buffer, 16, onProgress, undefined, signal),
+      mp3: (onProgress: (percent: number) => void, signal: AbortSignal) => encodeMp3(buffer, 128, onProgress, undefined, signal),
+    };
+
+    for (const [format, encode] of Object.entries(encoders)) {
+      const controller = new AbortController();
+      const reported: number[] = [];
+      await assert.rejects(
+        encode((percent) => {
+          reported.push(percent);
+          controller.abort();
+        }, controller.signal),
+        { name: 'AbortError' },
+        format
+      );
+      assert.equal(reported.length, 1, format);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Journey diff tests - Phase alignment, field changes and applying a selection of changes
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyPhaseChanges, diffJourneyPhases } from '../src/utils/journeyDiff';
+import { buildOfflineJourney } from '../src/utils/offlineJourney';
+import type { JourneyConfig, PhaseConfig } from '../src/types/journey';
+
+function phase(name: string, duration: number, start = 40): PhaseConfig {
+  return { name, duration, frequency: { start, end: start }, amplitude: { start: 0.5, end: 0.5 }, rhythm_mode: 'breathing' };
+}
+
+function journeyOf(phases: PhaseConfig[]): JourneyConfig {
+  return { ...buildOfflineJourney('calm', 20), phases, duration_minutes: phases.reduce((sum, p) => sum + p.duration, 0) };
+}
+
+describe('journey diff', () => {
+  it('reports only the fields that changed', () => {
+    const original = buildOfflineJourney('deep sleep', 40);
+    const refined = structuredClone(original);
+    refined.phases[1].frequency = { start: 30, end: 29 };
+    refined.phases[3].nova_enabled = false;
+
+    const changes = diffJourneyPhases(original, refined);
+    assert.deepEqual(changes.map((c) => [c.type, c.index, c.fields.map((f) => f.field)]), [
+      ['modified', 1, ['frequency']],
+      ['modified', 3, ['nova_enabled']],
+    ]);
+    assert.deepEqual(changes[0].fields[0].before, original.phases[1].frequency);
+    assert.deepEqual(diffJourneyPhases(original, structuredClone(original)), []);
+  });
+
+  it('aligns phases by name to find added, removed and reworked phases', () => {
+    const original = journeyOf([phase('Arrive', 5), phase('Drift', 10), phase('Float', 10), phase('Return', 5)]);
+    const refined = journeyOf([phase('Arrive', 5), phase('Sink', 10, 32), phase('Return', 5), phase('Rest', 5)]);
+
+    const changes = diffJourneyPhases(original, refined);
+    assert.deepEqual(changes.map((c) => [c.type, c.index, c.name]), [
+      ['modified', 1, 'Sink'],
+      ['removed', 2, 'Float'],
+      ['added', 4, 'Rest'],
+    ]);
+    assert.deepEqual(changes[0].fields.map((f) => f.field), ['name', 'frequency']);
+  });
+
+  it('applies only accepted changes, keeping untouched settings', () => {
+    const original = journeyOf([
+      { ...phase('Arrive', 5), melody_enabled: true },
+      phase('Drift', 10),
+      phase('Float', 10),
+      phase('Return', 5),
+    ]);
+    const refined = journeyOf([
+      { ...phase('Arrive', 5, 34), melody_enabled: true },
+      phase('Drift', 10),
+      phase('Return', 5),
+      phase('Rest', 5),
+    ]);
+    const changes = diffJourneyPhases(original, refined);
+    assert.deepEqual(changes.map((c) => c.type), ['modified', 'removed', 'added']);
+
+    const all = applyPhaseChanges(original, changes, [true, true, true]);
+    assert.deepEqual(all.phases.map((p) => p.name), ['Arrive', 'Drift', 'Return', 'Rest']);
+    assert.equal(all.phases[0].frequency.start, 34);
+    assert.equal(all.phases[0].melody_enabled, true);
+    assert.equal(all.duration_minutes, 25);
+
+    const some = applyPhaseChanges(original, changes, [false, true, false]);
+    assert.deepEqual(some.phases.map((p) => p.name), ['Arrive', 'Drift', 'Return']);
+    assert.equal(some.phases[0].frequency.start, 40);
+    assert.equal(some.name, original.name);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Journey file tests - Reading .sonicjourney files, migrating their journeys and resolving conflicts on import
+ */
+
+import './support/browserStorage';
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { importJourneys, readJourneyFile, type JourneyFileEntry } from '../src/utils/journeyFile';
+import { deleteSavedJourney, getSavedJourneys, saveJourney } from '../src/utils/journeyStorage';
+import { JOURNEY_SCHEMA_VERSION } from '../src/utils/journeySchema';
+import { presets } from '../src/presets';
+import deepRestJson from '../src/presets/deep_rest.json';
+
+function fileOf(contents: unknown): Blob {
+  return new Blob([typeof contents === 'string' ? contents : JSON.stringify(contents)]);
+}
+
+function journeyFile(entries: Partial<JourneyFileEntry>[], formatVersion = 1): Blob {
+  return fileOf({ format: 'sonicjourney', format_version: formatVersion, exported_at: '2026-01-01T00:00:00.000Z', journeys: entries });
+}
+
+describe('reading journey files', () => {
+  it('rejects files that are not journey files or come from a newer version', async () => {
+    await assert.rejects(readJourneyFile(fileOf('{not json')), /invalid JSON/);
+    await assert.rejects(readJourneyFile(fileOf({ format: 'playlist', journeys: [] })), /Not a Sonic Journey file/);
+    await assert.rejects(readJourneyFile(fileOf({ format: 'sonicjourney', format_version: 1 })), /Not a Sonic Journey file/);
+    await assert.rejects(readJourneyFile(journeyFile([], 2)), /newer version/);
+    await assert.rejects(readJourneyFile(journeyFile([], '1' as unknown as number)), /newer version/);
+  });
+
+  it('migrates older journeys and reports invalid entries on their own', async () => {
+    const broken = { ...structuredClone(presets.clear_mind), phases: [] };
+    const items = await readJourneyFile(journeyFile([
+      { journey: deepRestJson as never, tags: ['sleep', 3 as never] },
+      { journey: broken },
+      { journey: { phases: [] } as never },
+    ]));
+
+    assert.equal(items.length, 3);
+    assert.equal(items[0].journey?.schema_version, JOURNEY_SCHEMA_VERSION);
+    assert.equal(items[0].journey?.phases[0].duration, deepRestJson.phases[0].end_min - deepRestJson.phases[0].start_min);
+    assert.deepEqual(items[0].tags, ['sleep']);
+    assert.equal(items[0].existing, undefined);
+
+    assert.equal(items[1].name, broken.name);
+    assert.equal(items[1].journey, undefined);
+    assert.match(items[1].error ?? '', /^Invalid journey: /);
+    assert.equal(items[2].name, 'Journey 3');
+  });
+});
+
+describe('importing journeys', () => {
+  beforeEach(async () => {
+    for (const saved of await getSavedJourneys()) await deleteSavedJourney(saved.id);
+  });
+
+  it('keeps both, replaces or skips journeys that are already saved', async () => {
+    const original = presets.deep_rest;
+    const existingId = await saveJourney(original);
+    const edited = { ...structuredClone(original), description: 'Edited elsewhere' };
+
+    const keep = await readJourneyFile(journeyFile([{ journey: edited, tags: ['shared'] }]));
+    assert.equal(keep[0].existing?.id, existingId);
+    assert.deepEqual(await importJourneys(keep, ['keep_both']), { imported: 1, replaced: 0, skipped: 0, failed: [] });
+
+    const names = (await getSavedJourneys({ sort: 'name' })).map((saved) => saved.journey.name);
+    assert.deepEqual(names, [original.name, `${original.name} (2)`]);
+    assert.deepEqual((await getSavedJourneys({ tag: 'shared' })).map((saved) => saved.journey.name), [`${original.name} (2)`]);
+
+    const again = await readJourneyFile(journeyFile([{ journey: edited }]));
+    assert.deepEqual(await importJourneys(again, ['keep_both']), { imported: 1, replaced: 0, skipped: 0, failed: [] });
+    assert.ok((await getSavedJourneys()).some((saved) => saved.journey.name === `${original.name} (3)`));
+
+    const replace = await readJourneyFile(journeyFile([{ journey: edited }, { journey: edited }]));
+    assert.deepEqual(await importJourneys(replace, ['replace', 'skip']), { imported: 0, replaced: 1, skipped: 1, failed: [] });
+
+    const saved = await getSavedJourneys();
+    assert.equal(saved.length, 3);
+    assert.equal(saved.find((s) => s.id === existingId)?.journey.description, 'Edited elsewhere');
+  });
+
+  it('resolves conflicts within the same file and reports failed entries', async () => {
+    const journey = presets.clear_mind;
+    const items = await readJourneyFile(journeyFile([{ journey }, { journey }, { journey: { phases: [] } as never }]));
+    assert.equal(items[1].existing, undefined, 'nothing is saved while reading');
+
+    const result = await importJourneys(items, [undefined as never, undefined as never, 'keep_both']);
+    assert.equal(result.imported, 1);
+    assert.equal(result.skipped, 1, 'a conflict without a resolution is skipped');
+    assert.equal(result.failed.length, 1);
+    assert.match(result.failed[0], /^Journey 3: Invalid journey/);
+  });
+});
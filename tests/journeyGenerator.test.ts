@@ -0,0 +1,99 @@
+/**
+ * Journey generator tests - Normalizing model output into journeys that pass the schema, and refinements
+ * against the journey they refine
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeRefinedJourney, validateAndNormalizeJourney } from '../server/journeyGenerator';
+import { validateJourney } from '../src/utils/journeySchema';
+import { buildOfflineJourney } from '../src/utils/offlineJourney';
+import type { JourneyConfig } from '../src/types/journey';
+
+function modelPhase(overrides: Record<string, unknown>) {
+  return { name: 'Settle', duration: 10, frequency: { start: 40, end: 36 }, amplitude: { start: 0.5, end: 0.4 }, ...overrides };
+}
+
+describe('journey normalization', () => {
+  it('maps still phases to no entrainment and drops invalid modes', () => {
+    const journey = validateAndNormalizeJourney({
+      name: 'Stillness',
+      phases: [
+        modelPhase({ rhythm_mode: 'still' }),
+        modelPhase({ name: 'Drift', rhythm_mode: 'theta', entrainment_mode: 'sleepy' }),
+      ],
+    }, 20);
+
+    assert.deepEqual(validateJourney(journey), []);
+    assert.equal(journey.phases[0].rhythm_mode, 'still');
+    assert.equal(journey.phases[0].entrainment_mode, 'none');
+    assert.equal(journey.phases[1].entrainment_mode, 'theta');
+  });
+
+  it('clamps binaural carriers and keeps only known layer switches', () => {
+    const journey = validateAndNormalizeJourney({
+      name: 'Wide',
+      layers: { base_carrier: false, texture_layer: 'yes', sparkle_layer: true },
+      phases: [modelPhase({ binaural_carrier_frequency: 5000 })],
+    }, 10);
+
+    assert.deepEqual(validateJourney(journey), []);
+    assert.equal(journey.phases[0].binaural_carrier_frequency, 2000);
+    assert.deepEqual(journey.layers, { base_carrier: false, support_carrier: true, texture_layer: false, melody_layer: false });
+  });
+});
+
+describe('refinement normalization', () => {
+  const generated = buildOfflineJourney('calm', 30);
+  const current: JourneyConfig = {
+    ...generated,
+    beat_mode: 'isochronic',
+    phases: generated.phases.map((phase) => ({
+      ...phase,
+      frequency: { ...phase.frequency, start: 150 },
+      melody_enabled: true,
+      melody_scale: 'dorian',
+      automation: { warmth: [{ position: 0, value: 0.2 }, { position: 1, value: 0.8 }] },
+    })),
+  };
+
+  // What a language model tends to send back: unchanged values echoed, settings it does not know left out
+  function modelEcho(journey: JourneyConfig) {
+    return {
+      name: journey.name,
+      phases: journey.phases.map(({ name, duration, frequency, amplitude, rhythm_mode, nova_enabled }) => (
+        { name, duration, frequency, amplitude, rhythm_mode, nova_enabled }
+      )),
+    };
+  }
+
+  it('keeps everything the model echoed or left out', () => {
+    assert.deepEqual(normalizeRefinedJourney(current, modelEcho(current)), current);
+  });
+
+  it('normalizes changed fields and added phases only', () => {
+    const refined = modelEcho(current);
+    refined.phases[1].frequency = { start: 300, end: 20 };
+    refined.phases[1].rhythm_mode = 'still';
+    refined.phases.push({ ...refined.phases[0], name: 'Afterglow', duration: 5 });
+
+    const journey = normalizeRefinedJourney(current, refined);
+    assert.deepEqual(validateJourney(journey), []);
+    assert.deepEqual(journey.phases.slice(0, 1), current.phases.slice(0, 1));
+    assert.deepEqual(journey.phases[1], { ...current.phases[1], frequency: { start: 120, end: 20 }, rhythm_mode: 'still' });
+    assert.equal(journey.phases.at(-1)?.name, 'Afterglow');
+    assert.equal(journey.phases.at(-1)?.melody_enabled, undefined);
+    assert.equal(journey.duration_minutes, 35);
+    assert.equal(journey.beat_mode, 'isochronic');
+  });
+
+  it('keeps the user value when a changed field fails the schema', () => {
+    const refined = modelEcho(current) as { name: string; phases: Record<string, unknown>[] };
+    refined.phases[0] = { ...current.phases[0], melody_scale: 'bebop', melody_density: 'dense' };
+
+    const journey = normalizeRefinedJourney(current, refined);
+    assert.equal(journey.phases[0].melody_scale, 'dorian');
+    assert.equal(journey.phases[0].melody_density, 'dense');
+  });
+});
+
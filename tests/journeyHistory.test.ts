@@ -0,0 +1,105 @@
+/**
+ * Journey history tests - Coalescing edits, discarding the redo branch, the step limit and moving between steps
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  COALESCE_WINDOW_MS,
+  MAX_HISTORY,
+  createHistory,
+  historyStepAt,
+  pushHistoryEntry,
+  type HistoryEntry,
+  type HistoryState,
+} from '../src/stores/journeyHistory';
+import { presets } from '../src/presets';
+import type { JourneyConfig } from '../src/types/journey';
+
+const START = 1_000_000;
+
+function withName(name: string): JourneyConfig {
+  return { ...presets.deep_rest, name };
+}
+
+function edit(name: string, timestamp: number, coalesceKey?: string, selectedPhaseIndex = 0): HistoryEntry {
+  return { label: name, journey: withName(name), selectedPhaseIndex, timestamp, coalesceKey };
+}
+
+function labels(state: HistoryState): string[] {
+  return state.history.map((entry) => entry.label);
+}
+
+describe('journey history', () => {
+  it('merges edits with the same key inside the coalesce window', () => {
+    let state = createHistory(withName('Start'), START);
+    state = pushHistoryEntry(state, edit('drag 1', START + 100, 'phase:0:frequency'));
+    state = pushHistoryEntry(state, edit('drag 2', START + 100 + COALESCE_WINDOW_MS - 1, 'phase:0:frequency'));
+    assert.deepEqual(labels(state), ['Opened "Start"', 'drag 2']);
+
+    // Measured from the previous edit, so a long drag keeps merging
+    state = pushHistoryEntry(state, edit('drag 3', START + 100 + 2 * COALESCE_WINDOW_MS - 2, 'phase:0:frequency'));
+    assert.deepEqual(labels(state), ['Opened "Start"', 'drag 3']);
+
+    state = pushHistoryEntry(state, edit('other field', START + 100 + 2 * COALESCE_WINDOW_MS, 'phase:0:amplitude'));
+    state = pushHistoryEntry(state, edit('late', START + 100 + 4 * COALESCE_WINDOW_MS, 'phase:0:amplitude'));
+    state = pushHistoryEntry(state, edit('unkeyed', START + 100 + 4 * COALESCE_WINDOW_MS));
+    state = pushHistoryEntry(state, edit('unkeyed again', START + 100 + 4 * COALESCE_WINDOW_MS));
+    assert.deepEqual(labels(state), ['Opened "Start"', 'drag 3', 'other field', 'late', 'unkeyed', 'unkeyed again']);
+    assert.equal(state.historyIndex, 5);
+  });
+
+  it('never merges into the opened journey', () => {
+    const opened = createHistory(withName('Start'), START);
+    const state = pushHistoryEntry({ ...opened, history: [{ ...opened.history[0], coalesceKey: 'k' }] }, edit('edit', START + 1, 'k'));
+    assert.deepEqual(labels(state), ['Opened "Start"', 'edit']);
+  });
+
+  it('discards the redo branch when editing after an undo', () => {
+    let state = createHistory(withName('Start'), START);
+    for (const [i, name] of ['a', 'b', 'c'].entries()) {
+      state = pushHistoryEntry(state, edit(name, START + i * 10, 'same-key'));
+    }
+    assert.deepEqual(labels(state), ['Opened "Start"', 'c']);
+
+    state = pushHistoryEntry(state, edit('d', START + 5000));
+    state = pushHistoryEntry(state, edit('e', START + 6000));
+    const undone = { ...state, historyIndex: 1 };
+
+    // Undone steps are not merged into, even with a matching key
+    state = pushHistoryEntry(undone, edit('f', START + 6001, 'same-key'));
+    assert.deepEqual(labels(state), ['Opened "Start"', 'c', 'f']);
+    assert.equal(state.historyIndex, 2);
+    assert.equal(historyStepAt(state, 3), undefined, 'nothing to redo');
+  });
+
+  it(`keeps at most ${MAX_HISTORY} steps, dropping the oldest`, () => {
+    let state = createHistory(withName('Start'), START);
+    for (let i = 1; i <= MAX_HISTORY + 5; i++) {
+      state = pushHistoryEntry(state, edit(`edit ${i}`, START + i * 10));
+    }
+    assert.equal(state.history.length, MAX_HISTORY);
+    assert.equal(state.historyIndex, MAX_HISTORY - 1);
+    assert.equal(state.history[0].label, 'edit 6');
+    assert.equal(state.history.at(-1)?.label, `edit ${MAX_HISTORY + 5}`);
+  });
+
+  it('moves back and forward to any step, clamping the phase selection', () => {
+    let state = createHistory(withName('Start'), START);
+    state = pushHistoryEntry(state, edit('select last', START + 10, undefined, 3));
+    const shorter = { ...presets.deep_rest, name: 'shorter', phases: presets.deep_rest.phases.slice(0, 2) };
+    state = pushHistoryEntry(state, { label: 'remove phases', journey: shorter, selectedPhaseIndex: 5, timestamp: START + 20 });
+
+    const back = historyStepAt(state, 0);
+    assert.deepEqual([back?.journey.name, back?.historyIndex, back?.selectedPhaseIndex], ['Start', 0, 0]);
+
+    const forward = historyStepAt({ ...state, historyIndex: 0 }, 2);
+    assert.deepEqual([forward?.journey, forward?.historyIndex, forward?.selectedPhaseIndex], [shorter, 2, 1]);
+    assert.equal(historyStepAt(state, 1)?.selectedPhaseIndex, 3);
+
+    // Moving does not change the steps themselves, so every step stays reachable
+    assert.equal(historyStepAt(state, -1), undefined);
+    assert.equal(historyStepAt(state, 3), undefined);
+    assert.equal(state.history.length, 3);
+  });
+});
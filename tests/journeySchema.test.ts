@@ -0,0 +1,57 @@
+/**
+ * Journey schema tests - Validation errors and migration of pre-versioning data
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JOURNEY_SCHEMA_VERSION, migrateJourney, validateJourney, parseJourney } from '../src/utils/journeySchema';
+import { presets } from '../src/presets';
+import deepRestJson from '../src/presets/deep_rest.json';
+
+describe('journey schema', () => {
+  it('accepts every bundled preset', () => {
+    for (const [id, preset] of Object.entries(presets)) {
+      assert.deepEqual(validateJourney(preset), [], id);
+      assert.equal(preset.schema_version, JOURNEY_SCHEMA_VERSION);
+    }
+  });
+
+  it('reports field-level errors with paths', () => {
+    const journey = structuredClone(presets.deep_rest);
+    journey.phases[2].frequency.start = -5;
+    (journey.phases[0] as unknown as Record<string, unknown>).rhythm_mode = 'fast';
+    delete (journey as Partial<typeof journey>).duration_minutes;
+
+    const paths = validateJourney(journey).map((error) => error.path);
+    assert.deepEqual(paths.sort(), ['duration_minutes', 'phases[0].rhythm_mode', 'phases[2].frequency.start']);
+  });
+
+  it('rejects unknown fields and newer versions', () => {
+    const journey = { ...presets.deep_rest, tempo: 120 };
+    assert.deepEqual(validateJourney(journey), [{ path: 'tempo', message: 'is not a known field' }]);
+
+    const future = { ...presets.deep_rest, schema_version: JOURNEY_SCHEMA_VERSION + 1 };
+    assert.throws(() => parseJourney(future), /schema_version/);
+  });
+
+  it('migrates preset JSON without modifying the input', () => {
+    const original = structuredClone(deepRestJson);
+    const migrated = migrateJourney(deepRestJson) as typeof presets.deep_rest;
+
+    assert.deepEqual(deepRestJson, original);
+    assert.equal(migrated.schema_version, JOURNEY_SCHEMA_VERSION);
+    assert.equal(migrated.phases[0].duration, deepRestJson.phases[0].end_min - deepRestJson.phases[0].start_min);
+    assert.equal('start_min' in migrated.phases[0], false);
+    assert.equal(migrated.safety?.lowpass_hz, 120);
+    assert.equal(migrated.safety?.max_rms_db, deepRestJson.safety.max_rms_db);
+  });
+
+  it('upgrades versions that only added optional fields as they are', () => {
+    const journey = { ...structuredClone(presets.deep_rest), schema_version: 1 };
+    const migrated = migrateJourney(journey) as typeof journey;
+
+    assert.equal(migrated.schema_version, JOURNEY_SCHEMA_VERSION);
+    assert.deepEqual({ ...migrated, schema_version: 1 }, journey);
+    assert.deepEqual(validateJourney(migrated), []);
+  });
+});
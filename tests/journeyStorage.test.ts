@@ -0,0 +1,97 @@
+/**
+ * Journey storage tests - Moving an earlier library over, folder and tag queries and name lookups
+ */
+
+import './support/browserStorage';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createFolder,
+  findExistingJourney,
+  getAllTags,
+  getSavedJourney,
+  getSavedJourneys,
+  saveJourney,
+  updateJourneyDetails,
+  type SavedJourney,
+} from '../src/utils/journeyStorage';
+import { JOURNEY_SCHEMA_VERSION } from '../src/utils/journeySchema';
+import { presets } from '../src/presets';
+import deepRestJson from '../src/presets/deep_rest.json';
+
+const LEGACY_STORAGE_KEY = 'sonic-journey-saved-journeys';
+
+/**
+ * Create the library as the first IndexedDB version left it, holding one journey
+ */
+function createVersion1Library(record: SavedJourney): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('sonic-journey-library', 1);
+    request.onupgradeneeded = () => {
+      const journeys = request.result.createObjectStore('journeys', { keyPath: 'id' });
+      journeys.createIndex('folderId', 'folderId');
+      journeys.createIndex('tags', 'tags', { multiEntry: true });
+      request.result.createObjectStore('folders', { keyPath: 'id' });
+      journeys.put(record);
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('journey library', () => {
+  // Runs first: the legacy data is only moved over when the library is opened
+  it('moves journeys from localStorage once, keeping invalid ones there', async () => {
+    await createVersion1Library({
+      id: 'library-1', journey: presets.clear_mind, createdAt: 1, updatedAt: 1, folderId: null, tags: ['focus'],
+    });
+    const invalid = { id: 'legacy-2', journey: { name: 'Broken', phases: [] }, createdAt: 2 };
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify([
+      { id: 'legacy-1', journey: deepRestJson, createdAt: 1000 },
+      invalid,
+    ]));
+
+    const migrated = await getSavedJourney('legacy-1');
+    assert.equal(migrated?.journey.schema_version, JOURNEY_SCHEMA_VERSION);
+    assert.equal(migrated?.journey.name, deepRestJson.name);
+    assert.deepEqual([migrated?.updatedAt, migrated?.folderId, migrated?.tags], [1000, null, []]);
+    assert.deepEqual(JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY)!), [invalid]);
+
+    assert.equal((await getSavedJourney('library-1'))?.journey.name, presets.clear_mind.name, 'version 1 data is kept');
+    assert.equal((await getSavedJourneys()).length, 2);
+  });
+
+  it('queries by folder, tag and search text', async () => {
+    const folder = await createFolder('Evening');
+    const windDown = await saveJourney(presets.wind_down, { folderId: folder.id, tags: ['Sleep', ' sleep ', 'calm'] });
+    await saveJourney(presets.morning_rise, { tags: ['energy', 'calm'] });
+
+    const names = (journeys: SavedJourney[]) => journeys.map((saved) => saved.journey.name).sort();
+
+    assert.deepEqual(names(await getSavedJourneys({ folderId: folder.id })), [presets.wind_down.name]);
+    assert.deepEqual(
+      names(await getSavedJourneys({ folderId: null })),
+      [deepRestJson.name, presets.clear_mind.name, presets.morning_rise.name].sort()
+    );
+    assert.deepEqual(names(await getSavedJourneys({ tag: 'calm' })), [presets.morning_rise.name, presets.wind_down.name].sort());
+    assert.deepEqual(names(await getSavedJourneys({ tag: 'calm', folderId: null })), [presets.morning_rise.name]);
+    assert.deepEqual((await getSavedJourney(windDown))?.tags, ['Sleep', 'calm']);
+    assert.deepEqual(await getAllTags(), ['calm', 'energy', 'focus', 'Sleep']);
+
+    await updateJourneyDetails(windDown, { folderId: null, tags: ['night'] });
+    assert.deepEqual(await getSavedJourneys({ folderId: folder.id }), []);
+    assert.deepEqual(names(await getSavedJourneys({ tag: 'night', search: presets.wind_down.phases[0].name })), [presets.wind_down.name]);
+  });
+
+  it('finds saved journeys by name and duration', async () => {
+    const id = await saveJourney(presets.quick_ground);
+
+    assert.equal((await findExistingJourney(presets.quick_ground))?.id, id);
+    assert.equal(await findExistingJourney({ ...presets.quick_ground, duration_minutes: presets.quick_ground.duration_minutes + 1 }), undefined);
+    assert.equal(await findExistingJourney({ ...presets.quick_ground, name: 'Another name' }), undefined);
+    assert.equal(await getSavedJourney('missing'), undefined);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Loudness meter tests - BS.1770 calibration, true peak, loudness range and target checks
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LOUDNESS_TARGETS, LoudnessMeter, checkLoudness } from '../src/audio/LoudnessMeter';
+
+const SAMPLE_RATE = 48000;
+
+function sine(seconds: number, frequency: number, amplitudeDb: number, phase: number = 0): Float32Array {
+  const amplitude = Math.pow(10, amplitudeDb / 20);
+  return Float32Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase)
+  );
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+describe('loudness meter', () => {
+  it('reads a stereo 1 kHz sine at -23 dBFS as -23 LUFS (EBU Tech 3341)', () => {
+    const tone = sine(20, 1000, -23);
+    const meter = new LoudnessMeter(SAMPLE_RATE, 2);
+    // Odd block sizes check that gating steps carry across process() calls
+    for (let start = 0; start < tone.length; start += 4999) {
+      const block = tone.subarray(start, start + 4999);
+      meter.process([block, block]);
+    }
+    const result = meter.result();
+
+    assert.ok(Math.abs(result.integratedLufs + 23) < 0.1, `integrated ${result.integratedLufs}`);
+    assert.ok(Math.abs(result.momentaryMaxLufs + 23) < 0.1, `momentary ${result.momentaryMaxLufs}`);
+    assert.ok(Math.abs(result.shortTermMaxLufs + 23) < 0.1, `short-term ${result.shortTermMaxLufs}`);
+    assert.ok(result.loudnessRangeLu < 0.1);
+    assert.equal(result.durationSeconds, 20);
+  });
+
+  it('finds inter-sample peaks above the sample peak', () => {
+    // A quarter-rate sine sampled 45 degrees off its crests
+    const tone = sine(1, SAMPLE_RATE / 4, -6, Math.PI / 4);
+    const meter = new LoudnessMeter(SAMPLE_RATE, 1);
+    meter.process([tone]);
+    const result = meter.result();
+
+    assert.ok(Math.abs(result.samplePeakDbfs + 9.03) < 0.05, `sample peak ${result.samplePeakDbfs}`);
+    assert.ok(Math.abs(result.truePeakDbtp + 6) < 0.5, `true peak ${result.truePeakDbtp}`);
+  });
+
+  it('reports loudness range and per-phase RMS', () => {
+    const audio = concat(sine(30, 1000, -20), sine(30, 1000, -30));
+    const chapters = [
+      { title: 'Loud', startSeconds: 0 },
+      { title: 'Quiet', startSeconds: 30 },
+    ];
+    const meter = new LoudnessMeter(SAMPLE_RATE, 1, chapters);
+    meter.process([audio]);
+    const result = meter.result();
+
+    assert.ok(Math.abs(result.loudnessRangeLu - 10) < 0.5, `range ${result.loudnessRangeLu}`);
+    assert.deepEqual(result.phases.map((phase) => phase.name), ['Loud', 'Quiet']);
+    assert.ok(Math.abs(result.phases[0].rmsDb + 23.01) < 0.05, `phase 1 ${result.phases[0].rmsDb}`);
+    assert.ok(Math.abs(result.phases[1].rmsDb + 33.01) < 0.05, `phase 2 ${result.phases[1].rmsDb}`);
+  });
+
+  it('checks measurements against delivery targets', () => {
+    const tone = sine(10, 1000, -23);
+    const meter = new LoudnessMeter(SAMPLE_RATE, 2);
+    meter.process([tone, tone]);
+    const result = meter.result();
+
+    const broadcast = checkLoudness(result, LOUDNESS_TARGETS.ebu_r128);
+    assert.equal(broadcast.pass, true);
+    const streaming = checkLoudness(result, LOUDNESS_TARGETS.streaming);
+    assert.equal(streaming.integratedPass, false);
+    assert.equal(streaming.truePeakPass, true);
+    assert.equal(streaming.pass, false);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Music session tests - Per-client limits, prompt rate limits, idle / duration timeouts and session owners
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createMusicSessionRegistry,
+  getMusicSessionLimitsFromEnv,
+  isMusicSessionId,
+  DEFAULT_MUSIC_SESSION_LIMITS,
+  type MusicSessionEndReason,
+} from '../src/utils/musicSessions';
+import { createMusicSession, getMusicSessionClient, stopMusicSession } from '../server/musicStreamer';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('music sessions', () => {
+  it('issues independent sessions within the global and per-client limits', () => {
+    const registry = createMusicSessionRegistry<string>({ maxSessions: 3, maxSessionsPerClient: 2 }, () => {});
+    const first = registry.open('10.0.0.1', 'a');
+    const second = registry.open('10.0.0.1', 'b');
+
+    assert.ok(isMusicSessionId(first.id));
+    assert.notEqual(first.id, second.id);
+    assert.equal(registry.get(first.id)!.data, 'a');
+    assert.match(registry.checkOpen('10.0.0.1')!, /this client/);
+    assert.throws(() => registry.open('10.0.0.1', 'c'), /maximum 2/);
+
+    registry.open('10.0.0.2', 'c');
+    assert.match(registry.checkOpen('10.0.0.3')!, /maximum 3/);
+
+    // Removing one session leaves the others alone
+    assert.equal(registry.remove(first.id)!.data, 'a');
+    assert.equal(registry.get(first.id), null);
+    assert.equal(registry.get(second.id)!.data, 'b');
+    assert.equal(registry.checkOpen('10.0.0.1'), null);
+    registry.remove(second.id);
+  });
+
+  it('rate-limits prompt updates per session', () => {
+    const registry = createMusicSessionRegistry<null>({ maxPromptUpdatesPerMinute: 2 }, () => {});
+    const session = registry.open('client', null);
+    const other = registry.open('client', null);
+
+    assert.equal(registry.allowPromptUpdate(session.id), true);
+    assert.equal(registry.allowPromptUpdate(session.id), true);
+    assert.equal(registry.allowPromptUpdate(session.id), false);
+    assert.equal(registry.allowPromptUpdate(other.id), true);
+    assert.equal(registry.allowPromptUpdate('missing'), false);
+    registry.remove(session.id);
+    registry.remove(other.id);
+  });
+
+  it('expires idle sessions, and active ones at the duration limit', async () => {
+    const ended: [string, MusicSessionEndReason][] = [];
+    const registry = createMusicSessionRegistry<string>(
+      { idleTimeoutMs: 100, maxDurationMs: 300 },
+      (record, reason) => ended.push([record.data, reason])
+    );
+    const idle = registry.open('client', 'idle');
+    const active = registry.open('client', 'active');
+
+    // Keep one session busy past both limits
+    for (let elapsed = 0; elapsed < 400; elapsed += 10) {
+      registry.touch(active.id);
+      await wait(10);
+    }
+
+    assert.deepEqual(ended, [['idle', 'idle'], ['active', 'max_duration']]);
+    assert.equal(registry.get(idle.id), null);
+    assert.equal(registry.size, 0);
+  });
+
+  it('reads limits from the environment', () => {
+    const limits = getMusicSessionLimitsFromEnv({
+      MUSIC_MAX_SESSIONS: '4',
+      MUSIC_SESSION_IDLE_SECONDS: '30',
+      MUSIC_SESSION_MAX_MINUTES: 'soon',
+    });
+    assert.equal(limits.maxSessions, 4);
+    assert.equal(limits.idleTimeoutMs, 30_000);
+    assert.equal(limits.maxDurationMs, DEFAULT_MUSIC_SESSION_LIMITS.maxDurationMs);
+    assert.equal(isMusicSessionId('not-a-session'), false);
+  });
+});
+
+describe('music streamer sessions', () => {
+  it('remember the client that opened them', async () => {
+    const handlers = { onChunk: () => {}, onError: () => {}, onClose: () => {} };
+    const first = createMusicSession('10.0.0.1', handlers);
+    const second = createMusicSession('10.0.0.2', handlers);
+
+    assert.equal(getMusicSessionClient(first), '10.0.0.1');
+    assert.equal(getMusicSessionClient(second), '10.0.0.2');
+
+    assert.equal(await stopMusicSession(first), true);
+    assert.equal(getMusicSessionClient(first), null);
+    await stopMusicSession(second);
+  });
+});
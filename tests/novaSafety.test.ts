@@ -0,0 +1,69 @@
+/**
+ * Nova safety tests - Policy clamping, risk-band consent and safe patterns for generated journeys
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NOVA_PATTERN_PRESETS, type NovaPattern } from '../src/types/journey';
+import {
+  DEFAULT_NOVA_SAFETY_POLICY,
+  checkNovaPattern,
+  getPatternFrequencyRange,
+  makeNovaPatternSafe,
+} from '../src/audio/NovaSafety';
+
+const MINUTE = 60_000;
+
+describe('Nova safety policy', () => {
+  it('asks for consent only for patterns that reach the risk band', () => {
+    const needsConsent = Object.entries(NOVA_PATTERN_PRESETS)
+      .filter(([, pattern]) => checkNovaPattern(pattern, 10 * MINUTE).requiresConsent)
+      .map(([name]) => name);
+    assert.deepEqual(needsConsent, ['steady_beta', 'beta_to_alpha', 'rapid_burst']);
+
+    const result = checkNovaPattern(NOVA_PATTERN_PRESETS.steady_alpha, 10 * MINUTE);
+    assert.equal(result.requiresConsent, false);
+    assert.deepEqual(result.issues, []);
+    assert.deepEqual(result.pattern, NOVA_PATTERN_PRESETS.steady_alpha);
+  });
+
+  it('counts jitter and sweeps that cross the band', () => {
+    const jittery: NovaPattern = { type: 'steady', baseFrequency: 12, randomVariation: 20 };
+    assert.ok(getPatternFrequencyRange(jittery).maxHz > 15);
+    assert.equal(checkNovaPattern(jittery).requiresConsent, true);
+
+    const crossing: NovaPattern = { type: 'sweep', baseFrequency: 40, targetFrequency: 10 };
+    assert.equal(checkNovaPattern(crossing, 60 * MINUTE).requiresConsent, true);
+  });
+
+  it('clamps frequency, burst density, sweep speed and jitter', () => {
+    const { pattern, issues } = checkNovaPattern(
+      { type: 'burst', baseFrequency: 60, burstCount: 10, burstGap: 100, randomVariation: 200 },
+      MINUTE
+    );
+    assert.equal(pattern.baseFrequency, DEFAULT_NOVA_SAFETY_POLICY.maxFrequencyHz);
+    const burstMs = (10 * 1000) / pattern.baseFrequency;
+    assert.ok((10 * 1000) / (burstMs + pattern.burstGap!) <= DEFAULT_NOVA_SAFETY_POLICY.maxBurstDensity);
+    assert.equal(pattern.randomVariation, 0);
+    assert.deepEqual(issues.map((issue) => issue.code), ['frequency', 'burst_density', 'jitter']);
+
+    // 10 -> 3 Hz over 5 s is 1.4 Hz/s; the default allows 0.5 Hz/s
+    const sweep = checkNovaPattern({ type: 'sweep', baseFrequency: 10, targetFrequency: 3 }, 5000);
+    assert.equal(sweep.pattern.targetFrequency, 7.5);
+    assert.equal(sweep.issues[0].code, 'sweep_rate');
+  });
+
+  it('moves generated patterns out of the risk band', () => {
+    const beta = makeNovaPatternSafe(NOVA_PATTERN_PRESETS.rapid_burst, 10 * MINUTE)!;
+    assert.equal(beta.baseFrequency, 14);
+
+    const sweep = makeNovaPatternSafe({ type: 'sweep', baseFrequency: 40, targetFrequency: 10 }, 60 * MINUTE)!;
+    assert.deepEqual([sweep.baseFrequency, sweep.targetFrequency], [14, 10]);
+
+    const wave = makeNovaPatternSafe({ type: 'wave', baseFrequency: 13, waveAmplitude: 3, randomVariation: 15 })!;
+    assert.ok(getPatternFrequencyRange(wave).maxHz < 15);
+
+    // Gamma sits above the band and plays without consent
+    assert.deepEqual(makeNovaPatternSafe(NOVA_PATTERN_PRESETS.steady_gamma), NOVA_PATTERN_PRESETS.steady_gamma);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Offline journey tests - Intents, constraints, long durations and refinements in the on-device generator
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyJourneyConstraints, buildOfflineJourney, detectIntent, JOURNEY_INTENTS, refineOfflineJourney } from '../src/utils/offlineJourney';
+import { diffJourneyPhases } from '../src/utils/journeyDiff';
+import { checkNovaPattern } from '../src/audio/NovaSafety';
+import { validateJourney } from '../src/utils/journeySchema';
+
+describe('offline journey generator', () => {
+  it('builds a valid, risk-free journey for every intent and duration', () => {
+    for (const intent of JOURNEY_INTENTS) {
+      for (const duration of [5, 45, 180]) {
+        const journey = buildOfflineJourney('a journey', duration, { intent });
+        assert.deepEqual(validateJourney(journey), [], `${intent} ${duration}`);
+        assert.equal(journey.phases.reduce((sum, phase) => sum + phase.duration, 0), duration);
+        assert.ok(journey.phases.every((phase) => phase.duration <= 60));
+
+        for (const phase of journey.phases) {
+          assert.ok(phase.nova_pattern, `${intent} ${phase.name} has a Nova pattern`);
+          assert.equal(checkNovaPattern(phase.nova_pattern, phase.duration * 60000).requiresConsent, false);
+          assert.equal(phase.binaural_carrier_frequency, 200);
+        }
+      }
+    }
+  });
+
+  it('recognizes grief and creativity prompts', () => {
+    assert.equal(detectIntent('processing the loss of my father'), 'grief');
+    assert.equal(detectIntent('spark ideas for my next painting'), 'creativity');
+    assert.equal(buildOfflineJourney('grieving', 30).name, 'Holding Space');
+  });
+
+  it('splits long phases and keeps their ramps continuous', () => {
+    const journey = buildOfflineJourney('deep focus', 180);
+    const parts = journey.phases.filter((phase) => phase.name.startsWith('Engagement'));
+    assert.equal(parts.length, 2);
+    assert.equal(parts[0].amplitude.end, parts[1].amplitude.start);
+    assert.equal(parts[0].frequency.end, parts[1].frequency.start);
+  });
+
+  it('applies constraints to generated and existing journeys', () => {
+    const gentle = buildOfflineJourney('focus', 30, { intent: 'energy', nova: false, binaural: false, intensity: 'gentle' });
+    const moderate = buildOfflineJourney('focus', 30, { intent: 'energy' });
+    assert.equal(gentle.name, 'Rising Energy');
+    assert.equal(gentle.nova_enabled, false);
+    assert.ok(gentle.phases.every((phase) => phase.nova_enabled === false && phase.binaural_enabled === false));
+    assert.ok(gentle.phases[0].amplitude.start < moderate.phases[0].amplitude.start);
+    assert.equal(gentle.phases[0].fm_depth, 0.05);
+
+    const strong = applyJourneyConstraints(moderate, { intensity: 'strong' });
+    assert.ok(strong.phases.every((phase) => phase.amplitude.start <= 1 && phase.amplitude.end <= 1));
+    assert.equal(strong.phases[0].nova_enabled, true);
+    assert.equal(moderate.phases[0].fm_depth, 0.1, 'the original journey is unchanged');
+  });
+});
+
+describe('offline journey refinement', () => {
+  it('applies each clause of an instruction to the phases it names', () => {
+    const journey = buildOfflineJourney('meditation', 40);
+    const refined = refineOfflineJourney(journey, 'Make the middle deeper and remove Nova in the last phase');
+
+    const changes = diffJourneyPhases(journey, refined);
+    assert.deepEqual(changes.map((change) => change.index), [1, 2, 3]);
+    for (const index of [1, 2]) {
+      assert.ok(refined.phases[index].frequency.end < journey.phases[index].frequency.end, `phase ${index} is deeper`);
+    }
+    assert.equal(refined.phases[2].rhythm_mode, 'delta');
+    assert.equal(refined.phases[3].nova_enabled, false);
+    assert.deepEqual(refined.phases[0], journey.phases[0]);
+    assert.deepEqual(validateJourney(refined), []);
+  });
+
+  it('rejects instructions it does not understand', () => {
+    assert.throws(() => refineOfflineJourney(buildOfflineJourney('focus', 20), 'make it more purple'), /Could not understand/);
+  });
+});
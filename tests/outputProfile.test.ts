@@ -0,0 +1,54 @@
+/**
+ * Output profile tests - Journey adaptation and stereo handling shared by playback and export
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OUTPUT_PROFILES, applyOutputProfile, createOutputStage } from '../src/audio/OutputProfile';
+import { DEFAULT_SAFETY } from '../src/types/journey';
+import { presets } from '../src/presets';
+
+const SAMPLE_RATE = 8000;
+
+describe('output profiles', () => {
+  it('leaves the journey as designed without a profile', () => {
+    const journey = presets.deep_rest;
+    assert.equal(applyOutputProfile(journey, null), journey);
+  });
+
+  it('switches the safety band, layers and beat layer together', () => {
+    const journey = structuredClone(presets.deep_rest);
+    journey.layers = { ...journey.layers, texture_layer: true };
+    journey.phases[0].binaural_enabled = true;
+
+    const transducer = applyOutputProfile(journey, OUTPUT_PROFILES.transducer);
+    assert.equal(transducer.safety?.lowpass_hz, 100);
+    assert.equal(transducer.layers.texture_layer, false);
+    assert.equal(transducer.beat_mode, 'none');
+
+    // Binaural beats need headphones, so speakers fall back to monaural beats
+    assert.equal(applyOutputProfile(journey, OUTPUT_PROFILES.speakers).beat_mode, 'monaural');
+    assert.equal(applyOutputProfile(journey, OUTPUT_PROFILES.headphones).beat_mode, undefined);
+    assert.equal(applyOutputProfile({ ...journey, beat_mode: 'isochronic' }, OUTPUT_PROFILES.bed).beat_mode, 'isochronic');
+  });
+
+  it('splits a bed into a tactile left channel and a full-range right channel', () => {
+    const length = SAMPLE_RATE;
+    const left = new Float32Array(length);
+    const right = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const bass = Math.sin((2 * Math.PI * 40 * i) / SAMPLE_RATE);
+      const tone = Math.sin((2 * Math.PI * 2000 * i) / SAMPLE_RATE);
+      left[i] = bass + tone;
+      right[i] = bass + tone;
+    }
+
+    createOutputStage(OUTPUT_PROFILES.bed, SAMPLE_RATE, DEFAULT_SAFETY).process([left, right]);
+
+    const rms = (signal: Float32Array) =>
+      Math.sqrt(signal.slice(length / 2).reduce((sum, x) => sum + x * x, 0) / (length / 2));
+    // The 40 Hz bass passes the 20-120 Hz band (one-pole slopes take a little of it); the 2 kHz tone does not
+    assert.ok(Math.abs(rms(right) - 1) < 0.01, `right ${rms(right)}`);
+    assert.ok(rms(left) > 0.5 && rms(left) < 0.65, `left ${rms(left)}`);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Parity tests - Live SynthEngine graph vs sample-based OfflineRenderer and block-based StreamingRenderer
+ * Every preset is rendered through all three paths (phases shortened to PHASE_SECONDS) and each
+ * export path is compared with the live one per phase on level contour, fundamental frequency
+ * and entrainment rate. A failure means one engine changed behaviour without the others following.
+ */
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { JourneyConfig, PhaseConfig, RhythmMode, EntrainmentMode } from '../src/types/journey';
+import { ENTRAINMENT_PRESETS } from '../src/types/journey';
+import { presets } from '../src/presets';
+import { compressJourney, renderLive, renderOffline, renderStreaming } from './support/journeyRender';
+import { rmsDb, fundamentalFrequency, entrainmentRate } from './support/analysis';
+
+// Low rate keeps renders fast; everything measured sits well below Nyquist
+const SAMPLE_RATE = 2000;
+const PHASE_SECONDS = 45;
+
+// OfflineRenderer overlaps consecutive phases by this much (StreamingRenderer, like the live
+// engine, plays them back to back)
+const OFFLINE_CROSSFADE_SECONDS = 2;
+
+// Skip the start of each phase so parameter glides and crossfades have settled
+const SETTLE_SECONDS = 6;
+const ANALYSIS_SAMPLES = 65536; // ~33 s at SAMPLE_RATE
+const PITCH_SAMPLES = 16384;    // ~8 s around the phase midpoint
+
+// Tolerances
+// The offline renderer peak-normalizes each phase, which flattens its level contour a little
+const RMS_CONTOUR_TOLERANCE_DB = 3.5;
+// Both paths apply the 0.1 Hz FM "flow" but with different LFO phase, so allow its deviation
+const PITCH_TOLERANCE_HZ = 0.5;
+const ENTRAINMENT_TOLERANCE = 0.05; // relative
+const MIN_ENTRAINMENT_PROMINENCE = 2;
+const ENTRAINMENT_SEARCH_RATIO = 0.2;
+// Slower modulation has too few cycles in a shortened phase to measure reliably
+const MIN_MEASURABLE_RATE = 0.25;
+
+const rhythmToEntrainment: Record<RhythmMode, EntrainmentMode> = {
+  still: 'none',
+  breathing: 'breathing',
+  heartbeat: 'heartbeat',
+  delta: 'delta',
+  theta: 'theta',
+  alpha: 'alpha',
+  beta: 'beta',
+  gamma: 'gamma',
+};
+
+interface PhaseWindow {
+  level: Float32Array;
+  pitch: Float32Array;
+}
+
+/**
+ * An export render path checked against the live engine
+ */
+interface ExportPath {
+  name: 'offline' | 'streaming';
+  render: (config: JourneyConfig, sampleRate: number) => Promise<Float32Array>;
+  crossfadeSeconds: number;
+}
+
+const EXPORT_PATHS: ExportPath[] = [
+  { name: 'offline', render: renderOffline, crossfadeSeconds: OFFLINE_CROSSFADE_SECONDS },
+  { name: 'streaming', render: renderStreaming, crossfadeSeconds: 0 },
+];
+
+/**
+ * Expected amplitude-modulation rate of a phase (0 when unmodulated)
+ */
+function expectedEntrainmentRate(phase: PhaseConfig): number {
+  const preset = ENTRAINMENT_PRESETS[rhythmToEntrainment[phase.rhythm_mode || 'breathing']];
+  if (preset.rate <= 0) return 0;
+  return phase.entrainment_rate || preset.rate;
+}
+
+/**
+ * Whether the beating between foundation and support carriers falls in the entrainment search band
+ * (the carrier beat then masks the modulation in both paths)
+ */
+function carrierBeatMasksEntrainment(phase: PhaseConfig, rate: number): boolean {
+  const support = phase.support_frequency ?? {
+    start: phase.frequency.start - 5,
+    end: phase.frequency.end - 5,
+  };
+  const beatStart = Math.abs(phase.frequency.start - support.start);
+  const beatEnd = Math.abs(phase.frequency.end - support.end);
+  const low = Math.min(beatStart, beatEnd);
+  const high = Math.max(beatStart, beatEnd);
+  return high >= rate * (1 - ENTRAINMENT_SEARCH_RATIO) && low <= rate * (1 + ENTRAINMENT_SEARCH_RATIO);
+}
+
+/**
+ * Cut the analysis windows of each phase out of a render
+ */
+function phaseWindows(config: JourneyConfig, samples: Float32Array, crossfadeSeconds = 0): PhaseWindow[] {
+  return config.phases.map((_, index) => {
+    const start = Math.round(index * (PHASE_SECONDS - crossfadeSeconds) * SAMPLE_RATE);
+    const settle = Math.round(SETTLE_SECONDS * SAMPLE_RATE);
+    const middle = Math.round((PHASE_SECONDS / 2) * SAMPLE_RATE) - PITCH_SAMPLES / 2;
+
+    return {
+      level: samples.subarray(start + settle, start + settle + ANALYSIS_SAMPLES),
+      pitch: samples.subarray(start + middle, start + middle + PITCH_SAMPLES),
+    };
+  });
+}
+
+/**
+ * Render a journey live and through every export path, cut into phase windows
+ */
+async function renderAllPaths(config: JourneyConfig): Promise<Record<'live' | ExportPath['name'], PhaseWindow[]>> {
+  const windows = { live: phaseWindows(config, await renderLive(config, SAMPLE_RATE)) } as Record<'live' | ExportPath['name'], PhaseWindow[]>;
+  for (const path of EXPORT_PATHS) {
+    windows[path.name] = phaseWindows(config, await path.render(config, SAMPLE_RATE), path.crossfadeSeconds);
+  }
+  return windows;
+}
+
+for (const [presetId, preset] of Object.entries(presets)) {
+  describe(`parity: ${presetId}`, () => {
+    const config = compressJourney(preset, PHASE_SECONDS);
+    let windows: Record<'live' | ExportPath['name'], PhaseWindow[]>;
+
+    before(async () => {
+      windows = await renderAllPaths(config);
+    });
+
+    for (const { name } of EXPORT_PATHS) {
+      it(`per-phase RMS contour matches (${name})`, () => {
+        const liveLevels = windows.live.map((w) => rmsDb(w.level));
+        const exportLevels = windows[name].map((w) => rmsDb(w.level));
+        const liveMean = liveLevels.reduce((sum, level) => sum + level, 0) / liveLevels.length;
+        const exportMean = exportLevels.reduce((sum, level) => sum + level, 0) / exportLevels.length;
+
+        // Absolute loudness differs by design (export normalization), so compare each
+        // phase's level relative to the journey average
+        config.phases.forEach((phase, index) => {
+          const liveRelative = liveLevels[index] - liveMean;
+          const exportRelative = exportLevels[index] - exportMean;
+          assert.ok(
+            Math.abs(liveRelative - exportRelative) <= RMS_CONTOUR_TOLERANCE_DB,
+            `${phase.name}: live ${liveRelative.toFixed(2)} dB vs ${name} ${exportRelative.toFixed(2)} dB relative to mean`
+          );
+        });
+      });
+
+      it(`fundamental frequency matches (${name})`, () => {
+        config.phases.forEach((phase, index) => {
+          const live = fundamentalFrequency(windows.live[index].pitch, SAMPLE_RATE);
+          const exported = fundamentalFrequency(windows[name][index].pitch, SAMPLE_RATE);
+          const tolerance = PITCH_TOLERANCE_HZ + 4 * (phase.fm_depth || 0);
+          assert.ok(
+            Math.abs(live - exported) <= tolerance,
+            `${phase.name}: live ${live.toFixed(2)} Hz vs ${name} ${exported.toFixed(2)} Hz (tolerance ${tolerance.toFixed(2)} Hz)`
+          );
+        });
+      });
+
+      it(`entrainment rate matches (${name})`, () => {
+        config.phases.forEach((phase, index) => {
+          const expected = expectedEntrainmentRate(phase);
+          if (expected < MIN_MEASURABLE_RATE || carrierBeatMasksEntrainment(phase, expected)) return;
+
+          const live = entrainmentRate(windows.live[index].level, SAMPLE_RATE, expected, ENTRAINMENT_SEARCH_RATIO);
+          const exported = entrainmentRate(windows[name][index].level, SAMPLE_RATE, expected, ENTRAINMENT_SEARCH_RATIO);
+
+          assert.ok(
+            live.prominence >= MIN_ENTRAINMENT_PROMINENCE && exported.prominence >= MIN_ENTRAINMENT_PROMINENCE,
+            `${phase.name}: ${expected} Hz modulation missing (prominence live ${live.prominence.toFixed(1)}, ${name} ${exported.prominence.toFixed(1)})`
+          );
+          assert.ok(
+            Math.abs(live.frequency - exported.frequency) <= expected * ENTRAINMENT_TOLERANCE,
+            `${phase.name}: live ${live.frequency.toFixed(2)} Hz vs ${name} ${exported.frequency.toFixed(2)} Hz`
+          );
+        });
+      });
+    }
+  });
+}
+
+// Phases designed for binaural beats, played through each speaker-friendly layer by beat_mode
+for (const beatMode of ['monaural', 'isochronic'] as const) {
+  describe(`parity: ${beatMode} beat mode`, () => {
+    const BEAT_RATE = 7;
+    const base = presets.deep_rest;
+    const config = compressJourney(
+      {
+        ...base,
+        beat_mode: beatMode,
+        phases: base.phases.slice(0, 2).map((phase) => ({
+          ...phase,
+          amplitude: { start: 0.5, end: 0.5 },
+          rhythm_mode: 'still',
+          entrainment_mode: 'none',
+          entrainment_rate: undefined,
+          binaural_enabled: true,
+          binaural_beat_frequency: BEAT_RATE,
+          binaural_volume: 0.5,
+        })),
+      },
+      PHASE_SECONDS
+    );
+    let windows: Record<'live' | ExportPath['name'], PhaseWindow[]>;
+
+    before(async () => {
+      windows = await renderAllPaths(config);
+    });
+
+    it('beats at the configured rate in every path', () => {
+      for (const [name, phases] of Object.entries(windows)) {
+        phases.forEach((window, index) => {
+          const beat = entrainmentRate(window.level, SAMPLE_RATE, BEAT_RATE, ENTRAINMENT_SEARCH_RATIO);
+          assert.ok(
+            beat.prominence >= MIN_ENTRAINMENT_PROMINENCE,
+            `${name} phase ${index}: beat missing (prominence ${beat.prominence.toFixed(1)})`
+          );
+          assert.ok(Math.abs(beat.frequency - BEAT_RATE) <= BEAT_RATE * ENTRAINMENT_TOLERANCE, `${name} phase ${index}: ${beat.frequency.toFixed(2)} Hz`);
+        });
+      }
+    });
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Processing job tests - Queue concurrency, progress events, cancellation and artifact expiry
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createArtifactStore, type ArtifactStore } from '../server/artifactStore';
+import {
+  createProcessingQueue,
+  type JobEvent,
+  type JobProcessor,
+  type ProcessingJob,
+  type ProcessingQueue,
+} from '../server/processingJobs';
+import type { ProcessingResult } from '../server/audioProcessor';
+
+const RESULT: ProcessingResult = {
+  analysis: { duration: 1, sampleRate: 44100, bpm: 120, beatsCount: 2, averageBassEnergy: 0.5 },
+  bassBuffer: Buffer.from('bass'),
+  mixedBuffer: Buffer.from('mixed'),
+};
+
+/**
+ * Processor whose jobs finish only when the test releases them, stopping early when aborted
+ */
+function createControlledProcessor() {
+  const pending = new Map<string, () => void>();
+  const process: JobProcessor = (filePath, _config, onProgress, signal) =>
+    new Promise((resolve, reject) => {
+      onProgress({ stage: 'decode', progress: 0, message: 'Decoding audio...' });
+      signal.addEventListener('abort', () => reject(signal.reason));
+      pending.set(filePath, () => {
+        onProgress({ stage: 'complete', progress: 100, message: 'Processing complete' });
+        resolve(RESULT);
+      });
+    });
+  return { process, pending };
+}
+
+function waitForStatus(queue: ProcessingQueue, id: string, status: ProcessingJob['status']): Promise<ProcessingJob> {
+  return new Promise((resolve) => {
+    const current = queue.get(id);
+    if (current?.status === status) return resolve(current);
+    queue.subscribe(id, (event) => {
+      if (event.type === 'status' && event.job.status === status) resolve(event.job);
+    });
+  });
+}
+
+describe('processing jobs', () => {
+  let dir: string;
+  let store: ArtifactStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sonic-jobs-'));
+    store = createArtifactStore({ dir: path.join(dir, 'output'), urlPrefix: '/output', ttlMs: 60_000 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function upload(name: string): string {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, 'audio');
+    return filePath;
+  }
+
+  it('runs jobs within the concurrency limit and forwards progress', async () => {
+    const { process, pending } = createControlledProcessor();
+    const queue = createProcessingQueue({ store, concurrency: 1, process });
+
+    const first = queue.submit(upload('a.wav'), 'a.wav');
+    const second = queue.submit(upload('b.wav'), 'b.wav');
+    assert.equal(queue.get(first.id)!.status, 'running');
+    assert.equal(queue.get(second.id)!.status, 'queued');
+    assert.equal(queue.get(second.id)!.queuePosition, 1);
+
+    const events: JobEvent[] = [];
+    queue.subscribe(first.id, (event) => events.push(event));
+    const done = waitForStatus(queue, first.id, 'complete');
+    pending.get(path.join(dir, 'a.wav'))!();
+    const job = await done;
+
+    assert.deepEqual(
+      events.map((event) => (event.type === 'progress' ? event.stage : event.job.status)),
+      ['complete', 'complete']
+    );
+    assert.equal(job.progress?.progress, 100);
+    assert.match(job.result!.bassAudioUrl, /^\/output\/bass-.+\.wav$/);
+    const artifact = store.get(path.basename(job.result!.mixedAudioUrl))!;
+    assert.equal(fs.readFileSync(path.join(dir, 'output', artifact.fileName), 'utf8'), 'mixed');
+    assert.equal(fs.existsSync(path.join(dir, 'a.wav')), false, 'upload is deleted');
+
+    // The next job starts once the first is done
+    assert.equal(queue.get(second.id)!.status, 'running');
+  });
+
+  it('cancels queued and running jobs', async () => {
+    const { process } = createControlledProcessor();
+    const queue = createProcessingQueue({ store, concurrency: 1, process });
+
+    const running = queue.submit(upload('a.wav'), 'a.wav');
+    const queued = queue.submit(upload('b.wav'), 'b.wav');
+
+    assert.equal(queue.cancel(queued.id)!.status, 'cancelled');
+    const cancelled = waitForStatus(queue, running.id, 'cancelled');
+    queue.cancel(running.id);
+    const job = await cancelled;
+
+    assert.equal(job.result, undefined);
+    assert.deepEqual(fs.readdirSync(path.join(dir, 'output')), []);
+    assert.equal(fs.existsSync(path.join(dir, 'a.wav')), false);
+    assert.equal(queue.cancel('missing'), null);
+  });
+
+  it('reports failures and refuses jobs when the queue is full', async () => {
+    const queue = createProcessingQueue({
+      store,
+      concurrency: 1,
+      maxQueued: 1,
+      process: async () => {
+        throw new Error('Failed to decode audio');
+      },
+    });
+
+    const failing = queue.submit(upload('a.wav'), 'a.wav');
+    queue.submit(upload('b.wav'), 'b.wav');
+    assert.equal(queue.isFull(), true);
+    assert.throws(() => queue.submit(upload('c.wav'), 'c.wav'), /queue is full/);
+
+    const job = await waitForStatus(queue, failing.id, 'failed');
+    assert.equal(job.error, 'Failed to decode audio');
+  });
+
+  it('deletes artifacts once they expire', async () => {
+    const now = Date.now();
+    const artifact = await store.save('bass', 'wav', Buffer.from('bass'), now);
+    const stale = path.join(dir, 'output', 'bass-old.wav');
+    fs.writeFileSync(stale, 'old');
+    fs.utimesSync(stale, new Date(now - 120_000), new Date(now - 120_000));
+
+    assert.equal(await store.sweep(now), 1, 'only the stale untracked file');
+    assert.ok(store.get(artifact.fileName, now));
+
+    assert.equal(await store.sweep(now + 60_000), 1);
+    assert.equal(store.get(artifact.fileName, now + 60_000), null);
+    assert.deepEqual(fs.readdirSync(path.join(dir, 'output')), []);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Provider tests - Local music framing and determinism, offline journeys and refinements through the generator
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { chordForPrompt, createLocalMusicProvider, LocalMusicSynth } from '../server/localMusic';
+import { getMusicProvider } from '../server/musicProviders';
+import { generateMusic } from '../server/musicGenerator';
+import { generateJourney, refineJourney } from '../server/journeyGenerator';
+import { getJourneyProvider } from '../server/journeyProviders';
+import { buildOfflineJourney, detectIntent } from '../src/utils/offlineJourney';
+import { validateJourney } from '../src/utils/journeySchema';
+import type { JourneyConfig } from '../src/types/journey';
+
+const BYTES_PER_FRAME = 4;
+
+describe('local music provider', () => {
+  afterEach(() => {
+    delete process.env.MUSIC_PROVIDER;
+  });
+
+  it('renders 16-bit stereo chunks in the framing MusicLayer expects', () => {
+    const chunk = Buffer.from(new LocalMusicSynth('calm ocean pad').renderChunk(), 'base64');
+    assert.equal(chunk.length % BYTES_PER_FRAME, 0);
+    assert.equal(chunk.length / BYTES_PER_FRAME, 24000);
+
+    let peak = 0;
+    for (let i = 0; i < chunk.length; i += 2) peak = Math.max(peak, Math.abs(chunk.readInt16LE(i)));
+    assert.ok(peak > 1000 && peak < 32767, `peak ${peak}`);
+  });
+
+  it('is deterministic for a prompt and follows prompt changes', () => {
+    assert.equal(new LocalMusicSynth('deep sleep').renderChunk(), new LocalMusicSynth('deep sleep').renderChunk());
+    assert.notEqual(new LocalMusicSynth('deep sleep').renderChunk(), new LocalMusicSynth('morning energy').renderChunk());
+    assert.ok(chordForPrompt('deep sleep')[0] < chordForPrompt('morning energy')[0]);
+
+    const changed = new LocalMusicSynth('deep sleep');
+    changed.renderChunk();
+    changed.setPrompt('morning energy');
+    const steady = new LocalMusicSynth('deep sleep');
+    steady.renderChunk();
+    assert.notEqual(changed.renderChunk(), steady.renderChunk());
+  });
+
+  it('streams until closed', async () => {
+    const chunks: string[] = [];
+    let closed = false;
+    const stream = await createLocalMusicProvider().connect(
+      { onChunk: (chunk) => chunks.push(chunk), onError: assert.fail, onClose: () => (closed = true) },
+      { paced: false }
+    );
+    await assert.rejects(stream.play(), /prompt/);
+    await stream.setPrompt('gentle drone');
+    await stream.play();
+    while (chunks.length < 3) await new Promise((resolve) => setTimeout(resolve, 5));
+    stream.close();
+    const count = chunks.length;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.equal(closed, true);
+    assert.equal(chunks.length, count);
+  });
+
+  it('is selected by MUSIC_PROVIDER for generated clips', async () => {
+    process.env.MUSIC_PROVIDER = 'local';
+    assert.equal(getMusicProvider().name, 'local');
+
+    const result = await generateMusic('ambient meditation');
+    const wav = Buffer.from(result.audioContent, 'base64');
+    assert.equal(result.mimeType, 'audio/wav');
+    assert.equal(wav.toString('ascii', 0, 4), 'RIFF');
+    assert.equal(wav.readUInt32LE(40), 15 * 48000 * BYTES_PER_FRAME);
+
+    process.env.MUSIC_PROVIDER = 'cloud';
+    assert.throws(() => getMusicProvider(), /Unknown MUSIC_PROVIDER/);
+  });
+});
+
+describe('local journey provider', () => {
+  afterEach(() => {
+    delete process.env.JOURNEY_PROVIDER;
+  });
+
+  it('picks an intent from prompt keywords', () => {
+    assert.equal(detectIntent('Help me fall asleep after a long night'), 'sleep');
+    assert.equal(detectIntent('calm my anxiety before a meeting'), 'anxiety');
+    assert.equal(detectIntent('relax and unwind'), 'relaxation');
+    assert.equal(detectIntent('deep focus for study'), 'focus');
+    assert.equal(detectIntent('morning energy boost'), 'energy');
+    assert.equal(detectIntent('something beautiful'), 'meditation');
+
+    const journey = buildOfflineJourney('sleep', 7);
+    assert.equal(journey.phases.reduce((sum, phase) => sum + phase.duration, 0), 7);
+    assert.deepEqual(validateJourney(journey), []);
+  });
+
+  it('generates validated journeys through the generator when selected', async () => {
+    process.env.JOURNEY_PROVIDER = 'local';
+    assert.equal(getJourneyProvider().name, 'local');
+
+    const journey = await generateJourney({ prompt: 'Wind down for deep sleep', duration: 45 });
+    assert.equal(journey.name, 'Deep Sleep');
+    assert.equal(journey.duration_minutes, 45);
+    assert.equal(journey.phases.reduce((sum, phase) => sum + phase.duration, 0), 45);
+    assert.deepEqual(validateJourney(journey), []);
+    assert.ok(journey.phases.every((phase) => phase.nova_pattern), 'normalization adds Nova patterns');
+    assert.equal(journey.phases.at(-1)!.rhythm_mode, 'delta');
+  });
+
+  it('refines a journey and reports only the phases it changed', async () => {
+    process.env.JOURNEY_PROVIDER = 'local';
+
+    const current = await generateJourney({ prompt: 'Wind down for deep sleep', duration: 45 });
+    const { journey, changes } = await refineJourney({ journey: current, instruction: 'remove Nova in the last phase' });
+    assert.deepEqual(changes, [
+      { type: 'modified', index: 3, name: 'Deep Rest', fields: [{ field: 'nova_enabled', before: true, after: false }] },
+    ]);
+    assert.equal(journey.duration_minutes, 45);
+    assert.deepEqual(validateJourney(journey), []);
+
+    await assert.rejects(refineJourney({ journey: current, instruction: 'sparkles' }), /Failed to refine journey/);
+  });
+
+  it('keeps melody, automation and beat settings the refinement did not touch', async () => {
+    process.env.JOURNEY_PROVIDER = 'local';
+
+    const generated = buildOfflineJourney('deep sleep', 40);
+    const current: JourneyConfig = {
+      ...generated,
+      beat_mode: 'monaural',
+      phases: generated.phases.map((phase) => ({
+        ...phase,
+        frequency: { start: 140, end: 150, curve: 's_curve', breakpoints: [{ position: 0.5, value: 160 }] },
+        fm_depth: 0.35,
+        melody_enabled: true,
+        melody_style: 'arpeggio',
+        monaural_enabled: true,
+        monaural_volume: 0.4,
+        support_frequency: { start: 70, end: 75 },
+        automation: { fm_depth: [{ position: 0, value: 0.1 }, { position: 1, value: 0.3 }] },
+      })),
+    };
+
+    const { journey, changes } = await refineJourney({ journey: current, instruction: 'remove Nova in the last phase' });
+    assert.deepEqual(changes.map((change) => [change.index, change.fields.map((field) => field.field)]), [[3, ['nova_enabled']]]);
+    assert.deepEqual(journey.phases.slice(0, 3), current.phases.slice(0, 3));
+    assert.deepEqual({ ...journey.phases[3], nova_enabled: true }, current.phases[3]);
+    assert.equal(journey.beat_mode, 'monaural');
+    assert.deepEqual(validateJourney(journey), []);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Spectrum analysis tests - Log frequency axis, column binning, peak finding and stereo correlation
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  binSpectrum,
+  findPeakFrequency,
+  frequencyToPosition,
+  getBrainwaveBand,
+  positionToFrequency,
+  stereoCorrelation,
+} from '../src/audio/SpectrumAnalysis';
+
+const SAMPLE_RATE = 48000;
+const BIN_COUNT = 8192; // fftSize 16384
+
+/**
+ * Analyser-style dB spectrum: a floor with a peak spread over neighbouring bins
+ */
+function spectrumWithPeak(frequency: number, peakDb: number = -20): Float32Array {
+  const binWidth = SAMPLE_RATE / (BIN_COUNT * 2);
+  const center = frequency / binWidth;
+  return Float32Array.from({ length: BIN_COUNT }, (_, bin) =>
+    Math.max(-100, peakDb - 12 * (bin - center) ** 2)
+  );
+}
+
+function sine(frequency: number, phase: number = 0): Float32Array {
+  return Float32Array.from({ length: 2048 }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE + phase));
+}
+
+describe('spectrum analysis', () => {
+  it('maps frequencies onto the log axis and back', () => {
+    assert.equal(frequencyToPosition(10), 0);
+    assert.equal(frequencyToPosition(1000), 1);
+    assert.ok(Math.abs(frequencyToPosition(100) - 0.5) < 1e-12);
+    assert.ok(Math.abs(positionToFrequency(frequencyToPosition(42)) - 42) < 1e-9);
+  });
+
+  it('bins a sub-bass peak into the matching column', () => {
+    const columns = 200;
+    const binned = binSpectrum(spectrumWithPeak(40), SAMPLE_RATE, columns);
+    const loudest = binned.indexOf(Math.max(...binned));
+    const expected = Math.floor(frequencyToPosition(40) * columns);
+
+    assert.equal(binned.length, columns);
+    assert.ok(Math.abs(loudest - expected) <= 1, `column ${loudest}, expected ${expected}`);
+    assert.ok(binned.every((value) => value >= -100 && value <= -20));
+  });
+
+  it('finds the peak frequency between bins', () => {
+    const peak = findPeakFrequency(spectrumWithPeak(41.3), SAMPLE_RATE, 20, 80);
+    assert.ok(peak !== null && Math.abs(peak - 41.3) < 0.5, `peak ${peak}`);
+    assert.equal(findPeakFrequency(new Float32Array(BIN_COUNT).fill(-120), SAMPLE_RATE, 20, 80), null);
+  });
+
+  it('measures stereo correlation', () => {
+    const tone = sine(100);
+    assert.ok(Math.abs(stereoCorrelation(tone, tone) - 1) < 1e-9);
+    assert.ok(Math.abs(stereoCorrelation(tone, tone.map((x) => -x)) + 1) < 1e-9);
+    assert.ok(Math.abs(stereoCorrelation(tone, sine(100, Math.PI / 2))) < 0.05);
+    assert.equal(stereoCorrelation(new Float32Array(16), new Float32Array(16)), 0);
+  });
+
+  it('names brainwave bands', () => {
+    assert.deepEqual([2, 6, 10, 20, 40].map(getBrainwaveBand), ['delta', 'theta', 'alpha', 'beta', 'gamma']);
+  });
+});
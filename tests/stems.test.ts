@@ -0,0 +1,61 @@
+/**
+ * Stem export tests - Per-layer rendering and multichannel WAV headers
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamingRenderer } from '../src/audio/StreamingRenderer';
+import { getStemChannels, mapStemChannels, type StemBlock } from '../src/audio/Stems';
+import { createWavHeader } from '../src/audio/encoders/wav';
+import { presets } from '../src/presets';
+import { compressJourney } from './support/journeyRender';
+
+const SAMPLE_RATE = 2000;
+
+describe('stem export', () => {
+  it('renders layers that add up to the stereo mix', async () => {
+    const journey = compressJourney(structuredClone(presets.deep_rest), 20);
+    journey.layers = { ...journey.layers, texture_layer: true };
+    journey.phases[1].binaural_enabled = true;
+    const renderer = new StreamingRenderer(SAMPLE_RATE, 2, 5);
+
+    const mix: Float32Array[] = [];
+    await renderer.render(journey, (channels) => void mix.push(...channels.map((channel) => channel.slice())));
+    const blocks: StemBlock[] = [];
+    await renderer.renderStems(journey, (stems) => void blocks.push(stems));
+
+    assert.deepEqual(renderer.getExportStems(journey), ['foundation', 'harmony', 'atmosphere', 'binaural']);
+    let maxError = 0;
+    blocks.forEach((stems, block) => {
+      const [left, right] = mapStemChannels(stems, ['binaural_left', 'binaural_right']);
+      for (let i = 0; i < left.length; i++) {
+        const bed = stems.foundation[i] + stems.harmony[i] + stems.atmosphere[i] + stems.melody[i];
+        maxError = Math.max(
+          maxError,
+          Math.abs(bed + left[i] - mix[block * 2][i]),
+          Math.abs(bed + right[i] - mix[block * 2 + 1][i])
+        );
+      }
+      assert.equal(getStemChannels(stems, 'binaural').length, 2);
+    });
+    // The mix soft-clips above 0.95, which the stems do not
+    assert.ok(maxError < 1e-3, `max error ${maxError}`);
+  });
+
+  it('writes WAVE_FORMAT_EXTENSIBLE headers above two channels', () => {
+    const stereo = new DataView(createWavHeader(2, 48000, 16, 100));
+    assert.equal(stereo.byteLength, 44);
+    assert.equal(stereo.getUint16(20, true), 1);
+
+    const header = new DataView(createWavHeader(6, 48000, 24, 100));
+    assert.equal(header.byteLength, 68);
+    assert.equal(header.getUint32(4, true), 60 + 100 * 6 * 3);
+    assert.equal(header.getUint32(16, true), 40);
+    assert.equal(header.getUint16(20, true), 0xfffe);
+    assert.equal(header.getUint16(32, true), 18);     // Block align
+    assert.equal(header.getUint16(38, true), 24);     // Valid bits
+    assert.equal(header.getUint32(44, true), 1);      // PCM sub-format
+    assert.equal(header.getUint32(60, true), 0x61746164); // 'data'
+    assert.equal(header.getUint32(64, true), 100 * 6 * 3);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Signal analysis helpers for the parity tests
+ * Level, fundamental frequency and entrainment (amplitude modulation) rate of a rendered window
+ */
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Hann-windowed magnitude spectrum of a signal (length must be a power of two)
+ */
+function magnitudeSpectrum(signal: Float32Array | Float64Array): Float64Array {
+  const n = signal.length;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    re[i] = signal[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+  fft(re, im);
+
+  const magnitudes = new Float64Array(n / 2);
+  for (let i = 0; i < n / 2; i++) {
+    magnitudes[i] = Math.hypot(re[i], im[i]);
+  }
+  return magnitudes;
+}
+
+/**
+ * Strongest spectral peak within [minHz, maxHz], refined by parabolic interpolation
+ */
+function findPeak(
+  magnitudes: Float64Array,
+  binHz: number,
+  minHz: number,
+  maxHz: number
+): { frequency: number; magnitude: number; prominence: number } {
+  const first = Math.max(1, Math.ceil(minHz / binHz));
+  const last = Math.min(magnitudes.length - 2, Math.floor(maxHz / binHz));
+
+  let best = first;
+  for (let i = first; i <= last; i++) {
+    if (magnitudes[i] > magnitudes[best]) best = i;
+  }
+
+  const a = magnitudes[best - 1];
+  const b = magnitudes[best];
+  const c = magnitudes[best + 1];
+  const denominator = a - 2 * b + c;
+  const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+
+  // Prominence: peak relative to the median of the searched band
+  const band = Array.from(magnitudes.subarray(first, last + 1)).sort((x, y) => x - y);
+  const median = band[Math.floor(band.length / 2)] || 1e-12;
+
+  return { frequency: (best + offset) * binHz, magnitude: b, prominence: b / median };
+}
+
+/**
+ * RMS level of a window in dB
+ */
+export function rmsDb(signal: Float32Array): number {
+  let sumSquares = 0;
+  for (let i = 0; i < signal.length; i++) {
+    sumSquares += signal[i] * signal[i];
+  }
+  const rms = Math.sqrt(sumSquares / Math.max(1, signal.length));
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+/**
+ * Dominant frequency of a window within a search band
+ */
+export function fundamentalFrequency(
+  signal: Float32Array,
+  sampleRate: number,
+  minHz: number = 15,
+  maxHz: number = 250
+): number {
+  return findPeak(magnitudeSpectrum(signal), sampleRate / signal.length, minHz, maxHz).frequency;
+}
+
+/**
+ * Amplitude-modulation rate of a window, searched around an expected rate
+ * The power envelope (x²) carries the modulation as a low-frequency component; prominence
+ * says how clearly it stands out, so a missing modulation is not mistaken for a match.
+ */
+export function entrainmentRate(
+  signal: Float32Array,
+  sampleRate: number,
+  expectedHz: number,
+  searchRatio: number = 0.2
+): { frequency: number; prominence: number } {
+  const power = new Float64Array(signal.length);
+  let mean = 0;
+  for (let i = 0; i < signal.length; i++) {
+    power[i] = signal[i] * signal[i];
+    mean += power[i] / signal.length;
+  }
+  for (let i = 0; i < power.length; i++) {
+    power[i] -= mean;
+  }
+
+  const peak = findPeak(
+    magnitudeSpectrum(power),
+    sampleRate / signal.length,
+    expectedHz * (1 - searchRatio),
+    expectedHz * (1 + searchRatio)
+  );
+  return { frequency: peak.frequency, prominence: peak.prominence };
+}
+
+/**
+ * Average the channels of a rendered buffer into one mono signal
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+  return mono;
+}
@@ -0,0 +1,39 @@
+/**
+ * Browser storage polyfill - IndexedDB (fake-indexeddb) and an in-memory localStorage for Node
+ * Import before the modules under test so the journey library opens against them. Each test
+ * file runs in its own process, so every file starts with an empty library.
+ */
+
+import 'fake-indexeddb/auto';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+if (typeof globalThis.localStorage === 'undefined') {
+  globalThis.localStorage = new MemoryStorage() as unknown as Storage;
+}
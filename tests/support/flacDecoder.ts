@@ -0,0 +1,174 @@
+/**
+ * Minimal FLAC decoder for the encoder tests
+ * Handles the subset the encoder writes: constant, verbatim and fixed subframes, Rice/Rice2
+ * residuals and independent or left/side channels. Checks every frame's CRC-16.
+ */
+
+export interface DecodedFlac {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  comments: string[];
+  samples: Int32Array[];
+}
+
+class BitReader {
+  position = 0; // in bits
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.bytes[this.position >> 3];
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(count: number): number {
+    const value = this.read(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  readRice(parameter: number): number {
+    const folded = this.readUnary() * 2 ** parameter + this.read(parameter);
+    return folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+  }
+
+  align(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+function decodeSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): Int32Array {
+  reader.read(1);
+  const type = reader.read(6);
+  if (reader.read(1)) throw new Error('Wasted bits are not supported');
+  const output = new Int32Array(blockSize);
+
+  if (type === 0) {
+    output.fill(reader.readSigned(bitsPerSample));
+    return output;
+  }
+  if (type === 1) {
+    for (let i = 0; i < blockSize; i++) output[i] = reader.readSigned(bitsPerSample);
+    return output;
+  }
+  if ((type & 0b111000) !== 0b001000) throw new Error(`Unsupported subframe type ${type}`);
+
+  const order = type & 0b111;
+  for (let i = 0; i < order; i++) output[i] = reader.readSigned(bitsPerSample);
+
+  const method = reader.read(2);
+  const partitionOrder = reader.read(4);
+  const partitions = 2 ** partitionOrder;
+  let index = order;
+  for (let p = 0; p < partitions; p++) {
+    const parameter = reader.read(method === 1 ? 5 : 4);
+    const count = (blockSize >> partitionOrder) - (p === 0 ? order : 0);
+    for (let i = 0; i < count; i++) output[index++] = reader.readRice(parameter);
+  }
+
+  const coefficients = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][order];
+  for (let i = order; i < blockSize; i++) {
+    let prediction = 0;
+    coefficients.forEach((coefficient, j) => (prediction += coefficient * output[i - 1 - j]));
+    output[i] += prediction;
+  }
+  return output;
+}
+
+/**
+ * Decode a FLAC file produced by the encoder
+ */
+export function decodeFlac(bytes: Uint8Array): DecodedFlac {
+  const reader = new BitReader(bytes);
+  if (String.fromCharCode(...bytes.subarray(0, 4)) !== 'fLaC') throw new Error('Missing fLaC marker');
+  reader.position = 32;
+
+  let sampleRate = 0;
+  let channels = 0;
+  let bitsPerSample = 0;
+  let totalSamples = 0;
+  const comments: string[] = [];
+
+  for (let last = 0; !last; ) {
+    last = reader.read(1);
+    const type = reader.read(7);
+    const length = reader.read(24);
+    const start = reader.position / 8;
+    if (type === 0) {
+      reader.read(16 + 16 + 24 + 24);
+      sampleRate = reader.read(20);
+      channels = reader.read(3) + 1;
+      bitsPerSample = reader.read(5) + 1;
+      totalSamples = reader.read(36);
+    } else if (type === 4) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + start, length);
+      const decoder = new TextDecoder();
+      let offset = 4 + view.getUint32(0, true);
+      const count = view.getUint32(offset, true);
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        const size = view.getUint32(offset, true);
+        comments.push(decoder.decode(bytes.subarray(start + offset + 4, start + offset + 4 + size)));
+        offset += 4 + size;
+      }
+    }
+    reader.position = (start + length) * 8;
+  }
+
+  const samples = Array.from({ length: channels }, () => new Int32Array(totalSamples));
+  let written = 0;
+  while (written < totalSamples) {
+    const frameStart = reader.position / 8;
+    if (reader.read(14) !== 0b11111111111110) throw new Error('Lost frame sync');
+    reader.read(2);
+    if (reader.read(4) !== 0b0111) throw new Error('Unexpected block size code');
+    reader.read(4);
+    const assignment = reader.read(4);
+    reader.read(4);
+    let lead = reader.read(8);
+    while ((lead & 0xc0) === 0xc0) {
+      reader.read(8);
+      lead = (lead << 1) & 0xff;
+    }
+    const blockSize = reader.read(16) + 1;
+    reader.read(8);
+
+    const subframes: Int32Array[] = [];
+    for (let ch = 0; ch < channels; ch++) {
+      const side = assignment === 0b1000 && ch === 1;
+      subframes.push(decodeSubframe(reader, blockSize, bitsPerSample + (side ? 1 : 0)));
+    }
+    reader.align();
+    const crc = crc16(bytes, frameStart, reader.position / 8);
+    if (reader.read(16) !== crc) throw new Error('Frame CRC mismatch');
+
+    if (assignment === 0b1000) {
+      for (let i = 0; i < blockSize; i++) subframes[1][i] = subframes[0][i] - subframes[1][i];
+    }
+    subframes.forEach((subframe, ch) => samples[ch].set(subframe, written));
+    written += blockSize;
+  }
+
+  return { sampleRate, channels, bitsPerSample, totalSamples, comments, samples };
+}
@@ -0,0 +1,89 @@
+/**
+ * Journey render paths for the parity tests
+ * Renders a journey through the live SynthEngine graph (on the Web Audio polyfill, with
+ * animation frames driven from the audio clock), through the sample-based OfflineRenderer and
+ * through the block-based StreamingRenderer.
+ */
+
+import type { JourneyConfig } from '../../src/types/journey';
+import { SynthEngine } from '../../src/audio/SynthEngine';
+import { OfflineRenderer } from '../../src/audio/OfflineRenderer';
+import { StreamingRenderer } from '../../src/audio/StreamingRenderer';
+import { installWebAudioPolyfill, PolyfillAudioContext, runAnimationFrame } from './webAudioPolyfill';
+import { mixToMono } from './analysis';
+
+const RENDER_QUANTUM = 128;
+
+/**
+ * Shorten every phase to the same length so whole presets render quickly
+ */
+export function compressJourney(config: JourneyConfig, phaseSeconds: number): JourneyConfig {
+  return {
+    ...config,
+    duration_minutes: (config.phases.length * phaseSeconds) / 60,
+    phases: config.phases.map((phase) => ({ ...phase, duration: phaseSeconds / 60 })),
+  };
+}
+
+/**
+ * Render a journey through SynthEngine's live graph
+ * The engine's requestAnimationFrame tick runs once per render quantum, exactly as if the
+ * browser delivered a frame at every audio callback. Adaptive gain is disabled because it
+ * only levels playback loudness, like the normalization stage of an export.
+ */
+export async function renderLive(config: JourneyConfig, sampleRate: number): Promise<Float32Array> {
+  const length = Math.ceil(config.duration_minutes * 60 * sampleRate);
+  installWebAudioPolyfill({ numberOfChannels: 2, length, sampleRate });
+
+  // PsychedelicEngine builds Tone.js nodes that cannot run on the polyfill; it is not
+  // routed to the output, so its initialization errors are silenced here
+  const consoleError = console.error;
+  console.error = () => {};
+
+  try {
+    const engine = new SynthEngine();
+    engine.setAdaptiveGainEnabled(false);
+    engine.init();
+    const ctx = PolyfillAudioContext.instances[0];
+
+    engine.setJourneyConfig(config);
+    engine.play();
+
+    for (let frame = RENDER_QUANTUM; frame < length; frame += RENDER_QUANTUM) {
+      ctx.suspend(frame / sampleRate).then(() => {
+        runAnimationFrame();
+        ctx.resume();
+      });
+    }
+
+    const buffer = await ctx.startRendering();
+    engine.dispose();
+    return mixToMono([buffer.getChannelData(0), buffer.getChannelData(1)]);
+  } finally {
+    console.error = consoleError;
+  }
+}
+
+/**
+ * Render a journey through OfflineRenderer.render (Oscillator/Envelope/SafetyProcessor path)
+ */
+export async function renderOffline(config: JourneyConfig, sampleRate: number): Promise<Float32Array> {
+  installWebAudioPolyfill({ numberOfChannels: 2, length: 0, sampleRate });
+  const buffer = await new OfflineRenderer(sampleRate, 2).render(config);
+  return mixToMono([buffer.getChannelData(0), buffer.getChannelData(1)]);
+}
+
+/**
+ * Render a journey through StreamingRenderer (the render worker path behind WAV/FLAC and stem
+ * exports), collecting its blocks into one signal
+ */
+export async function renderStreaming(config: JourneyConfig, sampleRate: number): Promise<Float32Array> {
+  const renderer = new StreamingRenderer(sampleRate, 2);
+  const left = new Float32Array(renderer.getTotalFrames(config));
+  const right = new Float32Array(left.length);
+  await renderer.render(config, (channels, startFrame) => {
+    left.set(channels[0], startFrame);
+    right.set(channels[1], startFrame);
+  });
+  return mixToMono([left, right]);
+}
@@ -0,0 +1,833 @@
+/**
+ * Web Audio polyfill - Deterministic, pure-TypeScript subset of the Web Audio API for Node
+ * Implements the nodes SynthEngine and OfflineRenderer use (oscillator, gain, stereo panner,
+ * analyser, channel splitter, dynamics compressor, buffers) on top of an OfflineAudioContext with suspend/resume,
+ * so the live graph can be rendered headlessly and compared against the offline renderer.
+ */
+
+const RENDER_QUANTUM = 128;
+
+type ChannelData = Float32Array[];
+
+type AutomationEvent =
+  | { type: 'set'; time: number; value: number }
+  | { type: 'linear' | 'exponential'; time: number; value: number }
+  | { type: 'target'; time: number; value: number; timeConstant: number };
+
+type TargetEvent = Extract<AutomationEvent, { type: 'target' }>;
+
+/**
+ * Sum a list of node outputs, up-mixing mono to stereo ("speakers" interpretation)
+ */
+function mixOutputs(outputs: ChannelData[], minChannels: number = 1): ChannelData {
+  const channelCount = outputs.reduce((max, data) => Math.max(max, data.length), minChannels);
+  const mixed: ChannelData = [];
+  for (let ch = 0; ch < channelCount; ch++) {
+    mixed.push(new Float32Array(RENDER_QUANTUM));
+  }
+
+  for (const data of outputs) {
+    for (let ch = 0; ch < channelCount; ch++) {
+      const source = data.length === 1 ? data[0] : data[ch];
+      if (!source) continue;
+      const target = mixed[ch];
+      for (let i = 0; i < RENDER_QUANTUM; i++) {
+        target[i] += source[i];
+      }
+    }
+  }
+
+  return mixed;
+}
+
+/**
+ * Down-mix any channel layout to mono
+ */
+function downmixToMono(data: ChannelData): Float32Array {
+  if (data.length === 1) return data[0];
+  const mono = new Float32Array(RENDER_QUANTUM);
+  for (const channel of data) {
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      mono[i] += channel[i] / data.length;
+    }
+  }
+  return mono;
+}
+
+export class PolyfillAudioParam {
+  readonly defaultValue: number;
+  readonly minValue = -3.4028234663852886e38;
+  readonly maxValue = 3.4028234663852886e38;
+  automationRate: AutomationRate = 'a-rate';
+  readonly inputs: PolyfillAudioNode[] = [];
+
+  private context: PolyfillOfflineAudioContext;
+  private events: AutomationEvent[] = [];
+  private current: number;
+  private lastEventTime: number;
+  private lastEventValue: number;
+  private target: TargetEvent | null = null;
+  private targetStartValue = 0;
+  private cache: { quantum: number; data: Float32Array } = { quantum: -1, data: new Float32Array(0) };
+
+  constructor(context: PolyfillOfflineAudioContext, defaultValue: number) {
+    this.context = context;
+    this.defaultValue = defaultValue;
+    this.current = defaultValue;
+    this.lastEventTime = context.currentTime;
+    this.lastEventValue = defaultValue;
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  set value(value: number) {
+    this.current = value;
+    this.setValueAtTime(value, this.context.currentTime);
+  }
+
+  setValueAtTime(value: number, startTime: number): this {
+    return this.insert({ type: 'set', time: startTime, value });
+  }
+
+  linearRampToValueAtTime(value: number, endTime: number): this {
+    return this.insert({ type: 'linear', time: endTime, value });
+  }
+
+  exponentialRampToValueAtTime(value: number, endTime: number): this {
+    return this.insert({ type: 'exponential', time: endTime, value });
+  }
+
+  setTargetAtTime(target: number, startTime: number, timeConstant: number): this {
+    return this.insert({ type: 'target', time: startTime, value: target, timeConstant });
+  }
+
+  cancelScheduledValues(cancelTime: number): this {
+    this.events = this.events.filter((event) => event.time < cancelTime);
+    if (this.target && this.target.time >= cancelTime) {
+      this.target = null;
+    }
+    return this;
+  }
+
+  cancelAndHoldAtTime(cancelTime: number): this {
+    return this.cancelScheduledValues(cancelTime);
+  }
+
+  /**
+   * Compute the parameter's per-sample values for a render quantum (automation + connected inputs)
+   */
+  process(quantum: number): Float32Array {
+    if (this.cache.quantum === quantum) return this.cache.data;
+
+    const sampleRate = this.context.sampleRate;
+    const data = new Float32Array(RENDER_QUANTUM);
+    const startFrame = quantum * RENDER_QUANTUM;
+
+    if (this.events.length === 0 && !this.target) {
+      data.fill(this.current);
+    } else {
+      for (let i = 0; i < RENDER_QUANTUM; i++) {
+        data[i] = this.valueAt((startFrame + i) / sampleRate);
+      }
+    }
+
+    for (const input of this.inputs) {
+      const modulation = downmixToMono(input.process(quantum));
+      for (let i = 0; i < RENDER_QUANTUM; i++) {
+        data[i] += modulation[i];
+      }
+    }
+
+    this.cache = { quantum, data };
+    return data;
+  }
+
+  private insert(event: AutomationEvent): this {
+    let index = this.events.length;
+    while (index > 0 && this.events[index - 1].time > event.time) {
+      index--;
+    }
+    this.events.splice(index, 0, event);
+    return this;
+  }
+
+  /**
+   * Advance the automation timeline to time t (must be called with increasing t)
+   */
+  private valueAt(t: number): number {
+    for (;;) {
+      const next = this.events[0];
+      if (!next) break;
+
+      if (next.type === 'linear' || next.type === 'exponential') {
+        if (t >= next.time) {
+          this.events.shift();
+          this.current = next.value;
+          this.lastEventTime = next.time;
+          this.lastEventValue = next.value;
+          this.target = null;
+          continue;
+        }
+
+        const span = next.time - this.lastEventTime;
+        const x = span > 0 ? Math.max(0, (t - this.lastEventTime) / span) : 1;
+        const v0 = this.lastEventValue;
+        if (next.type === 'linear') {
+          this.current = v0 + (next.value - v0) * x;
+        } else if (v0 !== 0 && v0 * next.value > 0) {
+          this.current = v0 * Math.pow(next.value / v0, x);
+        } else {
+          this.current = v0;
+        }
+        return this.current;
+      }
+
+      if (next.time > t) break;
+
+      this.events.shift();
+      this.lastEventTime = next.time;
+      if (next.type === 'set') {
+        this.current = next.value;
+        this.target = null;
+      } else if (next.type === 'target') {
+        this.target = next;
+        this.targetStartValue = this.current;
+      }
+    }
+
+    if (this.target) {
+      const target = this.target;
+      this.current =
+        target.value + (this.targetStartValue - target.value) * Math.exp(-(t - target.time) / target.timeConstant);
+    }
+
+    this.lastEventValue = this.current;
+    return this.current;
+  }
+}
+
+export abstract class PolyfillAudioNode {
+  readonly context: PolyfillOfflineAudioContext;
+  readonly inputs: PolyfillAudioNode[] = [];
+  channelCount = 2;
+  channelCountMode: ChannelCountMode = 'max';
+  channelInterpretation: ChannelInterpretation = 'speakers';
+
+  private outputs: (PolyfillAudioNode | PolyfillAudioParam)[] = [];
+  private cache: { quantum: number; data: ChannelData } = { quantum: -1, data: [] };
+
+  constructor(context: PolyfillOfflineAudioContext) {
+    this.context = context;
+  }
+
+  connect<T extends PolyfillAudioNode | PolyfillAudioParam>(destination: T): T {
+    destination.inputs.push(this);
+    this.outputs.push(destination);
+    return destination;
+  }
+
+  disconnect(destination?: PolyfillAudioNode | PolyfillAudioParam): void {
+    const targets = destination ? [destination] : this.outputs;
+    for (const target of targets) {
+      const index = target.inputs.indexOf(this);
+      if (index >= 0) target.inputs.splice(index, 1);
+    }
+    this.outputs = destination ? this.outputs.filter((output) => output !== destination) : [];
+  }
+
+  /**
+   * Output of this node for a render quantum (computed once per quantum)
+   */
+  process(quantum: number): ChannelData {
+    if (this.cache.quantum !== quantum) {
+      this.cache = { quantum, data: this.render(quantum) };
+    }
+    return this.cache.data;
+  }
+
+  protected mixInputs(quantum: number): ChannelData {
+    return mixOutputs(this.inputs.map((input) => input.process(quantum)));
+  }
+
+  protected abstract render(quantum: number): ChannelData;
+}
+
+type EndedListener = () => void;
+
+export class PolyfillPeriodicWave {
+  readonly real: Float32Array;
+  readonly imag: Float32Array;
+
+  constructor(real: ArrayLike<number>, imag: ArrayLike<number>, constraints: PeriodicWaveConstraints = {}) {
+    this.real = Float32Array.from(real);
+    this.imag = Float32Array.from(imag);
+    this.real[0] = 0; // The DC term is ignored
+    this.imag[0] = 0;
+
+    if (!constraints.disableNormalization) {
+      // Scale so the peak of one period is 1
+      let peak = 0;
+      for (let n = 0; n < 1024; n++) {
+        peak = Math.max(peak, Math.abs(this.valueAt((2 * Math.PI * n) / 1024)));
+      }
+      if (peak > 0) {
+        for (let k = 0; k < this.real.length; k++) {
+          this.real[k] /= peak;
+          this.imag[k] /= peak;
+        }
+      }
+    }
+  }
+
+  valueAt(phase: number): number {
+    let value = 0;
+    for (let k = 1; k < this.real.length; k++) {
+      value += this.real[k] * Math.cos(k * phase) + this.imag[k] * Math.sin(k * phase);
+    }
+    return value;
+  }
+}
+
+export class PolyfillOscillatorNode extends PolyfillAudioNode {
+  readonly frequency: PolyfillAudioParam;
+  readonly detune: PolyfillAudioParam;
+  type: OscillatorType = 'sine';
+  onended: EndedListener | null = null;
+
+  private startTime = Infinity;
+  private stopTime = Infinity;
+  private phase = 0;
+  private ended = false;
+  private listeners: EndedListener[] = [];
+  private periodicWave: PolyfillPeriodicWave | null = null;
+
+  constructor(context: PolyfillOfflineAudioContext) {
+    super(context);
+    this.frequency = new PolyfillAudioParam(context, 440);
+    this.detune = new PolyfillAudioParam(context, 0);
+  }
+
+  start(when: number = 0): void {
+    this.startTime = when;
+  }
+
+  stop(when: number = 0): void {
+    this.stopTime = Math.max(when, this.context.currentTime);
+  }
+
+  setPeriodicWave(wave: PolyfillPeriodicWave): void {
+    this.periodicWave = wave;
+    this.type = 'custom';
+  }
+
+  addEventListener(type: string, listener: EndedListener): void {
+    if (type === 'ended') this.listeners.push(listener);
+  }
+
+  removeEventListener(type: string, listener: EndedListener): void {
+    if (type === 'ended') this.listeners = this.listeners.filter((l) => l !== listener);
+  }
+
+  /**
+   * Fire 'ended' once the stop time has passed (called by the context after each quantum)
+   */
+  checkEnded(time: number): boolean {
+    if (this.ended || time < this.stopTime) return false;
+    this.ended = true;
+    this.onended?.();
+    for (const listener of this.listeners) listener();
+    return true;
+  }
+
+  protected render(quantum: number): ChannelData {
+    const output = new Float32Array(RENDER_QUANTUM);
+    const sampleRate = this.context.sampleRate;
+    const startFrame = quantum * RENDER_QUANTUM;
+    const frequency = this.frequency.process(quantum);
+    const detune = this.detune.process(quantum);
+    const twoPi = 2 * Math.PI;
+
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      const t = (startFrame + i) / sampleRate;
+      if (t < this.startTime || t >= this.stopTime) continue;
+
+      output[i] = this.waveform(this.phase);
+      const freq = detune[i] !== 0 ? frequency[i] * Math.pow(2, detune[i] / 1200) : frequency[i];
+      this.phase += (twoPi * freq) / sampleRate;
+      if (this.phase > twoPi) this.phase -= twoPi * Math.floor(this.phase / twoPi);
+    }
+
+    return [output];
+  }
+
+  private waveform(phase: number): number {
+    const t = phase / (2 * Math.PI);
+    switch (this.type) {
+      case 'custom':
+        return this.periodicWave ? this.periodicWave.valueAt(phase) : 0;
+      case 'square':
+        return t - Math.floor(t) < 0.5 ? 1 : -1;
+      case 'sawtooth':
+        return 2 * (t - Math.floor(t + 0.5));
+      case 'triangle':
+        return 4 * Math.abs(t - Math.floor(t + 0.75) + 0.25) - 1;
+      default:
+        return Math.sin(phase);
+    }
+  }
+}
+
+export class PolyfillGainNode extends PolyfillAudioNode {
+  readonly gain: PolyfillAudioParam;
+
+  constructor(context: PolyfillOfflineAudioContext) {
+    super(context);
+    this.gain = new PolyfillAudioParam(context, 1);
+  }
+
+  protected render(quantum: number): ChannelData {
+    const input = this.mixInputs(quantum);
+    const gain = this.gain.process(quantum);
+    return input.map((channel) => {
+      const output = new Float32Array(RENDER_QUANTUM);
+      for (let i = 0; i < RENDER_QUANTUM; i++) {
+        output[i] = channel[i] * gain[i];
+      }
+      return output;
+    });
+  }
+}
+
+export class PolyfillStereoPannerNode extends PolyfillAudioNode {
+  readonly pan: PolyfillAudioParam;
+
+  constructor(context: PolyfillOfflineAudioContext) {
+    super(context);
+    this.pan = new PolyfillAudioParam(context, 0);
+  }
+
+  /**
+   * Equal-power panning as specified for StereoPannerNode
+   */
+  protected render(quantum: number): ChannelData {
+    const input = this.mixInputs(quantum);
+    const pan = this.pan.process(quantum);
+    const left = new Float32Array(RENDER_QUANTUM);
+    const right = new Float32Array(RENDER_QUANTUM);
+
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      const p = Math.max(-1, Math.min(1, pan[i]));
+      if (input.length === 1) {
+        const x = ((p + 1) / 2) * (Math.PI / 2);
+        left[i] = input[0][i] * Math.cos(x);
+        right[i] = input[0][i] * Math.sin(x);
+      } else {
+        const x = (p <= 0 ? p + 1 : p) * (Math.PI / 2);
+        const gainL = Math.cos(x);
+        const gainR = Math.sin(x);
+        if (p <= 0) {
+          left[i] = input[0][i] + input[1][i] * gainL;
+          right[i] = input[1][i] * gainR;
+        } else {
+          left[i] = input[0][i] * gainL;
+          right[i] = input[1][i] + input[0][i] * gainR;
+        }
+      }
+    }
+
+    return [left, right];
+  }
+}
+
+export class PolyfillAnalyserNode extends PolyfillAudioNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+  minDecibels = -100;
+  maxDecibels = -30;
+
+  private history = new Float32Array(32768);
+  private writeIndex = 0;
+
+  get frequencyBinCount(): number {
+    return this.fftSize / 2;
+  }
+
+  getFloatTimeDomainData(array: Float32Array): void {
+    const count = Math.min(array.length, this.fftSize);
+    for (let i = 0; i < count; i++) {
+      const index = (this.writeIndex - count + i + this.history.length) % this.history.length;
+      array[i] = this.history[index];
+    }
+  }
+
+  protected render(quantum: number): ChannelData {
+    const input = this.mixInputs(quantum);
+    const mono = downmixToMono(input);
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      this.history[this.writeIndex] = mono[i];
+      this.writeIndex = (this.writeIndex + 1) % this.history.length;
+    }
+    return input;
+  }
+}
+
+/**
+ * Feed-forward peak compressor (threshold/knee/ratio with attack/release smoothing)
+ * Approximates DynamicsCompressorNode without the browser's automatic makeup gain.
+ */
+/**
+ * Channel splitter - each output carries one input channel; connect(destination, output) picks it
+ */
+export class PolyfillChannelSplitterNode extends PolyfillAudioNode {
+  readonly numberOfOutputs: number;
+  private taps: PolyfillChannelTap[];
+
+  constructor(context: PolyfillOfflineAudioContext, numberOfOutputs: number) {
+    super(context);
+    this.numberOfOutputs = numberOfOutputs;
+    this.taps = Array.from({ length: numberOfOutputs }, (_, index) => new PolyfillChannelTap(context, this, index));
+  }
+
+  connect<T extends PolyfillAudioNode | PolyfillAudioParam>(destination: T, output: number = 0): T {
+    const tap = this.taps[output];
+    if (!tap) throw new DOMException('Invalid splitter output', 'IndexSizeError');
+    return tap.connect(destination);
+  }
+
+  disconnect(destination?: PolyfillAudioNode | PolyfillAudioParam): void {
+    for (const tap of this.taps) tap.disconnect(destination);
+  }
+
+  protected render(quantum: number): ChannelData {
+    return this.mixInputs(quantum);
+  }
+}
+
+class PolyfillChannelTap extends PolyfillAudioNode {
+  private readonly splitter: PolyfillChannelSplitterNode;
+  private readonly index: number;
+
+  constructor(context: PolyfillOfflineAudioContext, splitter: PolyfillChannelSplitterNode, index: number) {
+    super(context);
+    this.splitter = splitter;
+    this.index = index;
+  }
+
+  protected render(quantum: number): ChannelData {
+    const input = this.splitter.process(quantum);
+    return [input[this.index] ?? new Float32Array(RENDER_QUANTUM)];
+  }
+}
+
+export class PolyfillDynamicsCompressorNode extends PolyfillAudioNode {
+  readonly threshold: PolyfillAudioParam;
+  readonly knee: PolyfillAudioParam;
+  readonly ratio: PolyfillAudioParam;
+  readonly attack: PolyfillAudioParam;
+  readonly release: PolyfillAudioParam;
+  private gainReduction = 0; // dB, positive
+
+  constructor(context: PolyfillOfflineAudioContext) {
+    super(context);
+    this.threshold = new PolyfillAudioParam(context, -24);
+    this.knee = new PolyfillAudioParam(context, 30);
+    this.ratio = new PolyfillAudioParam(context, 12);
+    this.attack = new PolyfillAudioParam(context, 0.003);
+    this.release = new PolyfillAudioParam(context, 0.25);
+  }
+
+  protected render(quantum: number): ChannelData {
+    const input = this.mixInputs(quantum);
+    const sampleRate = this.context.sampleRate;
+    const threshold = this.threshold.process(quantum)[0];
+    const knee = this.knee.process(quantum)[0];
+    const ratio = this.ratio.process(quantum)[0];
+    const attackCoeff = Math.exp(-1 / (Math.max(1e-4, this.attack.process(quantum)[0]) * sampleRate));
+    const releaseCoeff = Math.exp(-1 / (Math.max(1e-4, this.release.process(quantum)[0]) * sampleRate));
+    const output = input.map(() => new Float32Array(RENDER_QUANTUM));
+
+    for (let i = 0; i < RENDER_QUANTUM; i++) {
+      let peak = 0;
+      for (const channel of input) peak = Math.max(peak, Math.abs(channel[i]));
+      const levelDb = peak > 1e-9 ? 20 * Math.log10(peak) : -180;
+
+      // Static curve with a quadratic soft knee
+      const over = levelDb - threshold;
+      let targetReduction = 0;
+      if (2 * over > knee) {
+        targetReduction = over - over / ratio;
+      } else if (knee > 0 && 2 * Math.abs(over) <= knee) {
+        targetReduction = ((1 - 1 / ratio) * Math.pow(over + knee / 2, 2)) / (2 * knee);
+      }
+
+      const coeff = targetReduction > this.gainReduction ? attackCoeff : releaseCoeff;
+      this.gainReduction = targetReduction + coeff * (this.gainReduction - targetReduction);
+
+      const gain = Math.pow(10, -this.gainReduction / 20);
+      for (let ch = 0; ch < input.length; ch++) {
+        output[ch][i] = input[ch][i] * gain;
+      }
+    }
+
+    return output;
+  }
+
+  get reduction(): number {
+    return -this.gainReduction;
+  }
+}
+
+export class PolyfillAudioDestinationNode extends PolyfillAudioNode {
+  readonly maxChannelCount: number;
+
+  constructor(context: PolyfillOfflineAudioContext, numberOfChannels: number) {
+    super(context);
+    this.channelCount = numberOfChannels;
+    this.maxChannelCount = numberOfChannels;
+  }
+
+  protected render(quantum: number): ChannelData {
+    const input = mixOutputs(this.inputs.map((node) => node.process(quantum)), this.channelCount);
+    if (input.length === this.channelCount) return input;
+    if (this.channelCount === 1) return [downmixToMono(input)];
+    return input.slice(0, this.channelCount);
+  }
+}
+
+export class PolyfillAudioBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  private channels: Float32Array[];
+
+  constructor(options: { numberOfChannels?: number; length: number; sampleRate: number }) {
+    this.numberOfChannels = options.numberOfChannels ?? 1;
+    this.length = options.length;
+    this.sampleRate = options.sampleRate;
+    this.channels = [];
+    for (let ch = 0; ch < this.numberOfChannels; ch++) {
+      this.channels.push(new Float32Array(this.length));
+    }
+  }
+
+  get duration(): number {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array {
+    const data = this.channels[channel];
+    if (!data) throw new RangeError(`Channel ${channel} does not exist`);
+    return data;
+  }
+
+  copyFromChannel(destination: Float32Array, channel: number, offset: number = 0): void {
+    destination.set(this.getChannelData(channel).subarray(offset, offset + destination.length));
+  }
+
+  copyToChannel(source: Float32Array, channel: number, offset: number = 0): void {
+    this.getChannelData(channel).set(source, offset);
+  }
+}
+
+interface OfflineContextOptions {
+  numberOfChannels?: number;
+  length: number;
+  sampleRate: number;
+}
+
+export class PolyfillOfflineAudioContext {
+  readonly sampleRate: number;
+  readonly length: number;
+  readonly destination: PolyfillAudioDestinationNode;
+  state: AudioContextState = 'suspended';
+  onstatechange: (() => void) | null = null;
+
+  private frame = 0;
+  private oscillators: PolyfillOscillatorNode[] = [];
+  private tails: PolyfillAnalyserNode[] = [];
+  private suspensions = new Map<number, () => void>();
+  private resumeWaiter: (() => void) | null = null;
+  private numberOfChannels: number;
+
+  constructor(options: OfflineContextOptions);
+  constructor(numberOfChannels: number, length: number, sampleRate: number);
+  constructor(optionsOrChannels: OfflineContextOptions | number, length?: number, sampleRate?: number) {
+    const options: OfflineContextOptions =
+      typeof optionsOrChannels === 'number'
+        ? { numberOfChannels: optionsOrChannels, length: length ?? 0, sampleRate: sampleRate ?? 44100 }
+        : optionsOrChannels;
+
+    this.numberOfChannels = options.numberOfChannels ?? 1;
+    this.length = options.length;
+    this.sampleRate = options.sampleRate;
+    this.destination = new PolyfillAudioDestinationNode(this, this.numberOfChannels);
+  }
+
+  get currentTime(): number {
+    return this.frame / this.sampleRate;
+  }
+
+  createOscillator(): PolyfillOscillatorNode {
+    const oscillator = new PolyfillOscillatorNode(this);
+    this.oscillators.push(oscillator);
+    return oscillator;
+  }
+
+  createGain(): PolyfillGainNode {
+    return new PolyfillGainNode(this);
+  }
+
+  createPeriodicWave(
+    real: ArrayLike<number>,
+    imag: ArrayLike<number>,
+    constraints?: PeriodicWaveConstraints
+  ): PolyfillPeriodicWave {
+    return new PolyfillPeriodicWave(real, imag, constraints);
+  }
+
+  createStereoPanner(): PolyfillStereoPannerNode {
+    return new PolyfillStereoPannerNode(this);
+  }
+
+  createAnalyser(): PolyfillAnalyserNode {
+    const analyser = new PolyfillAnalyserNode(this);
+    this.tails.push(analyser);
+    return analyser;
+  }
+
+  createChannelSplitter(numberOfOutputs: number = 6): PolyfillChannelSplitterNode {
+    return new PolyfillChannelSplitterNode(this, numberOfOutputs);
+  }
+
+  createDynamicsCompressor(): PolyfillDynamicsCompressorNode {
+    return new PolyfillDynamicsCompressorNode(this);
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number): PolyfillAudioBuffer {
+    return new PolyfillAudioBuffer({ numberOfChannels, length, sampleRate });
+  }
+
+  /**
+   * Suspend rendering at a time (rounded up to a render quantum boundary)
+   */
+  suspend(suspendTime: number): Promise<void> {
+    const quantum = Math.ceil((suspendTime * this.sampleRate) / RENDER_QUANTUM - 1e-9);
+    if (this.suspensions.has(quantum) || quantum * RENDER_QUANTUM < this.frame) {
+      return Promise.reject(new DOMException('Invalid suspend time', 'InvalidStateError'));
+    }
+    return new Promise((resolve) => this.suspensions.set(quantum, resolve));
+  }
+
+  resume(): Promise<void> {
+    this.setState('running');
+    const waiter = this.resumeWaiter;
+    this.resumeWaiter = null;
+    waiter?.();
+    return Promise.resolve();
+  }
+
+  async startRendering(): Promise<PolyfillAudioBuffer> {
+    const buffer = this.createBuffer(this.numberOfChannels, this.length, this.sampleRate);
+    const quanta = Math.ceil(this.length / RENDER_QUANTUM);
+    this.setState('running');
+
+    for (let quantum = 0; quantum < quanta; quantum++) {
+      this.frame = quantum * RENDER_QUANTUM;
+
+      const suspension = this.suspensions.get(quantum);
+      if (suspension) {
+        this.suspensions.delete(quantum);
+        this.setState('suspended');
+        await new Promise<void>((resolve) => {
+          this.resumeWaiter = resolve;
+          suspension();
+        });
+      }
+
+      const output = this.destination.process(quantum);
+      for (const tail of this.tails) tail.process(quantum);
+
+      const count = Math.min(RENDER_QUANTUM, this.length - this.frame);
+      for (let ch = 0; ch < this.numberOfChannels; ch++) {
+        buffer.getChannelData(ch).set(output[ch].subarray(0, count), this.frame);
+      }
+
+      // Fire 'ended' for oscillators whose stop time has passed, then forget them
+      const endTime = (this.frame + RENDER_QUANTUM) / this.sampleRate;
+      this.oscillators = this.oscillators.filter((oscillator) => !oscillator.checkEnded(endTime));
+    }
+
+    this.frame = this.length;
+    this.setState('closed');
+    return buffer;
+  }
+
+  private setState(state: AudioContextState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.onstatechange?.();
+  }
+}
+
+/**
+ * Realtime-style AudioContext backed by the offline polyfill
+ * The constructor takes no arguments (as SynthEngine calls it), so the render length and rate
+ * come from installWebAudioPolyfill(). suspend()/resume()/close() without a time only change state.
+ */
+export class PolyfillAudioContext extends PolyfillOfflineAudioContext {
+  static instances: PolyfillAudioContext[] = [];
+  static defaults: OfflineContextOptions = { numberOfChannels: 2, length: 0, sampleRate: 44100 };
+
+  constructor() {
+    super(PolyfillAudioContext.defaults);
+    this.state = 'running';
+    PolyfillAudioContext.instances.push(this);
+  }
+
+  suspend(suspendTime?: number): Promise<void> {
+    if (suspendTime === undefined) {
+      this.state = 'suspended';
+      return Promise.resolve();
+    }
+    return super.suspend(suspendTime);
+  }
+
+  close(): Promise<void> {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+}
+
+let pendingFrame: FrameRequestCallback | null = null;
+
+/**
+ * Install the polyfill as the global Web Audio API and a manually driven requestAnimationFrame
+ */
+export function installWebAudioPolyfill(options: OfflineContextOptions): void {
+  PolyfillAudioContext.defaults = options;
+  PolyfillAudioContext.instances = [];
+  pendingFrame = null;
+
+  const scope = globalThis as Record<string, unknown>;
+  scope.AudioContext = PolyfillAudioContext;
+  scope.OfflineAudioContext = PolyfillOfflineAudioContext;
+  scope.AudioBuffer = PolyfillAudioBuffer;
+  scope.requestAnimationFrame = (callback: FrameRequestCallback) => {
+    pendingFrame = callback;
+    return 1;
+  };
+  scope.cancelAnimationFrame = () => {
+    pendingFrame = null;
+  };
+}
+
+/**
+ * Run the pending requestAnimationFrame callback, as a browser would on the next frame
+ */
+export function runAnimationFrame(): void {
+  const callback = pendingFrame;
+  pendingFrame = null;
+  callback?.(performance.now());
+}
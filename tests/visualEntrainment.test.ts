@@ -0,0 +1,78 @@
+/**
+ * Visual entrainment tests - Flash rate limiting, brightness cap and breathing guide
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NOVA_PATTERN_PRESETS } from '../src/types/journey';
+import {
+  MAX_VISUAL_FLICKER_HZ,
+  VISUAL_BRIGHTNESS_CAP,
+  breathAt,
+  createVisualFlickerScheduler,
+  flashBrightness,
+  limitPattern,
+} from '../src/audio/VisualEntrainment';
+
+/**
+ * Flash times (ms) over a simulated run, stepping by the scheduler's own intervals
+ */
+function simulateFlashes(pattern: (typeof NOVA_PATTERN_PRESETS)[string], maxHz: number, durationMs: number): number[] {
+  const scheduler = createVisualFlickerScheduler();
+  scheduler.start(pattern, durationMs, maxHz);
+  const flashes: number[] = [];
+  for (let now = 0; now < durationMs; ) {
+    const { interval, flash } = scheduler.next(now);
+    if (flash) flashes.push(now);
+    now += interval;
+  }
+  return flashes;
+}
+
+describe('visual entrainment', () => {
+  it('scales patterns down to the rate limit', () => {
+    assert.deepEqual(limitPattern(NOVA_PATTERN_PRESETS.steady_theta, 10), NOVA_PATTERN_PRESETS.steady_theta);
+
+    const sweep = limitPattern(NOVA_PATTERN_PRESETS.delta_to_alpha, 5);
+    assert.equal(sweep.targetFrequency, 5);
+    assert.equal(sweep.baseFrequency, 1.5);
+
+    const wave = limitPattern(NOVA_PATTERN_PRESETS.alpha_wave, 6);
+    assert.equal(wave.baseFrequency + wave.waveAmplitude!, 6);
+
+    // Requests above the hard ceiling are held to it
+    assert.equal(limitPattern(NOVA_PATTERN_PRESETS.steady_gamma, 40).baseFrequency, MAX_VISUAL_FLICKER_HZ);
+  });
+
+  it('never flashes faster than the limit, for any preset', () => {
+    for (const [name, pattern] of Object.entries(NOVA_PATTERN_PRESETS)) {
+      for (const maxHz of [3, 8]) {
+        const flashes = simulateFlashes(pattern, maxHz, 10_000);
+        const shortest = Math.min(...flashes.slice(1).map((time, i) => time - flashes[i]));
+        assert.ok(flashes.length > 0, name);
+        assert.ok(shortest >= 1000 / maxHz - 1, `${name} at ${maxHz} Hz: ${shortest} ms`);
+      }
+    }
+  });
+
+  it('keeps a steady flicker at the limit', () => {
+    const flashes = simulateFlashes(NOVA_PATTERN_PRESETS.steady_gamma, 3, 10_000);
+    assert.ok(Math.abs(flashes.length - 30) <= 1, `${flashes.length} flashes`);
+  });
+
+  it('caps flash brightness and returns to dark between flashes', () => {
+    assert.equal(flashBrightness(0, 100, 1), VISUAL_BRIGHTNESS_CAP);
+    assert.equal(flashBrightness(0, 100, 2), VISUAL_BRIGHTNESS_CAP);
+    assert.equal(flashBrightness(0, 100, 0.5), VISUAL_BRIGHTNESS_CAP / 2);
+    assert.equal(flashBrightness(50, 100, 1), 0);
+    assert.equal(flashBrightness(-5, 100, 1), 0);
+  });
+
+  it('paces the breathing guide', () => {
+    assert.deepEqual(breathAt(0, 10), { level: 0, inhaling: true });
+    assert.ok(Math.abs(breathAt(4, 10).level - 1) < 1e-9);
+    assert.equal(breathAt(5, 10).inhaling, false);
+    assert.ok(Math.abs(breathAt(7, 10).level - 0.5) < 1e-9);
+    assert.deepEqual(breathAt(12, 10), breathAt(2, 10));
+  });
+});